@@ -3,12 +3,15 @@
  * Football field discovery and pickup game organization
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect } from 'react';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
 import { AuthProvider, useAuth } from './src/features/auth';
 import { profileRepository } from './src/features/auth/repositories/profileRepository';
 import { AppearancePreference } from './src/features/auth/types';
+import { fieldRepository } from './src/features/fields/repositories/fieldRepository';
+import { favoriteService } from './src/features/fields/services/favoriteService';
+import { uploadQueue } from './src/features/fields/services/uploadQueue';
 import { ThemeProvider } from './src/features/theme';
 import { LoadingScreen } from './src/screens/LoadingScreen';
 import { MapScreen } from './src/screens/MapScreen';
@@ -18,7 +21,30 @@ import { MapScreen } from './src/screens/MapScreen';
  * Handles auth state and routing
  */
 function AppContent() {
-  const { isInitialized } = useAuth();
+  const { isInitialized, isGuest, user } = useAuth();
+  const userId = user?.id ?? null;
+
+  // Resume the user's photo uploads left over from earlier sessions once the session is restored
+  useEffect(() => {
+    if (isInitialized) {
+      uploadQueue.setUser(userId);
+      uploadQueue.start();
+    }
+  }, [isInitialized, userId]);
+
+  // Load the user's favorite fields; a guest's favorites are merged in when they sign in
+  useEffect(() => {
+    if (isInitialized) {
+      favoriteService.setUser(userId, isGuest);
+    }
+  }, [isInitialized, userId, isGuest]);
+
+  // Send fields saved as drafts while browsing as a guest for review once there's an account
+  useEffect(() => {
+    if (userId && !isGuest) {
+      fieldRepository.submitDrafts(userId);
+    }
+  }, [userId, isGuest]);
 
   // Show loading screen while checking auth state
   if (!isInitialized) {
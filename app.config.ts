@@ -27,6 +27,7 @@ export default (_config: ConfigContext): ExpoConfig => {
     ios: {
       supportsTablet: true,
       bundleIdentifier: 'com.downtoplay.app',
+      usesAppleSignIn: true,
       infoPlist: {
         CFBundleURLTypes: [
           {
@@ -104,6 +105,7 @@ export default (_config: ConfigContext): ExpoConfig => {
         },
       ],
       'expo-font',
+      'expo-apple-authentication',
       [
         '@novastera-oss/rn-google-signin',
         {
@@ -0,0 +1,198 @@
+/**
+ * Backfill address, city and country for fields created before reverse geocoding
+ *
+ * Usage:
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run backfill:addresses
+ *   Add --dry-run to print the results without saving them
+ *   Add --delay-ms=N to change the wait between geocoding requests (default 1100)
+ *   Set NOMINATIM_URL to use your own Nominatim server instead of the public one
+ *   Set NOMINATIM_EMAIL to a contact address sent along with each request
+ *
+ * The app geocodes with the device (src/infrastructure/geocoding), which isn't available
+ * outside it, so this uses the OpenStreetMap Nominatim API and maps its answer to the same
+ * parts the app saves: street and number, falling back to the place name.
+ *
+ * The public Nominatim server allows at most one request per second from an application
+ * that identifies itself, so the delay can only go lower on your own server. Requests that
+ * are rate limited wait for the server's Retry-After and are tried again.
+ * The service role key bypasses RLS, so only run this from a trusted machine.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const DRY_RUN = process.argv.includes('--dry-run');
+const REQUEST_INTERVAL_MS = Number(
+  process.argv.find((arg) => arg.startsWith('--delay-ms='))?.split('=')[1] ?? 1100
+);
+
+const PUBLIC_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+const NOMINATIM_URL = (process.env.NOMINATIM_URL || PUBLIC_NOMINATIM_URL).replace(/\/$/, '');
+const NOMINATIM_EMAIL = process.env.NOMINATIM_EMAIL;
+const USER_AGENT = 'DownToPlay-address-backfill/1.0';
+const MAX_RATE_LIMIT_RETRIES = 3;
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+const PAGE_SIZE = 100;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to run the backfill.');
+  process.exit(1);
+}
+
+if (!Number.isFinite(REQUEST_INTERVAL_MS) || REQUEST_INTERVAL_MS < 0) {
+  console.error('--delay-ms must be a number of milliseconds.');
+  process.exit(1);
+}
+
+if (NOMINATIM_URL === PUBLIC_NOMINATIM_URL && REQUEST_INTERVAL_MS < 1000) {
+  console.error(
+    'The public Nominatim server allows one request per second; use --delay-ms=1000 or more.'
+  );
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Request a reverse geocode, waiting and trying again while the server is rate limiting
+ */
+async function fetchReverse(params) {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(`${NOMINATIM_URL}/reverse?${params}`, {
+      headers: { 'User-Agent': USER_AGENT },
+    });
+
+    const isRateLimited = response.status === 429 || response.status === 503;
+    if (!isRateLimited || attempt >= MAX_RATE_LIMIT_RETRIES) {
+      if (!response.ok) {
+        throw new Error(`Nominatim responded with ${response.status}`);
+      }
+      return response.json();
+    }
+
+    const retryAfter = Number(response.headers.get('Retry-After')) || DEFAULT_RETRY_AFTER_SECONDS;
+    console.warn(`Rate limited by Nominatim, waiting ${retryAfter}s`);
+    await sleep(retryAfter * 1000);
+  }
+}
+
+/**
+ * Resolve coordinates to the address parts the app saves, or null when Nominatim knows
+ * nothing about them
+ */
+async function reverseGeocode(latitude, longitude) {
+  const params = new URLSearchParams({
+    lat: String(latitude),
+    lon: String(longitude),
+    format: 'jsonv2',
+    addressdetails: '1',
+  });
+  if (NOMINATIM_EMAIL) {
+    params.set('email', NOMINATIM_EMAIL);
+  }
+
+  const result = await fetchReverse(params);
+  const { address } = result;
+  if (!address) {
+    return null;
+  }
+
+  // Same parts as expoGeocoder, combined the way the create field form does
+  const street = [address.road, address.house_number].filter(Boolean).join(' ');
+  const name = result.name || address.leisure || address.amenity || null;
+
+  return {
+    address: street || name,
+    city:
+      address.city ||
+      address.town ||
+      address.village ||
+      address.municipality ||
+      address.county ||
+      null,
+    country: address.country || null,
+  };
+}
+
+async function main() {
+  let updated = 0;
+  let skipped = 0;
+  let failed = 0;
+  let lastId = null;
+
+  for (;;) {
+    let query = supabase
+      .from('fields')
+      .select('id, name, latitude, longitude, address, city, country')
+      .or('address.is.null,city.is.null,country.is.null')
+      .order('id')
+      .limit(PAGE_SIZE);
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    const { data: fields, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load fields: ${error.message}`);
+    }
+    if (fields.length === 0) {
+      break;
+    }
+
+    for (const field of fields) {
+      lastId = field.id;
+
+      try {
+        const result = await reverseGeocode(field.latitude, field.longitude);
+        if (!result) {
+          skipped++;
+          continue;
+        }
+
+        // Only fill the parts that are missing so manual edits are kept
+        const changes = {};
+        for (const key of ['address', 'city', 'country']) {
+          if (!field[key] && result[key]) {
+            changes[key] = result[key];
+          }
+        }
+
+        if (Object.keys(changes).length === 0) {
+          skipped++;
+          continue;
+        }
+
+        console.log(`${field.name}: ${Object.values(changes).join(', ')}`);
+        if (!DRY_RUN) {
+          const { error: updateError } = await supabase
+            .from('fields')
+            .update(changes)
+            .eq('id', field.id);
+          if (updateError) {
+            throw new Error(updateError.message);
+          }
+        }
+        updated++;
+      } catch (err) {
+        failed++;
+        console.error(`${field.name} (${field.id}): ${err.message}`);
+      } finally {
+        await sleep(REQUEST_INTERVAL_MS);
+      }
+    }
+  }
+
+  console.log(
+    `${DRY_RUN ? 'Would update' : 'Updated'} ${updated} fields, skipped ${skipped}, failed ${failed}.`
+  );
+}
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
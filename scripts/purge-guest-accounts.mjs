@@ -0,0 +1,49 @@
+/**
+ * Delete guest accounts that haven't been used for a while, along with their drafts
+ *
+ * Usage:
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run purge:guests
+ *   Add --min-age-days=N to change how long a guest must be inactive (default 30)
+ *
+ * Every app install without an account gets a guest account, so abandoned ones pile up.
+ * Photos of deleted drafts are removed afterwards by npm run purge:images.
+ * The service role key bypasses RLS, so only run this from a trusted machine.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const MIN_AGE_DAYS = Number(
+  process.argv.find((arg) => arg.startsWith('--min-age-days='))?.split('=')[1] ?? 30
+);
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to run the purge.');
+  process.exit(1);
+}
+
+if (!Number.isFinite(MIN_AGE_DAYS) || MIN_AGE_DAYS < 1) {
+  console.error('--min-age-days must be at least 1.');
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+async function main() {
+  const { data: purged, error } = await supabase.rpc('purge_stale_guest_accounts', {
+    min_age: `${MIN_AGE_DAYS} days`,
+  });
+  if (error) {
+    throw new Error(`Failed to purge guest accounts: ${error.message}`);
+  }
+
+  console.log(`Removed ${purged} guest accounts inactive for ${MIN_AGE_DAYS} days.`);
+}
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
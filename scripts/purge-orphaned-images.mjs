@@ -0,0 +1,111 @@
+/**
+ * Delete photos in the field-images bucket that no field uses, and list fields without photos
+ *
+ * Usage:
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run purge:images
+ *   Add --dry-run to print the orphaned files without deleting them
+ *   Add --min-age-days=N to change how old a file must be before it counts (default 7)
+ *
+ * Files are left alone for a while because queued uploads save their record after the file.
+ * The service role key bypasses RLS, so only run this from a trusted machine.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const DRY_RUN = process.argv.includes('--dry-run');
+const MIN_AGE_DAYS = Number(
+  process.argv.find((arg) => arg.startsWith('--min-age-days='))?.split('=')[1] ?? 7
+);
+
+const BUCKET = 'field-images';
+const REMOVE_BATCH_SIZE = 100;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to run the purge.');
+  process.exit(1);
+}
+
+if (!Number.isFinite(MIN_AGE_DAYS) || MIN_AGE_DAYS < 1) {
+  console.error('--min-age-days must be at least 1.');
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+async function findOrphanedImages() {
+  const { data, error } = await supabase.rpc('find_orphaned_field_images', {
+    min_age: `${MIN_AGE_DAYS} days`,
+  });
+  if (error) {
+    throw new Error(`Failed to find orphaned images: ${error.message}`);
+  }
+  return data;
+}
+
+async function purgeOrphanedImages() {
+  let removed = 0;
+  let failed = 0;
+
+  // Results are capped by the API's row limit, so keep going until nothing is left
+  for (;;) {
+    const orphans = await findOrphanedImages();
+    if (orphans.length === 0) {
+      break;
+    }
+
+    if (DRY_RUN) {
+      orphans.forEach((orphan) => console.log(`${orphan.name} (${orphan.created_at})`));
+      return { removed: orphans.length, failed };
+    }
+
+    const removedBefore = removed;
+    for (let i = 0; i < orphans.length; i += REMOVE_BATCH_SIZE) {
+      const paths = orphans.slice(i, i + REMOVE_BATCH_SIZE).map((orphan) => orphan.name);
+      const { error } = await supabase.storage.from(BUCKET).remove(paths);
+      if (error) {
+        failed += paths.length;
+        console.error(`Failed to remove ${paths.length} files: ${error.message}`);
+      } else {
+        removed += paths.length;
+        paths.forEach((path) => console.log(`Removed ${path}`));
+      }
+    }
+
+    // Stop instead of retrying the same files forever
+    if (removed === removedBefore) {
+      break;
+    }
+  }
+
+  return { removed, failed };
+}
+
+async function reportFieldsWithoutImages() {
+  const { data: fields, error } = await supabase.rpc('find_fields_without_images');
+  if (error) {
+    throw new Error(`Failed to find fields without images: ${error.message}`);
+  }
+
+  if (fields.length > 0) {
+    console.log(`\n${fields.length} fields have no photos:`);
+    fields.forEach((field) => console.log(`  ${field.name} (${field.id}, ${field.status})`));
+  }
+}
+
+async function main() {
+  const { removed, failed } = await purgeOrphanedImages();
+  console.log(
+    `${DRY_RUN ? 'Would remove' : 'Removed'} ${removed} orphaned files, failed ${failed}.`
+  );
+
+  await reportFieldsWithoutImages();
+}
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+import React, { useState, useCallback, memo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Marker } from 'react-native-maps';
+import { FieldCluster } from '@/utils/clustering';
+import { getSurfaceColor } from './FieldMarker';
+
+interface ClusterMarkerProps {
+  cluster: FieldCluster;
+  onPress: (cluster: FieldCluster) => void;
+}
+
+// Bubble size grows with the number of fields, within limits
+const getBubbleSize = (count: number): number => Math.min(56, 28 + Math.log10(count) * 14);
+
+function ClusterMarkerComponent({ cluster, onPress }: ClusterMarkerProps) {
+  const [tracksChanges, setTracksChanges] = useState(true);
+  const count = cluster.fields.length;
+  const size = getBubbleSize(count);
+  const color = getSurfaceColor(cluster.dominantSurface);
+
+  const handlePress = useCallback(() => {
+    onPress(cluster);
+  }, [cluster, onPress]);
+
+  // Stop tracking view changes once the bubble has rendered
+  const handleLayout = useCallback(() => {
+    setTimeout(() => setTracksChanges(false), 500);
+  }, []);
+
+  return (
+    <Marker
+      coordinate={cluster.coordinates}
+      onPress={handlePress}
+      anchor={{ x: 0.5, y: 0.5 }}
+      tracksViewChanges={tracksChanges}
+      onLayout={handleLayout}
+    >
+      <View
+        style={[
+          styles.bubble,
+          { backgroundColor: color, borderRadius: size / 2, height: size, width: size },
+        ]}
+      >
+        <Text style={styles.count}>{count > 999 ? '999+' : count}</Text>
+      </View>
+    </Marker>
+  );
+}
+
+// Memoize the component - clusters are rebuilt on every region change
+export const ClusterMarker = memo(ClusterMarkerComponent, (prevProps, nextProps) => {
+  return (
+    prevProps.cluster.key === nextProps.cluster.key &&
+    prevProps.cluster.fields.length === nextProps.cluster.fields.length &&
+    prevProps.cluster.dominantSurface === nextProps.cluster.dominantSurface &&
+    prevProps.cluster.coordinates.latitude === nextProps.cluster.coordinates.latitude &&
+    prevProps.cluster.coordinates.longitude === nextProps.cluster.coordinates.longitude &&
+    prevProps.onPress === nextProps.onPress
+  );
+});
+
+const styles = StyleSheet.create({
+  bubble: {
+    alignItems: 'center',
+    borderColor: '#FFFFFF',
+    borderWidth: 2,
+    elevation: 3,
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+  },
+  count: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+});
@@ -7,11 +7,12 @@ import { Field, SurfaceType } from '@/types';
 interface FieldMarkerProps {
   field: Field;
   isSelected?: boolean;
+  isFavorite?: boolean;
   onPress: (field: Field) => void;
 }
 
-// Get color based on surface type
-const getSurfaceColor = (surfaceType: SurfaceType): string => {
+// Get color based on surface type (also used to tint cluster bubbles)
+export const getSurfaceColor = (surfaceType: SurfaceType): string => {
   switch (surfaceType) {
     case 'natural_grass':
       return '#16A34A';
@@ -55,7 +56,15 @@ const getSurfaceIconName = (
   }
 };
 
-function FieldMarkerComponent({ field, isSelected = false, onPress }: FieldMarkerProps) {
+// Tint for the heart badge on favorite fields
+const FAVORITE_COLOR = '#EF4444';
+
+function FieldMarkerComponent({
+  field,
+  isSelected = false,
+  isFavorite = false,
+  onPress,
+}: FieldMarkerProps) {
   const [tracksChanges, setTracksChanges] = useState(true);
   const markerColor = getSurfaceColor(field.surface_type);
   const iconName = getSurfaceIconName(field.surface_type);
@@ -78,6 +87,8 @@ function FieldMarkerComponent({ field, isSelected = false, onPress }: FieldMarke
       anchor={{ x: 0.5, y: 1 }}
       tracksViewChanges={tracksChanges}
       onLayout={handleLayout}
+      // Better-rated fields are drawn above the ones they overlap
+      zIndex={Math.round((field.average_rating ?? 0) * 10)}
     >
       <View style={styles.markerWrapper}>
         <View style={[styles.markerContainer, isSelected && styles.markerContainerSelected]}>
@@ -90,6 +101,11 @@ function FieldMarkerComponent({ field, isSelected = false, onPress }: FieldMarke
           >
             <MaterialCommunityIcons name={iconName} size={isSelected ? 16 : 14} color="#FFFFFF" />
           </View>
+          {isFavorite && (
+            <View style={styles.favoriteBadge}>
+              <MaterialCommunityIcons name="heart" size={9} color={FAVORITE_COLOR} />
+            </View>
+          )}
         </View>
         <View
           style={[
@@ -108,11 +124,24 @@ export const FieldMarker = memo(FieldMarkerComponent, (prevProps, nextProps) =>
   return (
     prevProps.field.id === nextProps.field.id &&
     prevProps.isSelected === nextProps.isSelected &&
-    prevProps.field.surface_type === nextProps.field.surface_type
+    prevProps.isFavorite === nextProps.isFavorite &&
+    prevProps.field.surface_type === nextProps.field.surface_type &&
+    prevProps.field.average_rating === nextProps.field.average_rating
   );
 });
 
 const styles = StyleSheet.create({
+  favoriteBadge: {
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 7,
+    height: 14,
+    justifyContent: 'center',
+    position: 'absolute',
+    right: -5,
+    top: -5,
+    width: 14,
+  },
   iconBackground: {
     alignItems: 'center',
     borderRadius: 12,
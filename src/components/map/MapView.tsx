@@ -1,18 +1,27 @@
-import React, { useRef, useCallback, useState, useEffect, memo } from 'react';
+import React, { useRef, useCallback, useState, useEffect, useMemo, memo } from 'react';
 import { StyleSheet, View, ActivityIndicator, Text, TouchableOpacity } from 'react-native';
 import RNMapView, { Region, PROVIDER_GOOGLE, MapStyleElement } from 'react-native-maps';
 import { spacing, borderRadius, typography, MAP_CONFIG } from '@/constants';
 import { useTheme } from '@/features/theme';
 import { Field, Coordinates } from '@/types';
+import { FieldCluster, clusterFields, getClusterRegion } from '@/utils/clustering';
+import { ClusterMarker } from './ClusterMarker';
 import { FieldMarker } from './FieldMarker';
 
 interface MapViewProps {
   fields: Field[];
   userLocation: Coordinates | null;
   isLoadingLocation: boolean;
+  // Fields for the visible region are being fetched
+  isLoadingFields?: boolean;
+  // The map is zoomed out too far to show fields
+  isRegionTooLarge?: boolean;
   onFieldSelect: (field: Field) => void;
   selectedFieldId?: string | null;
+  favoriteFieldIds?: string[];
   onRegionChange?: (region: Region) => void;
+  // Animate the map to this region whenever it changes (e.g. a search result)
+  focusRegion?: Region | null;
   customMapStyle?: MapStyleElement[];
 }
 
@@ -20,15 +29,47 @@ function MapViewComponent({
   fields,
   userLocation,
   isLoadingLocation,
+  isLoadingFields = false,
+  isRegionTooLarge = false,
   onFieldSelect,
   selectedFieldId,
+  favoriteFieldIds,
   onRegionChange,
+  focusRegion,
   customMapStyle,
 }: MapViewProps) {
   const mapRef = useRef<RNMapView>(null);
   const [isMapReady, setIsMapReady] = useState(false);
+  const [region, setRegion] = useState<Region | null>(null);
+  // Read by the cluster press handler so it keeps its identity while the map moves
+  const regionRef = useRef<Region | null>(null);
   const { colors } = useTheme();
 
+  const favoriteIds = useMemo(() => new Set(favoriteFieldIds), [favoriteFieldIds]);
+
+  // Group markers when many fields are visible; the selected field and favorites always keep
+  // their own marker
+  const { clusters, singles } = useMemo(() => {
+    if (!region) {
+      return { clusters: [], singles: fields };
+    }
+
+    const isPinned = (field: Field) => field.id === selectedFieldId || favoriteIds.has(field.id);
+    const result = clusterFields(
+      fields.filter((field) => !isPinned(field)),
+      region,
+      {
+        threshold: MAP_CONFIG.clusteringThreshold,
+        gridSize: MAP_CONFIG.clusterGridSize,
+      }
+    );
+
+    return {
+      clusters: result.clusters,
+      singles: [...result.singles, ...fields.filter(isPinned)],
+    };
+  }, [fields, region, selectedFieldId, favoriteIds]);
+
   // Center map on user location when it becomes available
   useEffect(() => {
     if (userLocation && isMapReady && mapRef.current) {
@@ -43,6 +84,12 @@ function MapViewComponent({
     }
   }, [userLocation, isMapReady]);
 
+  useEffect(() => {
+    if (focusRegion && isMapReady && mapRef.current) {
+      mapRef.current.animateToRegion(focusRegion, 500);
+    }
+  }, [focusRegion, isMapReady]);
+
   const handleMapReady = useCallback(() => {
     setIsMapReady(true);
   }, []);
@@ -61,12 +108,21 @@ function MapViewComponent({
   }, [userLocation]);
 
   const handleRegionChangeComplete = useCallback(
-    (region: Region) => {
-      onRegionChange?.(region);
+    (newRegion: Region) => {
+      regionRef.current = newRegion;
+      setRegion(newRegion);
+      onRegionChange?.(newRegion);
     },
     [onRegionChange]
   );
 
+  // Zoom in on a cluster until its fields separate
+  const handleClusterPress = useCallback((cluster: FieldCluster) => {
+    if (regionRef.current && mapRef.current) {
+      mapRef.current.animateToRegion(getClusterRegion(cluster, regionRef.current), 500);
+    }
+  }, []);
+
   const initialRegion = userLocation
     ? {
         latitude: userLocation.latitude,
@@ -91,14 +147,24 @@ function MapViewComponent({
         onRegionChangeComplete={handleRegionChangeComplete}
         customMapStyle={customMapStyle}
       >
-        {fields.map((field) => (
+        {singles.map((field) => (
           <FieldMarker
-            key={field.id}
+            // Remount when the heart badge changes so the marker is redrawn
+            key={`${field.id}:${favoriteIds.has(field.id)}`}
             field={field}
             isSelected={selectedFieldId === field.id}
+            isFavorite={favoriteIds.has(field.id)}
             onPress={onFieldSelect}
           />
         ))}
+        {clusters.map((cluster) => (
+          <ClusterMarker
+            // Remount when the bubble's content changes so it is redrawn
+            key={`cluster:${cluster.key}:${cluster.fields.length}:${cluster.dominantSurface}`}
+            cluster={cluster}
+            onPress={handleClusterPress}
+          />
+        ))}
       </RNMapView>
 
       {/* Center on user location button */}
@@ -123,6 +189,23 @@ function MapViewComponent({
           </View>
         </View>
       )}
+
+      {/* Field status: a hint when zoomed out too far, otherwise a small spinner while loading */}
+      {!isLoadingLocation && (isRegionTooLarge || isLoadingFields) && (
+        <View style={styles.fieldStatusOverlay} pointerEvents="none">
+          {isRegionTooLarge ? (
+            <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
+              <Text style={[styles.zoomHintText, { color: colors.text.secondary }]}>
+                Zoom in to see fields
+              </Text>
+            </View>
+          ) : (
+            <View style={[styles.fieldSpinner, { backgroundColor: colors.background }]}>
+              <ActivityIndicator size="small" color={colors.primary} />
+            </View>
+          )}
+        </View>
+      )}
     </View>
   );
 }
@@ -149,6 +232,25 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  fieldSpinner: {
+    alignItems: 'center',
+    borderRadius: borderRadius.full,
+    elevation: 3,
+    height: 32,
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    width: 32,
+  },
+  fieldStatusOverlay: {
+    alignItems: 'center',
+    bottom: spacing.xl,
+    left: 0,
+    position: 'absolute',
+    right: 0,
+  },
   loadingContainer: {
     alignItems: 'center',
     borderRadius: borderRadius.full,
@@ -175,6 +277,9 @@ const styles = StyleSheet.create({
   map: {
     flex: 1,
   },
+  zoomHintText: {
+    fontSize: typography.sizes.sm,
+  },
 });
 
 // Memoize the component to prevent unnecessary re-renders
@@ -1,2 +1,3 @@
 export * from './MapView';
 export * from './FieldMarker';
+export * from './ClusterMarker';
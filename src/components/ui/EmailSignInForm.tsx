@@ -0,0 +1,186 @@
+/**
+ * Email Sign-In Form
+ * Sends a magic link, then waits for the link to be opened or the code to be entered
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { spacing, typography, ThemeColors, AUTH_CONFIG } from '@/constants';
+import { useAuth } from '@/features/auth';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { Button } from './Button';
+import { TextInput } from './TextInput';
+
+interface EmailSignInFormProps {
+  /** Return to the other sign-in options */
+  onBack: () => void;
+  /** Called once the user is signed in, by link or by code */
+  onSuccess?: () => void;
+}
+
+export function EmailSignInForm({ onBack, onSuccess }: EmailSignInFormProps) {
+  const { sendEmailSignIn, verifyEmailCode, isAuthenticated, isLoading } = useAuth();
+  const { isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [isCodeStep, setIsCodeStep] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+  // Seconds until another email can be sent
+  const [resendIn, setResendIn] = useState(0);
+
+  // The magic link may be opened while the form waits for the code
+  useEffect(() => {
+    if (isCodeStep && isAuthenticated) {
+      onSuccess?.();
+    }
+  }, [isCodeStep, isAuthenticated, onSuccess]);
+
+  useEffect(() => {
+    if (resendIn <= 0) {
+      return;
+    }
+    const timer = setTimeout(() => setResendIn((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const handleSend = useCallback(async () => {
+    setError(undefined);
+    setIsSending(true);
+    const result = await sendEmailSignIn(email);
+    setIsSending(false);
+
+    if (result.success) {
+      setIsCodeStep(true);
+      setCode('');
+      setResendIn(AUTH_CONFIG.resendDelay);
+    } else {
+      setError(result.error);
+    }
+  }, [email, sendEmailSignIn]);
+
+  const handleVerify = useCallback(async () => {
+    setError(undefined);
+    const result = await verifyEmailCode(email, code);
+    if (!result.success) {
+      setError(result.error);
+    }
+  }, [email, code, verifyEmailCode]);
+
+  const handleChangeEmail = useCallback(() => {
+    setIsCodeStep(false);
+    setError(undefined);
+  }, []);
+
+  if (isCodeStep) {
+    return (
+      <View>
+        <Text style={themedStyles.title}>Check your email</Text>
+        <Text style={themedStyles.text}>
+          We sent a sign-in link to <Text style={themedStyles.email}>{email.trim()}</Text>. Open it
+          on this device, or enter the {AUTH_CONFIG.emailCodeLength}-digit code from the email.
+        </Text>
+
+        <TextInput
+          placeholder="123456"
+          value={code}
+          onChangeText={(text) => setCode(text.replace(/\D/g, ''))}
+          error={error}
+          keyboardType="number-pad"
+          autoComplete="one-time-code"
+          textContentType="oneTimeCode"
+          maxLength={AUTH_CONFIG.emailCodeLength}
+        />
+        <Button
+          title="Sign In"
+          onPress={handleVerify}
+          size="large"
+          loading={isLoading}
+          disabled={code.length !== AUTH_CONFIG.emailCodeLength}
+        />
+
+        <View style={styles.links}>
+          <TouchableOpacity onPress={handleSend} disabled={resendIn > 0 || isSending}>
+            <Text style={[themedStyles.link, (resendIn > 0 || isSending) && themedStyles.muted]}>
+              {resendIn > 0 ? `Resend email in ${resendIn}s` : 'Resend email'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleChangeEmail}>
+            <Text style={themedStyles.link}>Use a different email</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <TextInput
+        label="Email"
+        placeholder="you@example.com"
+        value={email}
+        onChangeText={setEmail}
+        error={error}
+        hint="We'll email you a link to sign in - no password needed"
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoComplete="email"
+        autoCorrect={false}
+        textContentType="emailAddress"
+      />
+      <Button
+        title="Send Sign-In Link"
+        onPress={handleSend}
+        size="large"
+        loading={isSending}
+        disabled={!email.trim()}
+      />
+
+      <View style={styles.links}>
+        <TouchableOpacity onPress={onBack}>
+          <Text style={themedStyles.link}>Other ways to sign in</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  links: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    email: {
+      color: colors.text.primary,
+      fontWeight: typography.weights.semibold,
+    },
+    link: {
+      color: colors.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+    },
+    muted: {
+      color: colors.text.muted,
+    },
+    text: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      lineHeight: 20,
+      marginBottom: spacing.md,
+    },
+    title: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+      marginBottom: spacing.xs,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
@@ -1,13 +1,49 @@
 import React, { memo, useCallback } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Dimensions } from 'react-native';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Dimensions,
+  ActivityIndicator,
+} from 'react-native';
 import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { FieldReviewStats } from '@/features/fields/hooks/useFieldReviews';
 import { useTheme, useThemedStyles } from '@/features/theme';
-import { Field, SurfaceType } from '@/types';
+import { Field, FieldReview, Game, SurfaceType } from '@/types';
+import { FieldImageGallery } from './FieldImageGallery';
+import { GameCard } from './GameCard';
+import { ReviewCard } from './ReviewCard';
+import { StarRating } from './StarRating';
 
 interface FieldDetailsSheetProps {
   field: Field | null;
   onClose: () => void;
   onCreateGame?: (field: Field) => void;
+  games?: Game[];
+  isLoadingGames?: boolean;
+  pendingGameId?: string | null;
+  currentUserId?: string | null;
+  onJoinGame?: (game: Game) => void;
+  onLeaveGame?: (game: Game) => void;
+  imageUrls?: string[];
+  isLoadingImages?: boolean;
+  isUploadingPhoto?: boolean;
+  photoUploadProgress?: number;
+  onAddPhoto?: (field: Field) => void;
+  reviews?: FieldReview[];
+  reviewStats?: FieldReviewStats | null;
+  isLoadingReviews?: boolean;
+  hasReviewed?: boolean;
+  onWriteReview?: (field: Field) => void;
+  isFavorite?: boolean;
+  onToggleFavorite?: (field: Field) => void;
+  onReport?: (field: Field) => void;
+  onSuggestEdit?: (field: Field) => void;
+  onViewHistory?: (field: Field) => void;
+  // Open a player's public profile (the field's contributor or someone in a game)
+  onViewPlayer?: (userId: string) => void;
 }
 
 const formatSurfaceType = (type: SurfaceType): string => {
@@ -45,6 +81,28 @@ export const FieldDetailsSheet = memo(function FieldDetailsSheet({
   field,
   onClose,
   onCreateGame,
+  games = [],
+  isLoadingGames = false,
+  pendingGameId = null,
+  currentUserId = null,
+  onJoinGame,
+  onLeaveGame,
+  imageUrls = [],
+  isLoadingImages = false,
+  isUploadingPhoto = false,
+  photoUploadProgress = 0,
+  onAddPhoto,
+  reviews = [],
+  reviewStats = null,
+  isLoadingReviews = false,
+  hasReviewed = false,
+  onWriteReview,
+  isFavorite = false,
+  onToggleFavorite,
+  onReport,
+  onSuggestEdit,
+  onViewHistory,
+  onViewPlayer,
 }: FieldDetailsSheetProps) {
   const { colors, isDark } = useTheme();
   const themedStyles = useThemedStyles(createThemedStyles, isDark);
@@ -55,8 +113,58 @@ export const FieldDetailsSheet = memo(function FieldDetailsSheet({
     }
   }, [field, onCreateGame]);
 
+  const handleAddPhoto = useCallback(() => {
+    if (field) {
+      onAddPhoto?.(field);
+    }
+  }, [field, onAddPhoto]);
+
+  const handleToggleFavorite = useCallback(() => {
+    if (field) {
+      onToggleFavorite?.(field);
+    }
+  }, [field, onToggleFavorite]);
+
+  const handleWriteReview = useCallback(() => {
+    if (field) {
+      onWriteReview?.(field);
+    }
+  }, [field, onWriteReview]);
+
+  const handleReport = useCallback(() => {
+    if (field) {
+      onReport?.(field);
+    }
+  }, [field, onReport]);
+
+  const handleSuggestEdit = useCallback(() => {
+    if (field) {
+      onSuggestEdit?.(field);
+    }
+  }, [field, onSuggestEdit]);
+
+  const handleViewHistory = useCallback(() => {
+    if (field) {
+      onViewHistory?.(field);
+    }
+  }, [field, onViewHistory]);
+
+  const handleViewContributor = useCallback(() => {
+    if (field?.created_by) {
+      onViewPlayer?.(field.created_by);
+    }
+  }, [field, onViewPlayer]);
+
+  const handleJoinGame = useCallback((game: Game) => onJoinGame?.(game), [onJoinGame]);
+  const handleLeaveGame = useCallback((game: Game) => onLeaveGame?.(game), [onLeaveGame]);
+
   if (!field) return null;
 
+  // Loaded reviews are the most current; fall back to the map's copy of the field
+  // (fields cached before ratings existed have no rating columns)
+  const averageRating = reviewStats ? reviewStats.averageRating : (field.average_rating ?? null);
+  const reviewCount = reviewStats ? reviewStats.reviewCount : (field.review_count ?? 0);
+
   return (
     <View style={themedStyles.container}>
       {/* Handle bar */}
@@ -65,10 +173,32 @@ export const FieldDetailsSheet = memo(function FieldDetailsSheet({
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Photos */}
+        <FieldImageGallery
+          imageUrls={imageUrls}
+          isLoading={isLoadingImages}
+          isUploading={isUploadingPhoto}
+          uploadProgress={photoUploadProgress}
+          onAddPhoto={onAddPhoto ? handleAddPhoto : undefined}
+        />
+
         {/* Header */}
         <View style={styles.header}>
           <View style={styles.titleRow}>
             <Text style={themedStyles.title}>{field.name}</Text>
+            {onToggleFavorite && (
+              <TouchableOpacity
+                onPress={handleToggleFavorite}
+                style={[themedStyles.closeButton, styles.favoriteButton]}
+                accessibilityLabel={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+              >
+                <Text
+                  style={[themedStyles.favoriteIcon, isFavorite && themedStyles.favoriteIconActive]}
+                >
+                  {isFavorite ? '♥' : '♡'}
+                </Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
               <Text style={themedStyles.closeButtonText}>✕</Text>
             </TouchableOpacity>
@@ -84,6 +214,15 @@ export const FieldDetailsSheet = memo(function FieldDetailsSheet({
               </View>
             )}
           </View>
+
+          {averageRating !== null && (
+            <View style={styles.ratingRow}>
+              <StarRating value={averageRating} size={14} />
+              <Text style={themedStyles.ratingText}>
+                {averageRating.toFixed(1)} ({reviewCount})
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* Description */}
@@ -122,6 +261,69 @@ export const FieldDetailsSheet = memo(function FieldDetailsSheet({
           <AmenityItem icon="🅿️" label="Parking" available={field.has_parking} colors={colors} />
         </View>
 
+        {/* Upcoming games */}
+        <Text style={themedStyles.sectionTitle}>Upcoming Games</Text>
+        {isLoadingGames ? (
+          <ActivityIndicator size="small" color={colors.primary} style={styles.sectionLoading} />
+        ) : games.length === 0 ? (
+          <Text style={themedStyles.emptyText}>
+            No games scheduled yet. Be the first to organize one!
+          </Text>
+        ) : (
+          games.map((game) => (
+            <GameCard
+              key={game.id}
+              game={game}
+              currentUserId={currentUserId}
+              isPending={pendingGameId === game.id}
+              onJoin={handleJoinGame}
+              onLeave={handleLeaveGame}
+              onViewPlayer={onViewPlayer}
+            />
+          ))
+        )}
+
+        {/* Reviews */}
+        <View style={styles.sectionHeader}>
+          <Text style={themedStyles.sectionTitle}>Reviews</Text>
+          {onWriteReview && (
+            <TouchableOpacity onPress={handleWriteReview}>
+              <Text style={themedStyles.sectionAction}>
+                {hasReviewed ? 'Edit Your Review' : 'Write a Review'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {reviewStats &&
+          (reviewStats.averageSurfaceRating !== null ||
+            reviewStats.averageGoalsRating !== null) && (
+            <Text style={themedStyles.reviewBreakdown}>
+              {[
+                reviewStats.averageSurfaceRating !== null &&
+                  `Surface ${reviewStats.averageSurfaceRating.toFixed(1)}/5`,
+                reviewStats.averageGoalsRating !== null &&
+                  `Goals ${reviewStats.averageGoalsRating.toFixed(1)}/5`,
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </Text>
+          )}
+        {isLoadingReviews ? (
+          <ActivityIndicator size="small" color={colors.primary} style={styles.sectionLoading} />
+        ) : reviews.length === 0 ? (
+          <Text style={themedStyles.emptyText}>
+            No reviews yet. Played here? Let others know what it&apos;s like.
+          </Text>
+        ) : (
+          reviews.map((review) => (
+            <ReviewCard
+              key={review.id}
+              review={review}
+              isOwnReview={review.user_id === currentUserId}
+            />
+          ))
+        )}
+
         {/* Action buttons */}
         <View style={styles.actions}>
           <TouchableOpacity style={themedStyles.primaryButton} onPress={handleCreateGame}>
@@ -131,6 +333,30 @@ export const FieldDetailsSheet = memo(function FieldDetailsSheet({
           <TouchableOpacity style={themedStyles.secondaryButton}>
             <Text style={themedStyles.secondaryButtonText}>Get Directions</Text>
           </TouchableOpacity>
+
+          {onViewPlayer && field.created_by && (
+            <TouchableOpacity onPress={handleViewContributor} style={styles.footerLink}>
+              <Text style={themedStyles.footerLinkText}>See who added this field</Text>
+            </TouchableOpacity>
+          )}
+
+          {onViewHistory && (
+            <TouchableOpacity onPress={handleViewHistory} style={styles.footerLink}>
+              <Text style={themedStyles.footerLinkText}>View change history</Text>
+            </TouchableOpacity>
+          )}
+
+          {onSuggestEdit && (
+            <TouchableOpacity onPress={handleSuggestEdit} style={styles.footerLink}>
+              <Text style={themedStyles.footerLinkText}>Suggest an edit</Text>
+            </TouchableOpacity>
+          )}
+
+          {onReport && (
+            <TouchableOpacity onPress={handleReport} style={styles.footerLink}>
+              <Text style={themedStyles.footerLinkText}>Report a problem with this field</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </ScrollView>
     </View>
@@ -191,6 +417,13 @@ const styles = StyleSheet.create({
     paddingBottom: spacing.xl,
     paddingHorizontal: spacing.lg,
   },
+  favoriteButton: {
+    marginRight: spacing.sm,
+  },
+  footerLink: {
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
   handleContainer: {
     alignItems: 'center',
     paddingVertical: spacing.sm,
@@ -207,6 +440,20 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     marginBottom: spacing.sm,
   },
+  ratingRow: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  sectionHeader: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  sectionLoading: {
+    marginVertical: spacing.md,
+  },
   titleRow: {
     alignItems: 'flex-start',
     flexDirection: 'row',
@@ -259,6 +506,23 @@ const createThemedStyles = (colors: ThemeColors) =>
       lineHeight: 22,
       marginBottom: spacing.md,
     },
+    emptyText: {
+      color: colors.text.muted,
+      fontSize: typography.sizes.sm,
+      marginBottom: spacing.sm,
+    },
+    favoriteIcon: {
+      color: colors.text.secondary,
+      fontSize: 18,
+    },
+    favoriteIconActive: {
+      color: colors.error,
+    },
+    footerLinkText: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      textDecorationLine: 'underline',
+    },
     freeBadge: {
       backgroundColor: colors.success,
     },
@@ -290,6 +554,15 @@ const createThemedStyles = (colors: ThemeColors) =>
       fontSize: typography.sizes.md,
       fontWeight: typography.weights.semibold,
     },
+    ratingText: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+    },
+    reviewBreakdown: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginBottom: spacing.sm,
+    },
     secondaryButton: {
       alignItems: 'center',
       backgroundColor: colors.surface,
@@ -303,6 +576,11 @@ const createThemedStyles = (colors: ThemeColors) =>
       fontSize: typography.sizes.md,
       fontWeight: typography.weights.medium,
     },
+    sectionAction: {
+      color: colors.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
     sectionTitle: {
       color: colors.text.primary,
       fontSize: typography.sizes.lg,
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { DEFAULT_FIELD_FILTERS, FieldFilters, MIN_RATING_OPTIONS } from '@/features/fields/types';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { Button } from './Button';
+import { Checkbox } from './Checkbox';
+import { SurfaceTypePicker } from './SurfaceTypePicker';
+import { TextInput } from './TextInput';
+
+interface FieldFilterSheetProps {
+  visible: boolean;
+  filters: FieldFilters;
+  onApply: (filters: FieldFilters) => void;
+  onClose: () => void;
+}
+
+export function FieldFilterSheet({ visible, filters, onApply, onClose }: FieldFilterSheetProps) {
+  const { isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  // Edit a copy so closing the sheet discards changes
+  const [draft, setDraft] = useState<FieldFilters>(filters);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+    }
+  }, [visible, filters]);
+
+  const updateDraft = <K extends keyof FieldFilters>(key: K, value: FieldFilters[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleApply = () => {
+    onApply(draft);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+
+        <SafeAreaView edges={['bottom']} style={themedStyles.sheet}>
+          <View style={styles.header}>
+            <Text style={themedStyles.title}>Filter Fields</Text>
+            <TouchableOpacity onPress={() => setDraft(DEFAULT_FIELD_FILTERS)}>
+              <Text style={themedStyles.resetText}>Reset</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <SurfaceTypePicker
+              multiple
+              label="Surface Type"
+              value={draft.surfaceTypes}
+              onChange={(value) => updateDraft('surfaceTypes', value)}
+            />
+
+            <Text style={themedStyles.sectionTitle}>Minimum Rating</Text>
+            <View style={styles.ratingOptions}>
+              {[null, ...MIN_RATING_OPTIONS].map((rating) => {
+                const isSelected = draft.minRating === rating;
+                return (
+                  <TouchableOpacity
+                    key={rating ?? 'any'}
+                    style={[themedStyles.ratingOption, isSelected && themedStyles.optionSelected]}
+                    onPress={() => updateDraft('minRating', rating)}
+                    activeOpacity={0.7}
+                  >
+                    <Text
+                      style={[
+                        themedStyles.ratingOptionLabel,
+                        isSelected && themedStyles.optionLabelSelected,
+                      ]}
+                    >
+                      {rating === null ? 'Any' : `★ ${rating}+`}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={themedStyles.sectionTitle}>Amenities & Price</Text>
+
+            <Checkbox
+              label="Free to use"
+              icon="🆓"
+              checked={draft.onlyFree}
+              onToggle={(checked) => updateDraft('onlyFree', checked)}
+            />
+
+            <Checkbox
+              label="Has lights (for night games)"
+              icon="💡"
+              checked={draft.hasLights}
+              onToggle={(checked) => updateDraft('hasLights', checked)}
+            />
+
+            <Checkbox
+              label="Has goals"
+              icon="🥅"
+              checked={draft.hasGoals}
+              onToggle={(checked) => updateDraft('hasGoals', checked)}
+            />
+
+            <Checkbox
+              label="Has changing rooms"
+              icon="🚿"
+              checked={draft.hasChangingRooms}
+              onToggle={(checked) => updateDraft('hasChangingRooms', checked)}
+            />
+
+            <Checkbox
+              label="Has parking nearby"
+              icon="🅿️"
+              checked={draft.hasParking}
+              onToggle={(checked) => updateDraft('hasParking', checked)}
+            />
+
+            <TextInput
+              label="Minimum Player Capacity"
+              placeholder="Any"
+              value={draft.minCapacity?.toString() || ''}
+              onChangeText={(text) => {
+                const num = parseInt(text, 10);
+                updateDraft('minCapacity', isNaN(num) || num <= 0 ? null : num);
+              }}
+              keyboardType="number-pad"
+              hint="Fields without a listed capacity are hidden when this is set"
+            />
+          </ScrollView>
+
+          <Button title="Show Fields" onPress={handleApply} size="large" />
+        </SafeAreaView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+  },
+  header: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+  overlay: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  ratingOptions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    optionLabelSelected: {
+      color: colors.primary,
+      fontWeight: typography.weights.semibold,
+    },
+    optionSelected: {
+      backgroundColor: colors.primaryLight + '20',
+      borderColor: colors.primary,
+    },
+    ratingOption: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderColor: 'transparent',
+      borderRadius: borderRadius.full,
+      borderWidth: 2,
+      flex: 1,
+      paddingVertical: spacing.sm,
+    },
+    ratingOptionLabel: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+    },
+    resetText: {
+      color: colors.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.medium,
+    },
+    sectionTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+      marginBottom: spacing.sm,
+    },
+    sheet: {
+      backgroundColor: colors.background,
+      borderTopLeftRadius: borderRadius.xl,
+      borderTopRightRadius: borderRadius.xl,
+      maxHeight: '85%',
+      padding: spacing.lg,
+    },
+    title: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
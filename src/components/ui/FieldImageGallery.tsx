@@ -0,0 +1,250 @@
+/**
+ * Field Image Gallery Component
+ * Horizontally paged photo carousel; tapping a photo opens the full-screen viewer
+ */
+
+import React, { memo, useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  LayoutChangeEvent,
+  ListRenderItemInfo,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { ImageViewer } from './ImageViewer';
+
+const GALLERY_HEIGHT = 180;
+
+interface FieldImageGalleryProps {
+  imageUrls: string[];
+  isLoading?: boolean;
+  isUploading?: boolean;
+  uploadProgress?: number;
+  onAddPhoto?: () => void;
+}
+
+interface GalleryImageProps {
+  uri: string;
+  width: number;
+  onPress: () => void;
+}
+
+// Shows a placeholder until the photo has loaded
+function GalleryImage({ uri, width, onPress }: GalleryImageProps) {
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  return (
+    <TouchableOpacity activeOpacity={0.9} onPress={onPress} style={{ width }}>
+      {!isLoaded && (
+        <View style={themedStyles.imagePlaceholder}>
+          <ActivityIndicator size="small" color={colors.primary} />
+        </View>
+      )}
+      <Image
+        source={{ uri }}
+        style={[styles.image, { width }]}
+        onLoadEnd={() => setIsLoaded(true)}
+      />
+    </TouchableOpacity>
+  );
+}
+
+export const FieldImageGallery = memo(function FieldImageGallery({
+  imageUrls,
+  isLoading = false,
+  isUploading = false,
+  uploadProgress = 0,
+  onAddPhoto,
+}: FieldImageGalleryProps) {
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+  const [width, setWidth] = useState(0);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  const handleScrollEnd = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      if (width > 0) {
+        setCurrentIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+      }
+    },
+    [width]
+  );
+
+  const renderItem = useCallback(
+    ({ item, index }: ListRenderItemInfo<string>) => (
+      <GalleryImage uri={item} width={width} onPress={() => setViewerIndex(index)} />
+    ),
+    [width]
+  );
+
+  const renderAddButton = () =>
+    onAddPhoto &&
+    (isUploading ? (
+      <View style={themedStyles.addButton}>
+        <ActivityIndicator size="small" color={colors.text.inverse} />
+        <Text style={themedStyles.addButtonText}>{uploadProgress}%</Text>
+      </View>
+    ) : (
+      <TouchableOpacity style={themedStyles.addButton} onPress={onAddPhoto}>
+        <Text style={themedStyles.addButtonText}>📷 Add Photo</Text>
+      </TouchableOpacity>
+    ));
+
+  if (isLoading) {
+    return (
+      <View style={themedStyles.placeholder}>
+        <ActivityIndicator size="small" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (imageUrls.length === 0) {
+    return (
+      <View style={themedStyles.emptyContainer}>
+        <Text style={styles.emptyIcon}>🏟️</Text>
+        <Text style={themedStyles.emptyText}>No photos yet</Text>
+        {renderAddButton()}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      {width > 0 && (
+        <FlatList
+          data={imageUrls}
+          keyExtractor={(item) => item}
+          renderItem={renderItem}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          onMomentumScrollEnd={handleScrollEnd}
+          getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+          initialNumToRender={1}
+          windowSize={3}
+        />
+      )}
+
+      {imageUrls.length > 1 && (
+        <View style={styles.dots} pointerEvents="none">
+          {imageUrls.map((url, index) => (
+            <View
+              key={url}
+              style={[themedStyles.dot, index === currentIndex && themedStyles.dotActive]}
+            />
+          ))}
+        </View>
+      )}
+
+      <View style={styles.addButtonContainer}>{renderAddButton()}</View>
+
+      <ImageViewer
+        visible={viewerIndex !== null}
+        imageUrls={imageUrls}
+        initialIndex={viewerIndex ?? 0}
+        onClose={() => setViewerIndex(null)}
+      />
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  addButtonContainer: {
+    bottom: spacing.sm,
+    position: 'absolute',
+    right: spacing.sm,
+  },
+  container: {
+    borderRadius: borderRadius.lg,
+    height: GALLERY_HEIGHT,
+    marginBottom: spacing.md,
+    overflow: 'hidden',
+  },
+  dots: {
+    bottom: spacing.sm,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    left: 0,
+    position: 'absolute',
+    right: 0,
+  },
+  emptyIcon: {
+    fontSize: 28,
+    marginBottom: spacing.xs,
+  },
+  image: {
+    height: GALLERY_HEIGHT,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    addButton: {
+      alignItems: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+      borderRadius: borderRadius.full,
+      flexDirection: 'row',
+      gap: spacing.xs,
+      marginTop: spacing.sm,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.xs,
+    },
+    addButtonText: {
+      color: colors.text.inverse,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+    },
+    dot: {
+      backgroundColor: 'rgba(255, 255, 255, 0.5)',
+      borderRadius: 3,
+      height: 6,
+      marginHorizontal: 3,
+      width: 6,
+    },
+    dotActive: {
+      backgroundColor: colors.text.inverse,
+    },
+    emptyContainer: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.lg,
+      justifyContent: 'center',
+      marginBottom: spacing.md,
+      paddingVertical: spacing.lg,
+    },
+    emptyText: {
+      color: colors.text.muted,
+      fontSize: typography.sizes.sm,
+    },
+    imagePlaceholder: {
+      ...StyleSheet.absoluteFillObject,
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      justifyContent: 'center',
+    },
+    placeholder: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.lg,
+      height: GALLERY_HEIGHT,
+      justifyContent: 'center',
+      marginBottom: spacing.md,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
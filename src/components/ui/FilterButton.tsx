@@ -0,0 +1,76 @@
+/**
+ * Filter Button Component
+ * Opens the map filters and shows how many filters are active
+ */
+
+import React from 'react';
+import { TouchableOpacity, View, Text, StyleSheet } from 'react-native';
+import { typography, ThemeColors } from '@/constants';
+import { useTheme, useThemedStyles } from '@/features/theme';
+
+interface FilterButtonProps {
+  activeCount: number;
+  onPress: () => void;
+}
+
+export function FilterButton({ activeCount, onPress }: FilterButtonProps) {
+  const { isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  return (
+    <TouchableOpacity style={styles.container} onPress={onPress} activeOpacity={0.8}>
+      <View style={themedStyles.button}>
+        <Text style={styles.icon}>🎚️</Text>
+      </View>
+      {activeCount > 0 && (
+        <View style={themedStyles.badge}>
+          <Text style={themedStyles.badgeText}>{activeCount}</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+  },
+  icon: {
+    fontSize: 20,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    badge: {
+      alignItems: 'center',
+      backgroundColor: colors.primary,
+      borderRadius: 9,
+      height: 18,
+      justifyContent: 'center',
+      minWidth: 18,
+      paddingHorizontal: 4,
+      position: 'absolute',
+      right: -4,
+      top: -4,
+    },
+    badgeText: {
+      color: colors.text.inverse,
+      fontSize: typography.sizes.xs,
+      fontWeight: typography.weights.bold,
+    },
+    button: {
+      alignItems: 'center',
+      backgroundColor: colors.background,
+      borderRadius: 20,
+      height: 40,
+      justifyContent: 'center',
+      width: 40,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
@@ -0,0 +1,193 @@
+import React, { memo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { Game } from '@/types';
+import { formatDayLabel, formatTime } from '@/utils/date';
+
+interface GameCardProps {
+  game: Game;
+  currentUserId: string | null;
+  isPending?: boolean;
+  onJoin: (game: Game) => void;
+  onLeave: (game: Game) => void;
+  // Open the public profile of the organizer or a player on the roster
+  onViewPlayer?: (userId: string) => void;
+}
+
+export const GameCard = memo(function GameCard({
+  game,
+  currentUserId,
+  isPending = false,
+  onJoin,
+  onLeave,
+  onViewPlayer,
+}: GameCardProps) {
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const startsAt = new Date(game.starts_at);
+  const playerCount = game.player_ids.length;
+  const isFull = playerCount >= game.max_players;
+  const isOrganizer = !!currentUserId && game.organizer_id === currentUserId;
+  const hasJoined = !!currentUserId && game.player_ids.includes(currentUserId);
+  const organizer = game.players.find((player) => player.id === game.organizer_id);
+
+  const renderAction = () => {
+    if (isPending) {
+      return <ActivityIndicator size="small" color={colors.primary} />;
+    }
+    if (isOrganizer) {
+      return <Text style={themedStyles.organizerText}>Organizer</Text>;
+    }
+    if (hasJoined) {
+      return (
+        <TouchableOpacity style={themedStyles.leaveButton} onPress={() => onLeave(game)}>
+          <Text style={themedStyles.leaveButtonText}>Leave</Text>
+        </TouchableOpacity>
+      );
+    }
+    if (isFull) {
+      return <Text style={themedStyles.fullText}>Full</Text>;
+    }
+    return (
+      <TouchableOpacity style={themedStyles.joinButton} onPress={() => onJoin(game)}>
+        <Text style={themedStyles.joinButtonText}>Join</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={themedStyles.container}>
+      <View style={styles.info}>
+        <Text style={themedStyles.title} numberOfLines={1}>
+          {game.title}
+        </Text>
+        <Text style={themedStyles.meta}>
+          {formatDayLabel(startsAt)} · {formatTime(startsAt)} · {game.duration_minutes} min
+        </Text>
+        {organizer && (
+          <Text style={themedStyles.meta} numberOfLines={1}>
+            Organized by{' '}
+            <Text
+              style={themedStyles.playerLink}
+              onPress={onViewPlayer ? () => onViewPlayer(organizer.id) : undefined}
+            >
+              {organizer.name}
+            </Text>
+          </Text>
+        )}
+        <Text style={themedStyles.meta}>
+          👥 {playerCount}/{game.max_players} players
+        </Text>
+        {game.players.length > 0 && (
+          <View style={styles.roster}>
+            {game.players.map((player) => (
+              <TouchableOpacity
+                key={player.id}
+                style={themedStyles.playerChip}
+                onPress={() => onViewPlayer?.(player.id)}
+                disabled={!onViewPlayer}
+              >
+                <Text style={themedStyles.playerChipText} numberOfLines={1}>
+                  {player.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+      <View style={styles.action}>{renderAction()}</View>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  action: {
+    alignItems: 'flex-end',
+    marginLeft: spacing.sm,
+    minWidth: 72,
+  },
+  info: {
+    flex: 1,
+  },
+  roster: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: spacing.xs,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.md,
+      flexDirection: 'row',
+      marginBottom: spacing.sm,
+      padding: spacing.md,
+    },
+    fullText: {
+      color: colors.text.muted,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    joinButton: {
+      backgroundColor: colors.primary,
+      borderRadius: borderRadius.md,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    joinButtonText: {
+      color: colors.text.inverse,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    leaveButton: {
+      borderColor: colors.error,
+      borderRadius: borderRadius.md,
+      borderWidth: 1,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    leaveButtonText: {
+      color: colors.error,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    meta: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: 2,
+    },
+    organizerText: {
+      color: colors.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    playerChip: {
+      backgroundColor: colors.background,
+      borderRadius: borderRadius.full,
+      marginRight: spacing.xs,
+      marginTop: spacing.xs,
+      maxWidth: 140,
+      paddingHorizontal: spacing.sm,
+      paddingVertical: 2,
+    },
+    playerChipText: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.xs,
+    },
+    playerLink: {
+      color: colors.primary,
+      fontWeight: typography.weights.medium,
+    },
+    title: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
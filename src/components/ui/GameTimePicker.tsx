@@ -0,0 +1,186 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { formatDayLabel, formatTime, isSameDay } from '@/utils/date';
+
+interface GameTimePickerProps {
+  value: Date | null;
+  onChange: (value: Date) => void;
+  error?: string;
+}
+
+// How many days ahead a game can be scheduled
+const DAYS_AHEAD = 14;
+
+// Time slots offered for each day
+const FIRST_HOUR = 6;
+const LAST_HOUR = 23;
+const SLOT_MINUTES = 30;
+
+function getUpcomingDays(): Date[] {
+  const today = new Date();
+  return Array.from(
+    { length: DAYS_AHEAD },
+    (_, index) => new Date(today.getFullYear(), today.getMonth(), today.getDate() + index)
+  );
+}
+
+function getTimeSlots(day: Date): Date[] {
+  const slots: Date[] = [];
+  const now = Date.now();
+
+  for (let hour = FIRST_HOUR; hour <= LAST_HOUR; hour++) {
+    for (let minute = 0; minute < 60; minute += SLOT_MINUTES) {
+      const slot = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+      if (slot.getTime() > now) {
+        slots.push(slot);
+      }
+    }
+  }
+
+  return slots;
+}
+
+export function GameTimePicker({ value, onChange, error }: GameTimePickerProps) {
+  const { isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const days = useMemo(() => getUpcomingDays(), []);
+  const selectedDay = value ?? days[0];
+  const timeSlots = useMemo(() => getTimeSlots(selectedDay), [selectedDay]);
+
+  const handleDayPress = (day: Date) => {
+    // Keep the selected time of day when switching days, if it's still in the future
+    const hours = value ? value.getHours() : 18;
+    const minutes = value ? value.getMinutes() : 0;
+    const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+    const slots = getTimeSlots(day);
+
+    if (candidate.getTime() > Date.now()) {
+      onChange(candidate);
+    } else if (slots.length > 0) {
+      onChange(slots[0]);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={themedStyles.label}>When *</Text>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.scrollContent}
+      >
+        {days.map((day) => {
+          const isSelected = !!value && isSameDay(value, day);
+          const isAvailable = getTimeSlots(day).length > 0;
+          return (
+            <TouchableOpacity
+              key={day.toISOString()}
+              style={[
+                themedStyles.option,
+                isSelected && themedStyles.optionSelected,
+                !isAvailable && styles.optionDisabled,
+              ]}
+              onPress={() => handleDayPress(day)}
+              disabled={!isAvailable}
+              activeOpacity={0.7}
+            >
+              <Text
+                style={[themedStyles.optionLabel, isSelected && themedStyles.optionLabelSelected]}
+              >
+                {formatDayLabel(day)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {value && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.scrollContent}
+          style={styles.timeRow}
+        >
+          {timeSlots.map((slot) => {
+            const isSelected = slot.getTime() === value.getTime();
+            return (
+              <TouchableOpacity
+                key={slot.toISOString()}
+                style={[themedStyles.option, isSelected && themedStyles.optionSelected]}
+                onPress={() => onChange(slot)}
+                activeOpacity={0.7}
+              >
+                <Text
+                  style={[themedStyles.optionLabel, isSelected && themedStyles.optionLabelSelected]}
+                >
+                  {formatTime(slot)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      {error && <Text style={themedStyles.error}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.md,
+  },
+  optionDisabled: {
+    opacity: 0.4,
+  },
+  scrollContent: {
+    paddingRight: spacing.md,
+  },
+  timeRow: {
+    marginTop: spacing.sm,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    error: {
+      color: colors.error,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.xs,
+    },
+    label: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+      marginBottom: spacing.sm,
+    },
+    option: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderColor: 'transparent',
+      borderRadius: borderRadius.lg,
+      borderWidth: 2,
+      justifyContent: 'center',
+      marginRight: spacing.sm,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    optionLabel: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+    },
+    optionLabelSelected: {
+      color: colors.primary,
+      fontWeight: typography.weights.semibold,
+    },
+    optionSelected: {
+      backgroundColor: colors.primaryLight + '20',
+      borderColor: colors.primary,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
@@ -1,8 +1,17 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Image, ScrollView, Alert } from 'react-native';
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
 import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
 import { imageService } from '@/features/fields';
-import { SelectedImage } from '@/features/fields/types';
+import { SelectedImage, UploadJob } from '@/features/fields/types';
 import { useTheme, useThemedStyles } from '@/features/theme';
 
 interface ImagePickerProps {
@@ -10,6 +19,8 @@ interface ImagePickerProps {
   onImagesChange: (images: SelectedImage[]) => void;
   maxImages?: number;
   error?: string;
+  // Upload state of submitted photos, keyed by image URI
+  uploads?: Record<string, UploadJob>;
 }
 
 export function ImagePickerComponent({
@@ -17,9 +28,12 @@ export function ImagePickerComponent({
   onImagesChange,
   maxImages = 5,
   error,
+  uploads = {},
 }: ImagePickerProps) {
-  const { isDark } = useTheme();
+  const { colors, isDark } = useTheme();
   const themedStyles = useThemedStyles(createThemedStyles, isDark);
+  // Photos are compressed after picking, which can take a moment for large ones
+  const [isProcessing, setIsProcessing] = useState(false);
   const canAddMore = images.length < maxImages;
 
   const handleAddImage = () => {
@@ -40,23 +54,51 @@ export function ImagePickerComponent({
   };
 
   const handleTakePhoto = async () => {
+    setIsProcessing(true);
     const result = await imageService.takePhoto();
+    setIsProcessing(false);
     if (result.success && result.image) {
       onImagesChange([...images, result.image]);
     } else if (result.error && result.error !== 'Photo capture cancelled') {
-      Alert.alert('Error', result.error);
+      Alert.alert('Photo Not Added', result.error);
     }
   };
 
   const handlePickFromGallery = async () => {
+    setIsProcessing(true);
     const result = await imageService.pickImageFromGallery();
+    setIsProcessing(false);
     if (result.success && result.image) {
       onImagesChange([...images, result.image]);
     } else if (result.error && result.error !== 'Image selection cancelled') {
-      Alert.alert('Error', result.error);
+      Alert.alert('Photo Not Added', result.error);
     }
   };
 
+  const renderUploadOverlay = (upload: UploadJob | undefined) => {
+    if (!upload) {
+      return null;
+    }
+
+    let label = `${upload.progress}%`;
+    if (upload.status === 'done') {
+      label = '✓';
+    } else if (upload.status === 'queued') {
+      label = 'Waiting...';
+    } else if (upload.status === 'retrying' || upload.status === 'failed') {
+      label = 'Will retry';
+    }
+
+    return (
+      <View style={themedStyles.uploadOverlay}>
+        {upload.status === 'uploading' && (
+          <ActivityIndicator size="small" color={colors.text.inverse} />
+        )}
+        <Text style={themedStyles.uploadOverlayText}>{label}</Text>
+      </View>
+    );
+  };
+
   const handleRemoveImage = (index: number) => {
     Alert.alert('Remove Photo', 'Are you sure you want to remove this photo?', [
       {
@@ -97,6 +139,7 @@ export function ImagePickerComponent({
         {images.map((image, index) => (
           <View key={image.uri} style={styles.imageContainer}>
             <Image source={{ uri: image.uri }} style={styles.image} />
+            {renderUploadOverlay(uploads[image.uri])}
             {index === 0 && (
               <View style={themedStyles.primaryBadge}>
                 <Text style={themedStyles.primaryBadgeText}>Main</Text>
@@ -112,7 +155,13 @@ export function ImagePickerComponent({
         ))}
 
         {/* Add button */}
-        {canAddMore && (
+        {canAddMore && isProcessing && (
+          <View style={themedStyles.addButton}>
+            <ActivityIndicator size="small" color={colors.primary} />
+            <Text style={themedStyles.addButtonText}>Optimizing...</Text>
+          </View>
+        )}
+        {canAddMore && !isProcessing && (
           <TouchableOpacity style={themedStyles.addButton} onPress={handleAddImage}>
             <Text style={styles.addButtonIcon}>📷</Text>
             <Text style={themedStyles.addButtonText}>Add Photo</Text>
@@ -224,5 +273,17 @@ const createThemedStyles = (colors: ThemeColors) =>
       fontSize: 12,
       fontWeight: typography.weights.bold,
     },
+    uploadOverlay: {
+      ...StyleSheet.absoluteFillObject,
+      alignItems: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.45)',
+      gap: spacing.xs,
+      justifyContent: 'center',
+    },
+    uploadOverlayText: {
+      color: colors.text.inverse,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.bold,
+    },
   });
 /* eslint-enable react-native/no-unused-styles */
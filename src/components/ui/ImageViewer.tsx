@@ -0,0 +1,230 @@
+/**
+ * Image Viewer Component
+ * Full-screen, swipeable photo viewer with pinch-to-zoom
+ */
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  Animated,
+  PanResponder,
+  TouchableOpacity,
+  StatusBar,
+  useWindowDimensions,
+  GestureResponderEvent,
+  ListRenderItemInfo,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { spacing, typography } from '@/constants';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+
+interface ImageViewerProps {
+  visible: boolean;
+  imageUrls: string[];
+  initialIndex: number;
+  onClose: () => void;
+}
+
+function getTouchDistance(event: GestureResponderEvent): number {
+  const [first, second] = event.nativeEvent.touches;
+  return Math.hypot(first.pageX - second.pageX, first.pageY - second.pageY);
+}
+
+interface ZoomableImageProps {
+  uri: string;
+  width: number;
+  height: number;
+  onZoomChange: (isZoomed: boolean) => void;
+}
+
+function ZoomableImage({ uri, width, height, onZoomChange }: ZoomableImageProps) {
+  const scale = useRef(new Animated.Value(1)).current;
+  const translateX = useRef(new Animated.Value(0)).current;
+  const translateY = useRef(new Animated.Value(0)).current;
+
+  // Gesture bookkeeping kept outside state so moves don't re-render
+  const gesture = useRef({
+    startDistance: 0,
+    startScale: 1,
+    scale: 1,
+    offsetX: 0,
+    offsetY: 0,
+    x: 0,
+    y: 0,
+  }).current;
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: (event) => event.nativeEvent.touches.length === 2,
+        // Single-finger drags only pan when zoomed in; otherwise the pager swipes
+        onMoveShouldSetPanResponder: (event, state) =>
+          event.nativeEvent.touches.length === 2 ||
+          (gesture.scale > 1 && (Math.abs(state.dx) > 2 || Math.abs(state.dy) > 2)),
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderMove: (event, state) => {
+          if (event.nativeEvent.touches.length === 2) {
+            const distance = getTouchDistance(event);
+            if (!gesture.startDistance) {
+              gesture.startDistance = distance;
+              gesture.startScale = gesture.scale;
+              return;
+            }
+
+            const nextScale = Math.min(
+              MAX_SCALE,
+              Math.max(MIN_SCALE, (gesture.startScale * distance) / gesture.startDistance)
+            );
+            gesture.scale = nextScale;
+            scale.setValue(nextScale);
+            return;
+          }
+
+          if (gesture.scale > 1) {
+            gesture.x = gesture.offsetX + state.dx;
+            gesture.y = gesture.offsetY + state.dy;
+            translateX.setValue(gesture.x);
+            translateY.setValue(gesture.y);
+          }
+        },
+        onPanResponderRelease: () => {
+          gesture.startDistance = 0;
+
+          if (gesture.scale <= 1.05) {
+            // Snap back to the unzoomed, centered image
+            Object.assign(gesture, { scale: 1, offsetX: 0, offsetY: 0, x: 0, y: 0 });
+            Animated.parallel([
+              Animated.spring(scale, { toValue: 1, useNativeDriver: true }),
+              Animated.spring(translateX, { toValue: 0, useNativeDriver: true }),
+              Animated.spring(translateY, { toValue: 0, useNativeDriver: true }),
+            ]).start();
+            onZoomChange(false);
+            return;
+          }
+
+          gesture.offsetX = gesture.x;
+          gesture.offsetY = gesture.y;
+          onZoomChange(true);
+        },
+      }),
+    [gesture, scale, translateX, translateY, onZoomChange]
+  );
+
+  return (
+    <View style={[styles.page, { width, height }]} {...panResponder.panHandlers}>
+      <Animated.Image
+        source={{ uri }}
+        resizeMode="contain"
+        style={[{ width, height }, { transform: [{ translateX }, { translateY }, { scale }] }]}
+      />
+    </View>
+  );
+}
+
+export function ImageViewer({ visible, imageUrls, initialIndex, onClose }: ImageViewerProps) {
+  const { width, height } = useWindowDimensions();
+  const [currentIndex, setCurrentIndex] = useState(initialIndex);
+  const [isZoomed, setIsZoomed] = useState(false);
+
+  const handleShow = useCallback(() => {
+    setCurrentIndex(initialIndex);
+    setIsZoomed(false);
+  }, [initialIndex]);
+
+  const handleScrollEnd = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      setCurrentIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+    },
+    [width]
+  );
+
+  const renderItem = useCallback(
+    ({ item }: ListRenderItemInfo<string>) => (
+      <ZoomableImage uri={item} width={width} height={height} onZoomChange={setIsZoomed} />
+    ),
+    [width, height]
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      onShow={handleShow}
+      onRequestClose={onClose}
+      supportedOrientations={['portrait', 'landscape']}
+    >
+      <StatusBar hidden />
+      <View style={styles.container}>
+        <FlatList
+          data={imageUrls}
+          keyExtractor={(item) => item}
+          renderItem={renderItem}
+          horizontal
+          pagingEnabled
+          scrollEnabled={!isZoomed}
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={initialIndex}
+          getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+          onMomentumScrollEnd={handleScrollEnd}
+          initialNumToRender={1}
+          windowSize={3}
+        />
+
+        <View style={styles.topBar} pointerEvents="box-none">
+          <Text style={styles.counter}>
+            {currentIndex + 1} / {imageUrls.length}
+          </Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  closeButton: {
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 20,
+    height: 40,
+    justifyContent: 'center',
+    width: 40,
+  },
+  closeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+  },
+  container: {
+    backgroundColor: '#000000',
+    flex: 1,
+  },
+  counter: {
+    color: '#FFFFFF',
+    fontSize: typography.sizes.md,
+    fontWeight: typography.weights.medium,
+  },
+  page: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  topBar: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    left: 0,
+    paddingHorizontal: spacing.lg,
+    position: 'absolute',
+    right: 0,
+    top: spacing.xxl,
+  },
+});
@@ -13,6 +13,7 @@ interface LocationPickerProps {
   error?: string;
   isLoadingLocation?: boolean;
   fields?: Field[];
+  onRegionChange?: (region: Region) => void;
 }
 
 export function LocationPicker({
@@ -22,6 +23,7 @@ export function LocationPicker({
   error,
   isLoadingLocation = false,
   fields = [],
+  onRegionChange,
 }: LocationPickerProps) {
   const mapRef = useRef<RNMapView>(null);
   const { colors, mapStyle } = useTheme();
@@ -52,8 +54,9 @@ export function LocationPicker({
         latitude: region.latitude,
         longitude: region.longitude,
       });
+      onRegionChange?.(region);
     },
-    [onChange]
+    [onChange, onRegionChange]
   );
 
   const handleCenterOnUser = useCallback(() => {
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Keyboard,
+} from 'react-native';
+import { spacing, borderRadius, typography, ThemeColors, SEARCH_CONFIG } from '@/constants';
+import { FieldSearchResult, SURFACE_TYPE_ICONS } from '@/features/fields/types';
+import { PlaceSearchResult } from '@/features/search/types';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { Field } from '@/types';
+import { formatDistance } from '@/utils/geo';
+
+interface MapSearchBarProps {
+  query: string;
+  onChangeQuery: (query: string) => void;
+  fieldResults: FieldSearchResult[];
+  placeResults: PlaceSearchResult[];
+  isSearching: boolean;
+  onSelectField: (field: Field) => void;
+  onSelectPlace: (place: PlaceSearchResult) => void;
+}
+
+export function MapSearchBar({
+  query,
+  onChangeQuery,
+  fieldResults,
+  placeResults,
+  isSearching,
+  onSelectField,
+  onSelectPlace,
+}: MapSearchBarProps) {
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+  const [isFocused, setIsFocused] = useState(false);
+
+  const hasQuery = query.trim().length >= SEARCH_CONFIG.minQueryLength;
+  const hasResults = fieldResults.length > 0 || placeResults.length > 0;
+  const showResults = isFocused && hasQuery;
+
+  const handleSelectField = (field: Field) => {
+    Keyboard.dismiss();
+    setIsFocused(false);
+    onSelectField(field);
+  };
+
+  const handleSelectPlace = (place: PlaceSearchResult) => {
+    Keyboard.dismiss();
+    setIsFocused(false);
+    onSelectPlace(place);
+  };
+
+  return (
+    <View>
+      <View style={themedStyles.inputContainer}>
+        <Text style={styles.searchIcon}>🔍</Text>
+        <TextInput
+          style={themedStyles.input}
+          placeholder="Search fields or places"
+          placeholderTextColor={colors.text.muted}
+          value={query}
+          onChangeText={onChangeQuery}
+          onFocus={() => setIsFocused(true)}
+          returnKeyType="search"
+          autoCorrect={false}
+        />
+        {isSearching && <ActivityIndicator size="small" color={colors.primary} />}
+        {query.length > 0 && !isSearching && (
+          <TouchableOpacity onPress={() => onChangeQuery('')} style={styles.clearButton}>
+            <Text style={themedStyles.clearText}>✕</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {showResults && (
+        <View style={themedStyles.results}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {fieldResults.length > 0 && <Text style={themedStyles.sectionTitle}>Fields</Text>}
+            {fieldResults.map(({ field, distanceMeters }) => (
+              <TouchableOpacity
+                key={field.id}
+                style={themedStyles.resultRow}
+                onPress={() => handleSelectField(field)}
+              >
+                <Text style={styles.resultIcon}>{SURFACE_TYPE_ICONS[field.surface_type]}</Text>
+                <View style={styles.resultInfo}>
+                  <Text style={themedStyles.resultName} numberOfLines={1}>
+                    {field.name}
+                  </Text>
+                  {(field.address || field.city) && (
+                    <Text style={themedStyles.resultDetails} numberOfLines={1}>
+                      {[field.address, field.city].filter(Boolean).join(', ')}
+                    </Text>
+                  )}
+                </View>
+                {distanceMeters !== null && (
+                  <Text style={themedStyles.distance}>{formatDistance(distanceMeters)}</Text>
+                )}
+              </TouchableOpacity>
+            ))}
+
+            {placeResults.length > 0 && <Text style={themedStyles.sectionTitle}>Places</Text>}
+            {placeResults.map((place) => (
+              <TouchableOpacity
+                key={place.key}
+                style={themedStyles.resultRow}
+                onPress={() => handleSelectPlace(place)}
+              >
+                <Text style={styles.resultIcon}>📍</Text>
+                <View style={styles.resultInfo}>
+                  <Text style={themedStyles.resultName} numberOfLines={1}>
+                    {place.name}
+                  </Text>
+                  {place.details && (
+                    <Text style={themedStyles.resultDetails} numberOfLines={1}>
+                      {place.details}
+                    </Text>
+                  )}
+                </View>
+                {place.distanceMeters !== null && (
+                  <Text style={themedStyles.distance}>{formatDistance(place.distanceMeters)}</Text>
+                )}
+              </TouchableOpacity>
+            ))}
+
+            {!hasResults && !isSearching && (
+              <Text style={themedStyles.emptyText}>No fields or places found</Text>
+            )}
+          </ScrollView>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  clearButton: {
+    padding: spacing.xs,
+  },
+  resultIcon: {
+    fontSize: 18,
+    marginRight: spacing.sm,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  searchIcon: {
+    fontSize: 14,
+    marginRight: spacing.xs,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    clearText: {
+      color: colors.text.muted,
+      fontSize: 14,
+    },
+    distance: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.xs,
+      marginLeft: spacing.sm,
+    },
+    emptyText: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      padding: spacing.md,
+      textAlign: 'center',
+    },
+    input: {
+      color: colors.text.primary,
+      flex: 1,
+      fontSize: typography.sizes.md,
+      paddingVertical: 0,
+    },
+    inputContainer: {
+      alignItems: 'center',
+      backgroundColor: colors.background,
+      borderRadius: 20,
+      elevation: 3,
+      flexDirection: 'row',
+      height: 40,
+      paddingHorizontal: spacing.md,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.15,
+      shadowRadius: 4,
+    },
+    resultDetails: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.xs,
+      marginTop: 2,
+    },
+    resultName: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+    },
+    resultRow: {
+      alignItems: 'center',
+      borderBottomColor: colors.border,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      flexDirection: 'row',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    results: {
+      backgroundColor: colors.background,
+      borderRadius: borderRadius.lg,
+      elevation: 4,
+      marginTop: spacing.sm,
+      maxHeight: 360,
+      overflow: 'hidden',
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.15,
+      shadowRadius: 6,
+    },
+    sectionTitle: {
+      color: colors.text.muted,
+      fontSize: typography.sizes.xs,
+      fontWeight: typography.weights.semibold,
+      paddingHorizontal: spacing.md,
+      paddingTop: spacing.sm,
+      textTransform: 'uppercase',
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
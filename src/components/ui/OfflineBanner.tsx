@@ -0,0 +1,53 @@
+/**
+ * Offline Banner Component
+ * Tells the user the map is showing saved fields because the server can't be reached
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { useTheme, useThemedStyles } from '@/features/theme';
+
+export function OfflineBanner() {
+  const { isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  return (
+    <View style={themedStyles.container} pointerEvents="none">
+      <Text style={styles.icon}>📡</Text>
+      <Text style={themedStyles.text}>Offline - showing saved fields</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  icon: {
+    fontSize: typography.sizes.sm,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      alignItems: 'center',
+      alignSelf: 'center',
+      backgroundColor: colors.text.primary,
+      borderRadius: borderRadius.full,
+      elevation: 3,
+      flexDirection: 'row',
+      gap: spacing.xs,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.xs,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.15,
+      shadowRadius: 4,
+    },
+    text: {
+      color: colors.background,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
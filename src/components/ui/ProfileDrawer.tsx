@@ -23,10 +23,28 @@ interface ProfileDrawerProps {
   visible: boolean;
   onClose: () => void;
   onSignIn: () => void;
+  onOpenMyFields: () => void;
+  onOpenFavorites: () => void;
+  onOpenModeration: () => void;
+  onOpenReports: () => void;
+  onOpenSuggestions: () => void;
+  onOpenEditProfile: () => void;
+  onOpenSettings: () => void;
 }
 
-export function ProfileDrawer({ visible, onClose, onSignIn }: ProfileDrawerProps) {
-  const { isAuthenticated, profile, user, signOut, isLoading } = useAuth();
+export function ProfileDrawer({
+  visible,
+  onClose,
+  onSignIn,
+  onOpenMyFields,
+  onOpenFavorites,
+  onOpenModeration,
+  onOpenReports,
+  onOpenSuggestions,
+  onOpenEditProfile,
+  onOpenSettings,
+}: ProfileDrawerProps) {
+  const { isAuthenticated, isModerator, profile, user, signOut, isLoading } = useAuth();
   const { colors, preference, setAppearance } = useTheme();
 
   const handleSignOut = async () => {
@@ -109,10 +127,38 @@ export function ProfileDrawer({ visible, onClose, onSignIn }: ProfileDrawerProps
 
                 {/* eslint-disable @typescript-eslint/no-empty-function */}
                 <View style={[styles.menuSection, { borderTopColor: colors.border }]}>
-                  <MenuItem icon="👤" label="Edit Profile" onPress={() => {}} colors={colors} />
-                  <MenuItem icon="📍" label="My Fields" onPress={() => {}} colors={colors} />
+                  <MenuItem
+                    icon="👤"
+                    label="Edit Profile"
+                    onPress={onOpenEditProfile}
+                    colors={colors}
+                  />
+                  <MenuItem icon="📍" label="My Fields" onPress={onOpenMyFields} colors={colors} />
+                  <MenuItem icon="♥" label="Favorites" onPress={onOpenFavorites} colors={colors} />
+                  <MenuItem
+                    icon="✏️"
+                    label="Edit Suggestions"
+                    onPress={onOpenSuggestions}
+                    colors={colors}
+                  />
                   <MenuItem icon="⚽" label="My Games" onPress={() => {}} colors={colors} />
-                  <MenuItem icon="⚙️" label="Settings" onPress={() => {}} colors={colors} />
+                  <MenuItem icon="⚙️" label="Settings" onPress={onOpenSettings} colors={colors} />
+                  {isModerator && (
+                    <>
+                      <MenuItem
+                        icon="🛡️"
+                        label="Moderation Queue"
+                        onPress={onOpenModeration}
+                        colors={colors}
+                      />
+                      <MenuItem
+                        icon="🚩"
+                        label="Reported Fields"
+                        onPress={onOpenReports}
+                        colors={colors}
+                      />
+                    </>
+                  )}
                 </View>
                 {/* eslint-enable @typescript-eslint/no-empty-function */}
 
@@ -139,7 +185,8 @@ export function ProfileDrawer({ visible, onClose, onSignIn }: ProfileDrawerProps
                     Welcome, Guest!
                   </Text>
                   <Text style={[styles.guestSubtitle, { color: colors.text.secondary }]}>
-                    Sign in to add fields, join games, and connect with other players.
+                    Sign in to join games, write reviews, and connect with other players. Fields you
+                    add as a guest are sent for review once you sign in.
                   </Text>
                   <TouchableOpacity
                     style={[styles.signInButton, { backgroundColor: colors.primary }]}
@@ -181,6 +228,16 @@ export function ProfileDrawer({ visible, onClose, onSignIn }: ProfileDrawerProps
 
                 {/* eslint-disable @typescript-eslint/no-empty-function */}
                 <View style={[styles.menuSection, { borderTopColor: colors.border }]}>
+                  {/* Guests with a session of their own can keep field drafts */}
+                  {user && (
+                    <MenuItem
+                      icon="📍"
+                      label="My Fields"
+                      onPress={onOpenMyFields}
+                      colors={colors}
+                    />
+                  )}
+                  <MenuItem icon="♥" label="Favorites" onPress={onOpenFavorites} colors={colors} />
                   <MenuItem icon="❓" label="Help & Support" onPress={() => {}} colors={colors} />
                 </View>
                 {/* eslint-enable @typescript-eslint/no-empty-function */}
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { spacing, borderRadius, typography, ThemeColors, REPORT_CONFIG } from '@/constants';
+import { FIELD_REPORT_REASON_LABELS } from '@/features/fields/types';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { FieldReportReason } from '@/types';
+import { Button } from './Button';
+import { TextInput } from './TextInput';
+
+interface ReportFieldSheetProps {
+  visible: boolean;
+  fieldName: string;
+  isSubmitting?: boolean;
+  onSubmit: (reason: FieldReportReason, details: string) => void;
+  onClose: () => void;
+}
+
+const REPORT_REASONS = Object.keys(FIELD_REPORT_REASON_LABELS) as FieldReportReason[];
+
+export function ReportFieldSheet({
+  visible,
+  fieldName,
+  isSubmitting = false,
+  onSubmit,
+  onClose,
+}: ReportFieldSheetProps) {
+  const { isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const [reason, setReason] = useState<FieldReportReason | null>(null);
+  const [details, setDetails] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setDetails('');
+    }
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+
+        <SafeAreaView edges={['bottom']} style={themedStyles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={themedStyles.title}>Report a Problem</Text>
+              <Text style={themedStyles.fieldName} numberOfLines={1}>
+                {fieldName}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={themedStyles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={themedStyles.label}>What&apos;s wrong?</Text>
+            {REPORT_REASONS.map((option) => {
+              const isSelected = reason === option;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[themedStyles.reason, isSelected && themedStyles.reasonSelected]}
+                  onPress={() => setReason(option)}
+                  activeOpacity={0.7}
+                >
+                  <View style={[themedStyles.radio, isSelected && themedStyles.radioSelected]} />
+                  <Text style={themedStyles.reasonLabel}>{FIELD_REPORT_REASON_LABELS[option]}</Text>
+                </TouchableOpacity>
+              );
+            })}
+
+            <TextInput
+              label="Details"
+              placeholder="Anything that helps a moderator check (optional)"
+              value={details}
+              onChangeText={setDetails}
+              multiline
+              numberOfLines={3}
+              maxLength={REPORT_CONFIG.maxDetailsLength}
+              containerStyle={styles.detailsInput}
+            />
+          </ScrollView>
+
+          <Button
+            title="Send Report"
+            onPress={() => reason && onSubmit(reason, details)}
+            size="large"
+            loading={isSubmitting}
+            disabled={!reason || isSubmitting}
+          />
+        </SafeAreaView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+  },
+  detailsInput: {
+    marginTop: spacing.md,
+  },
+  header: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  overlay: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    cancelText: {
+      color: colors.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.medium,
+    },
+    fieldName: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: 2,
+    },
+    label: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+      marginBottom: spacing.sm,
+    },
+    radio: {
+      borderColor: colors.border,
+      borderRadius: 9,
+      borderWidth: 2,
+      height: 18,
+      marginRight: spacing.md,
+      width: 18,
+    },
+    radioSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    reason: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderColor: 'transparent',
+      borderRadius: borderRadius.md,
+      borderWidth: 2,
+      flexDirection: 'row',
+      marginBottom: spacing.sm,
+      padding: spacing.md,
+    },
+    reasonLabel: {
+      color: colors.text.primary,
+      flex: 1,
+      fontSize: typography.sizes.md,
+    },
+    reasonSelected: {
+      borderColor: colors.primary,
+    },
+    sheet: {
+      backgroundColor: colors.background,
+      borderTopLeftRadius: borderRadius.xl,
+      borderTopRightRadius: borderRadius.xl,
+      maxHeight: '85%',
+      padding: spacing.lg,
+    },
+    title: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
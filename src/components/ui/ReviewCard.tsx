@@ -0,0 +1,90 @@
+import React, { memo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { FieldReview } from '@/types';
+import { formatDayLabel } from '@/utils/date';
+import { StarRating } from './StarRating';
+
+interface ReviewCardProps {
+  review: FieldReview;
+  isOwnReview?: boolean;
+}
+
+export const ReviewCard = memo(function ReviewCard({
+  review,
+  isOwnReview = false,
+}: ReviewCardProps) {
+  const { isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const subScores = [
+    review.surface_rating !== null && `Surface ${review.surface_rating}/5`,
+    review.goals_rating !== null && `Goals ${review.goals_rating}/5`,
+  ].filter(Boolean);
+
+  return (
+    <View style={themedStyles.container}>
+      <View style={styles.header}>
+        <Text style={themedStyles.author} numberOfLines={1}>
+          {isOwnReview ? 'You' : review.author_name || 'Player'}
+        </Text>
+        <Text style={themedStyles.date}>{formatDayLabel(new Date(review.created_at))}</Text>
+      </View>
+      <View style={styles.ratingRow}>
+        <StarRating value={review.rating} size={14} />
+        {subScores.length > 0 && (
+          <Text style={themedStyles.subScores}>{subScores.join(' · ')}</Text>
+        )}
+      </View>
+      {review.comment && <Text style={themedStyles.comment}>{review.comment}</Text>}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  header: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  ratingRow: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    author: {
+      color: colors.text.primary,
+      flex: 1,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+      marginRight: spacing.sm,
+    },
+    comment: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      lineHeight: 20,
+      marginTop: spacing.xs,
+    },
+    container: {
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.md,
+      marginBottom: spacing.sm,
+      padding: spacing.md,
+    },
+    date: {
+      color: colors.text.muted,
+      fontSize: typography.sizes.xs,
+    },
+    subScores: {
+      color: colors.text.muted,
+      fontSize: typography.sizes.xs,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { spacing, borderRadius, typography, ThemeColors, REVIEW_CONFIG } from '@/constants';
+import { FieldReviewFormData } from '@/features/fields/types';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { FieldReview } from '@/types';
+import { Button } from './Button';
+import { StarRating } from './StarRating';
+import { TextInput } from './TextInput';
+
+interface ReviewFormSheetProps {
+  visible: boolean;
+  fieldName: string;
+  // The user's existing review when editing
+  review: FieldReview | null;
+  isSaving?: boolean;
+  onSave: (formData: FieldReviewFormData) => void;
+  onDelete?: (review: FieldReview) => void;
+  onClose: () => void;
+}
+
+const EMPTY_REVIEW: FieldReviewFormData = {
+  rating: 0,
+  surfaceRating: 0,
+  goalsRating: 0,
+  comment: '',
+};
+
+function reviewToFormData(review: FieldReview | null): FieldReviewFormData {
+  if (!review) {
+    return EMPTY_REVIEW;
+  }
+  return {
+    rating: review.rating,
+    surfaceRating: review.surface_rating ?? 0,
+    goalsRating: review.goals_rating ?? 0,
+    comment: review.comment ?? '',
+  };
+}
+
+export function ReviewFormSheet({
+  visible,
+  fieldName,
+  review,
+  isSaving = false,
+  onSave,
+  onDelete,
+  onClose,
+}: ReviewFormSheetProps) {
+  const { isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const [formData, setFormData] = useState<FieldReviewFormData>(() => reviewToFormData(review));
+
+  useEffect(() => {
+    if (visible) {
+      setFormData(reviewToFormData(review));
+    }
+  }, [visible, review]);
+
+  const updateFormData = <K extends keyof FieldReviewFormData>(
+    key: K,
+    value: FieldReviewFormData[K]
+  ) => {
+    setFormData((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+
+        <SafeAreaView edges={['bottom']} style={themedStyles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={themedStyles.title}>
+                {review ? 'Edit Your Review' : 'Write a Review'}
+              </Text>
+              <Text style={themedStyles.fieldName} numberOfLines={1}>
+                {fieldName}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={themedStyles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={themedStyles.label}>
+              Overall<Text style={themedStyles.required}> *</Text>
+            </Text>
+            <View style={styles.ratingInput}>
+              <StarRating
+                value={formData.rating}
+                size={32}
+                onChange={(value) => updateFormData('rating', value)}
+              />
+            </View>
+
+            <View style={styles.subRatings}>
+              <View style={styles.subRating}>
+                <Text style={themedStyles.label}>Surface condition</Text>
+                <StarRating
+                  value={formData.surfaceRating}
+                  size={20}
+                  onChange={(value) => updateFormData('surfaceRating', value)}
+                />
+              </View>
+              <View style={styles.subRating}>
+                <Text style={themedStyles.label}>Goals</Text>
+                <StarRating
+                  value={formData.goalsRating}
+                  size={20}
+                  onChange={(value) => updateFormData('goalsRating', value)}
+                />
+              </View>
+            </View>
+
+            <TextInput
+              label="Comment"
+              placeholder="What should other players know about this field?"
+              value={formData.comment}
+              onChangeText={(text) => updateFormData('comment', text)}
+              multiline
+              numberOfLines={4}
+              maxLength={REVIEW_CONFIG.maxCommentLength}
+              hint={`${formData.comment.length}/${REVIEW_CONFIG.maxCommentLength}`}
+            />
+          </ScrollView>
+
+          <Button
+            title={review ? 'Save Changes' : 'Post Review'}
+            onPress={() => onSave(formData)}
+            size="large"
+            loading={isSaving}
+            disabled={formData.rating === 0 || isSaving}
+          />
+          {review && onDelete && (
+            <TouchableOpacity
+              style={styles.deleteButton}
+              onPress={() => onDelete(review)}
+              disabled={isSaving}
+            >
+              <Text style={themedStyles.deleteText}>Delete Review</Text>
+            </TouchableOpacity>
+          )}
+        </SafeAreaView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+  },
+  deleteButton: {
+    alignItems: 'center',
+    paddingTop: spacing.md,
+  },
+  header: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  overlay: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  ratingInput: {
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  subRating: {
+    flex: 1,
+  },
+  subRatings: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginBottom: spacing.md,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    cancelText: {
+      color: colors.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.medium,
+    },
+    deleteText: {
+      color: colors.error,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.medium,
+    },
+    fieldName: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: 2,
+    },
+    label: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+      marginBottom: spacing.sm,
+    },
+    required: {
+      color: colors.error,
+    },
+    sheet: {
+      backgroundColor: colors.background,
+      borderTopLeftRadius: borderRadius.xl,
+      borderTopRightRadius: borderRadius.xl,
+      maxHeight: '85%',
+      padding: spacing.lg,
+    },
+    title: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
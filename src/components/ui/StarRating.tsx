@@ -0,0 +1,74 @@
+import React, { memo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { spacing } from '@/constants';
+import { useTheme } from '@/features/theme';
+
+interface StarRatingProps {
+  // 0-5; averages are rounded to the nearest whole star
+  value: number;
+  size?: number;
+  // Makes the stars tappable; tapping the current rating clears it
+  onChange?: (value: number) => void;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+export const StarRating = memo(function StarRating({
+  value,
+  size = 16,
+  onChange,
+}: StarRatingProps) {
+  const { colors } = useTheme();
+  const filledStars = Math.round(value);
+
+  const renderStar = (star: number) => {
+    const glyph = (
+      <Text
+        style={[
+          styles.star,
+          { fontSize: size, color: filledStars >= star ? colors.warning : colors.border },
+        ]}
+      >
+        ★
+      </Text>
+    );
+
+    if (!onChange) {
+      return <View key={star}>{glyph}</View>;
+    }
+
+    return (
+      <TouchableOpacity
+        key={star}
+        onPress={() => onChange(star === value ? 0 : star)}
+        hitSlop={{ top: 8, bottom: 8, left: 4, right: 4 }}
+        accessibilityRole="button"
+        accessibilityLabel={`${star} star${star === 1 ? '' : 's'}`}
+      >
+        {glyph}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View
+      style={[styles.container, onChange && styles.containerInput]}
+      accessibilityLabel={onChange ? undefined : `Rated ${value} out of 5`}
+    >
+      {STARS.map(renderStar)}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    flexDirection: 'row',
+  },
+  containerInput: {
+    gap: spacing.sm,
+  },
+  star: {
+    includeFontPadding: false,
+  },
+});
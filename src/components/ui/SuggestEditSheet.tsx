@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { spacing, borderRadius, typography, ThemeColors, SUGGESTION_CONFIG } from '@/constants';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { EditableFieldAttributes, Field } from '@/types';
+import { getChangedAttributes, getEditableAttributes } from '@/utils/fieldAttributes';
+import { Button } from './Button';
+import { Checkbox } from './Checkbox';
+import { SurfaceTypePicker } from './SurfaceTypePicker';
+import { TextInput } from './TextInput';
+
+interface SuggestEditSheetProps {
+  visible: boolean;
+  field: Field;
+  isSubmitting?: boolean;
+  onSubmit: (changes: Partial<EditableFieldAttributes>, note: string) => void;
+  onClose: () => void;
+}
+
+export function SuggestEditSheet({
+  visible,
+  field,
+  isSubmitting = false,
+  onSubmit,
+  onClose,
+}: SuggestEditSheetProps) {
+  const { isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const [values, setValues] = useState<EditableFieldAttributes>(() => getEditableAttributes(field));
+  const [note, setNote] = useState('');
+
+  // Start from the field's current details every time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setValues(getEditableAttributes(field));
+      setNote('');
+    }
+  }, [visible, field]);
+
+  const changes = useMemo(() => getChangedAttributes(field, values), [field, values]);
+  const hasChanges = Object.keys(changes).length > 0;
+
+  const updateValue = <K extends keyof EditableFieldAttributes>(
+    key: K,
+    value: EditableFieldAttributes[K]
+  ) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+
+        <SafeAreaView edges={['bottom']} style={themedStyles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={themedStyles.title}>Suggest an Edit</Text>
+              <Text style={themedStyles.subtitle} numberOfLines={1}>
+                The field&apos;s owner or a moderator will review your changes
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={themedStyles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <TextInput
+              label="Field Name"
+              value={values.name}
+              onChangeText={(text) => updateValue('name', text)}
+              maxLength={100}
+              autoCapitalize="words"
+            />
+
+            <TextInput
+              label="Description"
+              value={values.description ?? ''}
+              onChangeText={(text) => updateValue('description', text)}
+              multiline
+              numberOfLines={3}
+              maxLength={500}
+            />
+
+            <TextInput
+              label="Address"
+              value={values.address ?? ''}
+              onChangeText={(text) => updateValue('address', text)}
+            />
+
+            <SurfaceTypePicker
+              value={values.surface_type}
+              onChange={(value) => updateValue('surface_type', value)}
+            />
+
+            <View style={styles.section}>
+              <Text style={themedStyles.sectionTitle}>Amenities & Features</Text>
+              <Checkbox
+                label="Free to use"
+                icon="🆓"
+                checked={values.is_free}
+                onToggle={(checked) => updateValue('is_free', checked)}
+              />
+              <Checkbox
+                label="Has lights (for night games)"
+                icon="💡"
+                checked={values.has_lights}
+                onToggle={(checked) => updateValue('has_lights', checked)}
+              />
+              <Checkbox
+                label="Has goals"
+                icon="🥅"
+                checked={values.has_goals}
+                onToggle={(checked) => updateValue('has_goals', checked)}
+              />
+              <Checkbox
+                label="Has changing rooms"
+                icon="🚿"
+                checked={values.has_changing_rooms}
+                onToggle={(checked) => updateValue('has_changing_rooms', checked)}
+              />
+              <Checkbox
+                label="Has parking nearby"
+                icon="🅿️"
+                checked={values.has_parking}
+                onToggle={(checked) => updateValue('has_parking', checked)}
+              />
+            </View>
+
+            <TextInput
+              label="Player Capacity"
+              value={values.player_capacity?.toString() || ''}
+              onChangeText={(text) => {
+                const num = parseInt(text, 10);
+                updateValue('player_capacity', isNaN(num) || num < 1 ? null : num);
+              }}
+              keyboardType="number-pad"
+            />
+
+            <TextInput
+              label="Additional Notes"
+              value={values.notes ?? ''}
+              onChangeText={(text) => updateValue('notes', text)}
+              multiline
+              numberOfLines={2}
+              maxLength={300}
+            />
+
+            <TextInput
+              label="Why the change?"
+              placeholder="e.g., Lights were installed last month (optional)"
+              value={note}
+              onChangeText={setNote}
+              multiline
+              numberOfLines={2}
+              maxLength={SUGGESTION_CONFIG.maxNoteLength}
+            />
+          </ScrollView>
+
+          <Button
+            title="Send Suggestion"
+            onPress={() => onSubmit(changes, note)}
+            size="large"
+            loading={isSubmitting}
+            disabled={!hasChanges || isSubmitting}
+          />
+        </SafeAreaView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+  },
+  header: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  overlay: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  section: {
+    marginBottom: spacing.md,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    cancelText: {
+      color: colors.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.medium,
+    },
+    sectionTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+      marginBottom: spacing.xs,
+    },
+    sheet: {
+      backgroundColor: colors.background,
+      borderTopLeftRadius: borderRadius.xl,
+      borderTopRightRadius: borderRadius.xl,
+      maxHeight: '90%',
+      padding: spacing.lg,
+    },
+    subtitle: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: 2,
+    },
+    title: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
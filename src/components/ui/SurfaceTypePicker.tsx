@@ -5,12 +5,24 @@ import { SURFACE_TYPE_LABELS, SURFACE_TYPE_ICONS } from '@/features/fields/types
 import { useTheme, useThemedStyles } from '@/features/theme';
 import { SurfaceType } from '@/types';
 
-interface SurfaceTypePickerProps {
+interface SingleSelectProps {
+  multiple?: false;
   value: SurfaceType;
   onChange: (value: SurfaceType) => void;
-  error?: string;
 }
 
+// Multi-select mode (e.g. map filters) - an empty selection means "any"
+interface MultiSelectProps {
+  multiple: true;
+  value: SurfaceType[];
+  onChange: (value: SurfaceType[]) => void;
+}
+
+type SurfaceTypePickerProps = (SingleSelectProps | MultiSelectProps) & {
+  label?: string;
+  error?: string;
+};
+
 const SURFACE_TYPES: SurfaceType[] = [
   'natural_grass',
   'synthetic_turf',
@@ -22,25 +34,41 @@ const SURFACE_TYPES: SurfaceType[] = [
   'indoor',
 ];
 
-export function SurfaceTypePicker({ value, onChange, error }: SurfaceTypePickerProps) {
+export function SurfaceTypePicker(props: SurfaceTypePickerProps) {
+  const { label = 'Surface Type *', error } = props;
   const { isDark } = useTheme();
   const themedStyles = useThemedStyles(createThemedStyles, isDark);
 
+  const isTypeSelected = (type: SurfaceType) =>
+    props.multiple ? props.value.includes(type) : props.value === type;
+
+  const handlePress = (type: SurfaceType) => {
+    if (props.multiple) {
+      props.onChange(
+        props.value.includes(type)
+          ? props.value.filter((selected) => selected !== type)
+          : [...props.value, type]
+      );
+    } else {
+      props.onChange(type);
+    }
+  };
+
   return (
     <View style={styles.container}>
-      <Text style={themedStyles.label}>Surface Type *</Text>
+      <Text style={themedStyles.label}>{label}</Text>
       <ScrollView
         horizontal
         showsHorizontalScrollIndicator={false}
         contentContainerStyle={styles.scrollContent}
       >
         {SURFACE_TYPES.map((type) => {
-          const isSelected = value === type;
+          const isSelected = isTypeSelected(type);
           return (
             <TouchableOpacity
               key={type}
               style={[themedStyles.option, isSelected && themedStyles.optionSelected]}
-              onPress={() => onChange(type)}
+              onPress={() => handlePress(type)}
               activeOpacity={0.7}
             >
               <Text style={styles.optionIcon}>{SURFACE_TYPE_ICONS[type]}</Text>
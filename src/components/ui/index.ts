@@ -5,5 +5,11 @@ export { SurfaceTypePicker } from './SurfaceTypePicker';
 export { ImagePickerComponent } from './ImagePicker';
 export { Snackbar } from './Snackbar';
 export { LoginModal } from './LoginModal';
+export { EmailSignInForm } from './EmailSignInForm';
 export { ProfileButton } from './ProfileButton';
 export { ProfileDrawer } from './ProfileDrawer';
+export { GameTimePicker } from './GameTimePicker';
+export { GameCard } from './GameCard';
+export { FilterButton } from './FilterButton';
+export { FieldFilterSheet } from './FieldFilterSheet';
+export { MapSearchBar } from './MapSearchBar';
@@ -19,8 +19,17 @@ export const MAP_CONFIG = {
   defaultSearchRadius: 5000, // 5km
   maxSearchRadius: 50000, // 50km
 
-  // Marker clustering threshold
-  clusteringThreshold: 50, // cluster markers when more than 50
+  // Viewport-driven field loading
+  fieldTileSize: 0.05, // degrees per side of a cached tile (~5km)
+  maxTilesPerViewport: 36, // skip loading when zoomed out further than this
+  fieldsPageSize: 200, // fields per request
+  fieldCacheMaxAge: 24 * 60 * 60 * 1000, // 24 hours before a cached tile is reloaded in full
+  fieldCacheMaxTiles: 200, // tiles kept in the offline cache
+  offlineRetryInterval: 30 * 1000, // ms between attempts to reach the server while offline
+
+  // Marker clustering
+  clusteringThreshold: 50, // cluster markers when more than 50 are visible
+  clusterGridSize: 6, // grid cells across the visible region used to group markers
 } as const;
 
 export const LOCATION_CONFIG = {
@@ -31,3 +40,54 @@ export const LOCATION_CONFIG = {
   // Timeout for getting location
   timeout: 15000, // 15 seconds
 } as const;
+
+export const SEARCH_CONFIG = {
+  minQueryLength: 2, // characters before a search is run
+  debounceMs: 300, // wait for the user to stop typing
+  maxFieldResults: 10,
+  maxPlaceResults: 3,
+  placeDelta: 0.03, // map zoom when jumping to a place
+} as const;
+
+export const IMAGE_CONFIG = {
+  maxDimension: 1600, // px, longest side after resizing
+  format: 'jpeg' as 'jpeg' | 'webp', // re-encoding format for uploads
+  quality: 0.7, // compression (0-1)
+  maxFileSize: 5 * 1024 * 1024, // 5MB, checked after compression
+} as const;
+
+export const UPLOAD_CONFIG = {
+  maxParallel: 2, // photos uploaded at the same time
+  maxAttempts: 6, // before a photo is marked as failed
+  baseRetryDelay: 2000, // ms, doubled after every failed attempt
+  maxRetryDelay: 5 * 60 * 1000, // 5 minutes
+} as const;
+
+export const REVIEW_CONFIG = {
+  maxCommentLength: 1000, // characters, enforced by the database too
+} as const;
+
+export const REPORT_CONFIG = {
+  maxDetailsLength: 1000, // characters, enforced by the database too
+} as const;
+
+export const SUGGESTION_CONFIG = {
+  maxNoteLength: 500, // characters, enforced by the database too
+} as const;
+
+export const AUTH_CONFIG = {
+  // Deep link sign-in emails return to; must be allowed under
+  // Supabase > Authentication > URL Configuration > Redirect URLs
+  redirectUrl: 'downtoplay://auth/callback',
+  emailCodeLength: 6, // digits in the one-time code of sign-in emails
+  resendDelay: 60, // seconds before another sign-in email can be sent
+} as const;
+
+export const PROFILE_CONFIG = {
+  minUsernameLength: 3,
+  maxUsernameLength: 30, // characters, enforced by the database too
+  maxDisplayNameLength: 50, // characters, enforced by the database too
+  usernameCheckDelay: 400, // ms after typing stops before a username is checked
+  avatarSize: 512, // px, avatars are cropped square and resized to this
+  avatarQuality: 0.8, // compression (0-1)
+} as const;
@@ -1,7 +1,13 @@
 /**
  * Authentication Context
  * Provides auth state and methods throughout the app
- * Uses @novastera-oss/rn-google-signin for native Google Sign-In
+ * Supports native Google and Apple sign-in, and passwordless email sign-in
+ * that returns to the app through the `downtoplay://auth/callback` deep link
+ *
+ * Guests get an anonymous Supabase session so what they save has a real user id.
+ * Signing in links the provider identity to that session, turning it into a full
+ * account without losing anything. Guests signing in to an account they already have
+ * bring their drafts, photos and favorites along to it.
  */
 
 import React, {
@@ -13,17 +19,22 @@ import React, {
   useRef,
   useMemo,
 } from 'react';
-import { AppState, AppStateStatus } from 'react-native';
+import { Alert, AppState, AppStateStatus, Linking } from 'react-native';
 import { Session, User } from '@supabase/supabase-js';
 import { profileRepository } from '@/features/auth/repositories/profileRepository';
+import { accountService } from '@/features/auth/services/accountService';
+import { appleAuthService } from '@/features/auth/services/appleAuthService';
+import type { AuthServiceInterface } from '@/features/auth/services/authService';
+import { EmailCodeType, emailAuthService } from '@/features/auth/services/emailAuthService';
 import { googleAuthService } from '@/features/auth/services/googleAuthService';
 import {
   AuthContextValue,
   AuthState,
   AuthResult,
   AuthIntent,
+  SignInProvider,
   UserProfile,
-  GoogleUserMetadata,
+  ProviderUserMetadata,
 } from '@/features/auth/types';
 import { supabase } from '@/infrastructure/supabase';
 import { appLogger } from '@/utils/logger';
@@ -37,6 +48,55 @@ const initialState: AuthState = {
   isInitialized: false,
 };
 
+// Providers that hand back an ID token to exchange with Supabase
+type IdTokenProvider = 'google' | 'apple';
+const ID_TOKEN_SERVICES: Record<IdTokenProvider, AuthServiceInterface> = {
+  google: googleAuthService,
+  apple: appleAuthService,
+};
+
+// Auth service of each sign-in provider
+const AUTH_SERVICES: Record<SignInProvider, AuthServiceInterface<never>> = {
+  ...ID_TOKEN_SERVICES,
+  email: emailAuthService,
+};
+
+// Order providers are offered in
+const PROVIDER_ORDER: SignInProvider[] = ['apple', 'google', 'email'];
+
+/**
+ * Start an anonymous session for a guest
+ * Returns null when anonymous sign-ins are disabled; the guest then browses without a session
+ */
+async function startGuestSession(): Promise<Session | null> {
+  try {
+    const { data, error } = await supabase.auth.signInAnonymously();
+
+    if (error) {
+      appLogger.warn('Guest session unavailable', { error: error.message });
+      return null;
+    }
+
+    appLogger.info('Guest session started', { userId: data.user?.id });
+    return data.session;
+  } catch (error) {
+    appLogger.error('Failed to start guest session', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Whether the current session belongs to a guest
+ */
+async function hasGuestSession(): Promise<boolean> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return !!session?.user.is_anonymous;
+}
+
 // Create the context
 const AuthContext = createContext<AuthContextValue | null>(null);
 
@@ -50,11 +110,18 @@ interface AuthProviderProps {
  */
 export function AuthProvider({ children }: AuthProviderProps) {
   const [state, setState] = useState<AuthState>(initialState);
+  const [availableProviders, setAvailableProviders] = useState<SignInProvider[]>(['email']);
 
   // Refs for managing async operations and intents
   const isMountedRef = useRef(true);
   const authIntentRef = useRef<AuthIntent>(null);
   const isSigningInRef = useRef(false);
+  // Name shared by the provider outside the ID token (Apple), used when creating the profile
+  const providerNameRef = useRef<string | null>(null);
+  // Whether the last email sent was a guest's confirmation email or a sign-in email
+  const emailCodeTypeRef = useRef<EmailCodeType>('email');
+  // Set while a guest signs in to an existing account, to move their data over once signed in
+  const guestMergeTokenRef = useRef<string | null>(null);
 
   /**
    * Safe state updater that checks mount status
@@ -67,6 +134,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   /**
    * Load user profile from database
+   * Guests get a profile too, since their drafts and favorites belong to it; abandoned
+   * guest accounts are removed by scripts/purge-guest-accounts.mjs
    */
   const loadProfile = useCallback(async (user: User): Promise<UserProfile | null> => {
     try {
@@ -80,18 +149,14 @@ export function AuthProvider({ children }: AuthProviderProps) {
       }
 
       // Profile doesn't exist - create it
-      const metadata = user.user_metadata as GoogleUserMetadata | undefined;
+      // Only Google shares a name and picture; other users can add them in Edit Profile
+      const metadata = user.user_metadata as ProviderUserMetadata | undefined;
       const email = user.email || metadata?.email;
 
-      if (!email) {
-        appLogger.error('Cannot create profile: no email available');
-        return null;
-      }
-
       const newProfile = await profileRepository.create({
         userId: user.id,
         email,
-        displayName: metadata?.full_name || metadata?.name,
+        displayName: metadata?.full_name || metadata?.name || providerNameRef.current || undefined,
         avatarUrl: metadata?.avatar_url || metadata?.picture,
       });
 
@@ -110,10 +175,17 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   /**
    * Handle session change
+   * A guest who just signed in to an existing account has their data moved to it first
    */
   const handleSessionChange = useCallback(
     async (session: Session | null) => {
       if (session?.user) {
+        if (guestMergeTokenRef.current && !session.user.is_anonymous) {
+          const mergeToken = guestMergeTokenRef.current;
+          guestMergeTokenRef.current = null;
+          await profileRepository.mergeGuestAccount(mergeToken);
+        }
+
         const profile = await loadProfile(session.user);
         safeSetState({
           user: session.user,
@@ -135,6 +207,39 @@ export function AuthProvider({ children }: AuthProviderProps) {
     [loadProfile, safeSetState]
   );
 
+  /**
+   * Fill in an upgraded guest's name and picture from the identity they linked
+   * Guest profiles are created before there's anything to fill them with
+   */
+  const completeGuestProfile = useCallback(
+    async (user: User, provider: IdTokenProvider): Promise<void> => {
+      const profile = await profileRepository.getById(user.id);
+      if (!profile) {
+        return;
+      }
+
+      const identity = user.identities?.find((item) => item.provider === provider);
+      const metadata = identity?.identity_data as ProviderUserMetadata | undefined;
+      const displayName =
+        profile.displayName ||
+        metadata?.full_name ||
+        metadata?.name ||
+        providerNameRef.current ||
+        null;
+      const avatarUrl = profile.avatarUrl || metadata?.avatar_url || metadata?.picture || null;
+
+      if (displayName === profile.displayName && avatarUrl === profile.avatarUrl) {
+        return;
+      }
+
+      const updated = await profileRepository.update(user.id, { displayName, avatarUrl });
+      if (updated) {
+        safeSetState({ profile: updated });
+      }
+    },
+    [safeSetState]
+  );
+
   /**
    * Initialize auth state
    */
@@ -142,8 +247,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
     isMountedRef.current = true;
     appLogger.info('AuthProvider initializing');
 
-    // Configure Google Sign-In
-    googleAuthService.configure();
+    // Configure sign-in providers and find out which ones this device supports
+    Object.values(AUTH_SERVICES).forEach((service) => service.configure());
+    Promise.all(PROVIDER_ORDER.map((provider) => AUTH_SERVICES[provider].isAvailable())).then(
+      (availability) => {
+        if (isMountedRef.current) {
+          setAvailableProviders(PROVIDER_ORDER.filter((_, index) => availability[index]));
+        }
+      }
+    );
 
     // Get initial session
     const initializeAuth = async () => {
@@ -152,7 +264,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
           data: { session },
         } = await supabase.auth.getSession();
 
-        await handleSessionChange(session);
+        // A new guest session is handled by onAuthStateChange
+        if (session || !(await startGuestSession())) {
+          await handleSessionChange(session);
+        }
         appLogger.info('Auth initialized', { hasSession: !!session });
       } catch (error) {
         appLogger.error('Auth initialization failed', {
@@ -173,7 +288,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     } = supabase.auth.onAuthStateChange(async (event, session) => {
       appLogger.debug('Auth state changed', { event });
 
-      if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED') {
+      // USER_UPDATED follows a guest linking an identity
+      if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED' || event === 'USER_UPDATED') {
         await handleSessionChange(session);
       } else if (event === 'SIGNED_OUT') {
         safeSetState({
@@ -221,59 +337,155 @@ export function AuthProvider({ children }: AuthProviderProps) {
   }, [state.session, safeSetState]);
 
   /**
-   * Sign in with Google
+   * Finish email sign-in when the app is opened from a magic link
    */
-  const signInWithGoogle = useCallback(async (): Promise<AuthResult> => {
-    if (isSigningInRef.current) {
-      return { success: false, error: 'Sign-in already in progress' };
-    }
-
-    isSigningInRef.current = true;
-    safeSetState({ isLoading: true });
+  useEffect(() => {
+    const handleUrl = async (url: string | null) => {
+      if (!url || !emailAuthService.isAuthRedirect(url)) {
+        return;
+      }
 
-    try {
-      // Step 1: Get Google ID token using native sign-in
-      const googleResult = await googleAuthService.signIn();
+      safeSetState({ isLoading: true });
+      const result = await emailAuthService.handleRedirect(url);
 
-      if (!googleResult.success) {
+      // On success the session is handled by onAuthStateChange
+      if (!result.success) {
         safeSetState({ isLoading: false });
-        isSigningInRef.current = false;
+        Alert.alert('Could Not Sign In', result.error || 'Please request a new sign-in link.', [
+          { text: 'OK' },
+        ]);
+      }
+    };
 
-        if (googleResult.cancelled) {
-          return { success: false, cancelled: true };
-        }
-        return { success: false, error: googleResult.error };
+    // The link may have launched the app, or arrive while it's running
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+
+    return () => {
+      subscription.remove();
+    };
+  }, [safeSetState]);
+
+  /**
+   * Sign in with a provider that hands back an ID token (Google, Apple)
+   */
+  const signInWithIdToken = useCallback(
+    async (provider: IdTokenProvider): Promise<AuthResult> => {
+      if (isSigningInRef.current) {
+        return { success: false, error: 'Sign-in already in progress' };
       }
 
-      // Step 2: Exchange ID token with Supabase
-      const { data, error } = await supabase.auth.signInWithIdToken({
-        provider: 'google',
-        token: googleResult.idToken!,
-      });
+      isSigningInRef.current = true;
+      safeSetState({ isLoading: true });
+
+      try {
+        // Step 1: Get an ID token using native sign-in
+        const providerResult = await ID_TOKEN_SERVICES[provider].signIn();
 
-      if (error) {
-        appLogger.error('Supabase sign-in failed', { error: error.message });
+        if (!providerResult.success || !providerResult.idToken) {
+          safeSetState({ isLoading: false });
+          isSigningInRef.current = false;
+
+          if (providerResult.cancelled) {
+            return { success: false, cancelled: true };
+          }
+          return { success: false, error: providerResult.error };
+        }
+
+        // Step 2: Exchange ID token with Supabase
+        // A guest's session is upgraded in place so everything they saved stays theirs
+        providerNameRef.current = providerResult.fullName ?? null;
+        const { idToken: token, nonce } = providerResult;
+        let isLinking = await hasGuestSession();
+        let { data, error } = isLinking
+          ? await supabase.auth.linkIdentity({ provider, token, nonce })
+          : await supabase.auth.signInWithIdToken({ provider, token, nonce });
+
+        if (isLinking && error?.code === 'identity_already_exists') {
+          // The identity already has an account; the guest signs in to it instead
+          appLogger.info('Identity belongs to an existing account', { provider });
+          isLinking = false;
+          guestMergeTokenRef.current = await profileRepository.createGuestMergeToken();
+          ({ data, error } = await supabase.auth.signInWithIdToken({ provider, token, nonce }));
+        }
+
+        if (error) {
+          appLogger.error('Supabase sign-in failed', { provider, error: error.message });
+          safeSetState({ isLoading: false });
+          isSigningInRef.current = false;
+          return { success: false, error: error.message };
+        }
+
+        // Session will be handled by onAuthStateChange
+        appLogger.info('Sign-in successful', { provider, userId: data.user?.id, isLinking });
+        if (isLinking && data.user) {
+          await completeGuestProfile(data.user, provider);
+        }
+        isSigningInRef.current = false;
+        return { success: true };
+      } catch (error) {
+        appLogger.error('Sign-in error', {
+          provider,
+          error: error instanceof Error ? error.message : String(error),
+        });
         safeSetState({ isLoading: false });
         isSigningInRef.current = false;
-        return { success: false, error: error.message };
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'An unexpected error occurred',
+        };
       }
+    },
+    [safeSetState, completeGuestProfile]
+  );
 
-      // Session will be handled by onAuthStateChange
-      appLogger.info('Sign-in successful', { userId: data.user?.id });
-      isSigningInRef.current = false;
-      return { success: true };
-    } catch (error) {
-      appLogger.error('Sign-in error', {
-        error: error instanceof Error ? error.message : String(error),
-      });
-      safeSetState({ isLoading: false });
-      isSigningInRef.current = false;
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'An unexpected error occurred',
-      };
+  /**
+   * Sign in with Google
+   */
+  const signInWithGoogle = useCallback(() => signInWithIdToken('google'), [signInWithIdToken]);
+
+  /**
+   * Sign in with Apple
+   */
+  const signInWithApple = useCallback(() => signInWithIdToken('apple'), [signInWithIdToken]);
+
+  /**
+   * Send a sign-in email
+   * The user is signed in once they open the link or enter the code. Guests confirm the
+   * address for their guest account instead, unless it already belongs to an account.
+   */
+  const sendEmailSignIn = useCallback(async (email: string): Promise<AuthResult> => {
+    if (await hasGuestSession()) {
+      const linkResult = await emailAuthService.linkEmail({ email });
+      if (!linkResult.alreadyRegistered) {
+        emailCodeTypeRef.current = 'email_change';
+        return { success: linkResult.success, error: linkResult.error };
+      }
+      appLogger.info('Email belongs to an existing account');
+      guestMergeTokenRef.current = await profileRepository.createGuestMergeToken();
     }
-  }, [safeSetState]);
+
+    emailCodeTypeRef.current = 'email';
+    const result = await emailAuthService.signIn({ email });
+    return { success: result.success, error: result.error };
+  }, []);
+
+  /**
+   * Sign in with the code from the sign-in email
+   */
+  const verifyEmailCode = useCallback(
+    async (email: string, code: string): Promise<AuthResult> => {
+      safeSetState({ isLoading: true });
+      const result = await emailAuthService.verifyCode(email, code, emailCodeTypeRef.current);
+
+      // On success the session is handled by onAuthStateChange
+      if (!result.success) {
+        safeSetState({ isLoading: false });
+      }
+      return { success: result.success, error: result.error };
+    },
+    [safeSetState]
+  );
 
   /**
    * Sign out
@@ -282,8 +494,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
     safeSetState({ isLoading: true });
 
     try {
-      // Sign out from Google
-      await googleAuthService.signOut();
+      // Sign out from the providers the user signed in with
+      const providers = (state.user?.app_metadata?.providers ?? []) as string[];
+      await Promise.all(
+        providers
+          .filter((provider): provider is SignInProvider => provider in AUTH_SERVICES)
+          .map((provider) => AUTH_SERVICES[provider].signOut())
+      );
 
       // Sign out from Supabase
       await supabase.auth.signOut();
@@ -301,7 +518,49 @@ export function AuthProvider({ children }: AuthProviderProps) {
         isLoading: false,
       });
     }
-  }, [safeSetState]);
+
+    // Keep browsing as a new guest; the session is handled by onAuthStateChange
+    await startGuestSession();
+  }, [state.user, safeSetState]);
+
+  /**
+   * Delete the current account and everything personal stored with it
+   */
+  const deleteAccount = useCallback(async (): Promise<AuthResult> => {
+    if (!state.user || state.user.is_anonymous) {
+      return { success: false, error: 'You need to be signed in to delete your account' };
+    }
+
+    safeSetState({ isLoading: true });
+    const result = await accountService.deleteAccount(state.user.id);
+    if (!result.success) {
+      safeSetState({ isLoading: false });
+      return result;
+    }
+
+    // Disconnect the app from the providers the user signed in with; the account is gone
+    // either way, so a provider that can't be reached doesn't stop the sign-out
+    const providers = (state.user.app_metadata?.providers ?? []) as string[];
+    await Promise.allSettled(
+      providers
+        .filter((provider): provider is SignInProvider => provider in AUTH_SERVICES)
+        .map((provider) => AUTH_SERVICES[provider].revokeAccess())
+    );
+
+    // The user no longer exists on the server, so only the local session is cleared
+    await supabase.auth.signOut({ scope: 'local' });
+    safeSetState({
+      user: null,
+      session: null,
+      profile: null,
+      isLoading: false,
+    });
+    appLogger.info('Account deletion complete');
+
+    // Keep browsing as a new guest; the session is handled by onAuthStateChange
+    await startGuestSession();
+    return { success: true };
+  }, [state.user, safeSetState]);
 
   /**
    * Refresh user profile
@@ -347,15 +606,32 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const contextValue = useMemo<AuthContextValue>(
     () => ({
       ...state,
-      isAuthenticated: !!state.session && !!state.user,
-      isGuest: !state.session && state.isInitialized,
+      isAuthenticated: !!state.session && !!state.user && !state.user.is_anonymous,
+      isGuest: state.isInitialized && (!state.user || !!state.user.is_anonymous),
+      availableProviders,
       signInWithGoogle,
+      signInWithApple,
+      sendEmailSignIn,
+      verifyEmailCode,
       signOut,
+      deleteAccount,
       refreshProfile,
       setAuthIntent,
       consumeAuthIntent,
     }),
-    [state, signInWithGoogle, signOut, refreshProfile, setAuthIntent, consumeAuthIntent]
+    [
+      state,
+      availableProviders,
+      signInWithGoogle,
+      signInWithApple,
+      sendEmailSignIn,
+      verifyEmailCode,
+      signOut,
+      deleteAccount,
+      refreshProfile,
+      setAuthIntent,
+      consumeAuthIntent,
+    ]
   );
 
   return <AuthContext.Provider value={contextValue}>{children}</AuthContext.Provider>;
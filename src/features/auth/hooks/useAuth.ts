@@ -30,10 +30,16 @@ export function useAuth() {
     isInitialized: context.isInitialized,
     isAuthenticated: context.isAuthenticated,
     isGuest: context.isGuest,
+    isModerator: context.profile?.role === 'moderator',
+    availableProviders: context.availableProviders,
 
     // Methods
     signInWithGoogle: context.signInWithGoogle,
+    signInWithApple: context.signInWithApple,
+    sendEmailSignIn: context.sendEmailSignIn,
+    verifyEmailCode: context.verifyEmailCode,
     signOut: context.signOut,
+    deleteAccount: context.deleteAccount,
     refreshProfile: context.refreshProfile,
     setAuthIntent: context.setAuthIntent,
     consumeAuthIntent: context.consumeAuthIntent,
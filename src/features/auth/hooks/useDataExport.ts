@@ -0,0 +1,23 @@
+import { useState, useCallback } from 'react';
+import { accountService } from '@/features/auth/services/accountService';
+
+interface UseDataExportReturn {
+  exportData: () => Promise<{ success: boolean; error?: string }>;
+  isExporting: boolean;
+}
+
+/**
+ * Exports the current user's data as a JSON file through the share sheet
+ */
+export function useDataExport(): UseDataExportReturn {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportData = useCallback(async () => {
+    setIsExporting(true);
+    const result = await accountService.exportData();
+    setIsExporting(false);
+    return result;
+  }, []);
+
+  return { exportData, isExporting };
+}
@@ -0,0 +1,224 @@
+/**
+ * useEditProfile Hook
+ * Form state for editing the signed-in user's display name, username and avatar
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { PROFILE_CONFIG } from '@/constants';
+import { useAuth } from '@/features/auth/hooks/useAuth';
+import { profileRepository } from '@/features/auth/repositories/profileRepository';
+import { avatarService, AvatarSource } from '@/features/auth/services/avatarService';
+import { UpdateProfileData } from '@/features/auth/types';
+
+const USERNAME_PATTERN = /^[a-z0-9_]+$/;
+
+export type UsernameStatus = 'unchanged' | 'invalid' | 'checking' | 'available' | 'taken';
+
+export interface EditProfileErrors {
+  displayName?: string;
+  username?: string;
+  avatar?: string;
+}
+
+interface UseEditProfileReturn {
+  displayName: string;
+  username: string;
+  // Newly picked local photo, the current avatar URL, or null for no photo
+  avatarUri: string | null;
+  usernameStatus: UsernameStatus;
+  errors: EditProfileErrors;
+  hasChanges: boolean;
+  isSaving: boolean;
+  setDisplayName: (value: string) => void;
+  setUsername: (value: string) => void;
+  pickAvatar: (source: AvatarSource) => Promise<void>;
+  removeAvatar: () => void;
+  save: () => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Get the error for a username that breaks the format rules, if any
+ */
+function validateUsername(username: string): string | undefined {
+  if (username.length < PROFILE_CONFIG.minUsernameLength) {
+    return `Must be at least ${PROFILE_CONFIG.minUsernameLength} characters`;
+  }
+  if (username.length > PROFILE_CONFIG.maxUsernameLength) {
+    return `Must be at most ${PROFILE_CONFIG.maxUsernameLength} characters`;
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return 'Only lowercase letters, numbers and underscores';
+  }
+  return undefined;
+}
+
+function validateDisplayName(displayName: string): string | undefined {
+  if (displayName.trim().length > PROFILE_CONFIG.maxDisplayNameLength) {
+    return `Must be at most ${PROFILE_CONFIG.maxDisplayNameLength} characters`;
+  }
+  return undefined;
+}
+
+export function useEditProfile(): UseEditProfileReturn {
+  const { profile, refreshProfile } = useAuth();
+
+  const [displayName, setDisplayName] = useState(profile?.displayName ?? '');
+  const [username, setUsernameValue] = useState(profile?.username ?? '');
+  const [avatarUri, setAvatarUri] = useState<string | null>(profile?.avatarUrl ?? null);
+  const [avatarError, setAvatarError] = useState<string | undefined>();
+  const [isAvailable, setIsAvailable] = useState<boolean | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const currentUsername = profile?.username ?? '';
+  const usernameError = validateUsername(username);
+
+  // Check the username once the user stops typing
+  useEffect(() => {
+    setIsAvailable(null);
+    if (!profile || username === currentUsername || usernameError) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const available = await profileRepository.isUsernameAvailable(username, profile.id);
+      if (!cancelled) {
+        setIsAvailable(available);
+      }
+    }, PROFILE_CONFIG.usernameCheckDelay);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [profile, username, currentUsername, usernameError]);
+
+  const usernameStatus: UsernameStatus = useMemo(() => {
+    if (username === currentUsername) {
+      return 'unchanged';
+    }
+    if (usernameError) {
+      return 'invalid';
+    }
+    if (isAvailable === null) {
+      return 'checking';
+    }
+    return isAvailable ? 'available' : 'taken';
+  }, [username, currentUsername, usernameError, isAvailable]);
+
+  // Format errors show while typing; a taken username is an error as well
+  const errors: EditProfileErrors = useMemo(
+    () => ({
+      avatar: avatarError,
+      displayName: validateDisplayName(displayName),
+      username:
+        username === currentUsername
+          ? undefined
+          : usernameError ||
+            (usernameStatus === 'taken' ? 'This username is already taken' : undefined),
+    }),
+    [avatarError, displayName, username, currentUsername, usernameError, usernameStatus]
+  );
+
+  const hasChanges =
+    !!profile &&
+    (displayName.trim() !== (profile.displayName ?? '') ||
+      username !== profile.username ||
+      avatarUri !== profile.avatarUrl);
+
+  const setUsername = useCallback((value: string) => {
+    // Usernames are lowercase, so typing capitals isn't an error
+    setUsernameValue(value.toLowerCase().trim());
+  }, []);
+
+  const pickAvatar = useCallback(async (source: AvatarSource) => {
+    const result = await avatarService.pickAvatar(source);
+    if (result.success && result.uri) {
+      setAvatarUri(result.uri);
+      setAvatarError(undefined);
+    } else if (result.error) {
+      setAvatarError(result.error);
+    }
+  }, []);
+
+  const removeAvatar = useCallback(() => {
+    setAvatarUri(null);
+    setAvatarError(undefined);
+  }, []);
+
+  const save = useCallback(async () => {
+    if (!profile) {
+      return { success: false, error: 'You need to be signed in to edit your profile' };
+    }
+    if (errors.displayName || errors.username) {
+      return { success: false, error: 'Please fix the highlighted fields' };
+    }
+
+    setIsSaving(true);
+    try {
+      const updates: UpdateProfileData = {};
+      const trimmedDisplayName = displayName.trim();
+      if (trimmedDisplayName !== (profile.displayName ?? '')) {
+        updates.displayName = trimmedDisplayName || null;
+      }
+
+      if (username !== profile.username) {
+        // Checked again in case someone took it since the live check
+        const available = await profileRepository.isUsernameAvailable(username, profile.id);
+        if (!available) {
+          setIsAvailable(false);
+          return { success: false, error: 'This username is already taken' };
+        }
+        updates.username = username;
+      }
+
+      if (avatarUri !== profile.avatarUrl) {
+        if (avatarUri) {
+          const upload = await avatarService.uploadAvatar(avatarUri, profile.id);
+          if (!upload.success || !upload.url) {
+            setAvatarError(upload.error);
+            return { success: false, error: upload.error };
+          }
+          updates.avatarUrl = upload.url;
+        } else {
+          updates.avatarUrl = null;
+        }
+      }
+
+      if (Object.keys(updates).length > 0) {
+        const updated = await profileRepository.update(profile.id, updates);
+        if (!updated) {
+          if (updates.avatarUrl) {
+            await avatarService.deleteAvatar(updates.avatarUrl);
+          }
+          return { success: false, error: 'Failed to save your profile. Please try again.' };
+        }
+
+        // The old photo is no longer used
+        if (updates.avatarUrl !== undefined && profile.avatarUrl) {
+          await avatarService.deleteAvatar(profile.avatarUrl);
+        }
+        await refreshProfile();
+      }
+
+      return { success: true };
+    } finally {
+      setIsSaving(false);
+    }
+  }, [profile, errors, displayName, username, avatarUri, refreshProfile]);
+
+  return {
+    displayName,
+    username,
+    avatarUri,
+    usernameStatus,
+    errors,
+    hasChanges,
+    isSaving,
+    setDisplayName,
+    setUsername,
+    pickAvatar,
+    removeAvatar,
+    save,
+  };
+}
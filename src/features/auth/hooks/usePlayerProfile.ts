@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { profileRepository } from '@/features/auth/repositories/profileRepository';
+import { PublicProfile } from '@/features/auth/types';
+import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { Field } from '@/types';
+
+interface UsePlayerProfileReturn {
+  profile: PublicProfile | null;
+  // Approved fields the player added, newest first
+  fields: Field[];
+  isLoading: boolean;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Loads a player's public profile, stats and contributed fields
+ */
+export function usePlayerProfile(userId: string | null): UsePlayerProfileReturn {
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [fields, setFields] = useState<Field[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchProfile = useCallback(async () => {
+    if (!userId) {
+      setProfile(null);
+      setFields([]);
+      return;
+    }
+
+    setIsLoading(true);
+    const [fetchedProfile, fetchedFields] = await Promise.all([
+      profileRepository.getPublicProfile(userId),
+      fieldRepository.getFieldsByUser(userId),
+    ]);
+    setProfile(fetchedProfile);
+    // The player's own pending or rejected fields aren't public
+    setFields(fetchedFields.filter((field) => field.status === 'active'));
+    setIsLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  return {
+    profile,
+    fields,
+    isLoading,
+    refetch: fetchProfile,
+  };
+}
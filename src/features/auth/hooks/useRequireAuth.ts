@@ -7,6 +7,17 @@ import { useCallback, useState } from 'react';
 import { AuthIntent } from '@/features/auth/types';
 import { useAuth } from './useAuth';
 
+// Actions a guest session may take without an account; the server keeps what guests
+// create private (fields are saved as drafts) until they sign in
+const GUEST_INTENTS: NonNullable<AuthIntent>['type'][] = ['add_field'];
+
+/**
+ * Whether the current session may take the action without signing in
+ */
+function isAllowed(isAuthenticated: boolean, hasSession: boolean, intent?: AuthIntent): boolean {
+  return isAuthenticated || (hasSession && !!intent && GUEST_INTENTS.includes(intent.type));
+}
+
 interface UseRequireAuthOptions {
   /** Called when user is not authenticated and needs to sign in */
   onAuthRequired?: () => void;
@@ -54,7 +65,8 @@ interface UseRequireAuthReturn {
  * ```
  */
 export function useRequireAuth(options: UseRequireAuthOptions = {}): UseRequireAuthReturn {
-  const { isAuthenticated, setAuthIntent } = useAuth();
+  const { isAuthenticated, user, setAuthIntent } = useAuth();
+  const hasSession = !!user;
   const [showLoginModal, setShowLoginModal] = useState(false);
 
   const closeLoginModal = useCallback(() => {
@@ -62,11 +74,11 @@ export function useRequireAuth(options: UseRequireAuthOptions = {}): UseRequireA
   }, []);
 
   /**
-   * Check if user is authenticated, show login modal if not
+   * Check if user is authenticated (or the action is open to guests), show login modal if not
    */
   const checkAuth = useCallback(
     (intent?: AuthIntent): boolean => {
-      if (isAuthenticated) {
+      if (isAllowed(isAuthenticated, hasSession, intent)) {
         return true;
       }
 
@@ -81,7 +93,7 @@ export function useRequireAuth(options: UseRequireAuthOptions = {}): UseRequireA
 
       return false;
     },
-    [isAuthenticated, setAuthIntent, options]
+    [isAuthenticated, hasSession, setAuthIntent, options]
   );
 
   /**
@@ -92,7 +104,7 @@ export function useRequireAuth(options: UseRequireAuthOptions = {}): UseRequireA
       action: () => T | Promise<T>,
       intent?: AuthIntent
     ): Promise<{ success: boolean; result?: T; authRequired?: boolean }> => {
-      if (!isAuthenticated) {
+      if (!isAllowed(isAuthenticated, hasSession, intent)) {
         // Store intent for after login
         if (intent) {
           setAuthIntent(intent);
@@ -112,7 +124,7 @@ export function useRequireAuth(options: UseRequireAuthOptions = {}): UseRequireA
         return { success: false };
       }
     },
-    [isAuthenticated, setAuthIntent, options]
+    [isAuthenticated, hasSession, setAuthIntent, options]
   );
 
   return {
@@ -138,6 +150,11 @@ export function useIsAuthenticated(): boolean {
 export function useAuthIntentHandler(handlers: {
   add_field?: () => void;
   create_game?: (fieldId: string) => void;
+  add_photo?: (fieldId: string) => void;
+  write_review?: (fieldId: string) => void;
+  favorite_field?: (fieldId: string) => void;
+  report_field?: (fieldId: string) => void;
+  suggest_edit?: (fieldId: string) => void;
   join_game?: (gameId: string) => void;
   view_profile?: (userId: string) => void;
 }): void {
@@ -158,6 +175,21 @@ export function useAuthIntentHandler(handlers: {
       case 'create_game':
         handlers.create_game?.(intent.fieldId);
         break;
+      case 'add_photo':
+        handlers.add_photo?.(intent.fieldId);
+        break;
+      case 'write_review':
+        handlers.write_review?.(intent.fieldId);
+        break;
+      case 'favorite_field':
+        handlers.favorite_field?.(intent.fieldId);
+        break;
+      case 'report_field':
+        handlers.report_field?.(intent.fieldId);
+        break;
+      case 'suggest_edit':
+        handlers.suggest_edit?.(intent.fieldId);
+        break;
       case 'join_game':
         handlers.join_game?.(intent.gameId);
         break;
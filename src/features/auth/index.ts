@@ -8,9 +8,17 @@ export { AuthProvider, useAuthContext } from './context/AuthContext';
 // Hooks
 export { useAuth } from './hooks/useAuth';
 export { useRequireAuth, useIsAuthenticated } from './hooks/useRequireAuth';
+export { useEditProfile } from './hooks/useEditProfile';
+export { usePlayerProfile } from './hooks/usePlayerProfile';
+export { useDataExport } from './hooks/useDataExport';
+export type { UsernameStatus, EditProfileErrors } from './hooks/useEditProfile';
 
 // Services
 export { googleAuthService } from './services/googleAuthService';
+export { appleAuthService } from './services/appleAuthService';
+export { emailAuthService } from './services/emailAuthService';
+export { avatarService } from './services/avatarService';
+export { accountService } from './services/accountService';
 
 // Repository
 export { profileRepository } from './repositories/profileRepository';
@@ -18,11 +26,16 @@ export { profileRepository } from './repositories/profileRepository';
 // Types
 export type {
   UserProfile,
+  PublicProfile,
+  PlayerStats,
+  UserRole,
   AuthState,
   AuthContextValue,
   AuthResult,
   AuthIntent,
-  GoogleUserMetadata,
+  SignInProvider,
+  ProviderUserMetadata,
   CreateProfileData,
   UpdateProfileData,
+  AccountDataExport,
 } from './types';
@@ -4,8 +4,11 @@
  */
 
 import {
+  AccountDataExport,
   ProfileRow,
   UserProfile,
+  PublicProfile,
+  PlayerStats,
   CreateProfileData,
   UpdateProfileData,
 } from '@/features/auth/types';
@@ -22,24 +25,26 @@ function transformProfile(row: ProfileRow): UserProfile {
     displayName: row.display_name,
     avatarUrl: row.avatar_url,
     appearance: row.appearance,
+    role: row.role ?? 'user',
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
 /**
- * Generate a unique username from email
- * Format: name_randomsuffix (e.g., john_a1b2c3)
+ * Generate a unique username from an email or a name
+ * Format: name_randomsuffix (e.g., john_a1b2c3), or player_a1b2c3 when neither is usable
  */
-function generateUsername(email: string): string {
-  const localPart = email.split('@')[0];
-  // Clean the local part: lowercase, replace non-alphanumeric with underscore
-  const cleanName = localPart
-    .toLowerCase()
-    .replace(/[^a-z0-9]/g, '_')
-    .replace(/_+/g, '_')
-    .replace(/^_|_$/g, '')
-    .slice(0, 20);
+function generateUsername(email?: string, name?: string): string {
+  const source = email ? email.split('@')[0] : name || '';
+  // Clean the source: lowercase, replace non-alphanumeric with underscore
+  const cleanName =
+    source
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '_')
+      .replace(/_+/g, '_')
+      .replace(/^_|_$/g, '')
+      .slice(0, 20) || 'player';
 
   // Add random suffix for uniqueness
   const suffix = Math.random().toString(36).slice(2, 8);
@@ -100,13 +105,102 @@ export const profileRepository = {
     }
   },
 
+  /**
+   * Get a player's public profile together with their stats
+   */
+  async getPublicProfile(userId: string): Promise<PublicProfile | null> {
+    const [profile, stats] = await Promise.all([this.getById(userId), this.getStats(userId)]);
+    if (!profile) {
+      return null;
+    }
+
+    return {
+      id: profile.id,
+      username: profile.username,
+      displayName: profile.displayName,
+      avatarUrl: profile.avatarUrl,
+      createdAt: profile.createdAt,
+      stats,
+    };
+  },
+
+  /**
+   * Count a player's contributions
+   * Each count is a separate head-only query; a failed count is shown as 0
+   */
+  async getStats(userId: string): Promise<PlayerStats> {
+    const now = new Date().toISOString();
+
+    const countOf = async (
+      name: keyof PlayerStats,
+      query: PromiseLike<{ count: number | null; error: { message: string } | null }>
+    ): Promise<number> => {
+      const { count, error } = await query;
+      if (error) {
+        appLogger.error('Failed to count player stat', {
+          userId,
+          stat: name,
+          error: error.message,
+        });
+        return 0;
+      }
+      return count ?? 0;
+    };
+
+    try {
+      const [fieldsContributed, gamesPlayed, gamesOrganized, reviewsWritten] = await Promise.all([
+        countOf(
+          'fieldsContributed',
+          supabase
+            .from('fields')
+            .select('id', { count: 'exact', head: true })
+            .eq('created_by', userId)
+            .eq('status', 'active')
+        ),
+        countOf(
+          'gamesPlayed',
+          supabase
+            .from('game_players')
+            .select('game_id, games!inner(status, starts_at)', { count: 'exact', head: true })
+            .eq('player_id', userId)
+            .neq('games.status', 'cancelled')
+            .lte('games.starts_at', now)
+        ),
+        countOf(
+          'gamesOrganized',
+          supabase
+            .from('games')
+            .select('id', { count: 'exact', head: true })
+            .eq('organizer_id', userId)
+            .neq('status', 'cancelled')
+            .lte('starts_at', now)
+        ),
+        countOf(
+          'reviewsWritten',
+          supabase
+            .from('field_reviews')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', userId)
+        ),
+      ]);
+
+      return { fieldsContributed, gamesPlayed, gamesOrganized, reviewsWritten };
+    } catch (error) {
+      appLogger.error('Failed to get player stats', {
+        userId,
+        error: getErrorMessage(error),
+      });
+      return { fieldsContributed: 0, gamesPlayed: 0, gamesOrganized: 0, reviewsWritten: 0 };
+    }
+  },
+
   /**
    * Create a new profile
    */
   async create(data: CreateProfileData): Promise<UserProfile | null> {
     try {
       // Generate unique username
-      let username = generateUsername(data.email);
+      let username = generateUsername(data.email, data.displayName);
       let attempts = 0;
       const maxAttempts = 5;
 
@@ -114,7 +208,7 @@ export const profileRepository = {
       while (attempts < maxAttempts) {
         const existing = await this.getByUsername(username);
         if (!existing) break;
-        username = generateUsername(data.email);
+        username = generateUsername(data.email, data.displayName);
         attempts++;
       }
 
@@ -192,7 +286,7 @@ export const profileRepository = {
    */
   async ensureProfile(
     userId: string,
-    email: string,
+    email: string | undefined,
     metadata?: { fullName?: string; avatarUrl?: string }
   ): Promise<UserProfile | null> {
     // First, try to get existing profile
@@ -236,4 +330,81 @@ export const profileRepository = {
       return false;
     }
   },
+
+  /**
+   * Get everything stored about the current user
+   */
+  async exportAccountData(): Promise<AccountDataExport | null> {
+    try {
+      const { data, error } = await supabase.rpc('export_account_data');
+
+      if (error) {
+        throw error;
+      }
+
+      return data as AccountDataExport;
+    } catch (error) {
+      appLogger.error('Failed to export account data', { error: getErrorMessage(error) });
+      return null;
+    }
+  },
+
+  /**
+   * Get a one-time token for moving the current guest's data to the account they sign in to
+   */
+  async createGuestMergeToken(): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('create_guest_merge_token');
+
+      if (error) {
+        throw error;
+      }
+
+      return data as string;
+    } catch (error) {
+      appLogger.error('Failed to create guest merge token', { error: getErrorMessage(error) });
+      return null;
+    }
+  },
+
+  /**
+   * Move a guest's drafts, photos and favorites to the current account
+   * Drafts are sent for review and the guest account is deleted
+   */
+  async mergeGuestAccount(mergeToken: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('merge_guest_account', { merge_token: mergeToken });
+
+      if (error) {
+        throw error;
+      }
+
+      appLogger.info('Guest account merged');
+      return { success: true };
+    } catch (error) {
+      appLogger.error('Failed to merge guest account', { error: getErrorMessage(error) });
+      return { success: false, error: getErrorMessage(error) };
+    }
+  },
+
+  /**
+   * Delete the current user's account
+   * Contributions other players rely on stay, without the user's name
+   * Returns the URLs of the photos that were removed, so their files can be deleted
+   */
+  async deleteAccount(): Promise<{ success: boolean; imageUrls?: string[]; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('delete_account');
+
+      if (error) {
+        throw error;
+      }
+
+      appLogger.info('Account deleted');
+      return { success: true, imageUrls: (data || []) as string[] };
+    } catch (error) {
+      appLogger.error('Failed to delete account', { error: getErrorMessage(error) });
+      return { success: false, error: getErrorMessage(error) };
+    }
+  },
 };
@@ -0,0 +1,91 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { profileRepository } from '@/features/auth/repositories/profileRepository';
+import { imageService } from '@/features/fields/services/imageService';
+import { uploadQueue } from '@/features/fields/services/uploadQueue';
+import { supabase, STORAGE_BUCKETS } from '@/infrastructure/supabase';
+import { appLogger } from '@/utils/logger';
+
+interface AccountActionResult {
+  success: boolean;
+  error?: string;
+}
+
+class AccountService {
+  /**
+   * Save everything stored about the current user to a JSON file and open the share sheet
+   */
+  async exportData(): Promise<AccountActionResult> {
+    try {
+      const data = await profileRepository.exportAccountData();
+      if (!data) {
+        return { success: false, error: 'Failed to collect your data. Please try again.' };
+      }
+
+      const fileName = `down-to-play-data-${new Date().toISOString().slice(0, 10)}.json`;
+      const uri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(uri, JSON.stringify(data, null, 2));
+
+      if (!(await Sharing.isAvailableAsync())) {
+        return { success: false, error: 'Sharing is not available on this device.' };
+      }
+
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/json',
+        UTI: 'public.json',
+        dialogTitle: 'Export your data',
+      });
+
+      appLogger.info('Account data exported', { fields: data.fields.length });
+      return { success: true };
+    } catch (error) {
+      appLogger.error('Error exporting account data', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { success: false, error: 'Failed to export your data. Please try again.' };
+    }
+  }
+
+  /**
+   * Delete the account, then remove the photos it took with it from storage
+   * Storage files can't be removed from SQL, so the account goes first and a failed
+   * deletion never leaves fields pointing at missing photos
+   */
+  async deleteAccount(userId: string): Promise<AccountActionResult> {
+    const result = await profileRepository.deleteAccount();
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    await uploadQueue.removeUserJobs(userId);
+    await Promise.all((result.imageUrls || []).map((url) => imageService.deleteImage(url)));
+    await this.deleteAvatars(userId);
+
+    return { success: true };
+  }
+
+  /**
+   * Delete every profile photo the user has uploaded, including replaced ones
+   */
+  private async deleteAvatars(userId: string): Promise<void> {
+    try {
+      const { data: files, error } = await supabase.storage
+        .from(STORAGE_BUCKETS.AVATARS)
+        .list(userId);
+
+      if (error || !files || files.length === 0) {
+        return;
+      }
+
+      await supabase.storage
+        .from(STORAGE_BUCKETS.AVATARS)
+        .remove(files.map((file) => `${userId}/${file.name}`));
+    } catch (error) {
+      appLogger.error('Error deleting avatars', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,100 @@
+/**
+ * Apple Auth Service
+ * Uses expo-apple-authentication for native Sign in with Apple (iOS only)
+ *
+ * Apple only shares the user's name on the first sign-in, and never inside the ID token,
+ * so it's returned alongside the token for the profile to be created with.
+ */
+
+import * as AppleAuthentication from 'expo-apple-authentication';
+import * as Crypto from 'expo-crypto';
+import { appLogger } from '@/utils/logger';
+import type { AuthServiceInterface, ProviderSignInResult } from './authService';
+
+/**
+ * Check if Sign in with Apple is available (iOS 13+)
+ */
+async function isAppleAuthAvailable(): Promise<boolean> {
+  try {
+    return await AppleAuthentication.isAvailableAsync();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sign in with Apple
+ * Returns the ID token and the raw nonce to be used with Supabase
+ */
+async function signInWithApple(): Promise<ProviderSignInResult> {
+  try {
+    // Apple receives the hashed nonce; Supabase checks the token against the raw one
+    const nonce = Crypto.randomUUID();
+    const hashedNonce = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, nonce);
+
+    const credential = await AppleAuthentication.signInAsync({
+      requestedScopes: [
+        AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+        AppleAuthentication.AppleAuthenticationScope.EMAIL,
+      ],
+      nonce: hashedNonce,
+    });
+
+    if (!credential.identityToken) {
+      appLogger.error('Apple Sign-In: No identity token received');
+      return {
+        success: false,
+        error: 'No ID token received from Apple. Please try again.',
+      };
+    }
+
+    const fullName = credential.fullName
+      ? AppleAuthentication.formatFullName(credential.fullName).trim()
+      : '';
+
+    appLogger.info('Apple Sign-In successful');
+    return {
+      success: true,
+      idToken: credential.identityToken,
+      nonce,
+      fullName: fullName || undefined,
+    };
+  } catch (error: unknown) {
+    const errorObj = error as { code?: string; message?: string };
+
+    if (errorObj?.code === 'ERR_REQUEST_CANCELED') {
+      appLogger.info('Apple Sign-In cancelled by user');
+      return {
+        success: false,
+        cancelled: true,
+      };
+    }
+
+    appLogger.error('Apple Sign-In error', { code: errorObj?.code, message: errorObj?.message });
+    return {
+      success: false,
+      error: errorObj?.message || 'Failed to sign in with Apple',
+    };
+  }
+}
+
+/**
+ * Revoke Apple access
+ * Apple tokens can only be revoked server-side; users can also remove the app
+ * under Settings > Apple ID > Sign in with Apple
+ */
+async function revokeAppleAccess(): Promise<void> {
+  appLogger.warn('Apple revoke access: must be done server-side');
+}
+
+export const appleAuthService: AuthServiceInterface = {
+  provider: 'apple',
+  // Nothing to configure; the capability comes from the app's entitlements
+  configure: () => undefined,
+  isConfigured: () => true,
+  isAvailable: isAppleAuthAvailable,
+  signIn: signInWithApple,
+  // Apple keeps no session on the device; signing out of Supabase is enough
+  signOut: async () => undefined,
+  revokeAccess: revokeAppleAccess,
+};
@@ -0,0 +1,51 @@
+/**
+ * Auth Service
+ *
+ * Shared interface for the sign-in providers:
+ * - Google (googleAuthService, with platform-specific implementations)
+ * - Apple (appleAuthService, iOS only)
+ * - Email magic link / one-time code (emailAuthService)
+ *
+ * Native providers hand back an ID token that AuthContext exchanges with Supabase.
+ * Email sign-in finishes outside the app, when the user taps the link or enters the code.
+ */
+
+import type { SignInProvider } from '@/features/auth/types';
+
+// ============================================
+// Shared Types
+// ============================================
+
+/**
+ * Result of a provider's sign-in step
+ */
+export interface ProviderSignInResult {
+  success: boolean;
+  /** ID token to exchange with Supabase (Google, Apple) */
+  idToken?: string;
+  /** Raw nonce the ID token was requested with (Apple) */
+  nonce?: string;
+  /** Name shared by the provider when it isn't part of the token (Apple, first sign-in only) */
+  fullName?: string;
+  /** Sign-in continues outside the app, e.g. in the user's inbox (Email) */
+  pending?: boolean;
+  error?: string;
+  cancelled?: boolean;
+}
+
+/**
+ * Auth service interface implemented by every provider
+ * TCredentials is what the user enters before signing in, e.g. an email address
+ */
+export interface AuthServiceInterface<TCredentials = void> {
+  provider: SignInProvider;
+  configure: () => void;
+  /** Whether the environment variables the provider needs are set */
+  isConfigured: () => boolean;
+  /** Whether the provider can be offered on this device */
+  isAvailable: () => Promise<boolean>;
+  signIn: (credentials: TCredentials) => Promise<ProviderSignInResult>;
+  signOut: () => Promise<void>;
+  /** Disconnect the app from the provider account (for account deletion flows) */
+  revokeAccess: () => Promise<void>;
+}
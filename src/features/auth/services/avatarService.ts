@@ -0,0 +1,193 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as ImagePicker from 'expo-image-picker';
+import { PROFILE_CONFIG } from '@/constants';
+import { supabase, STORAGE_BUCKETS } from '@/infrastructure/supabase';
+import { storageLogger } from '@/utils/logger';
+
+export type AvatarSource = 'camera' | 'gallery';
+
+interface AvatarPickerResult {
+  success: boolean;
+  // Local URI of the cropped and compressed photo
+  uri?: string;
+  error?: string;
+}
+
+interface AvatarUploadResult {
+  success: boolean;
+  url?: string;
+  error?: string;
+}
+
+class AvatarService {
+  /**
+   * Let the user take or pick a photo and crop it to a square
+   * The photo is resized and re-encoded, which also drops EXIF metadata
+   */
+  async pickAvatar(source: AvatarSource): Promise<AvatarPickerResult> {
+    try {
+      const permission =
+        source === 'camera'
+          ? await ImagePicker.requestCameraPermissionsAsync()
+          : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+      if (permission.status !== 'granted') {
+        return {
+          success: false,
+          error:
+            source === 'camera'
+              ? 'Permission to access camera was denied. Please enable it in settings.'
+              : 'Permission to access photos was denied. Please enable it in settings.',
+        };
+      }
+
+      const options: ImagePicker.ImagePickerOptions = {
+        mediaTypes: ['images'],
+        allowsEditing: true,
+        aspect: [1, 1],
+        // Full quality here; the photo is compressed once below
+        quality: 1,
+      };
+      const result =
+        source === 'camera'
+          ? await ImagePicker.launchCameraAsync(options)
+          : await ImagePicker.launchImageLibraryAsync(options);
+
+      if (result.canceled || !result.assets || result.assets.length === 0) {
+        return { success: false };
+      }
+
+      const uri = await this.compressAvatar(result.assets[0]);
+      return { success: true, uri };
+    } catch (error) {
+      storageLogger.error('Error picking avatar', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: 'Failed to load photo. Please try another one.',
+      };
+    }
+  }
+
+  /**
+   * Crop the photo to its centre square (in case the picker didn't) and resize it
+   */
+  private async compressAvatar(asset: ImagePicker.ImagePickerAsset): Promise<string> {
+    const context = ImageManipulator.manipulate(asset.uri);
+
+    const side = Math.min(asset.width, asset.height);
+    if (asset.width !== asset.height) {
+      context.crop({
+        originX: (asset.width - side) / 2,
+        originY: (asset.height - side) / 2,
+        width: side,
+        height: side,
+      });
+    }
+    if (side > PROFILE_CONFIG.avatarSize) {
+      context.resize({ width: PROFILE_CONFIG.avatarSize, height: PROFILE_CONFIG.avatarSize });
+    }
+
+    const rendered = await context.renderAsync();
+    const result = await rendered.saveAsync({
+      compress: PROFILE_CONFIG.avatarQuality,
+      format: SaveFormat.JPEG,
+    });
+
+    return result.uri;
+  }
+
+  /**
+   * Upload a profile photo to the user's folder in the avatars bucket
+   * Every upload gets a new file name so cached copies of the old photo aren't shown
+   */
+  async uploadAvatar(uri: string, userId: string): Promise<AvatarUploadResult> {
+    try {
+      const storagePath = `${userId}/avatar_${Date.now()}.jpg`;
+
+      const { data: signedUpload, error: signError } = await supabase.storage
+        .from(STORAGE_BUCKETS.AVATARS)
+        .createSignedUploadUrl(storagePath);
+
+      if (signError || !signedUpload) {
+        storageLogger.error('Supabase storage error', { error: signError?.message });
+        return {
+          success: false,
+          error: `Failed to upload photo: ${signError?.message || 'Unknown error'}`,
+        };
+      }
+
+      const response = await FileSystem.uploadAsync(signedUpload.signedUrl, uri, {
+        httpMethod: 'PUT',
+        uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+        headers: { 'Content-Type': 'image/jpeg' },
+      });
+
+      if (response.status >= 300) {
+        storageLogger.error('Supabase storage upload failed', {
+          status: response.status,
+          body: response.body,
+        });
+        return {
+          success: false,
+          error: `Failed to upload photo (status ${response.status})`,
+        };
+      }
+
+      const { data: urlData } = supabase.storage
+        .from(STORAGE_BUCKETS.AVATARS)
+        .getPublicUrl(signedUpload.path);
+
+      storageLogger.debug('Avatar uploaded successfully', { path: signedUpload.path });
+      return {
+        success: true,
+        url: urlData.publicUrl,
+      };
+    } catch (error) {
+      storageLogger.error('Error uploading avatar', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: 'Failed to upload photo. Please check your connection and try again.',
+      };
+    }
+  }
+
+  /**
+   * Delete a previously uploaded profile photo
+   * Photos hosted elsewhere (e.g. a Google account picture) are left alone
+   */
+  async deleteAvatar(avatarUrl: string): Promise<boolean> {
+    try {
+      const url = new URL(avatarUrl);
+      const pathParts = url.pathname.split('/');
+      const bucketIndex = pathParts.findIndex((p) => p === STORAGE_BUCKETS.AVATARS);
+
+      if (!url.pathname.includes('/storage/') || bucketIndex === -1) {
+        return false;
+      }
+
+      const storagePath = pathParts.slice(bucketIndex + 1).join('/');
+
+      const { error } = await supabase.storage.from(STORAGE_BUCKETS.AVATARS).remove([storagePath]);
+
+      if (error) {
+        storageLogger.error('Error deleting avatar from storage', { error: error.message });
+        return false;
+      }
+
+      storageLogger.debug('Avatar deleted successfully', { storagePath });
+      return true;
+    } catch (error) {
+      storageLogger.error('Error deleting avatar', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+}
+
+export const avatarService = new AvatarService();
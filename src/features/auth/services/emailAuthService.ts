@@ -0,0 +1,238 @@
+/**
+ * Email Auth Service
+ * Passwordless sign-in through Supabase email OTP
+ *
+ * The sign-in email contains both a magic link, which opens the app through the
+ * `downtoplay://auth/callback` deep link, and a one-time code for when the link is
+ * opened on another device. Guests confirm an email address for their guest account
+ * the same way, turning it into a full account.
+ */
+
+import { AUTH_CONFIG } from '@/constants';
+import { supabase } from '@/infrastructure/supabase';
+import { appLogger } from '@/utils/logger';
+import type { AuthServiceInterface, ProviderSignInResult } from './authService';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface EmailCredentials {
+  email: string;
+}
+
+// Signing in to an account, or adding the email address to the current guest account
+export type EmailCodeType = 'email' | 'email_change';
+
+export interface LinkEmailResult extends ProviderSignInResult {
+  /** The address belongs to an existing account, which the guest has to sign in to */
+  alreadyRegistered?: boolean;
+}
+
+export interface EmailAuthServiceInterface extends AuthServiceInterface<EmailCredentials> {
+  linkEmail: (credentials: EmailCredentials) => Promise<LinkEmailResult>;
+  verifyCode: (email: string, code: string, type?: EmailCodeType) => Promise<ProviderSignInResult>;
+  isAuthRedirect: (url: string) => boolean;
+  handleRedirect: (url: string) => Promise<ProviderSignInResult>;
+}
+
+/**
+ * Read the query and fragment parameters of a URL
+ * Supabase puts tokens in the fragment (implicit flow) or a code in the query (PKCE flow)
+ */
+function getUrlParams(url: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const [withoutFragment, fragment = ''] = url.split('#');
+  const query = withoutFragment.split('?')[1] ?? '';
+
+  [query, fragment]
+    .join('&')
+    .split('&')
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, value = ''] = pair.split('=');
+      params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+    });
+
+  return params;
+}
+
+function normalizeEmail(email: string): string | null {
+  const normalizedEmail = email.trim().toLowerCase();
+  return EMAIL_PATTERN.test(normalizedEmail) ? normalizedEmail : null;
+}
+
+/**
+ * Send a sign-in email with a magic link and a one-time code
+ * New users get an account when they first sign in
+ */
+async function sendSignInEmail({ email }: EmailCredentials): Promise<ProviderSignInResult> {
+  const normalizedEmail = normalizeEmail(email);
+  if (!normalizedEmail) {
+    return { success: false, error: 'Please enter a valid email address.' };
+  }
+
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: normalizedEmail,
+      options: {
+        emailRedirectTo: AUTH_CONFIG.redirectUrl,
+        shouldCreateUser: true,
+      },
+    });
+
+    if (error) {
+      appLogger.error('Email sign-in: failed to send email', { error: error.message });
+      return { success: false, error: error.message };
+    }
+
+    appLogger.info('Email sign-in: email sent');
+    return { success: true, pending: true };
+  } catch (error) {
+    appLogger.error('Email sign-in error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      success: false,
+      error: 'Failed to send the sign-in email. Please check your connection and try again.',
+    };
+  }
+}
+
+/**
+ * Add an email address to the current guest account
+ * Supabase sends a confirmation email with the same link and code as a sign-in email;
+ * the account is permanent once it's confirmed.
+ */
+async function linkEmail({ email }: EmailCredentials): Promise<LinkEmailResult> {
+  const normalizedEmail = normalizeEmail(email);
+  if (!normalizedEmail) {
+    return { success: false, error: 'Please enter a valid email address.' };
+  }
+
+  try {
+    const { error } = await supabase.auth.updateUser(
+      { email: normalizedEmail },
+      { emailRedirectTo: AUTH_CONFIG.redirectUrl }
+    );
+
+    if (error) {
+      if (error.code === 'email_exists') {
+        return { success: false, alreadyRegistered: true, error: error.message };
+      }
+      appLogger.error('Email sign-in: failed to link email', { error: error.message });
+      return { success: false, error: error.message };
+    }
+
+    appLogger.info('Email sign-in: confirmation email sent to guest');
+    return { success: true, pending: true };
+  } catch (error) {
+    appLogger.error('Email sign-in: link email error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      success: false,
+      error: 'Failed to send the sign-in email. Please check your connection and try again.',
+    };
+  }
+}
+
+/**
+ * Sign in with the one-time code from the sign-in (or guest confirmation) email
+ */
+async function verifyEmailCode(
+  email: string,
+  code: string,
+  type: EmailCodeType = 'email'
+): Promise<ProviderSignInResult> {
+  try {
+    const { error } = await supabase.auth.verifyOtp({
+      email: email.trim().toLowerCase(),
+      token: code.trim(),
+      type,
+    });
+
+    if (error) {
+      appLogger.warn('Email sign-in: code rejected', { error: error.message });
+      return { success: false, error: 'That code is invalid or has expired.' };
+    }
+
+    appLogger.info('Email sign-in successful (code)');
+    return { success: true };
+  } catch (error) {
+    appLogger.error('Email sign-in: code verification error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      success: false,
+      error: 'Failed to verify the code. Please try again.',
+    };
+  }
+}
+
+/**
+ * Check whether a deep link is the return from a sign-in email
+ */
+function isAuthRedirect(url: string): boolean {
+  return url.startsWith(AUTH_CONFIG.redirectUrl);
+}
+
+/**
+ * Finish signing in from a magic link
+ * The session is picked up by AuthContext's auth state listener
+ */
+async function handleRedirect(url: string): Promise<ProviderSignInResult> {
+  const params = getUrlParams(url);
+
+  if (params.error || params.error_description) {
+    appLogger.warn('Email sign-in: link rejected', { error: params.error_description });
+    return {
+      success: false,
+      error: params.error_description || 'This sign-in link is invalid or has expired.',
+    };
+  }
+
+  try {
+    if (params.code) {
+      const { error } = await supabase.auth.exchangeCodeForSession(params.code);
+      if (error) {
+        throw error;
+      }
+    } else if (params.access_token && params.refresh_token) {
+      const { error } = await supabase.auth.setSession({
+        access_token: params.access_token,
+        refresh_token: params.refresh_token,
+      });
+      if (error) {
+        throw error;
+      }
+    } else {
+      return { success: false, error: 'This sign-in link is incomplete.' };
+    }
+
+    appLogger.info('Email sign-in successful (link)');
+    return { success: true };
+  } catch (error) {
+    appLogger.error('Email sign-in: failed to complete link', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      success: false,
+      error: 'This sign-in link is invalid or has expired. Please request a new one.',
+    };
+  }
+}
+
+export const emailAuthService: EmailAuthServiceInterface = {
+  provider: 'email',
+  // Email sign-in only needs Supabase, which is configured on startup
+  configure: () => undefined,
+  isConfigured: () => true,
+  isAvailable: async () => true,
+  signIn: sendSignInEmail,
+  // The session belongs to Supabase alone
+  signOut: async () => undefined,
+  revokeAccess: async () => undefined,
+  linkEmail,
+  verifyCode: verifyEmailCode,
+  isAuthRedirect,
+  handleRedirect,
+};
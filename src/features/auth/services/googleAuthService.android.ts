@@ -8,7 +8,7 @@ import {
   signOut as credentialManagerSignOut,
 } from 'react-native-credentials-manager';
 import { appLogger } from '@/utils/logger';
-import type { GoogleSignInResult } from './googleAuthService';
+import type { GoogleAuthServiceInterface, GoogleSignInResult } from './googleAuthService';
 
 // Configuration from environment
 const WEB_CLIENT_ID = process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID;
@@ -180,7 +180,15 @@ export function isGoogleAuthConfigured(): boolean {
   return !!WEB_CLIENT_ID;
 }
 
-export const googleAuthService = {
+/**
+ * Check if Google Sign-In can be offered on this device
+ */
+export async function isGoogleAuthAvailable(): Promise<boolean> {
+  return isGoogleAuthConfigured();
+}
+
+export const googleAuthService: GoogleAuthServiceInterface = {
+  provider: 'google',
   configure: configureGoogleSignIn,
   signIn: signInWithGoogle,
   signOut: signOutFromGoogle,
@@ -188,4 +196,5 @@ export const googleAuthService = {
   getCurrentUser: getCurrentGoogleUser,
   revokeAccess: revokeGoogleAccess,
   isConfigured: isGoogleAuthConfigured,
+  isAvailable: isGoogleAuthAvailable,
 };
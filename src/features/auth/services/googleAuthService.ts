@@ -15,6 +15,7 @@
 
 import { Platform } from 'react-native';
 import { appLogger } from '@/utils/logger';
+import type { AuthServiceInterface, ProviderSignInResult } from './authService';
 
 // ============================================
 // Shared Types
@@ -23,24 +24,15 @@ import { appLogger } from '@/utils/logger';
 /**
  * Result of Google Sign-In operation
  */
-export interface GoogleSignInResult {
-  success: boolean;
-  idToken?: string;
-  error?: string;
-  cancelled?: boolean;
-}
+export type GoogleSignInResult = ProviderSignInResult;
 
 /**
  * Google Auth Service interface
+ * Adds Google's own session helpers to the shared auth service interface
  */
-export interface GoogleAuthServiceInterface {
-  configure: () => void;
-  signIn: () => Promise<GoogleSignInResult>;
-  signOut: () => Promise<void>;
+export interface GoogleAuthServiceInterface extends AuthServiceInterface {
   isSignedIn: () => Promise<boolean>;
   getCurrentUser: () => Promise<unknown>;
-  revokeAccess: () => Promise<void>;
-  isConfigured: () => boolean;
 }
 
 // ============================================
@@ -117,7 +109,15 @@ export function isGoogleAuthConfigured(): boolean {
   return !!WEB_CLIENT_ID;
 }
 
+/**
+ * Check if Google Sign-In can be offered (not on web)
+ */
+export async function isGoogleAuthAvailable(): Promise<boolean> {
+  return false;
+}
+
 export const googleAuthService: GoogleAuthServiceInterface = {
+  provider: 'google',
   configure: configureGoogleSignIn,
   signIn: signInWithGoogle,
   signOut: signOutFromGoogle,
@@ -125,4 +125,5 @@ export const googleAuthService: GoogleAuthServiceInterface = {
   getCurrentUser: getCurrentGoogleUser,
   revokeAccess: revokeGoogleAccess,
   isConfigured: isGoogleAuthConfigured,
+  isAvailable: isGoogleAuthAvailable,
 };
@@ -13,6 +13,15 @@ import { Session, User } from '@supabase/supabase-js';
  */
 export type AppearancePreference = 'light' | 'dark' | 'system';
 
+// ============================================
+// Role Types
+// ============================================
+
+/**
+ * User role - moderators review submitted fields
+ */
+export type UserRole = 'user' | 'moderator';
+
 // ============================================
 // User Profile Types
 // ============================================
@@ -26,6 +35,7 @@ export interface UserProfile {
   displayName: string | null;
   avatarUrl: string | null;
   appearance: AppearancePreference;
+  role: UserRole;
   createdAt: string;
   updatedAt: string;
 }
@@ -39,14 +49,41 @@ export interface ProfileRow {
   display_name: string | null;
   avatar_url: string | null;
   appearance: AppearancePreference;
+  role: UserRole;
   created_at: string;
   updated_at: string;
 }
 
 /**
- * Google user metadata from OAuth response
+ * What a player has done in the app, shown on their public profile
+ */
+export interface PlayerStats {
+  /** Approved fields they added to the map */
+  fieldsContributed: number;
+  /** Games they were on the roster of that have started and weren't cancelled */
+  gamesPlayed: number;
+  /** Games they organized that have started and weren't cancelled */
+  gamesOrganized: number;
+  reviewsWritten: number;
+}
+
+/**
+ * Profile of a player as seen by other users
+ */
+export interface PublicProfile {
+  id: string;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  createdAt: string;
+  stats: PlayerStats;
+}
+
+/**
+ * User metadata shared by the sign-in provider
+ * Google fills in the name and picture; Apple and email sign-in usually leave it empty
  */
-export interface GoogleUserMetadata {
+export interface ProviderUserMetadata {
   full_name?: string;
   name?: string;
   avatar_url?: string;
@@ -76,14 +113,27 @@ export interface AuthState {
  * Auth context value exposed to consumers
  */
 export interface AuthContextValue extends AuthState {
-  /** Whether user is authenticated */
+  /** Whether user is signed in to an account (guest sessions don't count) */
   isAuthenticated: boolean;
-  /** Whether user is browsing as guest */
+  /**
+   * Whether user is browsing as guest, usually with an anonymous session of their own
+   * (user.is_anonymous) that becomes a full account when they sign in
+   */
   isGuest: boolean;
+  /** Sign-in providers that can be offered on this device */
+  availableProviders: SignInProvider[];
   /** Sign in with Google */
   signInWithGoogle: () => Promise<AuthResult>;
+  /** Sign in with Apple (iOS only) */
+  signInWithApple: () => Promise<AuthResult>;
+  /** Email a magic link and one-time code; sign-in finishes when either is used */
+  sendEmailSignIn: (email: string) => Promise<AuthResult>;
+  /** Sign in with the one-time code from the sign-in email */
+  verifyEmailCode: (email: string, code: string) => Promise<AuthResult>;
   /** Sign out current user */
   signOut: () => Promise<void>;
+  /** Delete the current account and sign out */
+  deleteAccount: () => Promise<AuthResult>;
   /** Refresh user profile from database */
   refreshProfile: () => Promise<void>;
   /** Set auth intent for after login */
@@ -96,6 +146,11 @@ export interface AuthContextValue extends AuthState {
 // Auth Operation Types
 // ============================================
 
+/**
+ * Sign-in providers, matching Supabase's `app_metadata.provider`
+ */
+export type SignInProvider = 'google' | 'apple' | 'email';
+
 /**
  * Result of an auth operation
  */
@@ -112,6 +167,11 @@ export interface AuthResult {
 export type AuthIntent =
   | { type: 'add_field' }
   | { type: 'create_game'; fieldId: string }
+  | { type: 'add_photo'; fieldId: string }
+  | { type: 'write_review'; fieldId: string }
+  | { type: 'favorite_field'; fieldId: string }
+  | { type: 'report_field'; fieldId: string }
+  | { type: 'suggest_edit'; fieldId: string }
   | { type: 'join_game'; gameId: string }
   | { type: 'view_profile'; userId: string }
   | null;
@@ -125,7 +185,8 @@ export type AuthIntent =
  */
 export interface CreateProfileData {
   userId: string;
-  email: string;
+  /** Used to suggest a username; Apple users may hide theirs */
+  email?: string;
   displayName?: string;
   avatarUrl?: string;
 }
@@ -134,8 +195,25 @@ export interface CreateProfileData {
  * Data for updating a profile
  */
 export interface UpdateProfileData {
-  displayName?: string;
-  avatarUrl?: string;
+  displayName?: string | null;
+  avatarUrl?: string | null;
   username?: string;
   appearance?: AppearancePreference;
 }
+
+// ============================================
+// Account Data Types
+// ============================================
+
+/**
+ * Everything stored about a user, as returned by export_account_data()
+ * Rows are kept as they are in the database
+ */
+export interface AccountDataExport {
+  exported_at: string;
+  email: string | null;
+  profile: Record<string, unknown> | null;
+  fields: Record<string, unknown>[];
+  images: (Record<string, unknown> & { image_url: string })[];
+  reviews: Record<string, unknown>[];
+}
@@ -1,32 +1,53 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Alert } from 'react-native';
 import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { fieldDraftService } from '@/features/fields/services/fieldDraftService';
+import { uploadQueue } from '@/features/fields/services/uploadQueue';
 import {
   CreateFieldFormData,
   CreateFieldFormErrors,
+  DuplicateFieldMatch,
+  FieldDraft,
   SelectedImage,
+  UploadJob,
   DEFAULT_FORM_DATA,
 } from '@/features/fields/types';
-import { Coordinates } from '@/types';
+import { getGeocoder } from '@/infrastructure/geocoding';
+import { Coordinates, Field } from '@/types';
 import { fieldLogger } from '@/utils/logger';
 
+// How long the form has to be left alone before it's saved as a draft
+const DRAFT_SAVE_DELAY = 1000;
+
 interface UseCreateFieldReturn {
   formData: CreateFieldFormData;
   images: SelectedImage[];
   errors: CreateFieldFormErrors;
   isSubmitting: boolean;
   uploadProgress: number;
+  // Upload state of each new photo after submitting, keyed by the photo's URI
+  imageUploads: Record<string, UploadJob>;
   validationError: string | null;
+  isEditing: boolean;
+  isGeocoding: boolean;
+  // Existing fields the submission probably duplicates; non-empty until the user decides
+  duplicates: DuplicateFieldMatch[];
+  // Another player's field awaiting review matches too; it can't be shown or confirmed
+  hasHiddenDuplicate: boolean;
   updateFormData: <K extends keyof CreateFieldFormData>(
     key: K,
     value: CreateFieldFormData[K]
   ) => void;
   setImages: (images: SelectedImage[]) => void;
   setCoordinates: (coordinates: Coordinates) => void;
+  loadField: (field: Field, imageUrls: string[]) => void;
+  loadDraft: (draft: FieldDraft) => void;
   validateForm: () => boolean;
   submitForm: (userId: string | null) => Promise<boolean>;
   resetForm: () => void;
   clearValidationError: () => void;
+  confirmNotDuplicate: () => void;
+  dismissDuplicates: () => void;
 }
 
 export function useCreateField(): UseCreateFieldReturn {
@@ -35,12 +56,41 @@ export function useCreateField(): UseCreateFieldReturn {
   const [errors, setErrors] = useState<CreateFieldFormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [imageUploads, setImageUploads] = useState<Record<string, UploadJob>>({});
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
+  const [isGeocoding, setIsGeocoding] = useState(false);
+  // Coordinates the address fields currently describe, so they're only looked up again
+  // when the pin actually moves
+  const geocodedCoordinatesRef = useRef<Coordinates | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateFieldMatch[]>([]);
+  const [hasHiddenDuplicate, setHasHiddenDuplicate] = useState(false);
+  // Match the user confirmed is a different field; read by the next submit
+  const confirmedDistinctFromRef = useRef<string | null>(null);
+  // Draft the form is saved to while adding a new field
+  const draftIdRef = useRef<string | null>(null);
+  const pendingDraftRef = useRef<{ formData: CreateFieldFormData; images: SelectedImage[] } | null>(
+    null
+  );
 
   const clearValidationError = useCallback(() => {
     setValidationError(null);
   }, []);
 
+  // "It's a different field": remember the match so the next submit goes through
+  // Only offered for a single visible match; the server rejects fields with several
+  const confirmNotDuplicate = useCallback(() => {
+    confirmedDistinctFromRef.current = duplicates[0]?.id ?? null;
+    setDuplicates([]);
+    setHasHiddenDuplicate(false);
+  }, [duplicates]);
+
+  // "It's the same field": drop the matches without submitting
+  const dismissDuplicates = useCallback(() => {
+    setDuplicates([]);
+    setHasHiddenDuplicate(false);
+  }, []);
+
   const updateFormData = useCallback(
     <K extends keyof CreateFieldFormData>(key: K, value: CreateFieldFormData[K]) => {
       setFormData((prev) => ({ ...prev, [key]: value }));
@@ -68,6 +118,152 @@ export function useCreateField(): UseCreateFieldReturn {
     });
   }, []);
 
+  // Reverse geocode the pin whenever it settles somewhere new
+  const { coordinates } = formData;
+  useEffect(() => {
+    const previous = geocodedCoordinatesRef.current;
+
+    if (coordinates.latitude === 0 && coordinates.longitude === 0) {
+      return;
+    }
+    if (
+      previous &&
+      previous.latitude === coordinates.latitude &&
+      previous.longitude === coordinates.longitude
+    ) {
+      return;
+    }
+
+    geocodedCoordinatesRef.current = coordinates;
+    let cancelled = false;
+    setIsGeocoding(true);
+
+    getGeocoder()
+      .reverseGeocode(coordinates)
+      .then((result) => {
+        if (cancelled) {
+          return;
+        }
+        setFormData((prev) => ({
+          ...prev,
+          address: result?.address || result?.name || '',
+          city: result?.city || '',
+          country: result?.country || '',
+        }));
+      })
+      .catch((error) => {
+        // Leave whatever the user typed; the address is optional
+        fieldLogger.debug('Reverse geocoding failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsGeocoding(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [coordinates]);
+
+  const saveDraft = useCallback(() => {
+    const pending = pendingDraftRef.current;
+    if (!pending) {
+      return;
+    }
+
+    pendingDraftRef.current = null;
+    draftIdRef.current ??= `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    fieldDraftService.saveDraft(draftIdRef.current, pending.formData, pending.images);
+  }, []);
+
+  // Save new fields as a draft shortly after every change, so nothing is lost when the
+  // screen is closed or the app is killed
+  useEffect(() => {
+    const hasContent =
+      formData.name.trim() ||
+      formData.description.trim() ||
+      formData.notes.trim() ||
+      images.length > 0;
+    if (editingFieldId || !hasContent) {
+      return;
+    }
+
+    pendingDraftRef.current = { formData, images };
+    const timer = setTimeout(saveDraft, DRAFT_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [formData, images, editingFieldId, saveDraft]);
+
+  // Save whatever changed right before the screen closed
+  useEffect(() => saveDraft, [saveDraft]);
+
+  // Continue a saved draft
+  const loadDraft = useCallback((draft: FieldDraft) => {
+    draftIdRef.current = draft.id;
+    // Keep the saved address unless the pin is moved
+    geocodedCoordinatesRef.current = draft.formData.coordinates;
+    setFormData(draft.formData);
+    setImages(draft.images);
+    setErrors({});
+  }, []);
+
+  // Fill the form with an existing field so it can be edited
+  const loadField = useCallback((field: Field, imageUrls: string[]) => {
+    setEditingFieldId(field.id);
+    // Keep the saved address unless the pin is moved
+    geocodedCoordinatesRef.current = field.coordinates;
+    setFormData({
+      name: field.name,
+      description: field.description ?? '',
+      coordinates: field.coordinates,
+      address: field.address ?? '',
+      city: field.city ?? '',
+      country: field.country ?? '',
+      surfaceType: field.surface_type,
+      isFree: field.is_free,
+      hasLights: field.has_lights,
+      hasGoals: field.has_goals,
+      hasChangingRooms: field.has_changing_rooms,
+      hasParking: field.has_parking,
+      playerCapacity: field.player_capacity,
+      notes: field.notes ?? '',
+    });
+    setImages(
+      imageUrls.map((url) => ({
+        uri: url,
+        fileName: url.split('/').pop() || 'image.jpg',
+        mimeType: 'image/jpeg',
+        fileSize: 0,
+        remoteUrl: url,
+      }))
+    );
+    setErrors({});
+  }, []);
+
+  // Follow the queued photos until each has finished or failed once; resolves to whether all
+  // of them are saved. Whatever is left keeps uploading in the background.
+  const trackUploads = useCallback(async (jobs: UploadJob[]): Promise<boolean> => {
+    const jobIds = jobs.map((job) => job.id);
+
+    const unsubscribe = uploadQueue.subscribe((queueJobs) => {
+      const tracked = queueJobs.filter((job) => jobIds.includes(job.id));
+      // Finished jobs leave the queue, so keep the last state seen for each photo
+      setImageUploads((previous) => ({
+        ...previous,
+        ...Object.fromEntries(tracked.map((job) => [job.sourceUri, job])),
+      }));
+    });
+
+    try {
+      const settled = await uploadQueue.waitForFirstAttempt(jobIds);
+      return settled.every((job) => job.status === 'done');
+    } finally {
+      unsubscribe();
+    }
+  }, []);
+
   const validateForm = useCallback((): boolean => {
     const newErrors: CreateFieldFormErrors = {};
     const errorMessages: string[] = [];
@@ -126,26 +322,110 @@ export function useCreateField(): UseCreateFieldReturn {
 
       setIsSubmitting(true);
       setUploadProgress(0);
+      setImageUploads({});
 
       try {
+        if (editingFieldId) {
+          if (!userId) {
+            return false;
+          }
+
+          const result = await fieldRepository.updateField(
+            editingFieldId,
+            formData,
+            images,
+            userId,
+            setUploadProgress
+          );
+
+          if (!result.success) {
+            const errorMessage = result.error || 'Failed to update field';
+            setErrors({ general: errorMessage });
+            Alert.alert('Update Failed', errorMessage, [{ text: 'OK' }]);
+            return false;
+          }
+
+          if (result.errors && result.errors.length > 0) {
+            fieldLogger.warn('Some image changes failed', { errors: result.errors });
+          }
+
+          const allUploaded = await trackUploads(result.uploadJobs ?? []);
+          const savedMessage =
+            result.field?.status === 'pending'
+              ? 'Your changes have been saved and sent for review.'
+              : 'Your changes have been saved.';
+          Alert.alert(
+            'Field Updated',
+            allUploaded
+              ? savedMessage
+              : `${savedMessage} Some photos haven't uploaded yet - they'll keep uploading in the background once you're back online.`,
+            [{ text: 'OK' }]
+          );
+          fieldLogger.info('Field updated successfully', { fieldId: editingFieldId });
+          return true;
+        }
+
+        // Ask the user about likely duplicates before uploading anything
+        if (!confirmedDistinctFromRef.current) {
+          const check = await fieldRepository.findDuplicateFields(
+            formData.coordinates,
+            formData.name
+          );
+          if (check.matches.length > 0 || check.hasHiddenMatch) {
+            setDuplicates(check.matches);
+            setHasHiddenDuplicate(check.hasHiddenMatch);
+            return false;
+          }
+        }
+
         const result = await fieldRepository.createField(
           formData,
           images,
           userId,
-          setUploadProgress
+          setUploadProgress,
+          confirmedDistinctFromRef.current
         );
 
+        if (result.isDuplicate) {
+          // The server found a match we didn't confirm (e.g. the pin moved or a field was
+          // submitted in the meantime)
+          confirmedDistinctFromRef.current = null;
+          const check = await fieldRepository.findDuplicateFields(
+            formData.coordinates,
+            formData.name
+          );
+          if (check.matches.length > 0 || check.hasHiddenMatch) {
+            setDuplicates(check.matches);
+            setHasHiddenDuplicate(check.hasHiddenMatch);
+          } else {
+            Alert.alert('Submission Failed', result.error || 'This field already exists', [
+              { text: 'OK' },
+            ]);
+          }
+          return false;
+        }
+
         if (result.success) {
-          // Show success message
+          const allUploaded = await trackUploads(result.uploadJobs ?? []);
+
+          // Show success message; guests' fields are kept as drafts until they sign in
+          const isDraft = result.field?.status === 'draft';
+          const nextStep = isDraft
+            ? "It's saved as a draft in My Fields - sign in to send it to our moderators."
+            : 'Your field will appear on the map once a moderator has reviewed it.';
           Alert.alert(
-            'Field Added! 🎉',
-            'Thank you for contributing! Your field is now visible on the map.',
+            isDraft ? 'Field Saved! 🎉' : 'Field Added! 🎉',
+            allUploaded
+              ? `Thank you for contributing! ${nextStep}`
+              : `Thank you for contributing! Some photos haven't uploaded yet - they'll keep uploading in the background once you're back online. ${nextStep}`,
             [{ text: 'OK' }]
           );
 
-          // Show any upload warnings
-          if (result.errors && result.errors.length > 0) {
-            fieldLogger.warn('Some images failed to upload', { errors: result.errors });
+          // The draft is no longer needed once the field is submitted
+          pendingDraftRef.current = null;
+          if (draftIdRef.current) {
+            await fieldDraftService.deleteDraft(draftIdRef.current);
+            draftIdRef.current = null;
           }
 
           fieldLogger.info('Field created successfully', { fieldId: result.field?.id });
@@ -166,7 +446,7 @@ export function useCreateField(): UseCreateFieldReturn {
         setIsSubmitting(false);
       }
     },
-    [formData, images, validateForm]
+    [formData, images, editingFieldId, validateForm, trackUploads]
   );
 
   const resetForm = useCallback(() => {
@@ -175,7 +455,15 @@ export function useCreateField(): UseCreateFieldReturn {
     setErrors({});
     setIsSubmitting(false);
     setUploadProgress(0);
+    setImageUploads({});
     setValidationError(null);
+    setEditingFieldId(null);
+    geocodedCoordinatesRef.current = null;
+    setDuplicates([]);
+    setHasHiddenDuplicate(false);
+    confirmedDistinctFromRef.current = null;
+    draftIdRef.current = null;
+    pendingDraftRef.current = null;
   }, []);
 
   return {
@@ -184,13 +472,22 @@ export function useCreateField(): UseCreateFieldReturn {
     errors,
     isSubmitting,
     uploadProgress,
+    imageUploads,
     validationError,
+    isEditing: editingFieldId !== null,
+    isGeocoding,
+    duplicates,
+    hasHiddenDuplicate,
     updateFormData,
     setImages,
     setCoordinates,
+    loadField,
+    loadDraft,
     validateForm,
     submitForm,
     resetForm,
     clearValidationError,
+    confirmNotDuplicate,
+    dismissDuplicates,
   };
 }
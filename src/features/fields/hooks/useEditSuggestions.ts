@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { suggestionRepository } from '@/features/fields/repositories/suggestionRepository';
+import { FieldEditSuggestionWithField } from '@/features/fields/types';
+
+interface UseEditSuggestionsReturn {
+  suggestions: FieldEditSuggestionWithField[];
+  isLoading: boolean;
+  pendingSuggestionId: string | null;
+  refetch: () => Promise<void>;
+  acceptSuggestion: (suggestionId: string) => Promise<{ success: boolean; error?: string }>;
+  rejectSuggestion: (suggestionId: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Loads the edit suggestions the user can review (for their own fields, or all as a moderator)
+ */
+export function useEditSuggestions(userId: string | null): UseEditSuggestionsReturn {
+  const [suggestions, setSuggestions] = useState<FieldEditSuggestionWithField[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingSuggestionId, setPendingSuggestionId] = useState<string | null>(null);
+
+  const fetchSuggestions = useCallback(async () => {
+    if (!userId) {
+      setSuggestions([]);
+      return;
+    }
+
+    setIsLoading(true);
+    const items = await suggestionRepository.getSuggestionsToReview(userId);
+    setSuggestions(items);
+    setIsLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [fetchSuggestions]);
+
+  const reviewSuggestion = useCallback(async (suggestionId: string, accept: boolean) => {
+    setPendingSuggestionId(suggestionId);
+    const result = await suggestionRepository.reviewSuggestion(suggestionId, accept);
+    if (result.success) {
+      // Reviewed suggestions leave the list
+      setSuggestions((prev) => prev.filter((item) => item.suggestion.id !== suggestionId));
+    }
+    setPendingSuggestionId(null);
+    return result;
+  }, []);
+
+  const acceptSuggestion = useCallback(
+    (suggestionId: string) => reviewSuggestion(suggestionId, true),
+    [reviewSuggestion]
+  );
+
+  const rejectSuggestion = useCallback(
+    (suggestionId: string) => reviewSuggestion(suggestionId, false),
+    [reviewSuggestion]
+  );
+
+  return {
+    suggestions,
+    isLoading,
+    pendingSuggestionId,
+    refetch: fetchSuggestions,
+    acceptSuggestion,
+    rejectSuggestion,
+  };
+}
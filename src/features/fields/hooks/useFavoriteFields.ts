@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { Field } from '@/types';
+
+interface UseFavoriteFieldsReturn {
+  fields: Field[];
+  isLoading: boolean;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Loads the fields for a list of favorite IDs, in the same order
+ */
+export function useFavoriteFields(favoriteIds: string[]): UseFavoriteFieldsReturn {
+  const [fields, setFields] = useState<Field[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Reordering the favorites doesn't need a reload
+  const idsKey = [...favoriteIds].sort().join(',');
+
+  const fetchFields = useCallback(async () => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    setIsLoading(true);
+    const fetchedFields = await fieldRepository.getFieldsByIds(ids);
+    setFields(fetchedFields);
+    setIsLoading(false);
+  }, [idsKey]);
+
+  useEffect(() => {
+    fetchFields();
+  }, [fetchFields]);
+
+  // Removed favorites drop out before the reload finishes
+  const favoriteFields = favoriteIds.flatMap((id) => {
+    const field = fields.find((item) => item.id === id);
+    return field ? [field] : [];
+  });
+
+  return {
+    fields: favoriteFields,
+    isLoading,
+    refetch: fetchFields,
+  };
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { favoriteService } from '@/features/fields/services/favoriteService';
+
+interface UseFavoritesReturn {
+  // Most recently added first
+  favoriteIds: string[];
+  isFavorite: (fieldId: string) => boolean;
+  toggleFavorite: (fieldId: string) => Promise<{ success: boolean; error?: string }>;
+  addFavorite: (fieldId: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * The current user's (or guest's) favorite fields, kept in sync across screens
+ */
+export function useFavorites(): UseFavoritesReturn {
+  const [favoriteIds, setFavoriteIds] = useState<string[]>(() => favoriteService.getFavoriteIds());
+
+  useEffect(() => {
+    // Pick up changes made between the first render and subscribing
+    setFavoriteIds(favoriteService.getFavoriteIds());
+    return favoriteService.subscribe(setFavoriteIds);
+  }, []);
+
+  const favoriteSet = useMemo(() => new Set(favoriteIds), [favoriteIds]);
+
+  const isFavorite = useCallback((fieldId: string) => favoriteSet.has(fieldId), [favoriteSet]);
+
+  const toggleFavorite = useCallback((fieldId: string) => favoriteService.toggle(fieldId), []);
+
+  const addFavorite = useCallback((fieldId: string) => favoriteService.add(fieldId), []);
+
+  return {
+    favoriteIds,
+    isFavorite,
+    toggleFavorite,
+    addFavorite,
+  };
+}
@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fieldDraftService } from '@/features/fields/services/fieldDraftService';
+import { FieldDraft } from '@/features/fields/types';
+
+interface UseFieldDraftsReturn {
+  drafts: FieldDraft[];
+  isLoading: boolean;
+  deleteDraft: (draftId: string) => Promise<void>;
+}
+
+/**
+ * Loads the Create Field drafts saved on this device, most recent first
+ */
+export function useFieldDrafts(): UseFieldDraftsReturn {
+  const [drafts, setDrafts] = useState<FieldDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+    fieldDraftService.getDrafts().then((savedDrafts) => {
+      if (isMounted) {
+        setDrafts(savedDrafts);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const deleteDraft = useCallback(async (draftId: string) => {
+    setDrafts((prev) => prev.filter((draft) => draft.id !== draftId));
+    await fieldDraftService.deleteDraft(draftId);
+  }, []);
+
+  return {
+    drafts,
+    isLoading,
+    deleteDraft,
+  };
+}
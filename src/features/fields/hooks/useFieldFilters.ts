@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_FIELD_FILTERS, FieldFilters } from '@/features/fields/types';
+import { fieldLogger } from '@/utils/logger';
+
+const FIELD_FILTERS_STORAGE_KEY = '@app_field_filters';
+
+interface UseFieldFiltersReturn {
+  filters: FieldFilters;
+  activeFilterCount: number;
+  setFilters: (filters: FieldFilters) => void;
+  resetFilters: () => void;
+}
+
+/**
+ * Count how many filters differ from the defaults (used for the map badge)
+ */
+export function countActiveFilters(filters: FieldFilters): number {
+  return [
+    filters.surfaceTypes.length > 0,
+    filters.onlyFree,
+    filters.hasLights,
+    filters.hasGoals,
+    filters.hasChangingRooms,
+    filters.hasParking,
+    filters.minCapacity !== null,
+    filters.minRating !== null,
+  ].filter(Boolean).length;
+}
+
+/**
+ * Map filters, persisted across launches
+ */
+export function useFieldFilters(): UseFieldFiltersReturn {
+  const [filters, setFiltersState] = useState<FieldFilters>(DEFAULT_FIELD_FILTERS);
+
+  // Load saved filters from AsyncStorage on mount
+  useEffect(() => {
+    const loadSavedFilters = async () => {
+      try {
+        const saved = await AsyncStorage.getItem(FIELD_FILTERS_STORAGE_KEY);
+        if (saved) {
+          // Merge with defaults so filters added in later versions get a value
+          setFiltersState({ ...DEFAULT_FIELD_FILTERS, ...JSON.parse(saved) });
+        }
+      } catch (error) {
+        fieldLogger.warn('Could not load saved filters', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+    loadSavedFilters();
+  }, []);
+
+  const setFilters = useCallback((newFilters: FieldFilters) => {
+    setFiltersState(newFilters);
+    AsyncStorage.setItem(FIELD_FILTERS_STORAGE_KEY, JSON.stringify(newFilters)).catch(
+      () => undefined
+    );
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    setFilters(DEFAULT_FIELD_FILTERS);
+  }, [setFilters]);
+
+  return {
+    filters,
+    activeFilterCount: countActiveFilters(filters),
+    setFilters,
+    resetFilters,
+  };
+}
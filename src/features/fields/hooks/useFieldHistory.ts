@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { historyRepository } from '@/features/fields/repositories/historyRepository';
+import { FieldHistoryEntry } from '@/types';
+
+interface UseFieldHistoryReturn {
+  // Newest first
+  entries: FieldHistoryEntry[];
+  isLoading: boolean;
+  pendingEntryId: string | null;
+  refetch: () => Promise<void>;
+  revertChange: (entryId: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Loads a field's change history and lets moderators revert changes
+ */
+export function useFieldHistory(fieldId: string | null): UseFieldHistoryReturn {
+  const [entries, setEntries] = useState<FieldHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingEntryId, setPendingEntryId] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!fieldId) {
+      setEntries([]);
+      return;
+    }
+
+    setIsLoading(true);
+    const fetchedEntries = await historyRepository.getFieldHistory(fieldId);
+    setEntries(fetchedEntries);
+    setIsLoading(false);
+  }, [fieldId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const revertChange = useCallback(
+    async (entryId: string) => {
+      setPendingEntryId(entryId);
+      const result = await historyRepository.revertChange(entryId);
+      if (result.success) {
+        // The revert is recorded as a new entry
+        await fetchHistory();
+      }
+      setPendingEntryId(null);
+      return result;
+    },
+    [fetchHistory]
+  );
+
+  return {
+    entries,
+    isLoading,
+    pendingEntryId,
+    refetch: fetchHistory,
+    revertChange,
+  };
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { SelectedImage } from '@/features/fields/types';
+
+interface UseFieldImagesReturn {
+  imageUrls: string[];
+  isLoading: boolean;
+  isUploading: boolean;
+  uploadProgress: number;
+  addImages: (
+    images: SelectedImage[],
+    userId: string
+  ) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Loads the photos of a field (primary first) and handles adding more
+ */
+export function useFieldImages(fieldId: string | null): UseFieldImagesReturn {
+  const [imageUrls, setImageUrls] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+
+  useEffect(() => {
+    setImageUrls([]);
+    if (!fieldId) {
+      setIsLoading(false);
+      return;
+    }
+
+    let isMounted = true;
+    setIsLoading(true);
+    fieldRepository.getFieldImages(fieldId).then((urls) => {
+      if (isMounted) {
+        setImageUrls(urls);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [fieldId]);
+
+  const addImages = useCallback(
+    async (images: SelectedImage[], userId: string) => {
+      if (!fieldId) {
+        return { success: false, error: 'No field selected' };
+      }
+
+      setIsUploading(true);
+      setUploadProgress(0);
+      const result = await fieldRepository.addFieldImages(
+        fieldId,
+        images,
+        userId,
+        setUploadProgress
+      );
+      if (result.success) {
+        setImageUrls((prev) => [...prev, ...result.imageUrls]);
+      }
+      setIsUploading(false);
+      return result;
+    },
+    [fieldId]
+  );
+
+  return {
+    imageUrls,
+    isLoading,
+    isUploading,
+    uploadProgress,
+    addImages,
+  };
+}
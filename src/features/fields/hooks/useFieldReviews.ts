@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { reviewRepository } from '@/features/fields/repositories/reviewRepository';
+import { FieldReviewFormData } from '@/features/fields/types';
+import { FieldReview } from '@/types';
+
+// Averages over a field's reviews; null when nobody rated that aspect
+export interface FieldReviewStats {
+  averageRating: number | null;
+  averageSurfaceRating: number | null;
+  averageGoalsRating: number | null;
+  reviewCount: number;
+}
+
+interface UseFieldReviewsReturn {
+  reviews: FieldReview[];
+  stats: FieldReviewStats;
+  // The signed-in user's review of the field, if they wrote one
+  userReview: FieldReview | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  refetch: () => Promise<void>;
+  saveReview: (
+    formData: FieldReviewFormData,
+    userId: string
+  ) => Promise<{ success: boolean; error?: string }>;
+  deleteReview: (reviewId: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+// Mean of the given ratings rounded to one decimal, ignoring missing ones
+function average(ratings: (number | null)[]): number | null {
+  const rated = ratings.filter((rating): rating is number => rating !== null);
+  if (rated.length === 0) {
+    return null;
+  }
+  return Math.round((rated.reduce((sum, rating) => sum + rating, 0) / rated.length) * 10) / 10;
+}
+
+/**
+ * Loads a field's reviews and handles writing, editing and deleting the user's own
+ */
+export function useFieldReviews(
+  fieldId: string | null,
+  userId: string | null
+): UseFieldReviewsReturn {
+  const [reviews, setReviews] = useState<FieldReview[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    if (!fieldId) {
+      setReviews([]);
+      return;
+    }
+
+    setIsLoading(true);
+    const fetchedReviews = await reviewRepository.getFieldReviews(fieldId);
+    setReviews(fetchedReviews);
+    setIsLoading(false);
+  }, [fieldId]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const stats = useMemo<FieldReviewStats>(
+    () => ({
+      averageRating: average(reviews.map((review) => review.rating)),
+      averageSurfaceRating: average(reviews.map((review) => review.surface_rating)),
+      averageGoalsRating: average(reviews.map((review) => review.goals_rating)),
+      reviewCount: reviews.length,
+    }),
+    [reviews]
+  );
+
+  const userReview = useMemo(
+    () => (userId ? (reviews.find((review) => review.user_id === userId) ?? null) : null),
+    [reviews, userId]
+  );
+
+  const saveReview = useCallback(
+    async (formData: FieldReviewFormData, reviewerId: string) => {
+      if (!fieldId) {
+        return { success: false, error: 'No field selected' };
+      }
+
+      setIsSaving(true);
+      const result = await reviewRepository.saveReview(fieldId, reviewerId, formData);
+      setIsSaving(false);
+
+      const saved = result.review;
+      if (saved) {
+        // Keep the list newest first; an edited review stays where it was
+        setReviews((prev) =>
+          prev.some((review) => review.id === saved.id)
+            ? prev.map((review) => (review.id === saved.id ? saved : review))
+            : [saved, ...prev]
+        );
+      }
+      return { success: result.success, error: result.error };
+    },
+    [fieldId]
+  );
+
+  const deleteReview = useCallback(async (reviewId: string) => {
+    setIsSaving(true);
+    const result = await reviewRepository.deleteReview(reviewId);
+    setIsSaving(false);
+
+    if (result.success) {
+      setReviews((prev) => prev.filter((review) => review.id !== reviewId));
+    }
+    return result;
+  }, []);
+
+  return {
+    reviews,
+    stats,
+    userReview,
+    isLoading,
+    isSaving,
+    refetch: fetchReviews,
+    saveReview,
+    deleteReview,
+  };
+}
@@ -1,51 +1,343 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MAP_CONFIG } from '@/constants';
 import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { fieldCache, getLatestUpdate } from '@/features/fields/services/fieldCache';
+import { DEFAULT_FIELD_FILTERS, FieldFilters } from '@/features/fields/types';
 import { Field, Coordinates } from '@/types';
+import { matchesFieldFilters } from '@/utils/fieldAttributes';
+import {
+  MapRegion,
+  MapTile,
+  countTilesForBounds,
+  getTilesForBounds,
+  isInBounds,
+  regionToBounds,
+} from '@/utils/geo';
 import { fieldLogger } from '@/utils/logger';
 
 interface UseFieldsReturn {
   fields: Field[];
   isLoading: boolean;
+  // True when the visible region spans too many tiles to load; zooming in loads it
+  isRegionTooLarge: boolean;
   error: string | null;
+  // True while the server can't be reached; cached fields are shown in the meantime
+  isOffline: boolean;
   refetch: () => Promise<void>;
+  loadRegion: (region: MapRegion) => Promise<void>;
 }
 
+// A failed request for map fields; isNetworkError when the server couldn't be reached
+class FieldsRequestError extends Error {
+  isNetworkError: boolean;
+
+  constructor(message: string, isNetworkError = false) {
+    super(message);
+    this.isNetworkError = isNetworkError;
+  }
+}
+
+/**
+ * Loads the fields inside the visible map region
+ *
+ * The map is split into fixed-size tiles. The first time a tile becomes visible its
+ * cached fields (from an earlier session) are shown right away, then the tile is
+ * revalidated: only fields changed since the last sync are fetched, unless the cache
+ * is old enough to reload the tile in full. Panning away cancels any request still
+ * running for the previous region. While offline the cached fields stay on the map
+ * and the server is retried periodically.
+ *
+ * Filters are applied by the database; changing them drops the tiles in memory.
+ */
 export function useFields(
   userLocation: Coordinates | null,
-  _radiusMeters: number = 50000 // 50km default for development - reserved for future location-based queries
+  filters: FieldFilters = DEFAULT_FIELD_FILTERS
 ): UseFieldsReturn {
   const [fields, setFields] = useState<Field[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRegionTooLarge, setIsRegionTooLarge] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isOffline, setIsOffline] = useState(false);
+
+  const fieldsByIdRef = useRef(new Map<string, Field>());
+  const loadedTilesRef = useRef(new Set<string>());
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const currentRegionRef = useRef<MapRegion | null>(null);
+  const filtersRef = useRef(filters);
+
+  const showFields = useCallback(() => {
+    setFields(Array.from(fieldsByIdRef.current.values()));
+  }, []);
+
+  // Load every field of a tile, page by page, and replace its cached copy
+  const fetchTile = useCallback(
+    async (tile: MapTile, signal: AbortSignal): Promise<void> => {
+      const filters = filtersRef.current;
+      const previous = fieldCache.getTile(filters, tile.key);
+      const loaded: Field[] = [];
+      let cursor: string | null = null;
 
-  const fetchFields = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      // Fetch all fields (for now, until we have location-based queries working)
-      const fetchedFields = await fieldRepository.getAllFields();
-      setFields(fetchedFields);
-      fieldLogger.debug('Fields fetched successfully', { count: fetchedFields.length });
-    } catch (err) {
-      fieldLogger.error('Error fetching fields', {
-        error: err instanceof Error ? err.message : String(err),
+      do {
+        const page = await fieldRepository.getFieldsInBounds(tile.bounds, {
+          afterId: cursor,
+          filters,
+          signal,
+        });
+
+        if (signal.aborted) {
+          return;
+        }
+        if (page.error) {
+          throw new FieldsRequestError(page.error, page.isNetworkError);
+        }
+
+        page.fields.forEach((field) => fieldsByIdRef.current.set(field.id, field));
+        loaded.push(...page.fields);
+        showFields();
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      // Drop cached fields that are gone from the server
+      const loadedIds = new Set(loaded.map((field) => field.id));
+      previous?.fields.forEach((field) => {
+        if (!loadedIds.has(field.id)) {
+          fieldsByIdRef.current.delete(field.id);
+        }
       });
-      setError(err instanceof Error ? err.message : 'Failed to fetch fields');
-    } finally {
-      setIsLoading(false);
+      showFields();
+      fieldCache.setTile(filters, tile.key, loaded);
+    },
+    [showFields]
+  );
+
+  // Fetch only what changed in a cached tile since it was last synced
+  const syncTile = useCallback(
+    async (tile: MapTile, syncedAt: string, signal: AbortSignal): Promise<void> => {
+      const filters = filtersRef.current;
+      const changed: Field[] = [];
+      let cursor: string | null = null;
+
+      do {
+        // Unfiltered, so fields edited to no longer match can be removed too
+        const page = await fieldRepository.getFieldsInBounds(tile.bounds, {
+          afterId: cursor,
+          updatedSince: syncedAt,
+          signal,
+        });
+
+        if (signal.aborted) {
+          return;
+        }
+        if (page.error) {
+          throw new FieldsRequestError(page.error, page.isNetworkError);
+        }
+
+        changed.push(...page.fields);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      const hidden: { id: string; updated_at: string }[] = [];
+      cursor = null;
+
+      do {
+        const page = await fieldRepository.getHiddenFieldsInBounds(tile.bounds, syncedAt, {
+          afterId: cursor,
+          signal,
+        });
+
+        if (signal.aborted) {
+          return;
+        }
+        if (page.error) {
+          throw new FieldsRequestError(page.error, page.isNetworkError);
+        }
+
+        hidden.push(...page.fields);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      const upserted = changed.filter((field) => matchesFieldFilters(field, filters));
+      const removedIds = [
+        ...changed.filter((field) => !matchesFieldFilters(field, filters)).map((field) => field.id),
+        ...hidden.map((field) => field.id),
+      ];
+
+      upserted.forEach((field) => fieldsByIdRef.current.set(field.id, field));
+      removedIds.forEach((id) => {
+        // A field moved out of this tile may already be showing in the tile it moved to
+        const current = fieldsByIdRef.current.get(id);
+        if (current && isInBounds(current.coordinates, tile.bounds)) {
+          fieldsByIdRef.current.delete(id);
+        }
+      });
+      showFields();
+      fieldCache.updateTile(
+        filters,
+        tile.key,
+        upserted,
+        removedIds,
+        getLatestUpdate([...changed, ...hidden])
+      );
+    },
+    [showFields]
+  );
+
+  const loadTile = useCallback(
+    async (tile: MapTile, signal: AbortSignal): Promise<void> => {
+      const cached = fieldCache.getTile(filtersRef.current, tile.key);
+      const isFresh =
+        cached?.syncedAt && Date.now() - cached.fetchedAt < MAP_CONFIG.fieldCacheMaxAge;
+
+      if (cached?.syncedAt && isFresh) {
+        await syncTile(tile, cached.syncedAt, signal);
+      } else {
+        await fetchTile(tile, signal);
+      }
+
+      if (!signal.aborted) {
+        loadedTilesRef.current.add(tile.key);
+      }
+    },
+    [fetchTile, syncTile]
+  );
+
+  const loadRegion = useCallback(
+    async (region: MapRegion): Promise<void> => {
+      currentRegionRef.current = region;
+
+      // Cancel whatever is still loading for the previous region
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = null;
+
+      const regionBounds = regionToBounds(region);
+      const tileCount = regionBounds.reduce(
+        (count, bounds) => count + countTilesForBounds(bounds, MAP_CONFIG.fieldTileSize),
+        0
+      );
+      const isTooLarge = tileCount > MAP_CONFIG.maxTilesPerViewport;
+      setIsRegionTooLarge(isTooLarge);
+      if (isTooLarge) {
+        fieldLogger.debug('Region too large to load fields', { region });
+        setIsLoading(false);
+        return;
+      }
+
+      const tiles = regionBounds
+        .flatMap((bounds) => getTilesForBounds(bounds, MAP_CONFIG.fieldTileSize))
+        .filter((tile) => !loadedTilesRef.current.has(tile.key));
+      if (tiles.length === 0) {
+        setIsLoading(false);
+        return;
+      }
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        // Show what we have from earlier sessions while revalidating
+        await fieldCache.load();
+        if (controller.signal.aborted) {
+          return;
+        }
+        tiles.forEach((tile) => {
+          fieldCache
+            .getTile(filtersRef.current, tile.key)
+            ?.fields.forEach((field) => fieldsByIdRef.current.set(field.id, field));
+        });
+        showFields();
+
+        await Promise.all(tiles.map((tile) => loadTile(tile, controller.signal)));
+
+        if (!controller.signal.aborted) {
+          setIsOffline(false);
+          fieldLogger.debug('Fields loaded for region', {
+            tiles: tiles.length,
+            total: fieldsByIdRef.current.size,
+          });
+        }
+      } catch (err) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        fieldLogger.error('Error fetching fields', {
+          error: err instanceof Error ? err.message : String(err),
+        });
+        setError(err instanceof Error ? err.message : 'Failed to fetch fields');
+        // Keep retrying only when the server couldn't be reached
+        setIsOffline(err instanceof FieldsRequestError && err.isNetworkError);
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsLoading(false);
+        }
+      }
+    },
+    [loadTile, showFields]
+  );
+
+  // Forget loaded tiles and fields and reload the current region
+  const refetch = useCallback(async (): Promise<void> => {
+    loadedTilesRef.current.clear();
+    fieldsByIdRef.current.clear();
+    setFields([]);
+    if (currentRegionRef.current) {
+      await loadRegion(currentRegionRef.current);
     }
-  }, []);
+  }, [loadRegion]);
+
+  // Start over with an empty cache whenever the filters change
+  useEffect(() => {
+    if (filtersRef.current === filters) {
+      return;
+    }
+
+    filtersRef.current = filters;
+    refetch();
+  }, [filters, refetch]);
+
+  // Load the area around the user as soon as their location is known
+  useEffect(() => {
+    if (userLocation) {
+      loadRegion({
+        latitude: userLocation.latitude,
+        longitude: userLocation.longitude,
+        ...MAP_CONFIG.userLocationDelta,
+      });
+    }
+  }, [userLocation, loadRegion]);
 
-  // Fetch fields on mount and when location changes
+  // Keep trying to reach the server while offline
   useEffect(() => {
-    fetchFields();
-  }, [fetchFields]);
+    if (!isOffline) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      if (currentRegionRef.current) {
+        loadRegion(currentRegionRef.current);
+      }
+    }, MAP_CONFIG.offlineRetryInterval);
+
+    return () => clearInterval(interval);
+  }, [isOffline, loadRegion]);
+
+  // Cancel in-flight requests on unmount
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
 
   return {
     fields,
     isLoading,
+    isRegionTooLarge,
     error,
-    refetch: fetchFields,
+    isOffline,
+    refetch,
+    loadRegion,
   };
 }
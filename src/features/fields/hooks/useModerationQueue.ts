@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { FieldWithImages } from '@/features/fields/types';
+
+interface UseModerationQueueReturn {
+  queue: FieldWithImages[];
+  isLoading: boolean;
+  pendingFieldId: string | null;
+  refetch: () => Promise<void>;
+  approveField: (fieldId: string) => Promise<{ success: boolean; error?: string }>;
+  rejectField: (fieldId: string, reason: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Loads the fields waiting for moderation and handles approving/rejecting them
+ */
+export function useModerationQueue(): UseModerationQueueReturn {
+  const [queue, setQueue] = useState<FieldWithImages[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingFieldId, setPendingFieldId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    setIsLoading(true);
+    const pendingFields = await fieldRepository.getPendingFields();
+    setQueue(pendingFields);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const reviewField = useCallback(
+    async (fieldId: string, status: 'active' | 'rejected', reason?: string) => {
+      setPendingFieldId(fieldId);
+      const result = await fieldRepository.reviewField(fieldId, status, reason);
+      if (result.success) {
+        // Reviewed fields leave the queue
+        setQueue((prev) => prev.filter((item) => item.field.id !== fieldId));
+      }
+      setPendingFieldId(null);
+      return result;
+    },
+    []
+  );
+
+  const approveField = useCallback(
+    (fieldId: string) => reviewField(fieldId, 'active'),
+    [reviewField]
+  );
+
+  const rejectField = useCallback(
+    (fieldId: string, reason: string) => reviewField(fieldId, 'rejected', reason),
+    [reviewField]
+  );
+
+  return {
+    queue,
+    isLoading,
+    pendingFieldId,
+    refetch: fetchQueue,
+    approveField,
+    rejectField,
+  };
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { Field } from '@/types';
+
+interface UseMyFieldsReturn {
+  fields: Field[];
+  isLoading: boolean;
+  pendingFieldId: string | null;
+  refetch: () => Promise<void>;
+  deleteField: (fieldId: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Loads the fields submitted by a user (in any status) and handles deleting them
+ */
+export function useMyFields(userId: string | null): UseMyFieldsReturn {
+  const [fields, setFields] = useState<Field[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingFieldId, setPendingFieldId] = useState<string | null>(null);
+
+  const fetchFields = useCallback(async () => {
+    if (!userId) {
+      setFields([]);
+      return;
+    }
+
+    setIsLoading(true);
+    const fetchedFields = await fieldRepository.getFieldsByUser(userId);
+    setFields(fetchedFields);
+    setIsLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchFields();
+  }, [fetchFields]);
+
+  const deleteField = useCallback(async (fieldId: string) => {
+    setPendingFieldId(fieldId);
+    const result = await fieldRepository.deleteField(fieldId);
+    if (result.success) {
+      setFields((prev) => prev.filter((field) => field.id !== fieldId));
+    }
+    setPendingFieldId(null);
+    return result;
+  }, []);
+
+  return {
+    fields,
+    isLoading,
+    pendingFieldId,
+    refetch: fetchFields,
+    deleteField,
+  };
+}
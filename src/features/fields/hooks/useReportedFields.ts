@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { reportRepository } from '@/features/fields/repositories/reportRepository';
+import { ReportedField } from '@/features/fields/types';
+
+interface UseReportedFieldsReturn {
+  reportedFields: ReportedField[];
+  isLoading: boolean;
+  pendingFieldId: string | null;
+  refetch: () => Promise<void>;
+  deactivateField: (fieldId: string) => Promise<{ success: boolean; error?: string }>;
+  dismissReports: (fieldId: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Loads the fields with open reports and handles resolving them (moderators only)
+ */
+export function useReportedFields(): UseReportedFieldsReturn {
+  const [reportedFields, setReportedFields] = useState<ReportedField[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingFieldId, setPendingFieldId] = useState<string | null>(null);
+
+  const fetchReportedFields = useCallback(async () => {
+    setIsLoading(true);
+    const fields = await reportRepository.getReportedFields();
+    setReportedFields(fields);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchReportedFields();
+  }, [fetchReportedFields]);
+
+  const resolveReports = useCallback(async (fieldId: string, deactivate: boolean) => {
+    setPendingFieldId(fieldId);
+    const result = await reportRepository.resolveReports(fieldId, deactivate);
+    if (result.success) {
+      // Resolved fields leave the list
+      setReportedFields((prev) => prev.filter((item) => item.field.id !== fieldId));
+    }
+    setPendingFieldId(null);
+    return result;
+  }, []);
+
+  const deactivateField = useCallback(
+    (fieldId: string) => resolveReports(fieldId, true),
+    [resolveReports]
+  );
+
+  const dismissReports = useCallback(
+    (fieldId: string) => resolveReports(fieldId, false),
+    [resolveReports]
+  );
+
+  return {
+    reportedFields,
+    isLoading,
+    pendingFieldId,
+    refetch: fetchReportedFields,
+    deactivateField,
+    dismissReports,
+  };
+}
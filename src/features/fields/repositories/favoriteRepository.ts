@@ -0,0 +1,91 @@
+import { supabase } from '@/infrastructure/supabase';
+import { fieldLogger } from '@/utils/logger';
+
+class FavoriteRepository {
+  /**
+   * Get the IDs of the fields a user bookmarked, most recent first
+   */
+  async getFavoriteFieldIds(userId: string): Promise<{ fieldIds: string[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('favorite_fields')
+        .select('field_id')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        fieldLogger.error('Error fetching favorite fields', { error: error.message });
+        return { fieldIds: [], error: error.message };
+      }
+
+      return { fieldIds: (data || []).map((row: { field_id: string }) => row.field_id) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      fieldLogger.error('Error in getFavoriteFieldIds', { error: message });
+      return { fieldIds: [], error: message };
+    }
+  }
+
+  /**
+   * Bookmark fields for a user; fields that are already favorites are left as they are
+   */
+  async addFavorites(
+    userId: string,
+    fieldIds: string[]
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('favorite_fields').upsert(
+        fieldIds.map((fieldId) => ({ user_id: userId, field_id: fieldId })),
+        { onConflict: 'user_id,field_id', ignoreDuplicates: true }
+      );
+
+      if (error) {
+        fieldLogger.error('Error adding favorite fields', { error: error.message });
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      fieldLogger.error('Error in addFavorites', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Remove a field from a user's favorites
+   */
+  async removeFavorite(
+    userId: string,
+    fieldId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('favorite_fields')
+        .delete()
+        .eq('user_id', userId)
+        .eq('field_id', fieldId);
+
+      if (error) {
+        fieldLogger.error('Error removing favorite field', { error: error.message, fieldId });
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      fieldLogger.error('Error in removeFavorite', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+}
+
+export const favoriteRepository = new FavoriteRepository();
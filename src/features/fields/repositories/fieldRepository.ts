@@ -1,7 +1,17 @@
+import { MAP_CONFIG, SEARCH_CONFIG } from '@/constants';
 import { imageService } from '@/features/fields/services/imageService';
-import { CreateFieldFormData, SelectedImage } from '@/features/fields/types';
+import { uploadQueue } from '@/features/fields/services/uploadQueue';
+import {
+  CreateFieldFormData,
+  DuplicateFieldCheck,
+  FieldFilters,
+  FieldSearchResult,
+  FieldWithImages,
+  SelectedImage,
+  UploadJob,
+} from '@/features/fields/types';
 import { supabase } from '@/infrastructure/supabase';
-import { Field, Coordinates, SurfaceType, FieldStatus } from '@/types';
+import { Field, Coordinates, SurfaceType, FieldStatus, BoundingBox } from '@/types';
 import { fieldLogger } from '@/utils/logger';
 
 // Database row types
@@ -23,62 +33,150 @@ interface FieldRow {
   player_capacity: number | null;
   notes: string | null;
   status: FieldStatus;
+  rejection_reason: string | null;
+  possible_duplicate_of: string | null;
   created_by: string | null;
+  // Not returned by every RPC
+  average_rating?: number | null;
+  review_count?: number;
   created_at: string;
   updated_at: string;
 }
 
+// Field row joined with its image records (used by the moderation queue)
+interface FieldWithImagesRow extends FieldRow {
+  field_images: { image_url: string; is_primary: boolean }[] | null;
+  possible_duplicate: { name: string } | null;
+}
+
+// Row returned by the find_duplicate_fields RPC
+// Other players' pending matches come with is_hidden set and no details
+interface DuplicateFieldRow {
+  id: string | null;
+  name: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  address: string | null;
+  city: string | null;
+  status: FieldStatus;
+  distance_meters: number | null;
+  name_similarity: number | null;
+  is_hidden: boolean;
+}
+
+// Search results carry the distance from the searching user
+interface FieldSearchRow extends FieldRow {
+  distance_meters: number | null;
+}
+
+interface FieldsPageOptions {
+  afterId?: string | null;
+  pageSize?: number;
+  filters?: FieldFilters;
+  // Only return fields changed after this time (ISO timestamp)
+  updatedSince?: string | null;
+  signal?: AbortSignal;
+}
+
+interface FieldsPageResult {
+  fields: Field[];
+  nextCursor: string | null;
+  error?: string;
+  // Set when the request never reached the server (no connection)
+  isNetworkError?: boolean;
+}
+
+interface HiddenFieldsPageResult {
+  fields: { id: string; updated_at: string }[];
+  nextCursor: string | null;
+  error?: string;
+  // Set when the request never reached the server (no connection)
+  isNetworkError?: boolean;
+}
+
 interface UploadFieldResult {
   success: boolean;
   field?: Field;
   imageUrls?: string[];
   error?: string;
   errors?: string[];
+  // Set when the server rejected the field as a duplicate of a nearby one
+  isDuplicate?: boolean;
+  // New photos handed to the upload queue; their records are saved as each one finishes
+  uploadJobs?: UploadJob[];
 }
 
+// SQLSTATE raised by the prevent_duplicate_fields trigger
+const DUPLICATE_FIELD_ERROR_CODE = 'DTP01';
+
 class FieldRepository {
   /**
    * Create a new field with images
+   * Photos are uploaded first and the field is saved together with their records in one
+   * transaction, so a field never exists without photos. If saving fails the uploaded files
+   * are deleted again. Photos that failed to upload are queued and added once they go through.
+   * possibleDuplicateOf names the nearby match the user confirmed is a different field;
+   * without it the server rejects fields that look like duplicates
    */
   async createField(
     formData: CreateFieldFormData,
     images: SelectedImage[],
     userId: string | null,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    possibleDuplicateOf: string | null = null
   ): Promise<UploadFieldResult> {
     try {
-      // Step 1: Create the field record
+      // Step 1: Upload images into a folder of their own, since the field has no id yet
       onProgress?.(5);
 
-      // All uploads are active immediately (moderation can be added later)
-      const status = 'active';
+      const submissionId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+      const uploadResult = await imageService.uploadImages(
+        images,
+        submissionId,
+        userId,
+        (imgProgress) => {
+          // Scale image progress from 5% to 80%
+          const scaledProgress = 5 + Math.round(imgProgress * 0.75);
+          onProgress?.(scaledProgress);
+        }
+      );
+
+      if (uploadResult.urls.length === 0) {
+        fieldLogger.warn('No images uploaded, field not created', {
+          errors: uploadResult.errors,
+        });
+        return {
+          success: false,
+          error:
+            "Your photos couldn't be uploaded. Check your connection and try again - nothing was saved yet.",
+        };
+      }
+
+      onProgress?.(85);
 
+      // Step 2: Create the field and its image records together
+      // New fields wait in the moderation queue until a moderator approves them
       const fieldData = {
-        name: formData.name.trim(),
-        description: formData.description.trim() || null,
-        latitude: formData.coordinates.latitude,
-        longitude: formData.coordinates.longitude,
-        surface_type: formData.surfaceType,
-        is_free: formData.isFree,
-        has_lights: formData.hasLights,
-        has_goals: formData.hasGoals,
-        has_changing_rooms: formData.hasChangingRooms,
-        has_parking: formData.hasParking,
-        // player_capacity must be > 0 or null (DB constraint)
-        player_capacity:
-          formData.playerCapacity && formData.playerCapacity > 0 ? formData.playerCapacity : null,
-        notes: formData.notes.trim() || null,
-        status: status as 'pending' | 'active',
-        created_by: userId,
+        ...this.mapFormToRow(formData),
+        possible_duplicate_of: possibleDuplicateOf,
       };
 
       const { data: fieldRecord, error: fieldError } = await supabase
-        .from('fields')
-        .insert(fieldData)
-        .select()
+        .rpc('create_field_with_images', {
+          field_data: fieldData,
+          image_urls: uploadResult.urls,
+        })
         .single();
 
       if (fieldError || !fieldRecord) {
+        // Don't leave unreferenced files in storage
+        await Promise.all(uploadResult.urls.map((url) => imageService.deleteImage(url)));
+
+        if (fieldError?.code === DUPLICATE_FIELD_ERROR_CODE) {
+          fieldLogger.info('Field rejected as a duplicate', { name: fieldData.name });
+          return { success: false, isDuplicate: true, error: fieldError.message };
+        }
+
         fieldLogger.error('Error creating field', { error: fieldError?.message });
         return {
           success: false,
@@ -87,60 +185,126 @@ class FieldRepository {
       }
 
       const typedFieldRecord = fieldRecord as unknown as FieldRow;
-      onProgress?.(20);
 
-      // Step 2: Upload images
-      const imageUrls: string[] = [];
-      const imageErrors: string[] = [];
+      // Step 3: Queue the photos that didn't make it; they retry in the background
+      const uploadJobs = await uploadQueue.enqueue(
+        typedFieldRecord.id,
+        userId,
+        uploadResult.failed.map((image) => ({ image, isPrimary: false }))
+      );
 
-      if (images.length > 0) {
-        const uploadResult = await imageService.uploadImages(
-          images,
-          typedFieldRecord.id,
-          userId,
-          (imgProgress) => {
-            // Scale image progress from 20% to 80%
-            const scaledProgress = 20 + Math.round(imgProgress * 0.6);
-            onProgress?.(scaledProgress);
-          }
-        );
-
-        imageUrls.push(...uploadResult.urls);
-        imageErrors.push(...uploadResult.errors);
-      }
+      onProgress?.(100);
 
-      onProgress?.(85);
+      // Convert to app Field type
+      const field = this.mapRowToField(typedFieldRecord);
+
+      return {
+        success: true,
+        field,
+        imageUrls: uploadResult.urls,
+        errors: uploadResult.errors.length > 0 ? uploadResult.errors : undefined,
+        uploadJobs,
+      };
+    } catch (error) {
+      fieldLogger.error('Error in createField', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
 
-      // Step 3: Create image records in the database
-      if (imageUrls.length > 0) {
-        const imageRecords = imageUrls.map((url, index) => ({
-          field_id: typedFieldRecord.id,
-          image_url: url,
-          is_primary: index === 0, // First image is primary
-          uploaded_by: userId,
-        }));
+  /**
+   * Update a field's details and photos
+   * Kept images carry a remoteUrl; removed ones are deleted from storage
+   */
+  async updateField(
+    fieldId: string,
+    formData: CreateFieldFormData,
+    images: SelectedImage[],
+    userId: string,
+    onProgress?: (progress: number) => void
+  ): Promise<UploadFieldResult> {
+    try {
+      // Step 1: Update the field record (edits to an approved field send it back for review)
+      onProgress?.(5);
+
+      const { data: fieldRecord, error: fieldError } = await supabase
+        .from('fields')
+        .update(this.mapFormToRow(formData))
+        .eq('id', fieldId)
+        .select()
+        .single();
+
+      if (fieldError || !fieldRecord) {
+        fieldLogger.error('Error updating field', { error: fieldError?.message, fieldId });
+        return {
+          success: false,
+          error: `Failed to update field: ${fieldError?.message || 'Unknown error'}`,
+        };
+      }
 
-        const { error: imagesError } = await supabase.from('field_images').insert(imageRecords);
+      onProgress?.(15);
 
-        if (imagesError) {
-          fieldLogger.error('Error saving image records', { error: imagesError.message });
-          imageErrors.push('Failed to save some image references');
+      // Step 2: Remove images the user took out of the form
+      const imageErrors: string[] = [];
+      const keptUrls = images.flatMap((image) => (image.remoteUrl ? [image.remoteUrl] : []));
+      const existingUrls = await this.getFieldImages(fieldId);
+      const removedUrls = existingUrls.filter((url) => !keptUrls.includes(url));
+
+      if (removedUrls.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('field_images')
+          .delete()
+          .eq('field_id', fieldId)
+          .in('image_url', removedUrls);
+
+        if (deleteError) {
+          fieldLogger.error('Error removing image records', { error: deleteError.message });
+          imageErrors.push('Failed to remove some images');
+        } else {
+          await Promise.all(removedUrls.map((url) => imageService.deleteImage(url)));
         }
       }
 
-      onProgress?.(100);
+      onProgress?.(25);
 
-      // Convert to app Field type
-      const field = this.mapRowToField(typedFieldRecord);
+      // Step 3: Make the first image in the form primary. A newly added first image is
+      // flagged when its upload job saves it.
+      const primaryUrl = images[0]?.remoteUrl;
+      if (images.length > 0) {
+        await supabase.from('field_images').update({ is_primary: false }).eq('field_id', fieldId);
+      }
+      if (primaryUrl) {
+        await supabase
+          .from('field_images')
+          .update({ is_primary: true })
+          .eq('field_id', fieldId)
+          .eq('image_url', primaryUrl);
+      }
+
+      // Step 4: Queue newly added images
+      const uploadJobs = await uploadQueue.enqueue(
+        fieldId,
+        userId,
+        images
+          .map((image, index) => ({ image, isPrimary: index === 0 }))
+          .filter(({ image }) => !image.remoteUrl)
+      );
+
+      onProgress?.(100);
 
       return {
         success: true,
-        field,
-        imageUrls,
+        field: this.mapRowToField(fieldRecord as unknown as FieldRow),
+        imageUrls: keptUrls,
         errors: imageErrors.length > 0 ? imageErrors : undefined,
+        uploadJobs,
       };
     } catch (error) {
-      fieldLogger.error('Error in createField', {
+      fieldLogger.error('Error in updateField', {
         error: error instanceof Error ? error.message : String(error),
       });
       return {
@@ -151,26 +315,124 @@ class FieldRepository {
   }
 
   /**
-   * Get all active fields
+   * Delete a field along with its photos
+   * Image records are removed by the database cascade, files are removed from storage here
    */
-  async getAllFields(): Promise<Field[]> {
+  async deleteField(fieldId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const imageUrls = await this.getFieldImages(fieldId);
+
+      const { error } = await supabase.from('fields').delete().eq('id', fieldId);
+
+      if (error) {
+        fieldLogger.error('Error deleting field', { error: error.message, fieldId });
+        return { success: false, error: error.message };
+      }
+
+      await uploadQueue.removeFieldJobs(fieldId);
+
+      // Storage cleanup is best-effort - the field is already gone
+      await Promise.all(imageUrls.map((url) => imageService.deleteImage(url)));
+
+      fieldLogger.info('Field deleted', { fieldId, imageCount: imageUrls.length });
+      return { success: true };
+    } catch (error) {
+      fieldLogger.error('Error in deleteField', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Get all fields submitted by a user, in any status, newest first
+   */
+  async getFieldsByUser(userId: string): Promise<Field[]> {
     try {
       const { data, error } = await supabase
         .from('fields')
         .select('*')
-        .eq('status', 'active')
+        .eq('created_by', userId)
         .order('created_at', { ascending: false });
 
       if (error) {
-        fieldLogger.error('Error fetching all fields', { error: error.message });
+        fieldLogger.error('Error fetching user fields', { error: error.message });
         return [];
       }
 
       const rows = (data || []) as unknown as FieldRow[];
-      fieldLogger.debug('Fetched fields', { count: rows.length });
       return rows.map((row) => this.mapRowToField(row));
     } catch (error) {
-      fieldLogger.error('Error in getAllFields', {
+      fieldLogger.error('Error in getFieldsByUser', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Send the drafts a user saved as a guest to the moderation queue
+   * Called once the user has an account; returns how many drafts were submitted
+   */
+  async submitDrafts(userId: string): Promise<{ success: boolean; count: number; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('fields')
+        .update({ status: 'pending' })
+        .eq('created_by', userId)
+        .eq('status', 'draft')
+        .select('id');
+
+      if (error) {
+        fieldLogger.error('Error submitting drafts', { error: error.message });
+        return { success: false, count: 0, error: error.message };
+      }
+
+      const count = data?.length ?? 0;
+      if (count > 0) {
+        fieldLogger.info('Submitted guest drafts for review', { count });
+      }
+      return { success: true, count };
+    } catch (error) {
+      fieldLogger.error('Error in submitDrafts', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        count: 0,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Get fields by ID, in the order the IDs were given
+   * Fields that don't exist or aren't visible to the user are left out
+   */
+  async getFieldsByIds(ids: string[]): Promise<Field[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase.from('fields').select('*').in('id', ids);
+
+      if (error) {
+        fieldLogger.error('Error fetching fields by id', { error: error.message });
+        return [];
+      }
+
+      const rows = (data || []) as unknown as FieldRow[];
+      const fieldsById = new Map(rows.map((row) => [row.id, this.mapRowToField(row)]));
+      return ids.flatMap((id) => {
+        const field = fieldsById.get(id);
+        return field ? [field] : [];
+      });
+    } catch (error) {
+      fieldLogger.error('Error in getFieldsByIds', {
         error: error instanceof Error ? error.message : String(error),
       });
       return [];
@@ -178,33 +440,204 @@ class FieldRepository {
   }
 
   /**
-   * Get fields near a location
+   * Get fields waiting for moderation, oldest first, with their images
+   */
+  async getPendingFields(): Promise<FieldWithImages[]> {
+    try {
+      const { data, error } = await supabase
+        .from('fields')
+        .select(
+          '*, field_images(image_url, is_primary), possible_duplicate:possible_duplicate_of(name)'
+        )
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        fieldLogger.error('Error fetching pending fields', { error: error.message });
+        return [];
+      }
+
+      const rows = (data || []) as unknown as FieldWithImagesRow[];
+      return rows.map((row) => ({
+        field: this.mapRowToField(row),
+        imageUrls: [...(row.field_images || [])]
+          .sort((a, b) => Number(b.is_primary) - Number(a.is_primary))
+          .map((image) => image.image_url),
+        possibleDuplicateName: row.possible_duplicate?.name ?? null,
+      }));
+    } catch (error) {
+      fieldLogger.error('Error in getPendingFields', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Approve or reject a pending field (moderators only)
+   * The submitter is notified by a database trigger
+   */
+  async reviewField(
+    fieldId: string,
+    status: 'active' | 'rejected',
+    rejectionReason?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('fields')
+        .update({
+          status,
+          rejection_reason: status === 'rejected' ? rejectionReason?.trim() || null : null,
+        })
+        .eq('id', fieldId);
+
+      if (error) {
+        fieldLogger.error('Error reviewing field', { error: error.message, fieldId });
+        return { success: false, error: error.message };
+      }
+
+      fieldLogger.info('Field reviewed', { fieldId, status });
+      return { success: true };
+    } catch (error) {
+      fieldLogger.error('Error in reviewField', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Get one page of active fields inside a bounding box, optionally filtered
+   * Pass the returned nextCursor back as afterId to fetch the following page
+   */
+  async getFieldsInBounds(
+    bounds: BoundingBox,
+    options: FieldsPageOptions = {}
+  ): Promise<FieldsPageResult> {
+    const pageSize = options.pageSize ?? MAP_CONFIG.fieldsPageSize;
+    const filters = options.filters;
+
+    try {
+      let query = supabase.rpc('find_fields_in_bounds', {
+        min_lat: bounds.minLatitude,
+        min_lng: bounds.minLongitude,
+        max_lat: bounds.maxLatitude,
+        max_lng: bounds.maxLongitude,
+        page_size: pageSize,
+        after_id: options.afterId ?? null,
+        surface_types: filters?.surfaceTypes.length ? filters.surfaceTypes : null,
+        only_free: filters?.onlyFree ?? false,
+        require_lights: filters?.hasLights ?? false,
+        require_goals: filters?.hasGoals ?? false,
+        require_changing_rooms: filters?.hasChangingRooms ?? false,
+        require_parking: filters?.hasParking ?? false,
+        min_capacity: filters?.minCapacity ?? null,
+        min_rating: filters?.minRating ?? null,
+        updated_since: options.updatedSince ?? null,
+      });
+
+      if (options.signal) {
+        query = query.abortSignal(options.signal);
+      }
+
+      const { data, error, status } = await query;
+
+      if (error) {
+        if (!options.signal?.aborted) {
+          fieldLogger.error('Error fetching fields in bounds', { error: error.message });
+        }
+        return { fields: [], nextCursor: null, error: error.message, isNetworkError: status === 0 };
+      }
+
+      const rows = (data || []) as unknown as FieldRow[];
+      const nextCursor = rows.length === pageSize ? rows[rows.length - 1].id : null;
+
+      fieldLogger.debug('Fetched fields in bounds', { count: rows.length, hasMore: !!nextCursor });
+      return { fields: rows.map((row) => this.mapRowToField(row)), nextCursor };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!options.signal?.aborted) {
+        fieldLogger.error('Error in getFieldsInBounds', { error: message });
+      }
+      return { fields: [], nextCursor: null, error: message };
+    }
+  }
+
+  /**
+   * Get one page of the fields inside a bounding box that were taken off the map (or
+   * deleted) after updatedSince
+   * Only ids and change times are returned, for dropping them from a cache
+   * Pass the returned nextCursor back as afterId to fetch the following page
+   */
+  async getHiddenFieldsInBounds(
+    bounds: BoundingBox,
+    updatedSince: string,
+    options: { afterId?: string | null; signal?: AbortSignal } = {}
+  ): Promise<HiddenFieldsPageResult> {
+    const pageSize = MAP_CONFIG.fieldsPageSize;
+
+    try {
+      let query = supabase.rpc('find_hidden_field_ids_in_bounds', {
+        min_lat: bounds.minLatitude,
+        min_lng: bounds.minLongitude,
+        max_lat: bounds.maxLatitude,
+        max_lng: bounds.maxLongitude,
+        updated_since: updatedSince,
+        page_size: pageSize,
+        after_id: options.afterId ?? null,
+      });
+
+      if (options.signal) {
+        query = query.abortSignal(options.signal);
+      }
+
+      const { data, error, status } = await query;
+
+      if (error) {
+        if (!options.signal?.aborted) {
+          fieldLogger.error('Error fetching hidden fields in bounds', { error: error.message });
+        }
+        return { fields: [], nextCursor: null, error: error.message, isNetworkError: status === 0 };
+      }
+
+      const rows = (data || []) as { id: string; updated_at: string }[];
+      const nextCursor = rows.length === pageSize ? rows[rows.length - 1].id : null;
+
+      return { fields: rows, nextCursor };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!options.signal?.aborted) {
+        fieldLogger.error('Error in getHiddenFieldsInBounds', { error: message });
+      }
+      return { fields: [], nextCursor: null, error: message };
+    }
+  }
+
+  /**
+   * Get active fields near a location, closest first
    */
   async getFieldsNearLocation(
     coordinates: Coordinates,
-    radiusMeters: number = 5000
+    radiusMeters: number = MAP_CONFIG.defaultSearchRadius
   ): Promise<Field[]> {
     try {
-      // Using a raw query approach since RPC typing can be complex
-      const { data, error } = await supabase.from('fields').select('*').eq('status', 'active');
+      const { data, error } = await supabase.rpc('find_fields_within_radius', {
+        lat: coordinates.latitude,
+        lng: coordinates.longitude,
+        radius_meters: Math.min(Math.round(radiusMeters), MAP_CONFIG.maxSearchRadius),
+      });
 
       if (error) {
         fieldLogger.error('Error fetching nearby fields', { error: error.message });
         return [];
       }
 
-      // Filter by distance client-side (for now - in production use PostGIS)
       const rows = (data || []) as unknown as FieldRow[];
-      const filtered = rows.filter((row) => {
-        const distance = this.calculateDistance(coordinates, {
-          latitude: row.latitude,
-          longitude: row.longitude,
-        });
-        return distance <= radiusMeters;
-      });
-
-      fieldLogger.debug('Fetched nearby fields', { total: rows.length, filtered: filtered.length });
-      return filtered.map((row) => this.mapRowToField(row));
+      fieldLogger.debug('Fetched nearby fields', { count: rows.length });
+      return rows.map((row) => this.mapRowToField(row));
     } catch (error) {
       fieldLogger.error('Error in getFieldsNearLocation', {
         error: error instanceof Error ? error.message : String(error),
@@ -214,21 +647,97 @@ class FieldRepository {
   }
 
   /**
-   * Calculate distance between two coordinates in meters (Haversine formula)
+   * Search active fields by name, description, address and city
+   * Pass the user's location to get distances back
+   */
+  async searchFields(
+    query: string,
+    coordinates: Coordinates | null,
+    signal?: AbortSignal
+  ): Promise<FieldSearchResult[]> {
+    try {
+      let request = supabase.rpc('search_fields', {
+        search_text: query,
+        lat: coordinates?.latitude ?? null,
+        lng: coordinates?.longitude ?? null,
+        result_limit: SEARCH_CONFIG.maxFieldResults,
+      });
+
+      if (signal) {
+        request = request.abortSignal(signal);
+      }
+
+      const { data, error } = await request;
+
+      if (error) {
+        if (!signal?.aborted) {
+          fieldLogger.error('Error searching fields', { error: error.message });
+        }
+        return [];
+      }
+
+      const rows = (data || []) as unknown as FieldSearchRow[];
+      return rows.map((row) => ({
+        field: this.mapRowToField(row),
+        distanceMeters: row.distance_meters,
+      }));
+    } catch (error) {
+      if (!signal?.aborted) {
+        fieldLogger.error('Error in searchFields', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Find existing fields (active or pending) that a new field with this name at these
+   * coordinates probably duplicates, best match first
+   * Other players' fields awaiting review are only reported through hasHiddenMatch
    */
-  private calculateDistance(from: Coordinates, to: Coordinates): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (from.latitude * Math.PI) / 180;
-    const φ2 = (to.latitude * Math.PI) / 180;
-    const Δφ = ((to.latitude - from.latitude) * Math.PI) / 180;
-    const Δλ = ((to.longitude - from.longitude) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
+  async findDuplicateFields(coordinates: Coordinates, name: string): Promise<DuplicateFieldCheck> {
+    try {
+      const { data, error } = await supabase.rpc('find_duplicate_fields', {
+        lat: coordinates.latitude,
+        lng: coordinates.longitude,
+        field_name: name.trim(),
+      });
+
+      if (error) {
+        fieldLogger.error('Error finding duplicate fields', { error: error.message });
+        return { matches: [], hasHiddenMatch: false };
+      }
+
+      const rows = (data || []) as unknown as DuplicateFieldRow[];
+      return {
+        matches: rows.flatMap((row) =>
+          row.is_hidden
+            ? []
+            : [
+                {
+                  id: row.id as string,
+                  name: row.name as string,
+                  coordinates: {
+                    latitude: row.latitude as number,
+                    longitude: row.longitude as number,
+                  },
+                  address: row.address,
+                  city: row.city,
+                  status: row.status,
+                  distanceMeters: row.distance_meters as number,
+                  nameSimilarity: row.name_similarity as number,
+                },
+              ]
+        ),
+        hasHiddenMatch: rows.some((row) => row.is_hidden),
+      };
+    } catch (error) {
+      fieldLogger.error('Error in findDuplicateFields', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { matches: [], hasHiddenMatch: false };
+    }
   }
 
   /**
@@ -260,7 +769,8 @@ class FieldRepository {
         .from('field_images')
         .select('image_url')
         .eq('field_id', fieldId)
-        .order('is_primary', { ascending: false });
+        .order('is_primary', { ascending: false })
+        .order('created_at', { ascending: true });
 
       if (error) {
         fieldLogger.warn('Error fetching field images', { error: error.message, fieldId });
@@ -276,6 +786,87 @@ class FieldRepository {
     }
   }
 
+  /**
+   * Add photos to an existing field
+   * The first photo becomes primary when the field has none yet
+   */
+  async addFieldImages(
+    fieldId: string,
+    images: SelectedImage[],
+    userId: string,
+    onProgress?: (progress: number) => void
+  ): Promise<{ success: boolean; imageUrls: string[]; error?: string }> {
+    try {
+      const existingUrls = await this.getFieldImages(fieldId);
+
+      const uploadResult = await imageService.uploadImages(images, fieldId, userId, (progress) =>
+        // Leave the last 10% for saving the records
+        onProgress?.(Math.round(progress * 0.9))
+      );
+
+      if (uploadResult.urls.length === 0) {
+        return {
+          success: false,
+          imageUrls: [],
+          error: uploadResult.errors[0] || 'Failed to upload photos',
+        };
+      }
+
+      const imageRecords = uploadResult.urls.map((url, index) => ({
+        field_id: fieldId,
+        image_url: url,
+        is_primary: existingUrls.length === 0 && index === 0,
+        uploaded_by: userId,
+      }));
+
+      const { error } = await supabase.from('field_images').insert(imageRecords);
+
+      if (error) {
+        fieldLogger.error('Error saving added image records', { error: error.message, fieldId });
+        // Don't leave unreferenced files in storage
+        await Promise.all(uploadResult.urls.map((url) => imageService.deleteImage(url)));
+        return { success: false, imageUrls: [], error: 'Failed to save photos' };
+      }
+
+      onProgress?.(100);
+      return { success: true, imageUrls: uploadResult.urls };
+    } catch (error) {
+      fieldLogger.error('Error in addFieldImages', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        imageUrls: [],
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Map the form's editable values to database columns
+   */
+  private mapFormToRow(formData: CreateFieldFormData) {
+    return {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      latitude: formData.coordinates.latitude,
+      longitude: formData.coordinates.longitude,
+      address: formData.address.trim() || null,
+      city: formData.city.trim() || null,
+      country: formData.country.trim() || null,
+      surface_type: formData.surfaceType,
+      is_free: formData.isFree,
+      has_lights: formData.hasLights,
+      has_goals: formData.hasGoals,
+      has_changing_rooms: formData.hasChangingRooms,
+      has_parking: formData.hasParking,
+      // player_capacity must be > 0 or null (DB constraint)
+      player_capacity:
+        formData.playerCapacity && formData.playerCapacity > 0 ? formData.playerCapacity : null,
+      notes: formData.notes.trim() || null,
+    };
+  }
+
   /**
    * Map a database row to the app's Field type
    */
@@ -298,8 +889,13 @@ class FieldRepository {
       has_changing_rooms: row.has_changing_rooms,
       has_parking: row.has_parking,
       player_capacity: row.player_capacity,
+      notes: row.notes ?? null,
       status: row.status,
+      rejection_reason: row.rejection_reason ?? null,
+      possible_duplicate_of: row.possible_duplicate_of ?? null,
       created_by: row.created_by,
+      average_rating: row.average_rating ?? null,
+      review_count: row.review_count ?? 0,
       created_at: row.created_at,
       updated_at: row.updated_at,
     };
@@ -0,0 +1,86 @@
+import { supabase } from '@/infrastructure/supabase';
+import { FieldHistoryEntry, FieldHistoryValues } from '@/types';
+import { fieldLogger } from '@/utils/logger';
+
+// Database row types
+interface FieldHistoryRow {
+  id: string;
+  field_id: string;
+  changed_by: string | null;
+  old_values: FieldHistoryValues;
+  new_values: FieldHistoryValues;
+  created_at: string;
+  changer: { username: string; display_name: string | null } | null;
+}
+
+class HistoryRepository {
+  /**
+   * Get a field's change history, newest first
+   * Entries are recorded by a database trigger whenever the field's details or status change
+   */
+  async getFieldHistory(fieldId: string): Promise<FieldHistoryEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('field_history')
+        .select('*, changer:profiles!changed_by(username, display_name)')
+        .eq('field_id', fieldId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        fieldLogger.error('Error fetching field history', { error: error.message, fieldId });
+        return [];
+      }
+
+      const rows = (data || []) as unknown as FieldHistoryRow[];
+      return rows.map((row) => this.mapRowToEntry(row));
+    } catch (error) {
+      fieldLogger.error('Error in getFieldHistory', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Set the columns of a change back to their old values (moderators only)
+   * The revert shows up in the history as a new change
+   */
+  async revertChange(entryId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('revert_field_change', { history_id: entryId });
+
+      if (error) {
+        fieldLogger.error('Error reverting field change', { error: error.message, entryId });
+        return { success: false, error: error.message };
+      }
+
+      fieldLogger.info('Field change reverted', { entryId });
+      return { success: true };
+    } catch (error) {
+      fieldLogger.error('Error in revertChange', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Map a database row to the app's FieldHistoryEntry type
+   */
+  private mapRowToEntry(row: FieldHistoryRow): FieldHistoryEntry {
+    return {
+      id: row.id,
+      field_id: row.field_id,
+      changed_by: row.changed_by,
+      changed_by_name: row.changer?.display_name || row.changer?.username || null,
+      old_values: row.old_values,
+      new_values: row.new_values,
+      created_at: row.created_at,
+    };
+  }
+}
+
+export const historyRepository = new HistoryRepository();
@@ -0,0 +1,158 @@
+import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { ReportedField } from '@/features/fields/types';
+import { supabase } from '@/infrastructure/supabase';
+import { FieldReport, FieldReportReason, ReportStatus } from '@/types';
+import { fieldLogger } from '@/utils/logger';
+
+// Database row types
+interface FieldReportRow {
+  id: string;
+  field_id: string;
+  reporter_id: string;
+  reason: FieldReportReason;
+  details: string | null;
+  status: ReportStatus;
+  created_at: string;
+  reporter: { username: string; display_name: string | null } | null;
+}
+
+// SQLSTATE raised by the limit_field_reports trigger
+const REPORT_LIMIT_ERROR_CODE = 'DTP03';
+
+class ReportRepository {
+  /**
+   * Report a field
+   * Each user can have one open report per field and file a limited number per day
+   */
+  async createReport(
+    fieldId: string,
+    userId: string,
+    reason: FieldReportReason,
+    details: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('field_reports').insert({
+        field_id: fieldId,
+        reporter_id: userId,
+        reason,
+        details: details.trim() || null,
+      });
+
+      if (error) {
+        // Unique violation - the user already has an open report for this field
+        if (error.code === '23505') {
+          return {
+            success: false,
+            error: "You've already reported this field. A moderator will look into it.",
+          };
+        }
+        if (error.code === REPORT_LIMIT_ERROR_CODE) {
+          return {
+            success: false,
+            error: "You've sent a lot of reports today. Please try again tomorrow.",
+          };
+        }
+        fieldLogger.error('Error reporting field', { error: error.message, fieldId });
+        return { success: false, error: `Failed to send report: ${error.message}` };
+      }
+
+      fieldLogger.info('Field reported', { fieldId, reason });
+      return { success: true };
+    } catch (error) {
+      fieldLogger.error('Error in createReport', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Get the fields with open reports, most reported first (moderators only)
+   */
+  async getReportedFields(): Promise<ReportedField[]> {
+    try {
+      const { data, error } = await supabase
+        .from('field_reports')
+        .select('*, reporter:profiles!reporter_id(username, display_name)')
+        .eq('status', 'open')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        fieldLogger.error('Error fetching field reports', { error: error.message });
+        return [];
+      }
+
+      const rows = (data || []) as unknown as FieldReportRow[];
+      const reportsByField = new Map<string, FieldReport[]>();
+      rows.forEach((row) => {
+        const reports = reportsByField.get(row.field_id) ?? [];
+        reports.push(this.mapRowToReport(row));
+        reportsByField.set(row.field_id, reports);
+      });
+
+      const fields = await fieldRepository.getFieldsByIds(Array.from(reportsByField.keys()));
+      return fields
+        .map((field) => ({ field, reports: reportsByField.get(field.id) ?? [] }))
+        .sort((a, b) => b.reports.length - a.reports.length);
+    } catch (error) {
+      fieldLogger.error('Error in getReportedFields', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Close a field's open reports (moderators only)
+   * deactivate takes the field off the map; otherwise the reports are dismissed and a field
+   * hidden by them is shown again
+   */
+  async resolveReports(
+    fieldId: string,
+    deactivate: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('resolve_field_reports', {
+        target_field_id: fieldId,
+        deactivate,
+      });
+
+      if (error) {
+        fieldLogger.error('Error resolving field reports', { error: error.message, fieldId });
+        return { success: false, error: error.message };
+      }
+
+      fieldLogger.info('Field reports resolved', { fieldId, deactivate });
+      return { success: true };
+    } catch (error) {
+      fieldLogger.error('Error in resolveReports', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Map a database row to the app's FieldReport type
+   */
+  private mapRowToReport(row: FieldReportRow): FieldReport {
+    return {
+      id: row.id,
+      field_id: row.field_id,
+      reporter_id: row.reporter_id,
+      reason: row.reason,
+      details: row.details,
+      status: row.status,
+      reporter_name: row.reporter?.display_name || row.reporter?.username || null,
+      created_at: row.created_at,
+    };
+  }
+}
+
+export const reportRepository = new ReportRepository();
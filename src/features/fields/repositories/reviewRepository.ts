@@ -0,0 +1,150 @@
+import { FieldReviewFormData } from '@/features/fields/types';
+import { supabase } from '@/infrastructure/supabase';
+import { FieldReview } from '@/types';
+import { fieldLogger } from '@/utils/logger';
+
+// Database row types
+interface FieldReviewRow {
+  id: string;
+  field_id: string;
+  user_id: string;
+  rating: number;
+  surface_rating: number | null;
+  goals_rating: number | null;
+  comment: string | null;
+  created_at: string;
+  updated_at: string;
+  author: { username: string; display_name: string | null; avatar_url: string | null } | null;
+}
+
+interface ReviewResult {
+  success: boolean;
+  review?: FieldReview;
+  error?: string;
+}
+
+// Reviews are always loaded together with their author
+const REVIEW_SELECT = '*, author:profiles(username, display_name, avatar_url)';
+
+class ReviewRepository {
+  /**
+   * Get a field's reviews, newest first
+   */
+  async getFieldReviews(fieldId: string): Promise<FieldReview[]> {
+    try {
+      const { data, error } = await supabase
+        .from('field_reviews')
+        .select(REVIEW_SELECT)
+        .eq('field_id', fieldId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        fieldLogger.error('Error fetching field reviews', { error: error.message, fieldId });
+        return [];
+      }
+
+      const rows = (data || []) as unknown as FieldReviewRow[];
+      return rows.map((row) => this.mapRowToReview(row));
+    } catch (error) {
+      fieldLogger.error('Error in getFieldReviews', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Create the user's review of a field, or replace it if they already wrote one
+   * The field's average rating is updated by a database trigger
+   */
+  async saveReview(
+    fieldId: string,
+    userId: string,
+    formData: FieldReviewFormData
+  ): Promise<ReviewResult> {
+    try {
+      if (formData.rating < 1) {
+        return { success: false, error: 'Please choose a star rating' };
+      }
+
+      const reviewData = {
+        field_id: fieldId,
+        user_id: userId,
+        rating: formData.rating,
+        surface_rating: formData.surfaceRating || null,
+        goals_rating: formData.goalsRating || null,
+        comment: formData.comment.trim() || null,
+      };
+
+      const { data, error } = await supabase
+        .from('field_reviews')
+        .upsert(reviewData, { onConflict: 'field_id,user_id' })
+        .select(REVIEW_SELECT)
+        .single();
+
+      if (error || !data) {
+        fieldLogger.error('Error saving review', { error: error?.message, fieldId });
+        return {
+          success: false,
+          error: `Failed to save review: ${error?.message || 'Unknown error'}`,
+        };
+      }
+
+      fieldLogger.info('Review saved', { fieldId, rating: formData.rating });
+      return { success: true, review: this.mapRowToReview(data as unknown as FieldReviewRow) };
+    } catch (error) {
+      fieldLogger.error('Error in saveReview', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Delete a review (RLS only allows deleting your own)
+   */
+  async deleteReview(reviewId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('field_reviews').delete().eq('id', reviewId);
+
+      if (error) {
+        fieldLogger.error('Error deleting review', { error: error.message, reviewId });
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      fieldLogger.error('Error in deleteReview', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Map a database row to the app's FieldReview type
+   */
+  private mapRowToReview(row: FieldReviewRow): FieldReview {
+    return {
+      id: row.id,
+      field_id: row.field_id,
+      user_id: row.user_id,
+      rating: row.rating,
+      surface_rating: row.surface_rating,
+      goals_rating: row.goals_rating,
+      comment: row.comment,
+      author_name: row.author?.display_name || row.author?.username || null,
+      author_avatar_url: row.author?.avatar_url ?? null,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+export const reviewRepository = new ReviewRepository();
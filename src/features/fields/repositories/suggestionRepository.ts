@@ -0,0 +1,157 @@
+import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { FieldEditSuggestionWithField } from '@/features/fields/types';
+import { supabase } from '@/infrastructure/supabase';
+import { EditableFieldAttributes, FieldEditSuggestion, SuggestionStatus } from '@/types';
+import { fieldLogger } from '@/utils/logger';
+
+// Database row types
+interface FieldEditSuggestionRow {
+  id: string;
+  field_id: string;
+  suggested_by: string;
+  changes: Partial<EditableFieldAttributes>;
+  note: string | null;
+  status: SuggestionStatus;
+  previous_values: Partial<EditableFieldAttributes> | null;
+  reviewed_at: string | null;
+  created_at: string;
+  suggester: { username: string; display_name: string | null } | null;
+}
+
+class SuggestionRepository {
+  /**
+   * Suggest changes to a field
+   * The field's owner or a moderator decides whether they're applied
+   */
+  async createSuggestion(
+    fieldId: string,
+    userId: string,
+    changes: Partial<EditableFieldAttributes>,
+    note: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (Object.keys(changes).length === 0) {
+        return { success: false, error: 'Change at least one detail to suggest an edit' };
+      }
+
+      const { error } = await supabase.from('field_edit_suggestions').insert({
+        field_id: fieldId,
+        suggested_by: userId,
+        changes,
+        note: note.trim() || null,
+      });
+
+      if (error) {
+        fieldLogger.error('Error suggesting field edit', { error: error.message, fieldId });
+        return { success: false, error: `Failed to send suggestion: ${error.message}` };
+      }
+
+      fieldLogger.info('Field edit suggested', { fieldId, attributes: Object.keys(changes) });
+      return { success: true };
+    } catch (error) {
+      fieldLogger.error('Error in createSuggestion', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Get the pending suggestions the user can review, oldest first
+   * RLS limits them to suggestions for the user's own fields, or all of them for moderators
+   */
+  async getSuggestionsToReview(userId: string): Promise<FieldEditSuggestionWithField[]> {
+    try {
+      const { data, error } = await supabase
+        .from('field_edit_suggestions')
+        .select('*, suggester:profiles!suggested_by(username, display_name)')
+        .eq('status', 'pending')
+        .neq('suggested_by', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        fieldLogger.error('Error fetching edit suggestions', { error: error.message });
+        return [];
+      }
+
+      const suggestions = ((data || []) as unknown as FieldEditSuggestionRow[]).map((row) =>
+        this.mapRowToSuggestion(row)
+      );
+      if (suggestions.length === 0) {
+        return [];
+      }
+
+      const fieldIds = Array.from(new Set(suggestions.map((suggestion) => suggestion.field_id)));
+      const fields = await fieldRepository.getFieldsByIds(fieldIds);
+      const fieldsById = new Map(fields.map((field) => [field.id, field]));
+
+      return suggestions.flatMap((suggestion) => {
+        const field = fieldsById.get(suggestion.field_id);
+        return field ? [{ suggestion, field }] : [];
+      });
+    } catch (error) {
+      fieldLogger.error('Error in getSuggestionsToReview', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Accept or reject a suggestion (field owner or moderator)
+   * Accepted changes are applied to the field and the values they replaced are kept
+   */
+  async reviewSuggestion(
+    suggestionId: string,
+    accept: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('review_field_edit_suggestion', {
+        suggestion_id: suggestionId,
+        accept,
+      });
+
+      if (error) {
+        fieldLogger.error('Error reviewing edit suggestion', {
+          error: error.message,
+          suggestionId,
+        });
+        return { success: false, error: error.message };
+      }
+
+      fieldLogger.info('Edit suggestion reviewed', { suggestionId, accept });
+      return { success: true };
+    } catch (error) {
+      fieldLogger.error('Error in reviewSuggestion', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Map a database row to the app's FieldEditSuggestion type
+   */
+  private mapRowToSuggestion(row: FieldEditSuggestionRow): FieldEditSuggestion {
+    return {
+      id: row.id,
+      field_id: row.field_id,
+      suggested_by: row.suggested_by,
+      suggester_name: row.suggester?.display_name || row.suggester?.username || null,
+      changes: row.changes,
+      note: row.note,
+      status: row.status,
+      previous_values: row.previous_values,
+      reviewed_at: row.reviewed_at,
+      created_at: row.created_at,
+    };
+  }
+}
+
+export const suggestionRepository = new SuggestionRepository();
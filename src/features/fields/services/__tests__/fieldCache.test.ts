@@ -0,0 +1,170 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MAP_CONFIG } from '@/constants';
+import { DEFAULT_FIELD_FILTERS } from '@/features/fields/types';
+import { makeField } from '@/test/fixtures';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const STORAGE_KEY = '@app_field_cache';
+
+type FieldCacheModule = typeof import('@/features/fields/services/fieldCache');
+
+// Each test gets a fresh cache singleton
+function loadFieldCache(): FieldCacheModule {
+  let module: FieldCacheModule | undefined;
+  jest.isolateModules(() => {
+    module = jest.requireActual<FieldCacheModule>('@/features/fields/services/fieldCache');
+  });
+  return module as FieldCacheModule;
+}
+
+function fieldUpdatedAt(id: string, updatedAt: string) {
+  return makeField(id, 0, 0, 'natural_grass', { updated_at: updatedAt });
+}
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  await AsyncStorage.clear();
+  jest.clearAllMocks();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('fieldCache', () => {
+  it('returns the fields of a tile with the latest update as its sync point', () => {
+    const { fieldCache } = loadFieldCache();
+    const fields = [
+      fieldUpdatedAt('a', '2026-03-01T10:00:00Z'),
+      fieldUpdatedAt('b', '2026-03-02T10:00:00Z'),
+    ];
+
+    fieldCache.setTile(DEFAULT_FIELD_FILTERS, 'tile', fields);
+
+    const tile = fieldCache.getTile(DEFAULT_FIELD_FILTERS, 'tile');
+    expect(tile?.fields).toEqual(fields);
+    expect(tile?.syncedAt).toBe('2026-03-02T10:00:00Z');
+    expect(tile?.fetchedAt).toBe(Date.now());
+  });
+
+  it('keeps tiles separate per filter combination', () => {
+    const { fieldCache } = loadFieldCache();
+    const filters = { ...DEFAULT_FIELD_FILTERS, surfaceTypes: ['sand' as const, 'dirt' as const] };
+
+    fieldCache.setTile(filters, 'tile', [makeField('a', 0, 0)]);
+
+    expect(fieldCache.getTile(DEFAULT_FIELD_FILTERS, 'tile')).toBeNull();
+    expect(
+      fieldCache.getTile({ ...filters, surfaceTypes: ['dirt', 'sand'] }, 'tile')?.fields
+    ).toHaveLength(1);
+  });
+
+  it('merges changes into a tile and drops removed fields', () => {
+    const { fieldCache } = loadFieldCache();
+    fieldCache.setTile(DEFAULT_FIELD_FILTERS, 'tile', [
+      fieldUpdatedAt('a', '2026-03-01T10:00:00Z'),
+      fieldUpdatedAt('b', '2026-03-01T10:00:00Z'),
+    ]);
+
+    const edited = { ...fieldUpdatedAt('a', '2026-03-05T10:00:00Z'), name: 'Renamed' };
+    const added = fieldUpdatedAt('c', '2026-03-04T10:00:00Z');
+    fieldCache.updateTile(
+      DEFAULT_FIELD_FILTERS,
+      'tile',
+      [edited, added],
+      ['b'],
+      '2026-03-05T10:00:00Z'
+    );
+
+    const tile = fieldCache.getTile(DEFAULT_FIELD_FILTERS, 'tile');
+    expect(tile?.fields.map((field) => field.id)).toEqual(['a', 'c']);
+    expect(tile?.fields[0].name).toBe('Renamed');
+    expect(tile?.syncedAt).toBe('2026-03-05T10:00:00Z');
+  });
+
+  it('keeps the sync point when nothing changed', () => {
+    const { fieldCache } = loadFieldCache();
+    fieldCache.setTile(DEFAULT_FIELD_FILTERS, 'tile', [
+      fieldUpdatedAt('a', '2026-03-01T10:00:00Z'),
+    ]);
+
+    fieldCache.updateTile(DEFAULT_FIELD_FILTERS, 'tile', [], [], null);
+
+    expect(fieldCache.getTile(DEFAULT_FIELD_FILTERS, 'tile')?.syncedAt).toBe(
+      '2026-03-01T10:00:00Z'
+    );
+  });
+
+  it('ignores changes for tiles that were never loaded', () => {
+    const { fieldCache } = loadFieldCache();
+
+    fieldCache.updateTile(DEFAULT_FIELD_FILTERS, 'tile', [makeField('a', 0, 0)], [], null);
+
+    expect(fieldCache.getTile(DEFAULT_FIELD_FILTERS, 'tile')).toBeNull();
+  });
+
+  it('batches writes to storage', async () => {
+    const { fieldCache } = loadFieldCache();
+
+    fieldCache.setTile(DEFAULT_FIELD_FILTERS, 'one', [makeField('a', 0, 0)]);
+    fieldCache.setTile(DEFAULT_FIELD_FILTERS, 'two', [makeField('b', 0, 0)]);
+    expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(AsyncStorage.setItem).toHaveBeenCalledTimes(1);
+    const stored = JSON.parse((await AsyncStorage.getItem(STORAGE_KEY)) as string);
+    expect(Object.keys(stored.fields).sort()).toEqual(['a', 'b']);
+  });
+
+  it('keeps only the most recently loaded tiles and the fields they use', async () => {
+    const { fieldCache } = loadFieldCache();
+
+    fieldCache.setTile(DEFAULT_FIELD_FILTERS, 'oldest', [makeField('old', 0, 0)]);
+    for (let index = 0; index < MAP_CONFIG.fieldCacheMaxTiles; index++) {
+      jest.setSystemTime(Date.now() + 1);
+      fieldCache.setTile(DEFAULT_FIELD_FILTERS, `tile-${index}`, [makeField(`f${index}`, 0, 0)]);
+    }
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(fieldCache.getTile(DEFAULT_FIELD_FILTERS, 'oldest')).toBeNull();
+    expect(fieldCache.getTile(DEFAULT_FIELD_FILTERS, 'tile-0')?.fields).toHaveLength(1);
+    const stored = JSON.parse((await AsyncStorage.getItem(STORAGE_KEY)) as string);
+    expect(stored.fields.old).toBeUndefined();
+    expect(Object.keys(stored.tiles)).toHaveLength(MAP_CONFIG.fieldCacheMaxTiles);
+  });
+
+  it('restores tiles saved by an earlier session', async () => {
+    const first = loadFieldCache().fieldCache;
+    first.setTile(DEFAULT_FIELD_FILTERS, 'tile', [makeField('a', 0, 0)]);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    const { fieldCache } = loadFieldCache();
+    expect(fieldCache.getTile(DEFAULT_FIELD_FILTERS, 'tile')).toBeNull();
+
+    await fieldCache.load();
+
+    expect(fieldCache.getTile(DEFAULT_FIELD_FILTERS, 'tile')?.fields).toEqual([
+      makeField('a', 0, 0),
+    ]);
+  });
+});
+
+describe('getLatestUpdate', () => {
+  it('returns the latest updated_at, or null without fields', () => {
+    const { getLatestUpdate } = loadFieldCache();
+
+    expect(getLatestUpdate([])).toBeNull();
+    expect(
+      getLatestUpdate([
+        { updated_at: '2026-03-02T10:00:00Z' },
+        { updated_at: '2026-03-04T10:00:00Z' },
+        { updated_at: '2026-03-03T10:00:00Z' },
+      ])
+    ).toBe('2026-03-04T10:00:00Z');
+  });
+});
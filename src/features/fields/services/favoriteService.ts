@@ -0,0 +1,162 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { favoriteRepository } from '@/features/fields/repositories/favoriteRepository';
+import { fieldLogger } from '@/utils/logger';
+
+const GUEST_STORAGE_KEY = '@app_guest_favorites';
+
+type FavoritesListener = (fieldIds: string[]) => void;
+
+/**
+ * The current user's favorite fields, shared by every screen that shows them
+ * Favorites live in the database, under a guest account until the guest signs in.
+ * Without any session (anonymous sign-ins unavailable) they're kept on the device instead.
+ * Either way they're merged into the account the user signs in to. Changes are applied
+ * right away and rolled back if saving them fails.
+ */
+class FavoriteService {
+  private userId: string | null = null;
+  private isGuest = false;
+  private fieldIds: string[] = [];
+  private listeners = new Set<FavoritesListener>();
+  private loadedFor: string | null | undefined = undefined;
+  // Loads and writes run one at a time so a sign-in never races a toggle
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Switch to the favorites of the given user (null without a session)
+   * Guest favorites, saved on the device or under another guest account, are moved into
+   * the account first
+   */
+  setUser(userId: string | null, isGuest = false): Promise<void> {
+    if (this.loadedFor === userId) {
+      this.isGuest = isGuest;
+      return this.pending.then(() => undefined);
+    }
+    this.loadedFor = userId;
+
+    return this.enqueue(async () => {
+      // A guest who signed in to an existing account leaves the guest account behind
+      const guestAccountFavorites = this.userId && this.isGuest ? this.fieldIds : [];
+      this.userId = userId;
+      this.isGuest = isGuest;
+      if (userId) {
+        await this.mergeGuestFavorites(userId, guestAccountFavorites);
+        const result = await favoriteRepository.getFavoriteFieldIds(userId);
+        this.setFieldIds(result.fieldIds);
+      } else {
+        this.setFieldIds(await this.getGuestFavorites());
+      }
+    });
+  }
+
+  getFavoriteIds(): string[] {
+    return this.fieldIds;
+  }
+
+  isFavorite(fieldId: string): boolean {
+    return this.fieldIds.includes(fieldId);
+  }
+
+  subscribe(listener: FavoritesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add a field to the favorites, or remove it if it already is one
+   */
+  toggle(fieldId: string): Promise<{ success: boolean; error?: string }> {
+    return this.isFavorite(fieldId) ? this.remove(fieldId) : this.add(fieldId);
+  }
+
+  add(fieldId: string): Promise<{ success: boolean; error?: string }> {
+    return this.update(fieldId, true);
+  }
+
+  remove(fieldId: string): Promise<{ success: boolean; error?: string }> {
+    return this.update(fieldId, false);
+  }
+
+  private update(
+    fieldId: string,
+    isFavorite: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.enqueue(async () => {
+      const previous = this.fieldIds;
+      if (previous.includes(fieldId) === isFavorite) {
+        return { success: true };
+      }
+
+      this.setFieldIds(
+        isFavorite ? [fieldId, ...previous] : previous.filter((id) => id !== fieldId)
+      );
+
+      const result = this.userId
+        ? isFavorite
+          ? await favoriteRepository.addFavorites(this.userId, [fieldId])
+          : await favoriteRepository.removeFavorite(this.userId, fieldId)
+        : await this.saveGuestFavorites(this.fieldIds);
+
+      if (!result.success) {
+        this.setFieldIds(previous);
+      }
+      return result;
+    });
+  }
+
+  private async mergeGuestFavorites(userId: string, accountFavorites: string[]): Promise<void> {
+    const deviceFavorites = await this.getGuestFavorites();
+    const guestFavorites = [...new Set([...accountFavorites, ...deviceFavorites])];
+    if (guestFavorites.length === 0) {
+      return;
+    }
+
+    const result = await favoriteRepository.addFavorites(userId, guestFavorites);
+    if (result.success) {
+      fieldLogger.info('Merged guest favorites into account', { count: guestFavorites.length });
+      if (deviceFavorites.length > 0) {
+        await AsyncStorage.removeItem(GUEST_STORAGE_KEY).catch(() => undefined);
+      }
+    }
+  }
+
+  private async getGuestFavorites(): Promise<string[]> {
+    try {
+      const stored = await AsyncStorage.getItem(GUEST_STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as string[]) : [];
+    } catch (error) {
+      fieldLogger.error('Error loading guest favorites', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  private async saveGuestFavorites(
+    fieldIds: string[]
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await AsyncStorage.setItem(GUEST_STORAGE_KEY, JSON.stringify(fieldIds));
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      fieldLogger.error('Error saving guest favorites', { error: message });
+      return { success: false, error: 'Could not save your favorites on this device' };
+    }
+  }
+
+  private setFieldIds(fieldIds: string[]): void {
+    this.fieldIds = fieldIds;
+    this.listeners.forEach((listener) => listener(fieldIds));
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export const favoriteService = new FavoriteService();
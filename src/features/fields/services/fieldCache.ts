@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MAP_CONFIG } from '@/constants';
+import { FieldFilters } from '@/features/fields/types';
+import { Field } from '@/types';
+import { fieldLogger } from '@/utils/logger';
+
+const STORAGE_KEY = '@app_field_cache';
+const PERSIST_DELAY = 1000;
+
+interface CachedTile {
+  fieldIds: string[];
+  // Latest updated_at seen for the tile; changes after it are fetched on the next visit
+  syncedAt: string | null;
+  // When the tile was last loaded in full (epoch ms)
+  fetchedAt: number;
+}
+
+interface FieldCacheData {
+  fields: Record<string, Field>;
+  tiles: Record<string, CachedTile>;
+}
+
+interface CachedTileFields {
+  fields: Field[];
+  syncedAt: string | null;
+  fetchedAt: number;
+}
+
+/**
+ * Offline copy of the fields loaded for each map tile
+ * Tiles are cached per filter combination since the database applies the filters.
+ * Writes are batched and only the most recently loaded tiles are kept.
+ */
+class FieldCache {
+  private data: FieldCacheData = { fields: {}, tiles: {} };
+  private loadPromise: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Read the cache from storage; safe to call more than once
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = AsyncStorage.getItem(STORAGE_KEY)
+        .then((stored) => {
+          if (stored) {
+            this.data = JSON.parse(stored) as FieldCacheData;
+            fieldLogger.debug('Field cache loaded', {
+              tiles: Object.keys(this.data.tiles).length,
+              fields: Object.keys(this.data.fields).length,
+            });
+          }
+        })
+        .catch((error) => {
+          fieldLogger.error('Error loading field cache', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+    }
+    return this.loadPromise;
+  }
+
+  getTile(filters: FieldFilters, tileKey: string): CachedTileFields | null {
+    const tile = this.data.tiles[this.getCacheKey(filters, tileKey)];
+    if (!tile) {
+      return null;
+    }
+
+    return {
+      fields: tile.fieldIds.flatMap((id) => (this.data.fields[id] ? [this.data.fields[id]] : [])),
+      syncedAt: tile.syncedAt,
+      fetchedAt: tile.fetchedAt,
+    };
+  }
+
+  /**
+   * Replace a tile with a full load of its fields
+   */
+  setTile(filters: FieldFilters, tileKey: string, fields: Field[]): void {
+    fields.forEach((field) => {
+      this.data.fields[field.id] = field;
+    });
+    this.data.tiles[this.getCacheKey(filters, tileKey)] = {
+      fieldIds: fields.map((field) => field.id),
+      syncedAt: getLatestUpdate(fields),
+      fetchedAt: Date.now(),
+    };
+    this.schedulePersist();
+  }
+
+  /**
+   * Apply the changes fetched since the tile was last synced
+   * upserted fields match the tile's filters; removedIds were hidden, deleted or no longer match.
+   * syncedAt is the latest updated_at among the changes, or null when nothing changed.
+   */
+  updateTile(
+    filters: FieldFilters,
+    tileKey: string,
+    upserted: Field[],
+    removedIds: string[],
+    syncedAt: string | null
+  ): void {
+    const cacheKey = this.getCacheKey(filters, tileKey);
+    const tile = this.data.tiles[cacheKey];
+    if (!tile) {
+      return;
+    }
+
+    upserted.forEach((field) => {
+      this.data.fields[field.id] = field;
+    });
+
+    const fieldIds = new Set(tile.fieldIds);
+    upserted.forEach((field) => fieldIds.add(field.id));
+    removedIds.forEach((id) => fieldIds.delete(id));
+
+    this.data.tiles[cacheKey] = {
+      ...tile,
+      fieldIds: Array.from(fieldIds),
+      syncedAt: syncedAt ?? tile.syncedAt,
+    };
+    this.schedulePersist();
+  }
+
+  private getCacheKey(filters: FieldFilters, tileKey: string): string {
+    const filtersKey = JSON.stringify({
+      ...filters,
+      surfaceTypes: [...filters.surfaceTypes].sort(),
+    });
+    return `${filtersKey}|${tileKey}`;
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) {
+      return;
+    }
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.prune();
+      AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.data)).catch((error) => {
+        fieldLogger.error('Error saving field cache', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }, PERSIST_DELAY);
+  }
+
+  /**
+   * Keep the most recently loaded tiles and the fields they reference
+   */
+  private prune(): void {
+    const tileEntries = Object.entries(this.data.tiles)
+      .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+      .slice(0, MAP_CONFIG.fieldCacheMaxTiles);
+
+    const referencedIds = new Set(tileEntries.flatMap(([, tile]) => tile.fieldIds));
+    const fields: Record<string, Field> = {};
+    referencedIds.forEach((id) => {
+      if (this.data.fields[id]) {
+        fields[id] = this.data.fields[id];
+      }
+    });
+
+    this.data = { fields, tiles: Object.fromEntries(tileEntries) };
+  }
+}
+
+// Latest updated_at of the given fields (ISO timestamps compare as strings)
+export function getLatestUpdate(fields: Pick<Field, 'updated_at'>[]): string | null {
+  return fields.reduce<string | null>(
+    (latest, field) => (!latest || field.updated_at > latest ? field.updated_at : latest),
+    null
+  );
+}
+
+export const fieldCache = new FieldCache();
@@ -0,0 +1,133 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { CreateFieldFormData, FieldDraft, SelectedImage } from '@/features/fields/types';
+import { fieldLogger } from '@/utils/logger';
+
+const STORAGE_KEY = '@app_field_drafts';
+const DRAFTS_DIRECTORY = `${FileSystem.documentDirectory}drafts/`;
+
+/**
+ * Saves unfinished Create Field forms on the device, most recently edited first
+ * Changes to a draft run one after another, so an older save can't overwrite a newer one
+ * or delete the photos it just copied
+ */
+class FieldDraftService {
+  private pending = new Map<string, Promise<unknown>>();
+
+  async getDrafts(): Promise<FieldDraft[]> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const drafts = stored ? (JSON.parse(stored) as FieldDraft[]) : [];
+      return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    } catch (error) {
+      fieldLogger.error('Error loading field drafts', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Create or update a draft
+   * Photos that aren't in the draft's folder yet are copied there; removed ones are deleted
+   */
+  async saveDraft(
+    id: string,
+    formData: CreateFieldFormData,
+    images: SelectedImage[]
+  ): Promise<FieldDraft | null> {
+    return this.enqueue(id, async () => {
+      try {
+        const drafts = await this.getDrafts();
+        const existing = drafts.find((draft) => draft.id === id);
+        const now = new Date().toISOString();
+
+        const draftImages = await this.copyImages(id, images);
+        const draft: FieldDraft = {
+          id,
+          formData,
+          images: draftImages,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        };
+
+        // Read the list again so drafts saved while the photos were copied are kept
+        const otherDrafts = (await this.getDrafts()).filter((item) => item.id !== id);
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify([draft, ...otherDrafts]));
+        return draft;
+      } catch (error) {
+        fieldLogger.error('Error saving field draft', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Delete a draft and its photos once any save still running for it has finished
+   */
+  deleteDraft(draftId: string): Promise<void> {
+    return this.enqueue(draftId, async () => {
+      try {
+        const drafts = await this.getDrafts();
+        await AsyncStorage.setItem(
+          STORAGE_KEY,
+          JSON.stringify(drafts.filter((draft) => draft.id !== draftId))
+        );
+        await FileSystem.deleteAsync(`${DRAFTS_DIRECTORY}${draftId}/`, { idempotent: true });
+      } catch (error) {
+        fieldLogger.error('Error deleting field draft', {
+          error: error instanceof Error ? error.message : String(error),
+          draftId,
+        });
+      }
+    });
+  }
+
+  private enqueue<T>(draftId: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.pending.get(draftId) ?? Promise.resolve()).then(task);
+    const settled = result.catch(() => undefined);
+    this.pending.set(draftId, settled);
+    // Forget the draft's queue once nothing else was added to it
+    settled.then(() => {
+      if (this.pending.get(draftId) === settled) {
+        this.pending.delete(draftId);
+      }
+    });
+    return result;
+  }
+
+  private async copyImages(draftId: string, images: SelectedImage[]): Promise<SelectedImage[]> {
+    const directory = `${DRAFTS_DIRECTORY}${draftId}/`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+    const draftImages = await Promise.all(
+      images.map(async (image) => {
+        if (image.uri.startsWith(directory)) {
+          return image;
+        }
+
+        const uri = `${directory}${image.fileName}`;
+        const info = await FileSystem.getInfoAsync(uri);
+        if (!info.exists) {
+          await FileSystem.copyAsync({ from: image.uri, to: uri });
+        }
+        return { ...image, uri };
+      })
+    );
+
+    // Remove photos taken out of the form
+    const keptFiles = new Set(draftImages.map((image) => image.uri.slice(directory.length)));
+    const files = await FileSystem.readDirectoryAsync(directory);
+    await Promise.all(
+      files
+        .filter((file) => !keptFiles.has(file))
+        .map((file) => FileSystem.deleteAsync(`${directory}${file}`, { idempotent: true }))
+    );
+
+    return draftImages;
+  }
+}
+
+export const fieldDraftService = new FieldDraftService();
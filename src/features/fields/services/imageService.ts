@@ -1,16 +1,15 @@
-import { decode } from 'base64-arraybuffer';
 import * as FileSystem from 'expo-file-system/legacy';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
 import * as ImagePicker from 'expo-image-picker';
+import { IMAGE_CONFIG, UPLOAD_CONFIG } from '@/constants';
 import { SelectedImage } from '@/features/fields/types';
 import { supabase, STORAGE_BUCKETS } from '@/infrastructure/supabase';
 import { storageLogger } from '@/utils/logger';
 
-// Maximum image size in bytes (5MB) - TODO: implement size validation
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+// Allowed image types (all are re-encoded to IMAGE_CONFIG.format before upload)
+const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
 
-// Allowed image types
-const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 
 interface ImagePickerResult {
   success: boolean;
@@ -58,7 +57,8 @@ class ImageService {
         mediaTypes: ['images'],
         allowsEditing: true,
         aspect: [16, 9],
-        quality: 0.8,
+        // Full quality here; the photo is compressed once while processing
+        quality: 1,
       });
 
       if (result.canceled || !result.assets || result.assets.length === 0) {
@@ -94,7 +94,7 @@ class ImageService {
       const result = await ImagePicker.launchCameraAsync({
         allowsEditing: true,
         aspect: [16, 9],
-        quality: 0.8,
+        quality: 1,
       });
 
       if (result.canceled || !result.assets || result.assets.length === 0) {
@@ -116,11 +116,12 @@ class ImageService {
 
   /**
    * Process and validate a picked image
+   * Photos are downscaled and re-encoded, which also drops EXIF metadata
+   * (including GPS location), then checked against the size limit
    */
   private async processPickedImage(
     asset: ImagePicker.ImagePickerAsset
   ): Promise<ImagePickerResult> {
-    const uri = asset.uri;
     const mimeType = asset.mimeType || 'image/jpeg';
 
     // Validate mime type
@@ -131,73 +132,138 @@ class ImageService {
       };
     }
 
-    // File size check - asset.fileSize is available from ImagePicker
-    // We'll do a basic validation, actual size check happens during upload
-    if (!uri) {
+    if (!asset.uri) {
       return {
         success: false,
         error: 'Failed to read image file.',
       };
     }
 
-    // Estimate file size from ImagePicker (passed as parameter in future)
-    const fileSize = 0; // Will be checked during upload if needed
+    try {
+      const { uri, fileSize } = await this.compressImage(asset);
 
-    // Generate a filename
-    const extension = mimeType.split('/')[1] || 'jpg';
-    const fileName = `field_${Date.now()}.${extension}`;
+      if (fileSize > IMAGE_CONFIG.maxFileSize) {
+        return {
+          success: false,
+          error: `This photo is ${formatMegabytes(fileSize)} even after compression. Please choose a photo under ${formatMegabytes(IMAGE_CONFIG.maxFileSize)}.`,
+        };
+      }
 
-    return {
-      success: true,
-      image: {
-        uri,
-        fileName,
-        mimeType,
+      storageLogger.debug('Image processed', {
+        originalSize: asset.fileSize,
         fileSize,
-      },
-    };
+      });
+
+      return {
+        success: true,
+        image: {
+          uri,
+          fileName: `field_${Date.now()}.${IMAGE_CONFIG.format}`,
+          mimeType: `image/${IMAGE_CONFIG.format}`,
+          fileSize,
+        },
+      };
+    } catch (error) {
+      storageLogger.error('Error processing image', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: 'Failed to process image. Please try another photo.',
+      };
+    }
+  }
+
+  /**
+   * Downscale an image so its longest side fits the configured maximum and re-encode it
+   */
+  private async compressImage(
+    asset: ImagePicker.ImagePickerAsset
+  ): Promise<{ uri: string; fileSize: number }> {
+    const context = ImageManipulator.manipulate(asset.uri);
+
+    const longestSide = Math.max(asset.width, asset.height);
+    if (longestSide > IMAGE_CONFIG.maxDimension) {
+      context.resize(
+        asset.width >= asset.height
+          ? { width: IMAGE_CONFIG.maxDimension }
+          : { height: IMAGE_CONFIG.maxDimension }
+      );
+    }
+
+    const rendered = await context.renderAsync();
+    const result = await rendered.saveAsync({
+      compress: IMAGE_CONFIG.quality,
+      format: IMAGE_CONFIG.format === 'webp' ? SaveFormat.WEBP : SaveFormat.JPEG,
+    });
+
+    const info = await FileSystem.getInfoAsync(result.uri);
+    const fileSize = info.exists ? info.size : 0;
+
+    return { uri: result.uri, fileSize };
   }
 
   /**
    * Upload an image to Supabase Storage
+   * The file is streamed from disk through a signed upload URL so progress can be reported.
+   * Uploading to the same path again overwrites the file, which makes retries safe.
    */
   async uploadImage(
     image: SelectedImage,
     fieldId: string,
-    userId: string | null
+    userId: string | null,
+    onProgress?: (progress: number) => void
   ): Promise<ImageUploadResult> {
     try {
-      // Read the file as base64 using expo-file-system
-      const base64 = await FileSystem.readAsStringAsync(image.uri, {
-        encoding: 'base64',
-      });
-
       // Create the storage path: userId/fieldId/filename (use 'anonymous' if no userId)
       const userFolder = userId || 'anonymous';
       const storagePath = `${userFolder}/${fieldId}/${image.fileName}`;
 
-      // Convert base64 to ArrayBuffer and upload to Supabase Storage
-      const { data, error } = await supabase.storage
+      const { data: signedUpload, error: signError } = await supabase.storage
         .from(STORAGE_BUCKETS.FIELD_IMAGES)
-        .upload(storagePath, decode(base64), {
-          contentType: image.mimeType,
-          upsert: false,
-        });
+        .createSignedUploadUrl(storagePath, { upsert: true });
 
-      if (error) {
-        storageLogger.error('Supabase storage error', { error: error.message });
+      if (signError || !signedUpload) {
+        storageLogger.error('Supabase storage error', { error: signError?.message });
         return {
           success: false,
-          error: `Failed to upload image: ${error.message}`,
+          error: `Failed to upload image: ${signError?.message || 'Unknown error'}`,
+        };
+      }
+
+      const task = FileSystem.createUploadTask(
+        signedUpload.signedUrl,
+        image.uri,
+        {
+          httpMethod: 'PUT',
+          uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+          headers: { 'Content-Type': image.mimeType, 'x-upsert': 'true' },
+        },
+        ({ totalBytesSent, totalBytesExpectedToSend }) => {
+          if (totalBytesExpectedToSend > 0) {
+            onProgress?.(Math.round((totalBytesSent / totalBytesExpectedToSend) * 100));
+          }
+        }
+      );
+
+      const response = await task.uploadAsync();
+      if (!response || response.status >= 300) {
+        storageLogger.error('Supabase storage upload failed', {
+          status: response?.status,
+          body: response?.body,
+        });
+        return {
+          success: false,
+          error: `Failed to upload image (status ${response?.status ?? 'unknown'})`,
         };
       }
 
       // Get the public URL
       const { data: urlData } = supabase.storage
         .from(STORAGE_BUCKETS.FIELD_IMAGES)
-        .getPublicUrl(data.path);
+        .getPublicUrl(signedUpload.path);
 
-      storageLogger.debug('Image uploaded successfully', { path: data.path });
+      storageLogger.debug('Image uploaded successfully', { path: signedUpload.path });
       return {
         success: true,
         url: urlData.publicUrl,
@@ -214,33 +280,52 @@ class ImageService {
   }
 
   /**
-   * Upload multiple images with progress tracking
+   * Upload multiple images, a few at a time, with overall progress tracking
+   * URLs are returned in the order of the images that succeeded; failed lists the others
    */
   async uploadImages(
     images: SelectedImage[],
     fieldId: string,
     userId: string | null,
     onProgress?: (progress: number) => void
-  ): Promise<{ urls: string[]; errors: string[] }> {
-    const urls: string[] = [];
-    const errors: string[] = [];
-    const total = images.length;
+  ): Promise<{ urls: string[]; errors: string[]; failed: SelectedImage[] }> {
+    const results: ImageUploadResult[] = new Array(images.length);
+    const progressByImage: number[] = images.map(() => 0);
+    let nextIndex = 0;
+
+    const reportProgress = () => {
+      const total = progressByImage.reduce((sum, progress) => sum + progress, 0);
+      onProgress?.(Math.round(total / images.length));
+    };
+
+    const worker = async () => {
+      while (nextIndex < images.length) {
+        const index = nextIndex++;
+        results[index] = await this.uploadImage(images[index], fieldId, userId, (progress) => {
+          progressByImage[index] = progress;
+          reportProgress();
+        });
+        progressByImage[index] = 100;
+        reportProgress();
+      }
+    };
 
-    for (let i = 0; i < images.length; i++) {
-      const result = await this.uploadImage(images[i], fieldId, userId);
+    const workerCount = Math.min(UPLOAD_CONFIG.maxParallel, images.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
 
+    const urls: string[] = [];
+    const errors: string[] = [];
+    const failed: SelectedImage[] = [];
+    results.forEach((result, index) => {
       if (result.success && result.url) {
         urls.push(result.url);
       } else {
-        errors.push(result.error || `Failed to upload image ${i + 1}`);
+        errors.push(result.error || `Failed to upload image ${index + 1}`);
+        failed.push(images[index]);
       }
+    });
 
-      // Report progress
-      const progress = Math.round(((i + 1) / total) * 100);
-      onProgress?.(progress);
-    }
-
-    return { urls, errors };
+    return { urls, errors, failed };
   }
 
   /**
@@ -0,0 +1,381 @@
+import { AppState } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { UPLOAD_CONFIG } from '@/constants';
+import { imageService } from '@/features/fields/services/imageService';
+import { SelectedImage, UploadJob } from '@/features/fields/types';
+import { supabase } from '@/infrastructure/supabase';
+import { storageLogger } from '@/utils/logger';
+
+const STORAGE_KEY = '@app_upload_queue';
+const UPLOADS_DIRECTORY = `${FileSystem.documentDirectory}uploads/`;
+// Postgres error raised when a photo is saved for a field that was deleted
+const FOREIGN_KEY_VIOLATION = '23503';
+
+type UploadQueueListener = (jobs: UploadJob[]) => void;
+
+/**
+ * Background queue for field photos
+ * Jobs are persisted so uploads resume after a restart, run a few at a time, and are
+ * retried with exponential backoff. Once a photo is in storage its field_images row is saved.
+ * Only the signed-in user's jobs run; jobs queued by another account wait until it signs in
+ * again.
+ */
+class UploadQueue {
+  private jobs: UploadJob[] = [];
+  private listeners = new Set<UploadQueueListener>();
+  private activeCount = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private startPromise: Promise<void> | null = null;
+  private userId: string | null = null;
+
+  /**
+   * Load persisted jobs and start processing them
+   * Safe to call more than once
+   */
+  start(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.restore().then(() => {
+        // Connectivity often comes back while the app is in the background
+        AppState.addEventListener('change', (state) => {
+          if (state === 'active') {
+            this.process();
+          }
+        });
+        this.process();
+      });
+    }
+    return this.startPromise;
+  }
+
+  /**
+   * Switch to the signed-in user's jobs; any other account's jobs are paused
+   */
+  setUser(userId: string | null): void {
+    if (this.userId === userId) {
+      return;
+    }
+    this.userId = userId;
+    this.process();
+  }
+
+  /**
+   * Queue photos for a field; the first one flagged isPrimary becomes its main image
+   */
+  async enqueue(
+    fieldId: string,
+    userId: string | null,
+    images: { image: SelectedImage; isPrimary: boolean }[]
+  ): Promise<UploadJob[]> {
+    await this.start();
+    await FileSystem.makeDirectoryAsync(UPLOADS_DIRECTORY, { intermediates: true });
+
+    const newJobs = await Promise.all(
+      images.map(async ({ image, isPrimary }, index) => {
+        const id = `${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`;
+
+        // Picked photos live in a cache directory the OS may clear
+        const persistedUri = `${UPLOADS_DIRECTORY}${id}-${image.fileName}`;
+        await FileSystem.copyAsync({ from: image.uri, to: persistedUri });
+
+        const job: UploadJob = {
+          id,
+          fieldId,
+          userId,
+          image: { ...image, uri: persistedUri },
+          sourceUri: image.uri,
+          isPrimary,
+          status: 'queued',
+          progress: 0,
+          attempts: 0,
+          nextAttemptAt: 0,
+          uploadedUrl: null,
+          error: null,
+        };
+        return job;
+      })
+    );
+
+    this.jobs = [...this.jobs, ...newJobs];
+    await this.persist();
+    this.notify();
+    this.process();
+
+    return newJobs;
+  }
+
+  /**
+   * Get the current jobs, optionally for a single field
+   */
+  getJobs(fieldId?: string): UploadJob[] {
+    return fieldId ? this.jobs.filter((job) => job.fieldId === fieldId) : this.jobs;
+  }
+
+  /**
+   * Listen for job changes; returns a function that removes the listener
+   */
+  subscribe(listener: UploadQueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Wait until each of the given jobs has either finished or had its first attempt fail
+   * Used to keep the form open while uploads are likely to succeed quickly
+   */
+  waitForFirstAttempt(jobIds: string[]): Promise<UploadJob[]> {
+    return new Promise((resolve) => {
+      const check = (jobs: UploadJob[]) => {
+        const watched = jobs.filter((job) => jobIds.includes(job.id));
+        const isSettled = watched.every((job) => job.status === 'done' || job.attempts > 0);
+        if (isSettled) {
+          unsubscribe();
+          resolve(watched);
+        }
+      };
+
+      const unsubscribe = this.subscribe(check);
+      check(this.jobs);
+    });
+  }
+
+  /**
+   * Give failed jobs a fresh set of attempts
+   */
+  async retryFailed(): Promise<void> {
+    this.jobs = this.jobs.map((job) =>
+      job.status === 'failed'
+        ? { ...job, status: 'queued', attempts: 0, nextAttemptAt: 0, error: null }
+        : job
+    );
+    await this.persist();
+    this.notify();
+    this.process();
+  }
+
+  /**
+   * Drop the waiting jobs of a field that no longer exists
+   */
+  async removeFieldJobs(fieldId: string): Promise<void> {
+    await this.removeJobs(
+      this.jobs.filter((job) => job.fieldId === fieldId && job.status !== 'uploading')
+    );
+  }
+
+  /**
+   * Drop the waiting jobs of a user whose account was deleted
+   */
+  async removeUserJobs(userId: string): Promise<void> {
+    await this.removeJobs(
+      this.jobs.filter((job) => job.userId === userId && job.status !== 'uploading')
+    );
+  }
+
+  private async removeJobs(removed: UploadJob[]): Promise<void> {
+    const removedIds = removed.map((job) => job.id);
+    this.jobs = this.jobs.filter((job) => !removedIds.includes(job.id));
+    await Promise.all(
+      removed.map((job) => FileSystem.deleteAsync(job.image.uri, { idempotent: true }))
+    );
+    await this.persist();
+    this.notify();
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (!stored) {
+        return;
+      }
+
+      // Uploads interrupted by the app closing start over, and failed ones get another
+      // round of attempts on every launch
+      this.jobs = (JSON.parse(stored) as UploadJob[]).map((job) =>
+        job.status === 'uploading' || job.status === 'failed'
+          ? { ...job, status: 'queued', progress: 0, attempts: 0, nextAttemptAt: 0 }
+          : job
+      );
+      storageLogger.info('Restored upload queue', { count: this.jobs.length });
+    } catch (error) {
+      storageLogger.error('Error restoring upload queue', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      const pending = this.jobs.filter((job) => job.status !== 'done');
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+    } catch (error) {
+      storageLogger.error('Error saving upload queue', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener(this.jobs));
+  }
+
+  private updateJob(id: string, changes: Partial<UploadJob>): UploadJob | undefined {
+    this.jobs = this.jobs.map((job) => (job.id === id ? { ...job, ...changes } : job));
+    this.notify();
+    return this.jobs.find((job) => job.id === id);
+  }
+
+  /**
+   * Start due jobs up to the parallel limit and schedule the next retry
+   */
+  private process(): void {
+    const now = Date.now();
+
+    while (this.activeCount < UPLOAD_CONFIG.maxParallel) {
+      const job = this.jobs.find(
+        (candidate) =>
+          (candidate.status === 'queued' || candidate.status === 'retrying') &&
+          candidate.userId === this.userId &&
+          candidate.nextAttemptAt <= now
+      );
+      if (!job) {
+        break;
+      }
+
+      this.activeCount++;
+      this.updateJob(job.id, { status: 'uploading', progress: 0 });
+      this.runJob(job)
+        .catch((error) => this.abortJob(job, error))
+        .finally(() => {
+          this.activeCount--;
+          this.process();
+        });
+    }
+
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const waiting = this.jobs.filter(
+      (job) => job.status === 'retrying' && job.userId === this.userId
+    );
+    if (waiting.length === 0) {
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...waiting.map((job) => job.nextAttemptAt));
+    this.retryTimer = setTimeout(
+      () => {
+        this.retryTimer = null;
+        this.process();
+      },
+      Math.max(nextAttemptAt - Date.now(), 0)
+    );
+  }
+
+  private async runJob(job: UploadJob): Promise<void> {
+    let uploadedUrl = job.uploadedUrl;
+
+    if (!uploadedUrl) {
+      const result = await imageService.uploadImage(
+        job.image,
+        job.fieldId,
+        job.userId,
+        (progress) => this.updateJob(job.id, { progress: Math.min(progress, 99) })
+      );
+
+      if (!result.success || !result.url) {
+        await this.failJob(job, result.error || 'Failed to upload photo');
+        return;
+      }
+
+      uploadedUrl = result.url;
+      this.updateJob(job.id, { uploadedUrl });
+      await this.persist();
+    }
+
+    const { error } = await supabase.from('field_images').insert({
+      field_id: job.fieldId,
+      image_url: uploadedUrl,
+      is_primary: job.isPrimary,
+      uploaded_by: job.userId,
+    });
+
+    // The field was deleted while its photos were waiting; retrying can't bring it back
+    if (error?.code === FOREIGN_KEY_VIOLATION) {
+      storageLogger.warn('Dropping upload for a field that no longer exists', {
+        jobId: job.id,
+        fieldId: job.fieldId,
+      });
+      await imageService.deleteImage(uploadedUrl);
+      await this.removeJobs([job]);
+      return;
+    }
+
+    if (error) {
+      storageLogger.error('Error saving uploaded image record', {
+        error: error.message,
+        fieldId: job.fieldId,
+      });
+      await this.failJob(job, 'Failed to save photo');
+      return;
+    }
+
+    // Listeners see the job finish before it leaves the queue
+    this.updateJob(job.id, { status: 'done', progress: 100, error: null });
+    await FileSystem.deleteAsync(job.image.uri, { idempotent: true });
+    this.jobs = this.jobs.filter((candidate) => candidate.id !== job.id);
+    await this.persist();
+    this.notify();
+    storageLogger.debug('Queued upload finished', { jobId: job.id, fieldId: job.fieldId });
+  }
+
+  /**
+   * Retry a job that threw instead of reporting an error, so it doesn't stay stuck uploading
+   */
+  private async abortJob(job: UploadJob, error: unknown): Promise<void> {
+    storageLogger.error('Error running upload job', {
+      jobId: job.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    const current = this.jobs.find((candidate) => candidate.id === job.id);
+    if (!current || current.status === 'done') {
+      return;
+    }
+
+    await this.failJob(job, 'Failed to upload photo');
+  }
+
+  private async failJob(job: UploadJob, error: string): Promise<void> {
+    const attempts = job.attempts + 1;
+
+    if (attempts >= UPLOAD_CONFIG.maxAttempts) {
+      storageLogger.warn('Upload failed permanently', { jobId: job.id, error });
+      this.updateJob(job.id, { status: 'failed', attempts, progress: 0, error });
+    } else {
+      const delay = Math.min(
+        UPLOAD_CONFIG.baseRetryDelay * 2 ** (attempts - 1),
+        UPLOAD_CONFIG.maxRetryDelay
+      );
+      storageLogger.info('Upload failed, retrying', { jobId: job.id, attempts, delay, error });
+      this.updateJob(job.id, {
+        status: 'retrying',
+        attempts,
+        progress: 0,
+        nextAttemptAt: Date.now() + delay,
+        error,
+      });
+    }
+
+    await this.persist();
+  }
+}
+
+export const uploadQueue = new UploadQueue();
@@ -1,10 +1,24 @@
-import { SurfaceType, Coordinates } from '@/types';
+import {
+  SurfaceType,
+  Coordinates,
+  EditableFieldAttributes,
+  Field,
+  FieldEditSuggestion,
+  FieldHistoryValues,
+  FieldReport,
+  FieldReportReason,
+  FieldStatus,
+} from '@/types';
 
 // Form data for creating a new field
 export interface CreateFieldFormData {
   name: string;
   description: string;
   coordinates: Coordinates;
+  // Filled in from the coordinates by reverse geocoding, editable by the user
+  address: string;
+  city: string;
+  country: string;
   surfaceType: SurfaceType;
   isFree: boolean;
   hasLights: boolean;
@@ -21,6 +35,91 @@ export interface SelectedImage {
   fileName: string;
   mimeType: string;
   fileSize: number;
+  // Set for images that are already uploaded (when editing an existing field)
+  remoteUrl?: string;
+}
+
+// An unfinished Create Field form saved on the device
+export interface FieldDraft {
+  id: string;
+  formData: CreateFieldFormData;
+  // Photos are copied into the app's documents so they outlive the picker's cache
+  images: SelectedImage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Status of a photo in the background upload queue
+// 'retrying' jobs wait for their next attempt; 'failed' ones ran out of attempts
+export type UploadJobStatus = 'queued' | 'uploading' | 'retrying' | 'done' | 'failed';
+
+// A photo waiting to be uploaded and linked to its field
+export interface UploadJob {
+  id: string;
+  fieldId: string;
+  userId: string | null;
+  // Points to a copy in the app's documents so the job survives restarts
+  image: SelectedImage;
+  // URI of the photo as picked, used to match jobs to the form's thumbnails
+  sourceUri: string;
+  isPrimary: boolean;
+  status: UploadJobStatus;
+  // 0-100
+  progress: number;
+  attempts: number;
+  // Epoch ms before which the job isn't retried
+  nextAttemptAt: number;
+  // Set once the file is in storage, so a retry only has to save the field_images row
+  uploadedUrl: string | null;
+  error: string | null;
+}
+
+// A field together with its image URLs (primary image first)
+export interface FieldWithImages {
+  field: Field;
+  imageUrls: string[];
+  // Name of the nearby field the submitter said this one is different from
+  possibleDuplicateName?: string | null;
+}
+
+// A field matched by a text search
+export interface FieldSearchResult {
+  field: Field;
+  // Null when the user's location is unknown
+  distanceMeters: number | null;
+}
+
+// A field with open reports, as shown to moderators
+export interface ReportedField {
+  field: Field;
+  // Newest first
+  reports: FieldReport[];
+}
+
+// A pending edit suggestion together with the field it changes
+export interface FieldEditSuggestionWithField {
+  suggestion: FieldEditSuggestion;
+  field: Field;
+}
+
+// An existing field that a new submission probably duplicates
+export interface DuplicateFieldMatch {
+  id: string;
+  name: string;
+  coordinates: Coordinates;
+  address: string | null;
+  city: string | null;
+  status: FieldStatus;
+  distanceMeters: number;
+  // Trigram similarity of the names, 0 to 1
+  nameSimilarity: number;
+}
+
+// Result of checking a new field for duplicates
+// Other players' pending fields can't be shown, so they're only reported as hasHiddenMatch
+export interface DuplicateFieldCheck {
+  matches: DuplicateFieldMatch[];
+  hasHiddenMatch: boolean;
 }
 
 // Validation errors for the form
@@ -39,6 +138,9 @@ export const DEFAULT_FORM_DATA: CreateFieldFormData = {
   name: '',
   description: '',
   coordinates: { latitude: 0, longitude: 0 },
+  address: '',
+  city: '',
+  country: '',
   surfaceType: 'natural_grass',
   isFree: true,
   hasLights: false,
@@ -49,6 +151,42 @@ export const DEFAULT_FORM_DATA: CreateFieldFormData = {
   notes: '',
 };
 
+// Form data for writing or editing a review; 0 means "not rated"
+export interface FieldReviewFormData {
+  rating: number;
+  surfaceRating: number;
+  goalsRating: number;
+  comment: string;
+}
+
+// Filters applied to the fields shown on the map
+// Empty surface types / false flags / null capacity / null rating mean "any"
+export interface FieldFilters {
+  surfaceTypes: SurfaceType[];
+  onlyFree: boolean;
+  hasLights: boolean;
+  hasGoals: boolean;
+  hasChangingRooms: boolean;
+  hasParking: boolean;
+  minCapacity: number | null;
+  minRating: number | null;
+}
+
+// No filters applied
+export const DEFAULT_FIELD_FILTERS: FieldFilters = {
+  surfaceTypes: [],
+  onlyFree: false,
+  hasLights: false,
+  hasGoals: false,
+  hasChangingRooms: false,
+  hasParking: false,
+  minCapacity: null,
+  minRating: null,
+};
+
+// Minimum average ratings offered in the map filters
+export const MIN_RATING_OPTIONS: number[] = [3, 4, 4.5];
+
 // Surface type display labels
 export const SURFACE_TYPE_LABELS: Record<SurfaceType, string> = {
   natural_grass: 'Natural Grass',
@@ -72,3 +210,56 @@ export const SURFACE_TYPE_ICONS: Record<SurfaceType, string> = {
   sand: '🏖️',
   indoor: '🏟️',
 };
+
+// Field status display labels (shown to the field's owner)
+export const FIELD_STATUS_LABELS: Record<FieldStatus, string> = {
+  draft: 'Draft',
+  pending: 'Pending Review',
+  active: 'Active',
+  inactive: 'Inactive',
+  rejected: 'Rejected',
+};
+
+// Preset reasons moderators can pick when rejecting a field
+export const REJECTION_REASONS: string[] = [
+  'Not a football field',
+  'Duplicate of an existing field',
+  'Private or restricted access',
+  'Photos do not show the field',
+  'Spam or inappropriate content',
+];
+
+// Reasons users can pick when reporting a field
+export const FIELD_REPORT_REASON_LABELS: Record<FieldReportReason, string> = {
+  does_not_exist: "Field doesn't exist or is closed",
+  wrong_location: 'Wrong location',
+  wrong_amenities: 'Wrong amenities or details',
+  inappropriate_photo: 'Inappropriate photo',
+  duplicate: 'Duplicate of another field',
+};
+
+// Labels of the field attributes users can suggest changes to, in display order
+export const EDITABLE_FIELD_ATTRIBUTE_LABELS: Record<keyof EditableFieldAttributes, string> = {
+  name: 'Name',
+  description: 'Description',
+  address: 'Address',
+  surface_type: 'Surface',
+  is_free: 'Free to Play',
+  has_lights: 'Lights',
+  has_goals: 'Goals',
+  has_changing_rooms: 'Changing Rooms',
+  has_parking: 'Parking',
+  player_capacity: 'Player Capacity',
+  notes: 'Notes',
+};
+
+// Labels of the columns shown in a field's change history, in display order
+export const FIELD_HISTORY_ATTRIBUTE_LABELS: Record<keyof FieldHistoryValues, string> = {
+  status: 'Status',
+  rejection_reason: 'Rejection Reason',
+  ...EDITABLE_FIELD_ATTRIBUTE_LABELS,
+  city: 'City',
+  country: 'Country',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+};
@@ -0,0 +1,159 @@
+import { useState, useCallback } from 'react';
+import { Alert } from 'react-native';
+import { gameRepository } from '@/features/games/repositories/gameRepository';
+import {
+  CreateGameFormData,
+  CreateGameFormErrors,
+  DEFAULT_GAME_FORM_DATA,
+  MAX_GAME_PLAYERS,
+  MIN_GAME_PLAYERS,
+} from '@/features/games/types';
+import { Game } from '@/types';
+import { gameLogger } from '@/utils/logger';
+
+interface UseCreateGameReturn {
+  formData: CreateGameFormData;
+  errors: CreateGameFormErrors;
+  isSubmitting: boolean;
+  validationError: string | null;
+  updateFormData: <K extends keyof CreateGameFormData>(
+    key: K,
+    value: CreateGameFormData[K]
+  ) => void;
+  validateForm: () => boolean;
+  submitForm: (fieldId: string, organizerId: string) => Promise<Game | null>;
+  resetForm: () => void;
+  clearValidationError: () => void;
+}
+
+export function useCreateGame(): UseCreateGameReturn {
+  const [formData, setFormData] = useState<CreateGameFormData>(DEFAULT_GAME_FORM_DATA);
+  const [errors, setErrors] = useState<CreateGameFormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const clearValidationError = useCallback(() => {
+    setValidationError(null);
+  }, []);
+
+  const updateFormData = useCallback(
+    <K extends keyof CreateGameFormData>(key: K, value: CreateGameFormData[K]) => {
+      setFormData((prev) => ({ ...prev, [key]: value }));
+      // Clear error when field is updated
+      if (errors[key as keyof CreateGameFormErrors]) {
+        setErrors((prev) => {
+          const newErrors = { ...prev };
+          delete newErrors[key as keyof CreateGameFormErrors];
+          return newErrors;
+        });
+      }
+    },
+    [errors]
+  );
+
+  const validateForm = useCallback((): boolean => {
+    const newErrors: CreateGameFormErrors = {};
+    const errorMessages: string[] = [];
+
+    // Title validation
+    if (!formData.title.trim()) {
+      newErrors.title = 'Game title is required';
+      errorMessages.push('Game title is required');
+    } else if (formData.title.trim().length < 3) {
+      newErrors.title = 'Game title must be at least 3 characters';
+      errorMessages.push('Game title must be at least 3 characters');
+    } else if (formData.title.trim().length > 80) {
+      newErrors.title = 'Game title must be less than 80 characters';
+      errorMessages.push('Game title must be less than 80 characters');
+    }
+
+    // Description validation (optional but has max length)
+    if (formData.description.length > 500) {
+      newErrors.description = 'Description must be less than 500 characters';
+      errorMessages.push('Description is too long');
+    }
+
+    // Start time validation - must be in the future
+    if (!formData.startsAt) {
+      newErrors.startsAt = 'Please pick a date and time';
+      errorMessages.push('Please pick a date and time');
+    } else if (formData.startsAt.getTime() <= Date.now()) {
+      newErrors.startsAt = 'The game must start in the future';
+      errorMessages.push('The game must start in the future');
+    }
+
+    // Player count validation
+    if (
+      formData.maxPlayers === null ||
+      formData.maxPlayers < MIN_GAME_PLAYERS ||
+      formData.maxPlayers > MAX_GAME_PLAYERS
+    ) {
+      newErrors.maxPlayers = `Players must be between ${MIN_GAME_PLAYERS} and ${MAX_GAME_PLAYERS}`;
+      errorMessages.push(`Players must be between ${MIN_GAME_PLAYERS} and ${MAX_GAME_PLAYERS}`);
+    }
+
+    setErrors(newErrors);
+
+    // Set validation error message for snackbar (show first error)
+    if (errorMessages.length > 0) {
+      setValidationError(errorMessages[0]);
+    }
+
+    return Object.keys(newErrors).length === 0;
+  }, [formData]);
+
+  const submitForm = useCallback(
+    async (fieldId: string, organizerId: string): Promise<Game | null> => {
+      if (!validateForm()) {
+        return null;
+      }
+
+      setIsSubmitting(true);
+
+      try {
+        const result = await gameRepository.createGame(formData, fieldId, organizerId);
+
+        if (result.success && result.game) {
+          Alert.alert('Game Created! ⚽', 'Your game is scheduled. Share it with your friends!', [
+            { text: 'OK' },
+          ]);
+          gameLogger.info('Game created successfully', { gameId: result.game.id });
+          return result.game;
+        }
+
+        const errorMessage = result.error || 'Failed to create game';
+        setErrors({ general: errorMessage });
+        Alert.alert('Could Not Create Game', errorMessage, [{ text: 'OK' }]);
+        return null;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'An unexpected error occurred';
+        setErrors({ general: errorMessage });
+        Alert.alert('Error', errorMessage, [{ text: 'OK' }]);
+        return null;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [formData, validateForm]
+  );
+
+  const resetForm = useCallback(() => {
+    setFormData(DEFAULT_GAME_FORM_DATA);
+    setErrors({});
+    setIsSubmitting(false);
+    setValidationError(null);
+  }, []);
+
+  return {
+    formData,
+    errors,
+    isSubmitting,
+    validationError,
+    updateFormData,
+    validateForm,
+    submitForm,
+    resetForm,
+    clearValidationError,
+  };
+}
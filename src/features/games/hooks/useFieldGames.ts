@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { gameRepository } from '@/features/games/repositories/gameRepository';
+import { Game } from '@/types';
+
+interface UseFieldGamesReturn {
+  games: Game[];
+  isLoading: boolean;
+  pendingGameId: string | null;
+  refetch: () => Promise<void>;
+  joinGame: (gameId: string, userId: string) => Promise<{ success: boolean; error?: string }>;
+  leaveGame: (gameId: string, userId: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Loads the upcoming games at a field and handles joining/leaving them
+ */
+export function useFieldGames(fieldId: string | null): UseFieldGamesReturn {
+  const [games, setGames] = useState<Game[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingGameId, setPendingGameId] = useState<string | null>(null);
+
+  const fetchGames = useCallback(async () => {
+    if (!fieldId) {
+      setGames([]);
+      return;
+    }
+
+    setIsLoading(true);
+    const fetchedGames = await gameRepository.getUpcomingGamesForField(fieldId);
+    setGames(fetchedGames);
+    setIsLoading(false);
+  }, [fieldId]);
+
+  useEffect(() => {
+    fetchGames();
+  }, [fetchGames]);
+
+  // Replace a single game in the list with its latest version
+  const refreshGame = useCallback(async (gameId: string) => {
+    const updated = await gameRepository.getGameById(gameId);
+    if (updated) {
+      setGames((prev) => prev.map((game) => (game.id === gameId ? updated : game)));
+    }
+  }, []);
+
+  const joinGame = useCallback(
+    async (gameId: string, userId: string) => {
+      setPendingGameId(gameId);
+      const result = await gameRepository.joinGame(gameId, userId);
+      await refreshGame(gameId);
+      setPendingGameId(null);
+      return result;
+    },
+    [refreshGame]
+  );
+
+  const leaveGame = useCallback(
+    async (gameId: string, userId: string) => {
+      setPendingGameId(gameId);
+      const result = await gameRepository.leaveGame(gameId, userId);
+      await refreshGame(gameId);
+      setPendingGameId(null);
+      return result;
+    },
+    [refreshGame]
+  );
+
+  return {
+    games,
+    isLoading,
+    pendingGameId,
+    refetch: fetchGames,
+    joinGame,
+    leaveGame,
+  };
+}
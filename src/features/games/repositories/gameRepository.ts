@@ -0,0 +1,243 @@
+import { CreateGameFormData } from '@/features/games/types';
+import { supabase } from '@/infrastructure/supabase';
+import { Game, GameStatus } from '@/types';
+import { gameLogger } from '@/utils/logger';
+
+// Database row types
+interface GameRow {
+  id: string;
+  field_id: string;
+  organizer_id: string | null;
+  title: string;
+  description: string | null;
+  starts_at: string;
+  duration_minutes: number;
+  max_players: number;
+  status: GameStatus;
+  created_at: string;
+  updated_at: string;
+  game_players:
+    | {
+        player_id: string;
+        joined_at: string;
+        player: { username: string; display_name: string | null } | null;
+      }[]
+    | null;
+}
+
+interface GameResult {
+  success: boolean;
+  game?: Game;
+  error?: string;
+}
+
+interface GameActionResult {
+  success: boolean;
+  error?: string;
+}
+
+// Games are always loaded together with their roster and the players' names
+const GAME_SELECT =
+  '*, game_players(player_id, joined_at, player:profiles!player_id(username, display_name))';
+
+class GameRepository {
+  /**
+   * Create a new game at a field
+   * The organizer is added to the roster by a database trigger
+   */
+  async createGame(
+    formData: CreateGameFormData,
+    fieldId: string,
+    organizerId: string
+  ): Promise<GameResult> {
+    try {
+      if (!formData.startsAt || !formData.maxPlayers) {
+        return { success: false, error: 'Game time and player count are required' };
+      }
+
+      const gameData = {
+        field_id: fieldId,
+        organizer_id: organizerId,
+        title: formData.title.trim(),
+        description: formData.description.trim() || null,
+        starts_at: formData.startsAt.toISOString(),
+        duration_minutes: formData.durationMinutes,
+        max_players: formData.maxPlayers,
+      };
+
+      const { data: gameRecord, error: gameError } = await supabase
+        .from('games')
+        .insert(gameData)
+        .select()
+        .single();
+
+      if (gameError || !gameRecord) {
+        gameLogger.error('Error creating game', { error: gameError?.message });
+        return {
+          success: false,
+          error: `Failed to create game: ${gameError?.message || 'Unknown error'}`,
+        };
+      }
+
+      // Re-read the game so the roster includes the organizer
+      const game = await this.getGameById((gameRecord as unknown as GameRow).id);
+
+      return {
+        success: true,
+        game:
+          game ?? this.mapRowToGame({ ...(gameRecord as unknown as GameRow), game_players: [] }),
+      };
+    } catch (error) {
+      gameLogger.error('Error in createGame', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Get scheduled games at a field that haven't started yet, soonest first
+   */
+  async getUpcomingGamesForField(fieldId: string): Promise<Game[]> {
+    try {
+      const { data, error } = await supabase
+        .from('games')
+        .select(GAME_SELECT)
+        .eq('field_id', fieldId)
+        .eq('status', 'scheduled')
+        .gte('starts_at', new Date().toISOString())
+        .order('starts_at', { ascending: true });
+
+      if (error) {
+        gameLogger.error('Error fetching games for field', { error: error.message, fieldId });
+        return [];
+      }
+
+      const rows = (data || []) as unknown as GameRow[];
+      return rows.map((row) => this.mapRowToGame(row));
+    } catch (error) {
+      gameLogger.error('Error in getUpcomingGamesForField', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Get a game by ID
+   */
+  async getGameById(id: string): Promise<Game | null> {
+    try {
+      const { data, error } = await supabase
+        .from('games')
+        .select(GAME_SELECT)
+        .eq('id', id)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return this.mapRowToGame(data as unknown as GameRow);
+    } catch (error) {
+      gameLogger.error('Error in getGameById', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Add a player to a game's roster
+   * Capacity and game status are enforced by a database trigger
+   */
+  async joinGame(gameId: string, userId: string): Promise<GameActionResult> {
+    try {
+      const { error } = await supabase
+        .from('game_players')
+        .insert({ game_id: gameId, player_id: userId });
+
+      if (error) {
+        // Unique violation - the player is already on the roster
+        if (error.code === '23505') {
+          return { success: true };
+        }
+        gameLogger.error('Error joining game', { error: error.message, gameId });
+        return { success: false, error: error.message };
+      }
+
+      gameLogger.info('Joined game', { gameId });
+      return { success: true };
+    } catch (error) {
+      gameLogger.error('Error in joinGame', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Remove a player from a game's roster
+   */
+  async leaveGame(gameId: string, userId: string): Promise<GameActionResult> {
+    try {
+      const { error } = await supabase
+        .from('game_players')
+        .delete()
+        .eq('game_id', gameId)
+        .eq('player_id', userId);
+
+      if (error) {
+        gameLogger.error('Error leaving game', { error: error.message, gameId });
+        return { success: false, error: error.message };
+      }
+
+      gameLogger.info('Left game', { gameId });
+      return { success: true };
+    } catch (error) {
+      gameLogger.error('Error in leaveGame', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      };
+    }
+  }
+
+  /**
+   * Map a database row to the app's Game type
+   */
+  private mapRowToGame(row: GameRow): Game {
+    const roster = [...(row.game_players || [])].sort((a, b) =>
+      a.joined_at.localeCompare(b.joined_at)
+    );
+
+    return {
+      id: row.id,
+      field_id: row.field_id,
+      organizer_id: row.organizer_id,
+      title: row.title,
+      description: row.description,
+      starts_at: row.starts_at,
+      duration_minutes: row.duration_minutes,
+      max_players: row.max_players,
+      status: row.status,
+      player_ids: roster.map((player) => player.player_id),
+      players: roster.map((player) => ({
+        id: player.player_id,
+        name: player.player?.display_name || player.player?.username || 'Player',
+      })),
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+export const gameRepository = new GameRepository();
@@ -0,0 +1,33 @@
+// Form data for creating a new game
+export interface CreateGameFormData {
+  title: string;
+  description: string;
+  startsAt: Date | null;
+  durationMinutes: number;
+  maxPlayers: number | null;
+}
+
+// Validation errors for the form
+export interface CreateGameFormErrors {
+  title?: string;
+  description?: string;
+  startsAt?: string;
+  maxPlayers?: string;
+  general?: string;
+}
+
+// Default form values
+export const DEFAULT_GAME_FORM_DATA: CreateGameFormData = {
+  title: '',
+  description: '',
+  startsAt: null,
+  durationMinutes: 90,
+  maxPlayers: 10,
+};
+
+// Game duration options in minutes
+export const GAME_DURATION_OPTIONS = [60, 90, 120];
+
+// Roster size limits
+export const MIN_GAME_PLAYERS = 2;
+export const MAX_GAME_PLAYERS = 50;
@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { notificationRepository } from '@/features/notifications/repositories/notificationRepository';
+import { AppNotification } from '@/types';
+
+interface UseNotificationsReturn {
+  notifications: AppNotification[];
+  refetch: () => Promise<void>;
+  markAsRead: (notificationId: string) => Promise<void>;
+}
+
+/**
+ * Loads the signed-in user's unread notifications
+ */
+export function useNotifications(userId: string | null): UseNotificationsReturn {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) {
+      setNotifications([]);
+      return;
+    }
+
+    const unread = await notificationRepository.getUnread(userId);
+    setNotifications(unread);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const markAsRead = useCallback(async (notificationId: string) => {
+    // Drop it locally right away so it isn't shown twice
+    setNotifications((prev) => prev.filter((notification) => notification.id !== notificationId));
+    await notificationRepository.markAsRead(notificationId);
+  }, []);
+
+  return {
+    notifications,
+    refetch: fetchNotifications,
+    markAsRead,
+  };
+}
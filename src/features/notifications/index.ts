@@ -0,0 +1,2 @@
+export { notificationRepository } from './repositories/notificationRepository';
+export { useNotifications } from './hooks/useNotifications';
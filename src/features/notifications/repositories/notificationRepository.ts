@@ -0,0 +1,57 @@
+import { supabase } from '@/infrastructure/supabase';
+import { AppNotification } from '@/types';
+import { notificationLogger } from '@/utils/logger';
+
+class NotificationRepository {
+  /**
+   * Get a user's unread notifications, oldest first
+   */
+  async getUnread(userId: string): Promise<AppNotification[]> {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .is('read_at', null)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        notificationLogger.error('Error fetching notifications', { error: error.message });
+        return [];
+      }
+
+      return (data || []) as unknown as AppNotification[];
+    } catch (error) {
+      notificationLogger.error('Error in getUnread', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  async markAsRead(notificationId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', notificationId);
+
+      if (error) {
+        notificationLogger.error('Error marking notification as read', { error: error.message });
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      notificationLogger.error('Error in markAsRead', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+}
+
+export const notificationRepository = new NotificationRepository();
@@ -0,0 +1,69 @@
+import { useState, useEffect, useRef } from 'react';
+import { SEARCH_CONFIG } from '@/constants';
+import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { FieldSearchResult } from '@/features/fields/types';
+import { placeSearchService } from '@/features/search/services/placeSearchService';
+import { PlaceSearchResult } from '@/features/search/types';
+import { Coordinates } from '@/types';
+
+interface UseSearchReturn {
+  fieldResults: FieldSearchResult[];
+  placeResults: PlaceSearchResult[];
+  isSearching: boolean;
+}
+
+/**
+ * Searches fields and places as the user types
+ *
+ * Queries are debounced; a newer query cancels the field search still running
+ * for the previous one and discards its place results.
+ */
+export function useSearch(query: string, userLocation: Coordinates | null): UseSearchReturn {
+  const [fieldResults, setFieldResults] = useState<FieldSearchResult[]>([]);
+  const [placeResults, setPlaceResults] = useState<PlaceSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Read the latest location without restarting the search when it updates
+  const userLocationRef = useRef(userLocation);
+  userLocationRef.current = userLocation;
+
+  useEffect(() => {
+    const trimmedQuery = query.trim();
+    if (trimmedQuery.length < SEARCH_CONFIG.minQueryLength) {
+      setFieldResults([]);
+      setPlaceResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    const timeout = setTimeout(async () => {
+      const location = userLocationRef.current;
+      const [fields, places] = await Promise.all([
+        fieldRepository.searchFields(trimmedQuery, location, controller.signal),
+        placeSearchService.searchPlaces(trimmedQuery, location),
+      ]);
+
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      setFieldResults(fields);
+      setPlaceResults(places);
+      setIsSearching(false);
+    }, SEARCH_CONFIG.debounceMs);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  return {
+    fieldResults,
+    placeResults,
+    isSearching,
+  };
+}
@@ -0,0 +1,69 @@
+import { SEARCH_CONFIG } from '@/constants';
+import { PlaceSearchResult } from '@/features/search/types';
+import { getGeocoder } from '@/infrastructure/geocoding';
+import { Coordinates } from '@/types';
+import { getDistanceMeters } from '@/utils/geo';
+import { mapLogger } from '@/utils/logger';
+
+class PlaceSearchService {
+  /**
+   * Resolve a place name to coordinates using the app geocoder
+   * Each match is reverse geocoded to get a readable name
+   */
+  async searchPlaces(
+    query: string,
+    userLocation: Coordinates | null
+  ): Promise<PlaceSearchResult[]> {
+    try {
+      const locations = await getGeocoder().geocode(query);
+
+      const matches = locations.slice(0, SEARCH_CONFIG.maxPlaceResults);
+      return await Promise.all(
+        matches.map(async (coordinates, index) => {
+          const { name, details } = await this.describePlace(coordinates, query);
+
+          return {
+            key: `${index}:${coordinates.latitude}:${coordinates.longitude}`,
+            name,
+            details,
+            coordinates,
+            distanceMeters: userLocation ? getDistanceMeters(userLocation, coordinates) : null,
+          };
+        })
+      );
+    } catch (error) {
+      // The geocoder throws when nothing matches or the service is unavailable
+      mapLogger.debug('Place search failed', {
+        query,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Get a readable name for a geocoded point, falling back to the search text
+   */
+  private async describePlace(
+    coordinates: Coordinates,
+    fallbackName: string
+  ): Promise<{ name: string; details: string | null }> {
+    try {
+      const address = await getGeocoder().reverseGeocode(coordinates);
+      if (!address) {
+        return { name: fallbackName, details: null };
+      }
+
+      const name = address.district || address.name || address.address || address.city;
+      const details = [address.city, address.region, address.country]
+        .filter((part) => part && part !== name)
+        .join(', ');
+
+      return { name: name || fallbackName, details: details || null };
+    } catch {
+      return { name: fallbackName, details: null };
+    }
+  }
+}
+
+export const placeSearchService = new PlaceSearchService();
@@ -0,0 +1,11 @@
+import { Coordinates } from '@/types';
+
+// A place (neighborhood, street, city...) resolved by the geocoder
+export interface PlaceSearchResult {
+  key: string;
+  name: string;
+  details: string | null;
+  coordinates: Coordinates;
+  // Null when the user's location is unknown
+  distanceMeters: number | null;
+}
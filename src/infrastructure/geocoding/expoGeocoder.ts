@@ -0,0 +1,34 @@
+import * as Location from 'expo-location';
+import { Coordinates } from '@/types';
+import { Geocoder, GeocodedAddress } from './types';
+
+/**
+ * Geocoder backed by the platform services (Apple / Google) via expo-location
+ */
+export const expoGeocoder: Geocoder = {
+  async geocode(query: string): Promise<Coordinates[]> {
+    const locations = await Location.geocodeAsync(query);
+    return locations.map((location) => ({
+      latitude: location.latitude,
+      longitude: location.longitude,
+    }));
+  },
+
+  async reverseGeocode(coordinates: Coordinates): Promise<GeocodedAddress | null> {
+    const [result] = await Location.reverseGeocodeAsync(coordinates);
+    if (!result) {
+      return null;
+    }
+
+    const street = [result.street, result.streetNumber].filter(Boolean).join(' ');
+
+    return {
+      address: street || null,
+      name: result.name,
+      district: result.district,
+      city: result.city || result.subregion,
+      region: result.region,
+      country: result.country,
+    };
+  },
+};
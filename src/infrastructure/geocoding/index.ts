@@ -0,0 +1,20 @@
+import { expoGeocoder } from './expoGeocoder';
+import { Geocoder } from './types';
+
+export type { Geocoder, GeocodedAddress } from './types';
+
+let activeGeocoder: Geocoder = expoGeocoder;
+
+/**
+ * Get the geocoder used by the app
+ */
+export function getGeocoder(): Geocoder {
+  return activeGeocoder;
+}
+
+/**
+ * Replace the geocoder (e.g. with a stub in tests or a web-based provider)
+ */
+export function setGeocoder(geocoder: Geocoder): void {
+  activeGeocoder = geocoder;
+}
@@ -0,0 +1,27 @@
+import { Coordinates } from '@/types';
+
+/**
+ * Address parts resolved for a point on the map
+ * Any part may be missing depending on the provider and location
+ */
+export interface GeocodedAddress {
+  // Street and number, e.g. "Calle Mayor 5"
+  address: string | null;
+  // Point of interest or building name
+  name: string | null;
+  district: string | null;
+  city: string | null;
+  region: string | null;
+  country: string | null;
+}
+
+/**
+ * Geocoding provider
+ * The app uses the device geocoder; tests and scripts can plug in their own
+ */
+export interface Geocoder {
+  // Resolve a place name to matching points, best match first
+  geocode(query: string): Promise<Coordinates[]>;
+  // Resolve a point to an address, or null when nothing is known about it
+  reverseGeocode(coordinates: Coordinates): Promise<GeocodedAddress | null>;
+}
@@ -31,4 +31,5 @@ export const supabase = createClient(SUPABASE_URL, SUPABASE_PUBLISHABLE_KEY, {
 // Storage bucket names
 export const STORAGE_BUCKETS = {
   FIELD_IMAGES: 'field-images',
+  AVATARS: 'avatars',
 } as const;
@@ -1,4 +1,4 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -8,6 +8,8 @@ import {
   Platform,
   TouchableOpacity,
   ActivityIndicator,
+  Alert,
+  Modal,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import {
@@ -22,19 +24,26 @@ import { LocationPicker } from '@/components/ui/LocationPicker';
 import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
 import { useAuth } from '@/features/auth';
 import { useCreateField } from '@/features/fields/hooks/useCreateField';
+import { useFieldDrafts } from '@/features/fields/hooks/useFieldDrafts';
 import { useFields } from '@/features/fields/hooks/useFields';
+import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { FieldDraft } from '@/features/fields/types';
 import { useTheme, useThemedStyles } from '@/features/theme';
 import { useLocation } from '@/hooks';
-import { SurfaceType } from '@/types';
+import { Field, SurfaceType } from '@/types';
+import { formatDayLabel, formatTime } from '@/utils/date';
+import { formatDistance } from '@/utils/geo';
 
 interface CreateFieldScreenProps {
+  // When provided, the screen edits this field instead of creating a new one
+  field?: Field;
   onClose: () => void;
   onSuccess?: () => void;
 }
 
-export function CreateFieldScreen({ onClose, onSuccess }: CreateFieldScreenProps) {
+export function CreateFieldScreen({ field, onClose, onSuccess }: CreateFieldScreenProps) {
   const { coordinates: userLocation, isLoading: isLoadingLocation } = useLocation();
-  const { fields } = useFields(userLocation);
+  const { fields, loadRegion } = useFields(userLocation);
   const { user } = useAuth();
   const { colors, isDark } = useTheme();
   const themedStyles = useThemedStyles(createThemedStyles, isDark);
@@ -45,13 +54,44 @@ export function CreateFieldScreen({ onClose, onSuccess }: CreateFieldScreenProps
     errors,
     isSubmitting,
     uploadProgress,
+    imageUploads,
     validationError,
+    isEditing,
+    isGeocoding,
+    duplicates,
+    hasHiddenDuplicate,
     updateFormData,
     setImages,
     setCoordinates,
+    loadField,
+    loadDraft,
     submitForm,
     clearValidationError,
+    confirmNotDuplicate,
+    dismissDuplicates,
   } = useCreateField();
+  const { drafts, isLoading: isLoadingDrafts, deleteDraft } = useFieldDrafts();
+  // Offer saved drafts once when adding a new field
+  const [hasChosenDraft, setHasChosenDraft] = useState(false);
+  const isDraftPickerVisible = !field && !isLoadingDrafts && !hasChosenDraft && drafts.length > 0;
+
+  // Load the field being edited along with its current photos
+  useEffect(() => {
+    if (!field) {
+      return;
+    }
+
+    let isMounted = true;
+    fieldRepository.getFieldImages(field.id).then((imageUrls) => {
+      if (isMounted) {
+        loadField(field, imageUrls);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [field, loadField]);
 
   const handleSubmit = useCallback(async () => {
     // Submit with authenticated user ID
@@ -62,6 +102,42 @@ export function CreateFieldScreen({ onClose, onSuccess }: CreateFieldScreenProps
     }
   }, [submitForm, user?.id, onSuccess, onClose]);
 
+  const handleSameField = useCallback(() => {
+    dismissDuplicates();
+    Alert.alert(
+      'Thanks for Checking',
+      "That field is already on the map, so there's no need to add it again.",
+      [{ text: 'OK', onPress: onClose }]
+    );
+  }, [dismissDuplicates, onClose]);
+
+  const handleDifferentField = useCallback(() => {
+    confirmNotDuplicate();
+    handleSubmit();
+  }, [confirmNotDuplicate, handleSubmit]);
+
+  const handleResumeDraft = useCallback(
+    (draft: FieldDraft) => {
+      loadDraft(draft);
+      setHasChosenDraft(true);
+    },
+    [loadDraft]
+  );
+
+  const handleStartNew = useCallback(() => {
+    setHasChosenDraft(true);
+  }, []);
+
+  const handleDeleteDraft = useCallback(
+    (draft: FieldDraft) => {
+      Alert.alert('Delete Draft', 'Are you sure you want to delete this draft?', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteDraft(draft.id) },
+      ]);
+    },
+    [deleteDraft]
+  );
+
   const handleSurfaceTypeChange = useCallback(
     (value: SurfaceType) => {
       updateFormData('surfaceType', value);
@@ -76,7 +152,9 @@ export function CreateFieldScreen({ onClose, onSuccess }: CreateFieldScreenProps
         <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
           <Text style={themedStyles.closeButtonText}>✕</Text>
         </TouchableOpacity>
-        <Text style={themedStyles.headerTitle}>Add Football Field</Text>
+        <Text style={themedStyles.headerTitle}>
+          {isEditing ? 'Edit Field' : 'Add Football Field'}
+        </Text>
         <View style={styles.headerRight} />
       </View>
 
@@ -91,13 +169,15 @@ export function CreateFieldScreen({ onClose, onSuccess }: CreateFieldScreenProps
           keyboardShouldPersistTaps="handled"
         >
           {/* Introduction */}
-          <View style={themedStyles.intro}>
-            <Text style={themedStyles.introTitle}>Help grow the community! 🌱</Text>
-            <Text style={themedStyles.introText}>
-              Share a public football field and help others discover great places to play. Your
-              submission will be reviewed before being published.
-            </Text>
-          </View>
+          {!isEditing && (
+            <View style={themedStyles.intro}>
+              <Text style={themedStyles.introTitle}>Help grow the community! 🌱</Text>
+              <Text style={themedStyles.introText}>
+                Share a public football field and help others discover great places to play. Your
+                submission will be reviewed before being published.
+              </Text>
+            </View>
+          )}
 
           {/* Location Picker */}
           <LocationPicker
@@ -107,8 +187,44 @@ export function CreateFieldScreen({ onClose, onSuccess }: CreateFieldScreenProps
             isLoadingLocation={isLoadingLocation}
             error={errors.coordinates}
             fields={fields}
+            onRegionChange={loadRegion}
           />
 
+          {/* Address (detected from the pin, editable) */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={themedStyles.sectionTitle}>Address</Text>
+              {isGeocoding && <ActivityIndicator size="small" color={colors.primary} />}
+            </View>
+
+            <TextInput
+              label="Street"
+              placeholder="Street and number"
+              value={formData.address}
+              onChangeText={(text) => updateFormData('address', text)}
+              maxLength={200}
+              hint="Detected from the pin - correct it if it's off"
+            />
+
+            <TextInput
+              label="City"
+              placeholder="City"
+              value={formData.city}
+              onChangeText={(text) => updateFormData('city', text)}
+              maxLength={100}
+              autoCapitalize="words"
+            />
+
+            <TextInput
+              label="Country"
+              placeholder="Country"
+              value={formData.country}
+              onChangeText={(text) => updateFormData('country', text)}
+              maxLength={100}
+              autoCapitalize="words"
+            />
+          </View>
+
           {/* Field Name */}
           <TextInput
             label="Field Name"
@@ -146,6 +262,7 @@ export function CreateFieldScreen({ onClose, onSuccess }: CreateFieldScreenProps
             onImagesChange={setImages}
             maxImages={5}
             error={errors.images}
+            uploads={imageUploads}
           />
 
           {/* Amenities Section */}
@@ -225,7 +342,7 @@ export function CreateFieldScreen({ onClose, onSuccess }: CreateFieldScreenProps
               </View>
             ) : (
               <Button
-                title="Submit Field for Review"
+                title={isEditing ? 'Save Changes' : 'Submit Field for Review'}
                 onPress={handleSubmit}
                 size="large"
                 disabled={isSubmitting}
@@ -234,13 +351,117 @@ export function CreateFieldScreen({ onClose, onSuccess }: CreateFieldScreenProps
           </View>
 
           {/* Disclaimer */}
-          <Text style={themedStyles.disclaimer}>
-            By submitting, you confirm this is a public football field and the information provided
-            is accurate. Submissions are reviewed before being published.
-          </Text>
+          {!isEditing && (
+            <Text style={themedStyles.disclaimer}>
+              By submitting, you confirm this is a public football field and the information
+              provided is accurate. Submissions are reviewed before being published.
+            </Text>
+          )}
         </ScrollView>
       </KeyboardAvoidingView>
 
+      {/* Possible duplicates sheet */}
+      <Modal
+        visible={duplicates.length > 0 || hasHiddenDuplicate}
+        animationType="fade"
+        transparent
+        onRequestClose={dismissDuplicates}
+      >
+        <View style={styles.overlay}>
+          <View style={themedStyles.sheet}>
+            <Text style={themedStyles.sheetTitle}>Is this field already on the map?</Text>
+            <Text style={themedStyles.sheetText}>
+              {duplicates.length === 1 && !hasHiddenDuplicate
+                ? 'We found a field close to your pin that might be the same one.'
+                : 'We found several fields close to your pin that might be the same one. If yours is a different field, check that the pin and name are right.'}
+            </Text>
+
+            {duplicates.map((match) => (
+              <View key={match.id} style={themedStyles.duplicateRow}>
+                <Text style={themedStyles.duplicateName} numberOfLines={1}>
+                  {match.name}
+                </Text>
+                <Text style={themedStyles.duplicateMeta} numberOfLines={1}>
+                  {formatDistance(match.distanceMeters)} away
+                  {match.address || match.city
+                    ? ` · ${[match.address, match.city].filter(Boolean).join(', ')}`
+                    : ''}
+                  {match.status === 'pending' ? ' · Awaiting review' : ''}
+                </Text>
+              </View>
+            ))}
+            {hasHiddenDuplicate && (
+              <View style={themedStyles.duplicateRow}>
+                <Text style={themedStyles.duplicateName} numberOfLines={1}>
+                  A field waiting for review
+                </Text>
+                <Text style={themedStyles.duplicateMeta} numberOfLines={1}>
+                  Another player already submitted a field here
+                </Text>
+              </View>
+            )}
+
+            <Button title="It's the Same Field" onPress={handleSameField} />
+            {duplicates.length === 1 && !hasHiddenDuplicate ? (
+              <Button
+                title="It's a Different Field"
+                onPress={handleDifferentField}
+                variant="ghost"
+              />
+            ) : (
+              <Button title="Edit Field" onPress={dismissDuplicates} variant="ghost" />
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Saved drafts sheet */}
+      <Modal
+        visible={isDraftPickerVisible}
+        animationType="fade"
+        transparent
+        onRequestClose={handleStartNew}
+      >
+        <View style={styles.overlay}>
+          <View style={themedStyles.sheet}>
+            <Text style={themedStyles.sheetTitle}>Resume your draft?</Text>
+            <Text style={themedStyles.sheetText}>
+              You have {drafts.length === 1 ? 'a field' : 'fields'} you started adding but
+              didn&apos;t submit yet.
+            </Text>
+
+            {drafts.map((draft) => {
+              const savedAt = new Date(draft.updatedAt);
+              const photoCount = draft.images.length;
+              return (
+                <View key={draft.id} style={themedStyles.draftRow}>
+                  <TouchableOpacity
+                    style={styles.draftInfo}
+                    onPress={() => handleResumeDraft(draft)}
+                  >
+                    <Text style={themedStyles.duplicateName} numberOfLines={1}>
+                      {draft.formData.name.trim() || 'Untitled field'}
+                    </Text>
+                    <Text style={themedStyles.duplicateMeta} numberOfLines={1}>
+                      {photoCount} {photoCount === 1 ? 'photo' : 'photos'} · Saved{' '}
+                      {formatDayLabel(savedAt)} at {formatTime(savedAt)}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleDeleteDraft(draft)}
+                    style={styles.draftDeleteButton}
+                  >
+                    <Text style={themedStyles.draftDeleteText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+
+            <Button title="Start a New Field" onPress={handleStartNew} variant="ghost" />
+          </View>
+        </View>
+      </Modal>
+
       {/* Validation Error Snackbar */}
       <Snackbar
         visible={!!validationError}
@@ -255,12 +476,23 @@ export function CreateFieldScreen({ onClose, onSuccess }: CreateFieldScreenProps
 
 // Static styles that don't depend on theme
 const styles = StyleSheet.create({
+  draftDeleteButton: {
+    padding: spacing.sm,
+  },
+  draftInfo: {
+    flex: 1,
+  },
   headerRight: {
     width: 40,
   },
   keyboardView: {
     flex: 1,
   },
+  overlay: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
   progressContainer: {
     alignItems: 'center',
   },
@@ -274,6 +506,11 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: spacing.md,
   },
+  sectionHeader: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
   submitContainer: {
     marginBottom: spacing.md,
     marginTop: spacing.lg,
@@ -306,6 +543,34 @@ const createThemedStyles = (colors: ThemeColors) =>
       lineHeight: 16,
       textAlign: 'center',
     },
+    draftDeleteText: {
+      color: colors.text.muted,
+      fontSize: 16,
+    },
+    draftRow: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.md,
+      flexDirection: 'row',
+      marginBottom: spacing.sm,
+      padding: spacing.md,
+    },
+    duplicateMeta: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: 2,
+    },
+    duplicateName: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+    },
+    duplicateRow: {
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.md,
+      marginBottom: spacing.sm,
+      padding: spacing.md,
+    },
     header: {
       alignItems: 'center',
       borderBottomColor: colors.border,
@@ -360,5 +625,23 @@ const createThemedStyles = (colors: ThemeColors) =>
       fontWeight: typography.weights.semibold,
       marginBottom: spacing.sm,
     },
+    sheet: {
+      backgroundColor: colors.background,
+      borderTopLeftRadius: borderRadius.xl,
+      borderTopRightRadius: borderRadius.xl,
+      padding: spacing.lg,
+      paddingBottom: spacing.xl,
+    },
+    sheetText: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginBottom: spacing.md,
+      marginTop: spacing.xs,
+    },
+    sheetTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
   });
 /* eslint-enable react-native/no-unused-styles */
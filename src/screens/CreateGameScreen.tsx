@@ -0,0 +1,290 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, TextInput, GameTimePicker, Snackbar } from '@/components/ui';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { useAuth } from '@/features/auth';
+import { GAME_DURATION_OPTIONS } from '@/features/games';
+import { useCreateGame } from '@/features/games/hooks/useCreateGame';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { Field, Game } from '@/types';
+
+interface CreateGameScreenProps {
+  field: Field;
+  onClose: () => void;
+  onSuccess?: (game: Game) => void;
+}
+
+export function CreateGameScreen({ field, onClose, onSuccess }: CreateGameScreenProps) {
+  const { user } = useAuth();
+  const { isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const {
+    formData,
+    errors,
+    isSubmitting,
+    validationError,
+    updateFormData,
+    submitForm,
+    clearValidationError,
+  } = useCreateGame();
+
+  const handleSubmit = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+    const game = await submitForm(field.id, user.id);
+    if (game) {
+      onSuccess?.(game);
+      onClose();
+    }
+  }, [submitForm, field.id, user, onSuccess, onClose]);
+
+  const handleStartsAtChange = useCallback(
+    (value: Date) => {
+      updateFormData('startsAt', value);
+    },
+    [updateFormData]
+  );
+
+  return (
+    <SafeAreaView style={themedStyles.container}>
+      {/* Header */}
+      <View style={themedStyles.header}>
+        <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
+          <Text style={themedStyles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={themedStyles.headerTitle}>Create Game</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Field summary */}
+          <View style={themedStyles.fieldSummary}>
+            <Text style={themedStyles.fieldSummaryLabel}>Playing at</Text>
+            <Text style={themedStyles.fieldSummaryName}>{field.name}</Text>
+          </View>
+
+          {/* Title */}
+          <TextInput
+            label="Game Title"
+            placeholder="e.g., Friday evening 5-a-side"
+            value={formData.title}
+            onChangeText={(text) => updateFormData('title', text)}
+            error={errors.title}
+            required
+            maxLength={80}
+            autoCapitalize="sentences"
+          />
+
+          {/* Date & time */}
+          <GameTimePicker
+            value={formData.startsAt}
+            onChange={handleStartsAtChange}
+            error={errors.startsAt}
+          />
+
+          {/* Duration */}
+          <View style={styles.section}>
+            <Text style={themedStyles.sectionTitle}>Duration</Text>
+            <View style={styles.durationOptions}>
+              {GAME_DURATION_OPTIONS.map((minutes) => {
+                const isSelected = formData.durationMinutes === minutes;
+                return (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[themedStyles.durationOption, isSelected && themedStyles.optionSelected]}
+                    onPress={() => updateFormData('durationMinutes', minutes)}
+                    activeOpacity={0.7}
+                  >
+                    <Text
+                      style={[
+                        themedStyles.durationLabel,
+                        isSelected && themedStyles.durationLabelSelected,
+                      ]}
+                    >
+                      {minutes} min
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Max players */}
+          <TextInput
+            label="Max Players"
+            placeholder="e.g., 10"
+            value={formData.maxPlayers?.toString() || ''}
+            onChangeText={(text) => {
+              const num = parseInt(text, 10);
+              updateFormData('maxPlayers', isNaN(num) ? null : num);
+            }}
+            keyboardType="number-pad"
+            hint="Including you"
+            error={errors.maxPlayers}
+            required
+          />
+
+          {/* Description */}
+          <TextInput
+            label="Details"
+            placeholder="Skill level, what to bring, how teams are picked..."
+            value={formData.description}
+            onChangeText={(text) => updateFormData('description', text)}
+            error={errors.description}
+            multiline
+            numberOfLines={3}
+            maxLength={500}
+          />
+
+          {/* Submit Button */}
+          <View style={styles.submitContainer}>
+            <Button
+              title="Create Game"
+              onPress={handleSubmit}
+              size="large"
+              loading={isSubmitting}
+              disabled={isSubmitting}
+            />
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      {/* Validation Error Snackbar */}
+      <Snackbar
+        visible={!!validationError}
+        message={validationError || ''}
+        type="error"
+        onDismiss={clearValidationError}
+        duration={4000}
+      />
+    </SafeAreaView>
+  );
+}
+
+// Static styles that don't depend on theme
+const styles = StyleSheet.create({
+  durationOptions: {
+    flexDirection: 'row',
+  },
+  headerRight: {
+    width: 40,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xxl,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    marginBottom: spacing.md,
+  },
+  submitContainer: {
+    marginBottom: spacing.md,
+    marginTop: spacing.lg,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+// Dynamic styles that depend on theme colors
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    closeButton: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      height: 40,
+      justifyContent: 'center',
+      width: 40,
+    },
+    closeButtonText: {
+      color: colors.text.secondary,
+      fontSize: 18,
+    },
+    container: {
+      backgroundColor: colors.background,
+      flex: 1,
+    },
+    durationLabel: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+    },
+    durationLabelSelected: {
+      color: colors.primary,
+      fontWeight: typography.weights.semibold,
+    },
+    durationOption: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderColor: 'transparent',
+      borderRadius: borderRadius.lg,
+      borderWidth: 2,
+      flex: 1,
+      marginRight: spacing.sm,
+      paddingVertical: spacing.sm,
+    },
+    fieldSummary: {
+      backgroundColor: colors.primaryLight + '15',
+      borderRadius: borderRadius.lg,
+      marginBottom: spacing.lg,
+      padding: spacing.md,
+    },
+    fieldSummaryLabel: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+    },
+    fieldSummaryName: {
+      color: colors.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+      marginTop: spacing.xs,
+    },
+    header: {
+      alignItems: 'center',
+      borderBottomColor: colors.border,
+      borderBottomWidth: 1,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+    optionSelected: {
+      backgroundColor: colors.primaryLight + '20',
+      borderColor: colors.primary,
+    },
+    sectionTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+      marginBottom: spacing.sm,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
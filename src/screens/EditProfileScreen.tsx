@@ -0,0 +1,255 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, TextInput } from '@/components/ui';
+import { spacing, typography, ThemeColors, PROFILE_CONFIG } from '@/constants';
+import { useAuth, useEditProfile, UsernameStatus } from '@/features/auth';
+import { useTheme, useThemedStyles } from '@/features/theme';
+
+interface EditProfileScreenProps {
+  onClose: () => void;
+}
+
+const USERNAME_HINTS: Record<UsernameStatus, string> = {
+  unchanged: `${PROFILE_CONFIG.minUsernameLength}-${PROFILE_CONFIG.maxUsernameLength} lowercase letters, numbers or underscores`,
+  invalid: '',
+  checking: 'Checking availability...',
+  available: '✓ Available',
+  taken: '',
+};
+
+export function EditProfileScreen({ onClose }: EditProfileScreenProps) {
+  const { user } = useAuth();
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const {
+    displayName,
+    username,
+    avatarUri,
+    usernameStatus,
+    errors,
+    hasChanges,
+    isSaving,
+    setDisplayName,
+    setUsername,
+    pickAvatar,
+    removeAvatar,
+    save,
+  } = useEditProfile();
+
+  const handleChangePhoto = useCallback(() => {
+    Alert.alert('Profile Photo', 'Choose how you want to add your photo', [
+      { text: 'Take Photo', onPress: () => pickAvatar('camera') },
+      { text: 'Choose from Gallery', onPress: () => pickAvatar('gallery') },
+      ...(avatarUri
+        ? [{ text: 'Remove Photo', style: 'destructive' as const, onPress: removeAvatar }]
+        : []),
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [avatarUri, pickAvatar, removeAvatar]);
+
+  const handleSave = useCallback(async () => {
+    const result = await save();
+    if (result.success) {
+      onClose();
+    } else if (result.error) {
+      Alert.alert('Could Not Save Profile', result.error, [{ text: 'OK' }]);
+    }
+  }, [save, onClose]);
+
+  const initial = (displayName.trim() || username)[0]?.toUpperCase() ?? '?';
+
+  return (
+    <SafeAreaView style={themedStyles.container}>
+      {/* Header */}
+      <View style={themedStyles.header}>
+        <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
+          <Text style={themedStyles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={themedStyles.headerTitle}>Edit Profile</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Avatar */}
+          <View style={styles.avatarSection}>
+            <TouchableOpacity onPress={handleChangePhoto} disabled={isSaving}>
+              {avatarUri ? (
+                <Image source={{ uri: avatarUri }} style={styles.avatar} />
+              ) : (
+                <View style={themedStyles.avatarPlaceholder}>
+                  <Text style={themedStyles.avatarInitial}>{initial}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleChangePhoto} disabled={isSaving}>
+              <Text style={themedStyles.changePhotoText}>
+                {avatarUri ? 'Change Photo' : 'Add Photo'}
+              </Text>
+            </TouchableOpacity>
+            {errors.avatar && <Text style={themedStyles.errorText}>{errors.avatar}</Text>}
+          </View>
+
+          <TextInput
+            label="Display Name"
+            placeholder={username}
+            value={displayName}
+            onChangeText={setDisplayName}
+            error={errors.displayName}
+            hint="Shown to other players instead of your username"
+            maxLength={PROFILE_CONFIG.maxDisplayNameLength}
+            autoCapitalize="words"
+          />
+
+          <View>
+            <TextInput
+              label="Username"
+              placeholder="your_username"
+              value={username}
+              onChangeText={setUsername}
+              error={errors.username}
+              hint={USERNAME_HINTS[usernameStatus]}
+              maxLength={PROFILE_CONFIG.maxUsernameLength}
+              autoCapitalize="none"
+              autoCorrect={false}
+              required
+            />
+            {usernameStatus === 'checking' && (
+              <ActivityIndicator
+                size="small"
+                color={colors.primary}
+                style={styles.usernameSpinner}
+              />
+            )}
+          </View>
+
+          {user?.email && (
+            <TextInput label="Email" value={user.email} editable={false} hint="From your sign-in" />
+          )}
+
+          <View style={styles.saveContainer}>
+            <Button
+              title="Save Changes"
+              onPress={handleSave}
+              size="large"
+              loading={isSaving}
+              disabled={!hasChanges || usernameStatus === 'checking'}
+            />
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+// Static styles that don't depend on theme
+const styles = StyleSheet.create({
+  avatar: {
+    borderRadius: 48,
+    height: 96,
+    width: 96,
+  },
+  avatarSection: {
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  headerRight: {
+    width: 40,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  saveContainer: {
+    marginTop: spacing.md,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  usernameSpinner: {
+    position: 'absolute',
+    right: spacing.md,
+    top: 38,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+// Dynamic styles that depend on theme colors
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    avatarInitial: {
+      color: colors.primary,
+      fontSize: 40,
+      fontWeight: typography.weights.bold,
+    },
+    avatarPlaceholder: {
+      alignItems: 'center',
+      backgroundColor: colors.primary + '20',
+      borderRadius: 48,
+      height: 96,
+      justifyContent: 'center',
+      width: 96,
+    },
+    changePhotoText: {
+      color: colors.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+      marginTop: spacing.sm,
+    },
+    closeButton: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      height: 40,
+      justifyContent: 'center',
+      width: 40,
+    },
+    closeButtonText: {
+      color: colors.text.secondary,
+      fontSize: 18,
+    },
+    container: {
+      backgroundColor: colors.background,
+      flex: 1,
+    },
+    errorText: {
+      color: colors.error,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.xs,
+      textAlign: 'center',
+    },
+    header: {
+      alignItems: 'center',
+      borderBottomColor: colors.border,
+      borderBottomWidth: 1,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
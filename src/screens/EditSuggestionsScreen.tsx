@@ -0,0 +1,328 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { useAuth } from '@/features/auth';
+import { EDITABLE_FIELD_ATTRIBUTE_LABELS, FieldEditSuggestionWithField } from '@/features/fields';
+import { useEditSuggestions } from '@/features/fields/hooks/useEditSuggestions';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { EditableFieldAttributes } from '@/types';
+import { formatAttributeValue, getEditableAttributes } from '@/utils/fieldAttributes';
+
+interface EditSuggestionsScreenProps {
+  onClose: () => void;
+  // Called after a suggestion was accepted so the map can refresh
+  onFieldsChanged?: () => void;
+}
+
+const ATTRIBUTE_ORDER = Object.keys(
+  EDITABLE_FIELD_ATTRIBUTE_LABELS
+) as (keyof EditableFieldAttributes)[];
+
+export function EditSuggestionsScreen({ onClose, onFieldsChanged }: EditSuggestionsScreenProps) {
+  const { user } = useAuth();
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const {
+    suggestions,
+    isLoading,
+    pendingSuggestionId,
+    refetch,
+    acceptSuggestion,
+    rejectSuggestion,
+  } = useEditSuggestions(user?.id ?? null);
+
+  const handleAccept = useCallback(
+    async (suggestionId: string) => {
+      const result = await acceptSuggestion(suggestionId);
+      if (result.success) {
+        onFieldsChanged?.();
+      } else {
+        Alert.alert('Could Not Accept Suggestion', result.error || 'Please try again', [
+          { text: 'OK' },
+        ]);
+      }
+    },
+    [acceptSuggestion, onFieldsChanged]
+  );
+
+  const handleReject = useCallback(
+    async (suggestionId: string) => {
+      const result = await rejectSuggestion(suggestionId);
+      if (!result.success) {
+        Alert.alert('Could Not Reject Suggestion', result.error || 'Please try again', [
+          { text: 'OK' },
+        ]);
+      }
+    },
+    [rejectSuggestion]
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: FieldEditSuggestionWithField }) => {
+      const { suggestion, field } = item;
+      const current = getEditableAttributes(field);
+      const changedKeys = ATTRIBUTE_ORDER.filter((key) => key in suggestion.changes);
+      const isPending = pendingSuggestionId === suggestion.id;
+
+      return (
+        <View style={themedStyles.card}>
+          <Text style={themedStyles.fieldName}>{field.name}</Text>
+          <Text style={themedStyles.meta}>
+            Suggested by {suggestion.suggester_name || 'a player'} ·{' '}
+            {new Date(suggestion.created_at).toLocaleDateString()}
+          </Text>
+          {suggestion.note && <Text style={themedStyles.note}>&quot;{suggestion.note}&quot;</Text>}
+
+          {/* Side-by-side comparison of the changed attributes */}
+          <View style={themedStyles.table}>
+            <View style={styles.row}>
+              <Text style={[themedStyles.columnHeader, styles.labelCell]}>Detail</Text>
+              <Text style={[themedStyles.columnHeader, styles.valueCell]}>Current</Text>
+              <Text style={[themedStyles.columnHeader, styles.valueCell]}>Suggested</Text>
+            </View>
+            {changedKeys.map((key) => (
+              <View key={key} style={[styles.row, themedStyles.rowDivider]}>
+                <Text style={[themedStyles.label, styles.labelCell]}>
+                  {EDITABLE_FIELD_ATTRIBUTE_LABELS[key]}
+                </Text>
+                <Text style={[themedStyles.currentValue, styles.valueCell]}>
+                  {formatAttributeValue(key, current[key])}
+                </Text>
+                <Text style={[themedStyles.suggestedValue, styles.valueCell]}>
+                  {formatAttributeValue(key, suggestion.changes[key])}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.actions}>
+            {isPending ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={themedStyles.rejectButton}
+                  onPress={() => handleReject(suggestion.id)}
+                >
+                  <Text style={themedStyles.rejectButtonText}>Reject</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={themedStyles.acceptButton}
+                  onPress={() => handleAccept(suggestion.id)}
+                >
+                  <Text style={themedStyles.acceptButtonText}>Accept</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      );
+    },
+    [colors, themedStyles, pendingSuggestionId, handleAccept, handleReject]
+  );
+
+  return (
+    <SafeAreaView style={themedStyles.container}>
+      {/* Header */}
+      <View style={themedStyles.header}>
+        <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
+          <Text style={themedStyles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={themedStyles.headerTitle}>Edit Suggestions</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      {isLoading && suggestions.length === 0 ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={suggestions}
+          keyExtractor={(item) => item.suggestion.id}
+          renderItem={renderItem}
+          contentContainerStyle={styles.listContent}
+          onRefresh={refetch}
+          refreshing={isLoading}
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Text style={styles.emptyIcon}>✏️</Text>
+              <Text style={themedStyles.emptyText}>
+                No suggestions to review. Changes other players suggest for your fields show up
+                here.
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+// Static styles that don't depend on theme
+const styles = StyleSheet.create({
+  actions: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: spacing.md,
+  },
+  centered: {
+    alignItems: 'center',
+    flex: 1,
+    justifyContent: 'center',
+    padding: spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: spacing.md,
+  },
+  headerRight: {
+    width: 40,
+  },
+  labelCell: {
+    flex: 2,
+  },
+  listContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: spacing.xs,
+  },
+  valueCell: {
+    flex: 3,
+    paddingLeft: spacing.sm,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+// Dynamic styles that depend on theme colors
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    acceptButton: {
+      backgroundColor: colors.primary,
+      borderRadius: borderRadius.md,
+      marginLeft: spacing.sm,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    acceptButtonText: {
+      color: colors.text.inverse,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.lg,
+      marginBottom: spacing.md,
+      padding: spacing.md,
+    },
+    closeButton: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      height: 40,
+      justifyContent: 'center',
+      width: 40,
+    },
+    closeButtonText: {
+      color: colors.text.secondary,
+      fontSize: 18,
+    },
+    columnHeader: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.xs,
+      fontWeight: typography.weights.semibold,
+      textTransform: 'uppercase',
+    },
+    container: {
+      backgroundColor: colors.background,
+      flex: 1,
+    },
+    currentValue: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+    },
+    emptyText: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.md,
+      lineHeight: 22,
+      textAlign: 'center',
+    },
+    fieldName: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+    },
+    header: {
+      alignItems: 'center',
+      borderBottomColor: colors.border,
+      borderBottomWidth: 1,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+    label: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+    },
+    meta: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.xs,
+    },
+    note: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      fontStyle: 'italic',
+      lineHeight: 20,
+      marginTop: spacing.sm,
+    },
+    rejectButton: {
+      borderColor: colors.error,
+      borderRadius: borderRadius.md,
+      borderWidth: 1,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    rejectButtonText: {
+      color: colors.error,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    rowDivider: {
+      borderTopColor: colors.border,
+      borderTopWidth: 1,
+    },
+    suggestedValue: {
+      color: colors.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    table: {
+      backgroundColor: colors.background,
+      borderRadius: borderRadius.md,
+      marginTop: spacing.md,
+      padding: spacing.sm,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
@@ -0,0 +1,214 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { useAuth } from '@/features/auth';
+import { SURFACE_TYPE_ICONS, SURFACE_TYPE_LABELS } from '@/features/fields';
+import { useFavoriteFields } from '@/features/fields/hooks/useFavoriteFields';
+import { useFavorites } from '@/features/fields/hooks/useFavorites';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { Field } from '@/types';
+
+interface FavoritesScreenProps {
+  onClose: () => void;
+  // Show the field on the map
+  onSelectField: (field: Field) => void;
+}
+
+export function FavoritesScreen({ onClose, onSelectField }: FavoritesScreenProps) {
+  const { isAuthenticated } = useAuth();
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const { favoriteIds, toggleFavorite } = useFavorites();
+  const { fields, isLoading, refetch } = useFavoriteFields(favoriteIds);
+
+  const handleRemove = useCallback(
+    async (field: Field) => {
+      const result = await toggleFavorite(field.id);
+      if (!result.success) {
+        Alert.alert('Could Not Remove Favorite', result.error || 'Please try again.', [
+          { text: 'OK' },
+        ]);
+      }
+    },
+    [toggleFavorite]
+  );
+
+  const renderField = useCallback(
+    ({ item }: { item: Field }) => (
+      <TouchableOpacity
+        style={themedStyles.card}
+        onPress={() => onSelectField(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.cardInfo}>
+          <Text style={themedStyles.fieldName} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={themedStyles.meta} numberOfLines={1}>
+            {SURFACE_TYPE_ICONS[item.surface_type]} {SURFACE_TYPE_LABELS[item.surface_type]}
+            {item.city && ` · ${item.city}`}
+            {item.average_rating !== null && ` · ★ ${item.average_rating.toFixed(1)}`}
+          </Text>
+        </View>
+        <TouchableOpacity
+          onPress={() => handleRemove(item)}
+          style={styles.heartButton}
+          accessibilityLabel="Remove from favorites"
+        >
+          <Text style={[styles.heartIcon, { color: colors.error }]}>♥</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    ),
+    [colors, themedStyles, onSelectField, handleRemove]
+  );
+
+  return (
+    <SafeAreaView style={themedStyles.container}>
+      {/* Header */}
+      <View style={themedStyles.header}>
+        <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
+          <Text style={themedStyles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={themedStyles.headerTitle}>Favorites</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      {isLoading && fields.length === 0 ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={fields}
+          keyExtractor={(item) => item.id}
+          renderItem={renderField}
+          contentContainerStyle={styles.listContent}
+          onRefresh={refetch}
+          refreshing={isLoading}
+          ListHeaderComponent={
+            !isAuthenticated && fields.length > 0 ? (
+              <Text style={themedStyles.guestNote}>
+                You&apos;re browsing as a guest. Sign in to keep your favorites on all your devices.
+              </Text>
+            ) : null
+          }
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Text style={styles.emptyIcon}>♡</Text>
+              <Text style={themedStyles.emptyText}>
+                No favorites yet. Tap the heart on a field to find it here next time.
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+// Static styles that don't depend on theme
+const styles = StyleSheet.create({
+  cardInfo: {
+    flex: 1,
+  },
+  centered: {
+    alignItems: 'center',
+    flex: 1,
+    justifyContent: 'center',
+    padding: spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: spacing.md,
+  },
+  headerRight: {
+    width: 40,
+  },
+  heartButton: {
+    marginLeft: spacing.sm,
+    padding: spacing.xs,
+  },
+  heartIcon: {
+    fontSize: 24,
+  },
+  listContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+// Dynamic styles that depend on theme colors
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    card: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.lg,
+      flexDirection: 'row',
+      marginBottom: spacing.md,
+      padding: spacing.md,
+    },
+    closeButton: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      height: 40,
+      justifyContent: 'center',
+      width: 40,
+    },
+    closeButtonText: {
+      color: colors.text.secondary,
+      fontSize: 18,
+    },
+    container: {
+      backgroundColor: colors.background,
+      flex: 1,
+    },
+    emptyText: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.md,
+      lineHeight: 22,
+      textAlign: 'center',
+    },
+    fieldName: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+    },
+    guestNote: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginBottom: spacing.md,
+    },
+    header: {
+      alignItems: 'center',
+      borderBottomColor: colors.border,
+      borderBottomWidth: 1,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+    meta: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.xs,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
@@ -0,0 +1,296 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { useAuth } from '@/features/auth';
+import { FIELD_HISTORY_ATTRIBUTE_LABELS } from '@/features/fields';
+import { useFieldHistory } from '@/features/fields/hooks/useFieldHistory';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { Field, FieldHistoryEntry, FieldHistoryValues } from '@/types';
+import { formatDayLabel, formatTime } from '@/utils/date';
+import { formatAttributeValue } from '@/utils/fieldAttributes';
+
+interface FieldHistoryScreenProps {
+  field: Field;
+  onClose: () => void;
+  // Called after a change was reverted so the map can refresh
+  onFieldsChanged?: () => void;
+}
+
+const ATTRIBUTE_ORDER = Object.keys(FIELD_HISTORY_ATTRIBUTE_LABELS) as (keyof FieldHistoryValues)[];
+
+// e.g. "Today, 18:30" or "Sat, Oct 24, 09:15"
+const formatTimestamp = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  return `${formatDayLabel(date)}, ${formatTime(date)}`;
+};
+
+export function FieldHistoryScreen({ field, onClose, onFieldsChanged }: FieldHistoryScreenProps) {
+  const { isModerator } = useAuth();
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const { entries, isLoading, pendingEntryId, refetch, revertChange } = useFieldHistory(field.id);
+
+  const handleRevert = useCallback(
+    (entry: FieldHistoryEntry) => {
+      Alert.alert('Revert Change', 'Set these details back to their previous values?', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revert',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await revertChange(entry.id);
+            if (result.success) {
+              onFieldsChanged?.();
+            } else {
+              Alert.alert('Could Not Revert Change', result.error || 'Please try again', [
+                { text: 'OK' },
+              ]);
+            }
+          },
+        },
+      ]);
+    },
+    [revertChange, onFieldsChanged]
+  );
+
+  const renderEntry = useCallback(
+    ({ item }: { item: FieldHistoryEntry }) => {
+      const changedKeys = ATTRIBUTE_ORDER.filter((key) => key in item.new_values);
+      const isStatusChange = 'status' in item.new_values;
+      const isPending = pendingEntryId === item.id;
+
+      return (
+        <View style={styles.entry}>
+          {/* Timeline marker */}
+          <View style={styles.timeline}>
+            <View style={[themedStyles.dot, isStatusChange && themedStyles.statusDot]} />
+            <View style={themedStyles.line} />
+          </View>
+
+          <View style={themedStyles.card}>
+            <Text style={themedStyles.author}>
+              {item.changed_by ? item.changed_by_name || 'A player' : 'Automatic'}
+            </Text>
+            <Text style={themedStyles.meta}>{formatTimestamp(item.created_at)}</Text>
+
+            {changedKeys.map((key) => (
+              <Text key={key} style={themedStyles.change}>
+                <Text style={themedStyles.changeLabel}>
+                  {FIELD_HISTORY_ATTRIBUTE_LABELS[key]}:{' '}
+                </Text>
+                <Text style={themedStyles.oldValue}>
+                  {formatAttributeValue(key, item.old_values[key])}
+                </Text>
+                {' → '}
+                {formatAttributeValue(key, item.new_values[key])}
+              </Text>
+            ))}
+
+            {isModerator && (
+              <View style={styles.actions}>
+                {isPending ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <TouchableOpacity
+                    style={themedStyles.revertButton}
+                    onPress={() => handleRevert(item)}
+                  >
+                    <Text style={themedStyles.revertButtonText}>Revert</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+          </View>
+        </View>
+      );
+    },
+    [colors, themedStyles, isModerator, pendingEntryId, handleRevert]
+  );
+
+  return (
+    <SafeAreaView style={themedStyles.container}>
+      {/* Header */}
+      <View style={themedStyles.header}>
+        <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
+          <Text style={themedStyles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={themedStyles.headerTitle}>History</Text>
+          <Text style={themedStyles.headerSubtitle} numberOfLines={1}>
+            {field.name}
+          </Text>
+        </View>
+        <View style={styles.headerRight} />
+      </View>
+
+      {isLoading && entries.length === 0 ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={entries}
+          keyExtractor={(item) => item.id}
+          renderItem={renderEntry}
+          contentContainerStyle={styles.listContent}
+          onRefresh={refetch}
+          refreshing={isLoading}
+          ListFooterComponent={
+            <View style={styles.entry}>
+              <View style={styles.timeline}>
+                <View style={[themedStyles.dot, themedStyles.statusDot]} />
+              </View>
+              <View style={themedStyles.card}>
+                <Text style={themedStyles.author}>Field added</Text>
+                <Text style={themedStyles.meta}>{formatTimestamp(field.created_at)}</Text>
+              </View>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+// Static styles that don't depend on theme
+const styles = StyleSheet.create({
+  actions: {
+    alignItems: 'flex-end',
+    marginTop: spacing.sm,
+  },
+  centered: {
+    alignItems: 'center',
+    flex: 1,
+    justifyContent: 'center',
+    padding: spacing.xl,
+  },
+  entry: {
+    flexDirection: 'row',
+  },
+  headerRight: {
+    width: 40,
+  },
+  headerText: {
+    alignItems: 'center',
+    flex: 1,
+    marginHorizontal: spacing.sm,
+  },
+  listContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  timeline: {
+    alignItems: 'center',
+    marginRight: spacing.md,
+    width: 12,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+// Dynamic styles that depend on theme colors
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    author: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.lg,
+      flex: 1,
+      marginBottom: spacing.md,
+      padding: spacing.md,
+    },
+    change: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      lineHeight: 20,
+      marginTop: spacing.xs,
+    },
+    changeLabel: {
+      fontWeight: typography.weights.medium,
+    },
+    closeButton: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      height: 40,
+      justifyContent: 'center',
+      width: 40,
+    },
+    closeButtonText: {
+      color: colors.text.secondary,
+      fontSize: 18,
+    },
+    container: {
+      backgroundColor: colors.background,
+      flex: 1,
+    },
+    dot: {
+      backgroundColor: colors.border,
+      borderRadius: 6,
+      height: 12,
+      marginTop: spacing.md,
+      width: 12,
+    },
+    header: {
+      alignItems: 'center',
+      borderBottomColor: colors.border,
+      borderBottomWidth: 1,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.md,
+    },
+    headerSubtitle: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+    },
+    headerTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+    line: {
+      backgroundColor: colors.border,
+      flex: 1,
+      marginTop: spacing.xs,
+      width: 2,
+    },
+    meta: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.xs,
+    },
+    oldValue: {
+      color: colors.text.secondary,
+      textDecorationLine: 'line-through',
+    },
+    revertButton: {
+      borderColor: colors.error,
+      borderRadius: borderRadius.md,
+      borderWidth: 1,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    revertButtonText: {
+      color: colors.error,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    statusDot: {
+      backgroundColor: colors.primary,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
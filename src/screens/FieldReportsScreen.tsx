@@ -0,0 +1,286 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import {
+  FIELD_REPORT_REASON_LABELS,
+  ReportedField,
+  SURFACE_TYPE_ICONS,
+  SURFACE_TYPE_LABELS,
+} from '@/features/fields';
+import { useReportedFields } from '@/features/fields/hooks/useReportedFields';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { Field } from '@/types';
+
+interface FieldReportsScreenProps {
+  onClose: () => void;
+  // Called after reports were resolved so the map can refresh
+  onFieldsChanged?: () => void;
+}
+
+export function FieldReportsScreen({ onClose, onFieldsChanged }: FieldReportsScreenProps) {
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const { reportedFields, isLoading, pendingFieldId, refetch, deactivateField, dismissReports } =
+    useReportedFields();
+
+  const handleDismiss = useCallback(
+    async (field: Field) => {
+      const result = await dismissReports(field.id);
+      if (result.success) {
+        onFieldsChanged?.();
+      } else {
+        Alert.alert('Could Not Dismiss Reports', result.error || 'Please try again', [
+          { text: 'OK' },
+        ]);
+      }
+    },
+    [dismissReports, onFieldsChanged]
+  );
+
+  const handleDeactivate = useCallback(
+    (field: Field) => {
+      Alert.alert('Deactivate Field', `Remove "${field.name}" from the map?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Deactivate',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deactivateField(field.id);
+            if (result.success) {
+              onFieldsChanged?.();
+            } else {
+              Alert.alert('Could Not Deactivate Field', result.error || 'Please try again', [
+                { text: 'OK' },
+              ]);
+            }
+          },
+        },
+      ]);
+    },
+    [deactivateField, onFieldsChanged]
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: ReportedField }) => {
+      const { field, reports } = item;
+      const isPending = pendingFieldId === field.id;
+
+      return (
+        <View style={themedStyles.card}>
+          <Text style={themedStyles.fieldName}>{field.name}</Text>
+          <Text style={themedStyles.meta}>
+            {SURFACE_TYPE_ICONS[field.surface_type]} {SURFACE_TYPE_LABELS[field.surface_type]} ·{' '}
+            {reports.length} {reports.length === 1 ? 'report' : 'reports'}
+            {field.status === 'inactive' && ' · Hidden'}
+          </Text>
+
+          {reports.map((report) => (
+            <View key={report.id} style={themedStyles.report}>
+              <Text style={themedStyles.reportReason}>
+                {FIELD_REPORT_REASON_LABELS[report.reason]}
+              </Text>
+              {report.details && <Text style={themedStyles.body}>{report.details}</Text>}
+              <Text style={themedStyles.meta}>
+                {report.reporter_name || 'Unknown'} ·{' '}
+                {new Date(report.created_at).toLocaleDateString()}
+              </Text>
+            </View>
+          ))}
+
+          <View style={styles.actions}>
+            {isPending ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={themedStyles.dismissButton}
+                  onPress={() => handleDismiss(field)}
+                >
+                  <Text style={themedStyles.dismissButtonText}>Dismiss</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={themedStyles.deactivateButton}
+                  onPress={() => handleDeactivate(field)}
+                >
+                  <Text style={themedStyles.deactivateButtonText}>Deactivate</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      );
+    },
+    [colors, themedStyles, pendingFieldId, handleDismiss, handleDeactivate]
+  );
+
+  return (
+    <SafeAreaView style={themedStyles.container}>
+      {/* Header */}
+      <View style={themedStyles.header}>
+        <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
+          <Text style={themedStyles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={themedStyles.headerTitle}>Reported Fields</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      {isLoading && reportedFields.length === 0 ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={reportedFields}
+          keyExtractor={(item) => item.field.id}
+          renderItem={renderItem}
+          contentContainerStyle={styles.listContent}
+          onRefresh={refetch}
+          refreshing={isLoading}
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Text style={styles.emptyIcon}>✅</Text>
+              <Text style={themedStyles.emptyText}>No open reports. Nothing to check.</Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+// Static styles that don't depend on theme
+const styles = StyleSheet.create({
+  actions: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: spacing.md,
+  },
+  centered: {
+    alignItems: 'center',
+    flex: 1,
+    justifyContent: 'center',
+    padding: spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: spacing.md,
+  },
+  headerRight: {
+    width: 40,
+  },
+  listContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+// Dynamic styles that depend on theme colors
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    body: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      lineHeight: 20,
+      marginTop: spacing.xs,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.lg,
+      marginBottom: spacing.md,
+      padding: spacing.md,
+    },
+    closeButton: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      height: 40,
+      justifyContent: 'center',
+      width: 40,
+    },
+    closeButtonText: {
+      color: colors.text.secondary,
+      fontSize: 18,
+    },
+    container: {
+      backgroundColor: colors.background,
+      flex: 1,
+    },
+    deactivateButton: {
+      backgroundColor: colors.error,
+      borderRadius: borderRadius.md,
+      marginLeft: spacing.sm,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    deactivateButtonText: {
+      color: colors.text.inverse,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    dismissButton: {
+      borderColor: colors.border,
+      borderRadius: borderRadius.md,
+      borderWidth: 1,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    dismissButtonText: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    emptyText: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.md,
+      lineHeight: 22,
+      textAlign: 'center',
+    },
+    fieldName: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+    },
+    header: {
+      alignItems: 'center',
+      borderBottomColor: colors.border,
+      borderBottomWidth: 1,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+    meta: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.xs,
+    },
+    report: {
+      borderTopColor: colors.border,
+      borderTopWidth: 1,
+      marginTop: spacing.sm,
+      paddingTop: spacing.sm,
+    },
+    reportReason: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.medium,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
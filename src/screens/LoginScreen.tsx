@@ -1,14 +1,24 @@
 /**
  * Login / Onboarding Screen
- * Provides Google Sign-In with clear value proposition
+ * Provides Apple (iOS), Google and email sign-in with clear value proposition
  */
 
 import React, { useCallback, useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import * as AppleAuthentication from 'expo-apple-authentication';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { EmailSignInForm } from '@/components/ui/EmailSignInForm';
 import { Snackbar } from '@/components/ui/Snackbar';
 import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
-import { useAuth } from '@/features/auth';
+import { AuthResult, useAuth } from '@/features/auth';
 import { useTheme, useThemedStyles } from '@/features/theme';
 
 interface LoginScreenProps {
@@ -21,22 +31,39 @@ interface LoginScreenProps {
 }
 
 export function LoginScreen({ onSkip, onSuccess, showSkip = true }: LoginScreenProps) {
-  const { signInWithGoogle, isLoading } = useAuth();
+  const { signInWithGoogle, signInWithApple, availableProviders, isLoading } = useAuth();
   const { colors, isDark } = useTheme();
   const themedStyles = useThemedStyles(createThemedStyles, isDark);
   const [error, setError] = useState<string | null>(null);
+  const [isEmailFormVisible, setIsEmailFormVisible] = useState(false);
 
-  const handleGoogleSignIn = useCallback(async () => {
-    setError(null);
+  const handleProviderSignIn = useCallback(
+    async (signIn: () => Promise<AuthResult>) => {
+      if (isLoading) {
+        return;
+      }
+      setError(null);
 
-    const result = await signInWithGoogle();
+      const result = await signIn();
 
-    if (result.success) {
-      onSuccess?.();
-    } else if (!result.cancelled && result.error) {
-      setError(result.error);
-    }
-  }, [signInWithGoogle, onSuccess]);
+      if (result.success) {
+        onSuccess?.();
+      } else if (!result.cancelled && result.error) {
+        setError(result.error);
+      }
+    },
+    [isLoading, onSuccess]
+  );
+
+  const handleGoogleSignIn = useCallback(
+    () => handleProviderSignIn(signInWithGoogle),
+    [handleProviderSignIn, signInWithGoogle]
+  );
+
+  const handleAppleSignIn = useCallback(
+    () => handleProviderSignIn(signInWithApple),
+    [handleProviderSignIn, signInWithApple]
+  );
 
   const handleSkip = useCallback(() => {
     onSkip?.();
@@ -44,7 +71,10 @@ export function LoginScreen({ onSkip, onSuccess, showSkip = true }: LoginScreenP
 
   return (
     <SafeAreaView style={themedStyles.container}>
-      <View style={styles.content}>
+      <KeyboardAvoidingView
+        style={styles.content}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
         {/* Logo & Branding */}
         <View style={styles.brandingSection}>
           <View style={themedStyles.logoContainer}>
@@ -54,31 +84,67 @@ export function LoginScreen({ onSkip, onSuccess, showSkip = true }: LoginScreenP
           <Text style={themedStyles.tagline}>Find your next game</Text>
         </View>
 
-        {/* Value Proposition */}
-        <View style={styles.valueSection}>
-          <ValueItem icon="📍" text="Discover football fields near you" colors={colors} />
-          <ValueItem icon="👥" text="Connect with local players" colors={colors} />
-          <ValueItem icon="🏟️" text="Organize and join pickup games" colors={colors} />
-          <ValueItem icon="⭐" text="Rate and review playing spots" colors={colors} />
-        </View>
+        {/* Value Proposition (hidden to make room for the keyboard) */}
+        {!isEmailFormVisible && (
+          <View style={styles.valueSection}>
+            <ValueItem icon="📍" text="Discover football fields near you" colors={colors} />
+            <ValueItem icon="👥" text="Connect with local players" colors={colors} />
+            <ValueItem icon="🏟️" text="Organize and join pickup games" colors={colors} />
+            <ValueItem icon="⭐" text="Rate and review playing spots" colors={colors} />
+          </View>
+        )}
 
         {/* Sign In Section */}
         <View style={styles.authSection}>
-          <TouchableOpacity
-            style={[themedStyles.googleButton, isLoading && styles.googleButtonDisabled]}
-            onPress={handleGoogleSignIn}
-            disabled={isLoading}
-            activeOpacity={0.8}
-          >
-            {isLoading ? (
-              <ActivityIndicator size="small" color={colors.text.primary} />
-            ) : (
-              <>
-                <Text style={styles.googleIconText}>G</Text>
-                <Text style={themedStyles.googleButtonText}>Continue with Google</Text>
-              </>
-            )}
-          </TouchableOpacity>
+          {isEmailFormVisible ? (
+            <EmailSignInForm onBack={() => setIsEmailFormVisible(false)} onSuccess={onSuccess} />
+          ) : (
+            <View style={styles.providerButtons}>
+              {availableProviders.includes('apple') && (
+                <AppleAuthentication.AppleAuthenticationButton
+                  buttonType={AppleAuthentication.AppleAuthenticationButtonType.CONTINUE}
+                  buttonStyle={
+                    isDark
+                      ? AppleAuthentication.AppleAuthenticationButtonStyle.WHITE
+                      : AppleAuthentication.AppleAuthenticationButtonStyle.BLACK
+                  }
+                  cornerRadius={borderRadius.lg}
+                  style={[styles.appleButton, isLoading && styles.providerButtonDisabled]}
+                  onPress={handleAppleSignIn}
+                />
+              )}
+
+              {availableProviders.includes('google') && (
+                <TouchableOpacity
+                  style={[themedStyles.providerButton, isLoading && styles.providerButtonDisabled]}
+                  onPress={handleGoogleSignIn}
+                  disabled={isLoading}
+                  activeOpacity={0.8}
+                >
+                  {isLoading ? (
+                    <ActivityIndicator size="small" color={colors.text.primary} />
+                  ) : (
+                    <>
+                      <Text style={styles.googleIconText}>G</Text>
+                      <Text style={themedStyles.providerButtonText}>Continue with Google</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              )}
+
+              {availableProviders.includes('email') && (
+                <TouchableOpacity
+                  style={[themedStyles.providerButton, isLoading && styles.providerButtonDisabled]}
+                  onPress={() => setIsEmailFormVisible(true)}
+                  disabled={isLoading}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.emailIconText}>✉️</Text>
+                  <Text style={themedStyles.providerButtonText}>Continue with Email</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
 
           {showSkip && (
             <TouchableOpacity style={styles.skipButton} onPress={handleSkip} disabled={isLoading}>
@@ -95,7 +161,7 @@ export function LoginScreen({ onSkip, onSuccess, showSkip = true }: LoginScreenP
             <Text style={themedStyles.legalLink}>Privacy Policy</Text>
           </Text>
         </View>
-      </View>
+      </KeyboardAvoidingView>
 
       {/* Error Snackbar */}
       <Snackbar
@@ -122,6 +188,10 @@ function ValueItem({ icon, text, colors }: { icon: string; text: string; colors:
 }
 
 const styles = StyleSheet.create({
+  appleButton: {
+    height: 50,
+    width: '100%',
+  },
   authSection: {
     paddingHorizontal: spacing.xl,
     width: '100%',
@@ -136,8 +206,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     paddingHorizontal: spacing.lg,
   },
-  googleButtonDisabled: {
-    opacity: 0.7,
+  emailIconText: {
+    fontSize: 18,
+    marginRight: spacing.sm,
   },
   googleIconText: {
     color: '#4285F4',
@@ -153,6 +224,12 @@ const styles = StyleSheet.create({
   logoEmoji: {
     fontSize: 40,
   },
+  providerButtonDisabled: {
+    opacity: 0.7,
+  },
+  providerButtons: {
+    gap: spacing.sm,
+  },
   skipButton: {
     alignItems: 'center',
     marginTop: spacing.md,
@@ -190,27 +267,6 @@ const createThemedStyles = (colors: ThemeColors) =>
       backgroundColor: colors.background,
       flex: 1,
     },
-    googleButton: {
-      alignItems: 'center',
-      backgroundColor: colors.background,
-      borderColor: colors.border,
-      borderRadius: borderRadius.lg,
-      borderWidth: 1,
-      elevation: 2,
-      flexDirection: 'row',
-      justifyContent: 'center',
-      paddingHorizontal: spacing.lg,
-      paddingVertical: spacing.md,
-      shadowColor: '#000',
-      shadowOffset: { width: 0, height: 2 },
-      shadowOpacity: 0.1,
-      shadowRadius: 4,
-    },
-    googleButtonText: {
-      color: colors.text.primary,
-      fontSize: typography.sizes.md,
-      fontWeight: typography.weights.semibold,
-    },
     legalLink: {
       color: colors.primary,
       textDecorationLine: 'underline',
@@ -230,6 +286,27 @@ const createThemedStyles = (colors: ThemeColors) =>
       marginBottom: spacing.md,
       width: 80,
     },
+    providerButton: {
+      alignItems: 'center',
+      backgroundColor: colors.background,
+      borderColor: colors.border,
+      borderRadius: borderRadius.lg,
+      borderWidth: 1,
+      elevation: 2,
+      flexDirection: 'row',
+      justifyContent: 'center',
+      paddingHorizontal: spacing.lg,
+      paddingVertical: spacing.md,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.1,
+      shadowRadius: 4,
+    },
+    providerButtonText: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+    },
     skipButtonText: {
       color: colors.text.secondary,
       fontSize: typography.sizes.sm,
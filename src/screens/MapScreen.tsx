@@ -5,41 +5,251 @@
  */
 
 import React, { useState, useCallback, useEffect } from 'react';
-import { StyleSheet, View, StatusBar, Modal } from 'react-native';
+import { StyleSheet, View, StatusBar, Modal, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MapView } from '@/components/map';
 import { FieldDetailsSheet } from '@/components/ui/FieldDetailsSheet';
+import { FieldFilterSheet } from '@/components/ui/FieldFilterSheet';
+import { FilterButton } from '@/components/ui/FilterButton';
 import { FloatingActionButton } from '@/components/ui/FloatingActionButton';
 import { LoginModal } from '@/components/ui/LoginModal';
+import { MapSearchBar } from '@/components/ui/MapSearchBar';
+import { OfflineBanner } from '@/components/ui/OfflineBanner';
 import { ProfileButton } from '@/components/ui/ProfileButton';
 import { ProfileDrawer } from '@/components/ui/ProfileDrawer';
+import { ReportFieldSheet } from '@/components/ui/ReportFieldSheet';
+import { ReviewFormSheet } from '@/components/ui/ReviewFormSheet';
+import { SuggestEditSheet } from '@/components/ui/SuggestEditSheet';
+import { MAP_CONFIG, SEARCH_CONFIG } from '@/constants';
 import { useAuth, useRequireAuth } from '@/features/auth';
+import { imageService } from '@/features/fields';
+import { useFavorites } from '@/features/fields/hooks/useFavorites';
+import { useFieldFilters } from '@/features/fields/hooks/useFieldFilters';
+import { useFieldImages } from '@/features/fields/hooks/useFieldImages';
+import { useFieldReviews } from '@/features/fields/hooks/useFieldReviews';
 import { useFields } from '@/features/fields/hooks/useFields';
+import { fieldRepository } from '@/features/fields/repositories/fieldRepository';
+import { reportRepository } from '@/features/fields/repositories/reportRepository';
+import { suggestionRepository } from '@/features/fields/repositories/suggestionRepository';
+import { FieldReviewFormData } from '@/features/fields/types';
+import { useFieldGames } from '@/features/games/hooks/useFieldGames';
+import { useNotifications } from '@/features/notifications';
+import { PlaceSearchResult } from '@/features/search';
+import { useSearch } from '@/features/search/hooks/useSearch';
 import { useTheme } from '@/features/theme';
 import { useLocation } from '@/hooks';
-import { Field } from '@/types';
+import { EditableFieldAttributes, Field, FieldReportReason, FieldReview, Game } from '@/types';
+import { MapRegion } from '@/utils/geo';
 import { CreateFieldScreen } from './CreateFieldScreen';
+import { CreateGameScreen } from './CreateGameScreen';
+import { EditProfileScreen } from './EditProfileScreen';
+import { EditSuggestionsScreen } from './EditSuggestionsScreen';
+import { FavoritesScreen } from './FavoritesScreen';
+import { FieldHistoryScreen } from './FieldHistoryScreen';
+import { FieldReportsScreen } from './FieldReportsScreen';
+import { ModerationQueueScreen } from './ModerationQueueScreen';
+import { MyFieldsScreen } from './MyFieldsScreen';
+import { PlayerProfileScreen } from './PlayerProfileScreen';
+import { SettingsScreen } from './SettingsScreen';
 
 export function MapScreen() {
   const { coordinates, isLoading: isLoadingLocation } = useLocation();
-  const { fields, isLoading: isLoadingFields, refetch: refetchFields } = useFields(coordinates);
-  const { isAuthenticated, consumeAuthIntent } = useAuth();
+  const { filters, activeFilterCount, setFilters } = useFieldFilters();
+  const {
+    fields,
+    isLoading: isLoadingFields,
+    isRegionTooLarge,
+    isOffline,
+    refetch: refetchFields,
+    loadRegion,
+  } = useFields(coordinates, filters);
+  const { user, isAuthenticated, consumeAuthIntent } = useAuth();
   const { showLoginModal, closeLoginModal, checkAuth } = useRequireAuth();
   const { colors, isDark, mapStyle } = useTheme();
 
   const [selectedField, setSelectedField] = useState<Field | null>(null);
   const [isCreateFieldVisible, setIsCreateFieldVisible] = useState(false);
   const [isProfileDrawerVisible, setIsProfileDrawerVisible] = useState(false);
+  const [isMyFieldsVisible, setIsMyFieldsVisible] = useState(false);
+  const [isFavoritesVisible, setIsFavoritesVisible] = useState(false);
+  const [isModerationVisible, setIsModerationVisible] = useState(false);
+  const [isReportsVisible, setIsReportsVisible] = useState(false);
+  const [isSuggestionsVisible, setIsSuggestionsVisible] = useState(false);
+  const [isEditProfileVisible, setIsEditProfileVisible] = useState(false);
+  const [isSettingsVisible, setIsSettingsVisible] = useState(false);
+  const [isFilterSheetVisible, setIsFilterSheetVisible] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [focusRegion, setFocusRegion] = useState<MapRegion | null>(null);
+  const [createGameField, setCreateGameField] = useState<Field | null>(null);
+  const [historyField, setHistoryField] = useState<Field | null>(null);
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
+  const [isReviewFormVisible, setIsReviewFormVisible] = useState(false);
+  const [isReportSheetVisible, setIsReportSheetVisible] = useState(false);
+  const [isSubmittingReport, setIsSubmittingReport] = useState(false);
+  const [isSuggestEditVisible, setIsSuggestEditVisible] = useState(false);
+  const [isSubmittingSuggestion, setIsSubmittingSuggestion] = useState(false);
+
+  const {
+    games,
+    isLoading: isLoadingGames,
+    pendingGameId,
+    joinGame,
+    leaveGame,
+    refetch: refetchGames,
+  } = useFieldGames(selectedField?.id ?? null);
+
+  const {
+    imageUrls: selectedFieldImages,
+    isLoading: isLoadingImages,
+    isUploading: isUploadingPhoto,
+    uploadProgress: photoUploadProgress,
+    addImages: addFieldImages,
+  } = useFieldImages(selectedField?.id ?? null);
+
+  const {
+    reviews,
+    stats: reviewStats,
+    userReview,
+    isLoading: isLoadingReviews,
+    isSaving: isSavingReview,
+    saveReview,
+    deleteReview,
+  } = useFieldReviews(selectedField?.id ?? null, user?.id ?? null);
+
+  const { favoriteIds, isFavorite, toggleFavorite, addFavorite } = useFavorites();
+
+  const { fieldResults, placeResults, isSearching } = useSearch(searchQuery, coordinates);
+
+  const { notifications, markAsRead: markNotificationAsRead } = useNotifications(user?.id ?? null);
+
+  const openCreateGame = useCallback(
+    async (fieldId: string) => {
+      const field =
+        selectedField?.id === fieldId ? selectedField : await fieldRepository.getFieldById(fieldId);
+      if (field) {
+        setCreateGameField(field);
+      }
+    },
+    [selectedField]
+  );
+
+  // Show a field's details, fetching it when it isn't the one already selected
+  const openField = useCallback(
+    async (fieldId: string) => {
+      const field =
+        selectedField?.id === fieldId ? selectedField : await fieldRepository.getFieldById(fieldId);
+      if (field) {
+        setSelectedField(field);
+      }
+    },
+    [selectedField]
+  );
+
+  // Show a field's details with the review form open on top
+  const openReviewForm = useCallback(
+    async (fieldId: string) => {
+      await openField(fieldId);
+      setIsReviewFormVisible(true);
+    },
+    [openField]
+  );
+
+  // Show a field's details with the report sheet open on top
+  const openReportSheet = useCallback(
+    async (fieldId: string) => {
+      await openField(fieldId);
+      setIsReportSheetVisible(true);
+    },
+    [openField]
+  );
+
+  // Show a field's details with the edit suggestion sheet open on top
+  // Map fields are loaded without their notes, so the whole field is fetched first
+  const openSuggestEdit = useCallback(async (fieldId: string) => {
+    const field = await fieldRepository.getFieldById(fieldId);
+    if (!field) {
+      Alert.alert('Could Not Load Field', 'Please check your connection and try again.', [
+        { text: 'OK' },
+      ]);
+      return;
+    }
+
+    setSelectedField(field);
+    setIsSuggestEditVisible(true);
+  }, []);
+
+  const joinGameAsUser = useCallback(
+    async (gameId: string, userId: string) => {
+      const result = await joinGame(gameId, userId);
+      if (!result.success) {
+        Alert.alert('Could Not Join Game', result.error || 'Please try again.', [{ text: 'OK' }]);
+      }
+    },
+    [joinGame]
+  );
 
   // Handle auth intent after login
+  // Runs once the user is available so intents that need the user ID can be completed
   useEffect(() => {
-    if (isAuthenticated) {
-      const intent = consumeAuthIntent();
-      if (intent?.type === 'add_field') {
+    if (!isAuthenticated || !user) {
+      return;
+    }
+
+    const intent = consumeAuthIntent();
+    switch (intent?.type) {
+      case 'add_field':
         setIsCreateFieldVisible(true);
-      }
+        break;
+      case 'create_game':
+        openCreateGame(intent.fieldId);
+        break;
+      case 'add_photo':
+        openField(intent.fieldId);
+        break;
+      case 'write_review':
+        openReviewForm(intent.fieldId);
+        break;
+      case 'favorite_field':
+        // Guest favorites are merged into the account on sign-in; make sure this one made it
+        addFavorite(intent.fieldId);
+        break;
+      case 'report_field':
+        openReportSheet(intent.fieldId);
+        break;
+      case 'suggest_edit':
+        openSuggestEdit(intent.fieldId);
+        break;
+      case 'join_game':
+        joinGameAsUser(intent.gameId, user.id);
+        break;
+      case 'view_profile':
+        setProfileUserId(intent.userId);
+        break;
+    }
+  }, [
+    isAuthenticated,
+    user,
+    consumeAuthIntent,
+    openCreateGame,
+    openField,
+    openReviewForm,
+    addFavorite,
+    openReportSheet,
+    openSuggestEdit,
+    joinGameAsUser,
+  ]);
+
+  // Show unread notifications (e.g. field review outcomes) one at a time
+  useEffect(() => {
+    const notification = notifications[0];
+    if (!notification) {
+      return;
     }
-  }, [isAuthenticated, consumeAuthIntent]);
+
+    Alert.alert(notification.title, notification.body, [
+      { text: 'OK', onPress: () => markNotificationAsRead(notification.id) },
+    ]);
+  }, [notifications, markNotificationAsRead]);
 
   const handleFieldSelect = useCallback((field: Field) => {
     setSelectedField(field);
@@ -47,12 +257,310 @@ export function MapScreen() {
 
   const handleCloseDetails = useCallback(() => {
     setSelectedField(null);
+    setIsReviewFormVisible(false);
+    setIsReportSheetVisible(false);
+    setIsSuggestEditVisible(false);
   }, []);
 
-  const handleCreateGame = useCallback((_field: Field) => {
-    // TODO: Navigate to create game screen - feature to be implemented
+  const handleCreateGame = useCallback(
+    (field: Field) => {
+      const isAuthed = checkAuth({ type: 'create_game', fieldId: field.id });
+      if (!isAuthed) {
+        return; // Login modal will be shown
+      }
+
+      setCreateGameField(field);
+    },
+    [checkAuth]
+  );
+
+  const uploadFieldPhoto = useCallback(
+    async (source: 'camera' | 'gallery') => {
+      if (!user) {
+        return;
+      }
+
+      const picked =
+        source === 'camera'
+          ? await imageService.takePhoto()
+          : await imageService.pickImageFromGallery();
+      if (!picked.success || !picked.image) {
+        const wasCancelled =
+          picked.error === 'Photo capture cancelled' ||
+          picked.error === 'Image selection cancelled';
+        if (picked.error && !wasCancelled) {
+          Alert.alert('Error', picked.error);
+        }
+        return;
+      }
+
+      const result = await addFieldImages([picked.image], user.id);
+      if (!result.success) {
+        Alert.alert('Could Not Add Photo', result.error || 'Please try again.', [{ text: 'OK' }]);
+      }
+    },
+    [user, addFieldImages]
+  );
+
+  const handleAddPhoto = useCallback(
+    (field: Field) => {
+      const isAuthed = checkAuth({ type: 'add_photo', fieldId: field.id });
+      if (!isAuthed) {
+        return; // Login modal will be shown
+      }
+
+      Alert.alert('Add Photo', 'Choose how you want to add a photo of the field', [
+        { text: 'Take Photo', onPress: () => uploadFieldPhoto('camera') },
+        { text: 'Choose from Gallery', onPress: () => uploadFieldPhoto('gallery') },
+        { text: 'Cancel', style: 'cancel' },
+      ]);
+    },
+    [checkAuth, uploadFieldPhoto]
+  );
+
+  const handleWriteReview = useCallback(
+    (field: Field) => {
+      const isAuthed = checkAuth({ type: 'write_review', fieldId: field.id });
+      if (!isAuthed) {
+        return; // Login modal will be shown
+      }
+
+      setIsReviewFormVisible(true);
+    },
+    [checkAuth]
+  );
+
+  const handleToggleFavorite = useCallback(
+    async (field: Field) => {
+      const isFirstGuestFavorite = !isAuthenticated && favoriteIds.length === 0;
+
+      const result = await toggleFavorite(field.id);
+      if (!result.success) {
+        Alert.alert('Could Not Update Favorites', result.error || 'Please try again.', [
+          { text: 'OK' },
+        ]);
+        return;
+      }
+
+      if (isFirstGuestFavorite) {
+        Alert.alert('Favorite Saved', 'Sign in to keep your favorite fields on all your devices.', [
+          { text: 'Not Now', style: 'cancel' },
+          {
+            text: 'Sign In',
+            onPress: () => checkAuth({ type: 'favorite_field', fieldId: field.id }),
+          },
+        ]);
+      }
+    },
+    [isAuthenticated, favoriteIds, toggleFavorite, checkAuth]
+  );
+
+  const handleCloseReviewForm = useCallback(() => {
+    setIsReviewFormVisible(false);
   }, []);
 
+  const handleSaveReview = useCallback(
+    async (formData: FieldReviewFormData) => {
+      if (!user) {
+        return;
+      }
+
+      const result = await saveReview(formData, user.id);
+      if (!result.success) {
+        Alert.alert('Could Not Save Review', result.error || 'Please try again.', [{ text: 'OK' }]);
+        return;
+      }
+      setIsReviewFormVisible(false);
+    },
+    [user, saveReview]
+  );
+
+  const handleDeleteReview = useCallback(
+    (review: FieldReview) => {
+      Alert.alert('Delete Review', 'Are you sure you want to delete your review?', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteReview(review.id);
+            if (!result.success) {
+              Alert.alert('Could Not Delete Review', result.error || 'Please try again.', [
+                { text: 'OK' },
+              ]);
+              return;
+            }
+            setIsReviewFormVisible(false);
+          },
+        },
+      ]);
+    },
+    [deleteReview]
+  );
+
+  const handleReportField = useCallback(
+    (field: Field) => {
+      const isAuthed = checkAuth({ type: 'report_field', fieldId: field.id });
+      if (!isAuthed) {
+        return; // Login modal will be shown
+      }
+
+      setIsReportSheetVisible(true);
+    },
+    [checkAuth]
+  );
+
+  const handleCloseReportSheet = useCallback(() => {
+    setIsReportSheetVisible(false);
+  }, []);
+
+  const handleSubmitReport = useCallback(
+    async (reason: FieldReportReason, details: string) => {
+      if (!user || !selectedField) {
+        return;
+      }
+
+      setIsSubmittingReport(true);
+      const result = await reportRepository.createReport(
+        selectedField.id,
+        user.id,
+        reason,
+        details
+      );
+      setIsSubmittingReport(false);
+
+      if (!result.success) {
+        Alert.alert('Could Not Send Report', result.error || 'Please try again.', [{ text: 'OK' }]);
+        return;
+      }
+
+      setIsReportSheetVisible(false);
+      // Enough reports take the field off the map
+      refetchFields();
+      Alert.alert('Thanks for Letting Us Know', 'A moderator will check this field.', [
+        { text: 'OK' },
+      ]);
+    },
+    [user, selectedField, refetchFields]
+  );
+
+  const handleSuggestEdit = useCallback(
+    (field: Field) => {
+      const isAuthed = checkAuth({ type: 'suggest_edit', fieldId: field.id });
+      if (!isAuthed) {
+        return; // Login modal will be shown
+      }
+
+      openSuggestEdit(field.id);
+    },
+    [checkAuth, openSuggestEdit]
+  );
+
+  const handleCloseSuggestEdit = useCallback(() => {
+    setIsSuggestEditVisible(false);
+  }, []);
+
+  const handleSubmitSuggestion = useCallback(
+    async (changes: Partial<EditableFieldAttributes>, note: string) => {
+      if (!user || !selectedField) {
+        return;
+      }
+
+      setIsSubmittingSuggestion(true);
+      const result = await suggestionRepository.createSuggestion(
+        selectedField.id,
+        user.id,
+        changes,
+        note
+      );
+      setIsSubmittingSuggestion(false);
+
+      if (!result.success) {
+        Alert.alert('Could Not Send Suggestion', result.error || 'Please try again.', [
+          { text: 'OK' },
+        ]);
+        return;
+      }
+
+      setIsSuggestEditVisible(false);
+      Alert.alert(
+        'Thanks for the Update',
+        "We'll let you know once the field's owner or a moderator has reviewed it.",
+        [{ text: 'OK' }]
+      );
+    },
+    [user, selectedField]
+  );
+
+  const handleViewHistory = useCallback((field: Field) => {
+    setHistoryField(field);
+  }, []);
+
+  const handleCloseHistory = useCallback(() => {
+    setHistoryField(null);
+  }, []);
+
+  const handleViewPlayer = useCallback(
+    (userId: string) => {
+      const isAuthed = checkAuth({ type: 'view_profile', userId });
+      if (!isAuthed) {
+        return; // Login modal will be shown
+      }
+
+      setProfileUserId(userId);
+    },
+    [checkAuth]
+  );
+
+  const handleClosePlayerProfile = useCallback(() => {
+    setProfileUserId(null);
+  }, []);
+
+  const handleCloseCreateGame = useCallback(() => {
+    setCreateGameField(null);
+  }, []);
+
+  const handleGameCreated = useCallback(() => {
+    refetchGames();
+  }, [refetchGames]);
+
+  const handleJoinGame = useCallback(
+    (game: Game) => {
+      const isAuthed = checkAuth({ type: 'join_game', gameId: game.id });
+      if (!isAuthed || !user) {
+        return; // Login modal will be shown
+      }
+
+      joinGameAsUser(game.id, user.id);
+    },
+    [checkAuth, user, joinGameAsUser]
+  );
+
+  const handleLeaveGame = useCallback(
+    (game: Game) => {
+      if (!user) {
+        return;
+      }
+
+      Alert.alert('Leave Game', `Are you sure you want to leave "${game.title}"?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await leaveGame(game.id, user.id);
+            if (!result.success) {
+              Alert.alert('Could Not Leave Game', result.error || 'Please try again.', [
+                { text: 'OK' },
+              ]);
+            }
+          },
+        },
+      ]);
+    },
+    [user, leaveGame]
+  );
+
   const handleOpenCreateField = useCallback(() => {
     // Check if user is authenticated
     const isAuthed = checkAuth({ type: 'add_field' });
@@ -89,13 +597,110 @@ export function MapScreen() {
     }, 300);
   }, [checkAuth]);
 
-  const handleLoginSuccess = useCallback(() => {
-    // Check for pending intent
-    const intent = consumeAuthIntent();
-    if (intent?.type === 'add_field') {
-      setIsCreateFieldVisible(true);
-    }
-  }, [consumeAuthIntent]);
+  const handleSearchFieldSelect = useCallback((field: Field) => {
+    setSelectedField(field);
+    setFocusRegion({
+      ...field.coordinates,
+      ...MAP_CONFIG.userLocationDelta,
+    });
+  }, []);
+
+  const handleSearchPlaceSelect = useCallback((place: PlaceSearchResult) => {
+    setSelectedField(null);
+    setFocusRegion({
+      ...place.coordinates,
+      latitudeDelta: SEARCH_CONFIG.placeDelta,
+      longitudeDelta: SEARCH_CONFIG.placeDelta,
+    });
+  }, []);
+
+  const handleOpenFilters = useCallback(() => {
+    setSelectedField(null);
+    setIsFilterSheetVisible(true);
+  }, []);
+
+  const handleCloseFilters = useCallback(() => {
+    setIsFilterSheetVisible(false);
+  }, []);
+
+  const handleOpenMyFields = useCallback(() => {
+    setIsProfileDrawerVisible(false);
+    setIsMyFieldsVisible(true);
+  }, []);
+
+  const handleCloseMyFields = useCallback(() => {
+    setIsMyFieldsVisible(false);
+  }, []);
+
+  const handleOpenFavorites = useCallback(() => {
+    setIsProfileDrawerVisible(false);
+    setIsFavoritesVisible(true);
+  }, []);
+
+  const handleCloseFavorites = useCallback(() => {
+    setIsFavoritesVisible(false);
+  }, []);
+
+  const handleSelectFavorite = useCallback(
+    (field: Field) => {
+      setIsFavoritesVisible(false);
+      handleSearchFieldSelect(field);
+    },
+    [handleSearchFieldSelect]
+  );
+
+  const handleSelectPlayerField = useCallback(
+    (field: Field) => {
+      setProfileUserId(null);
+      handleSearchFieldSelect(field);
+    },
+    [handleSearchFieldSelect]
+  );
+
+  const handleOpenModeration = useCallback(() => {
+    setIsProfileDrawerVisible(false);
+    setIsModerationVisible(true);
+  }, []);
+
+  const handleCloseModeration = useCallback(() => {
+    setIsModerationVisible(false);
+  }, []);
+
+  const handleOpenReports = useCallback(() => {
+    setIsProfileDrawerVisible(false);
+    setIsReportsVisible(true);
+  }, []);
+
+  const handleCloseReports = useCallback(() => {
+    setIsReportsVisible(false);
+  }, []);
+
+  const handleOpenSuggestions = useCallback(() => {
+    setIsProfileDrawerVisible(false);
+    setIsSuggestionsVisible(true);
+  }, []);
+
+  const handleCloseSuggestions = useCallback(() => {
+    setIsSuggestionsVisible(false);
+  }, []);
+
+  const handleOpenEditProfile = useCallback(() => {
+    setIsProfileDrawerVisible(false);
+    setIsEditProfileVisible(true);
+  }, []);
+
+  const handleCloseEditProfile = useCallback(() => {
+    setIsEditProfileVisible(false);
+  }, []);
+
+  const handleOpenSettings = useCallback(() => {
+    setIsProfileDrawerVisible(false);
+    setIsSettingsVisible(true);
+  }, []);
+
+  const handleCloseSettings = useCallback(() => {
+    setIsSettingsVisible(false);
+  }, []);
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
@@ -108,9 +713,14 @@ export function MapScreen() {
         <MapView
           fields={fields}
           userLocation={coordinates}
-          isLoadingLocation={isLoadingLocation || isLoadingFields}
+          isLoadingLocation={isLoadingLocation}
+          isLoadingFields={isLoadingFields}
+          isRegionTooLarge={isRegionTooLarge}
           onFieldSelect={handleFieldSelect}
           selectedFieldId={selectedField?.id}
+          favoriteFieldIds={favoriteIds}
+          onRegionChange={loadRegion}
+          focusRegion={focusRegion}
           customMapStyle={mapStyle}
         />
 
@@ -119,6 +729,31 @@ export function MapScreen() {
           <ProfileButton onPress={handleOpenProfileDrawer} />
         </View>
 
+        {/* Shown while the map can only use saved fields */}
+        {isOffline && (
+          <View style={styles.offlineBannerContainer}>
+            <OfflineBanner />
+          </View>
+        )}
+
+        {/* Search bar (top, between the profile and filter buttons) */}
+        <View style={styles.searchBarContainer}>
+          <MapSearchBar
+            query={searchQuery}
+            onChangeQuery={setSearchQuery}
+            fieldResults={fieldResults}
+            placeResults={placeResults}
+            isSearching={isSearching}
+            onSelectField={handleSearchFieldSelect}
+            onSelectPlace={handleSearchPlaceSelect}
+          />
+        </View>
+
+        {/* Filter button (top right) */}
+        <View style={styles.filterButtonContainer}>
+          <FilterButton activeCount={activeFilterCount} onPress={handleOpenFilters} />
+        </View>
+
         {/* Floating Action Button to add new field */}
         <FloatingActionButton icon="⚽" label="Add Field" onPress={handleOpenCreateField} />
       </View>
@@ -128,6 +763,71 @@ export function MapScreen() {
         field={selectedField}
         onClose={handleCloseDetails}
         onCreateGame={handleCreateGame}
+        games={games}
+        isLoadingGames={isLoadingGames}
+        pendingGameId={pendingGameId}
+        currentUserId={user?.id ?? null}
+        onJoinGame={handleJoinGame}
+        onLeaveGame={handleLeaveGame}
+        imageUrls={selectedFieldImages}
+        isLoadingImages={isLoadingImages}
+        isUploadingPhoto={isUploadingPhoto}
+        photoUploadProgress={photoUploadProgress}
+        onAddPhoto={handleAddPhoto}
+        reviews={reviews}
+        reviewStats={isLoadingReviews ? null : reviewStats}
+        isLoadingReviews={isLoadingReviews}
+        hasReviewed={!!userReview}
+        onWriteReview={handleWriteReview}
+        isFavorite={!!selectedField && isFavorite(selectedField.id)}
+        onToggleFavorite={handleToggleFavorite}
+        onReport={handleReportField}
+        onSuggestEdit={handleSuggestEdit}
+        onViewHistory={handleViewHistory}
+        onViewPlayer={handleViewPlayer}
+      />
+
+      {/* Review form for the selected field */}
+      {selectedField && (
+        <ReviewFormSheet
+          visible={isReviewFormVisible}
+          fieldName={selectedField.name}
+          review={userReview}
+          isSaving={isSavingReview}
+          onSave={handleSaveReview}
+          onDelete={handleDeleteReview}
+          onClose={handleCloseReviewForm}
+        />
+      )}
+
+      {/* Report sheet for the selected field */}
+      {selectedField && (
+        <ReportFieldSheet
+          visible={isReportSheetVisible}
+          fieldName={selectedField.name}
+          isSubmitting={isSubmittingReport}
+          onSubmit={handleSubmitReport}
+          onClose={handleCloseReportSheet}
+        />
+      )}
+
+      {/* Edit suggestion sheet for the selected field */}
+      {selectedField && (
+        <SuggestEditSheet
+          visible={isSuggestEditVisible}
+          field={selectedField}
+          isSubmitting={isSubmittingSuggestion}
+          onSubmit={handleSubmitSuggestion}
+          onClose={handleCloseSuggestEdit}
+        />
+      )}
+
+      {/* Map filters */}
+      <FieldFilterSheet
+        visible={isFilterSheetVisible}
+        filters={filters}
+        onApply={setFilters}
+        onClose={handleCloseFilters}
       />
 
       {/* Create Field Modal */}
@@ -140,19 +840,141 @@ export function MapScreen() {
         <CreateFieldScreen onClose={handleCloseCreateField} onSuccess={handleFieldCreated} />
       </Modal>
 
+      {/* Create Game Modal */}
+      <Modal
+        visible={!!createGameField}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseCreateGame}
+      >
+        {createGameField && (
+          <CreateGameScreen
+            field={createGameField}
+            onClose={handleCloseCreateGame}
+            onSuccess={handleGameCreated}
+          />
+        )}
+      </Modal>
+
+      {/* Field History Modal */}
+      <Modal
+        visible={!!historyField}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseHistory}
+      >
+        {historyField && (
+          <FieldHistoryScreen
+            field={historyField}
+            onClose={handleCloseHistory}
+            onFieldsChanged={refetchFields}
+          />
+        )}
+      </Modal>
+
+      {/* Player Profile Modal */}
+      <Modal
+        visible={!!profileUserId}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleClosePlayerProfile}
+      >
+        {profileUserId && (
+          <PlayerProfileScreen
+            userId={profileUserId}
+            onClose={handleClosePlayerProfile}
+            onSelectField={handleSelectPlayerField}
+          />
+        )}
+      </Modal>
+
       {/* Profile Drawer */}
       <ProfileDrawer
         visible={isProfileDrawerVisible}
         onClose={handleCloseProfileDrawer}
         onSignIn={handleSignInFromDrawer}
+        onOpenMyFields={handleOpenMyFields}
+        onOpenFavorites={handleOpenFavorites}
+        onOpenModeration={handleOpenModeration}
+        onOpenReports={handleOpenReports}
+        onOpenSuggestions={handleOpenSuggestions}
+        onOpenEditProfile={handleOpenEditProfile}
+        onOpenSettings={handleOpenSettings}
       />
 
+      {/* Edit Profile Modal */}
+      <Modal
+        visible={isEditProfileVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseEditProfile}
+      >
+        <EditProfileScreen onClose={handleCloseEditProfile} />
+      </Modal>
+
+      {/* Settings Modal */}
+      <Modal
+        visible={isSettingsVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseSettings}
+      >
+        <SettingsScreen onClose={handleCloseSettings} />
+      </Modal>
+
+      {/* My Fields Modal */}
+      <Modal
+        visible={isMyFieldsVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseMyFields}
+      >
+        <MyFieldsScreen onClose={handleCloseMyFields} onFieldsChanged={refetchFields} />
+      </Modal>
+
+      {/* Favorites Modal */}
+      <Modal
+        visible={isFavoritesVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseFavorites}
+      >
+        <FavoritesScreen onClose={handleCloseFavorites} onSelectField={handleSelectFavorite} />
+      </Modal>
+
+      {/* Moderation Queue Modal */}
+      <Modal
+        visible={isModerationVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseModeration}
+      >
+        <ModerationQueueScreen onClose={handleCloseModeration} onFieldsChanged={refetchFields} />
+      </Modal>
+
+      {/* Reported Fields Modal */}
+      <Modal
+        visible={isReportsVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseReports}
+      >
+        <FieldReportsScreen onClose={handleCloseReports} onFieldsChanged={refetchFields} />
+      </Modal>
+
+      {/* Edit Suggestions Modal */}
+      <Modal
+        visible={isSuggestionsVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseSuggestions}
+      >
+        <EditSuggestionsScreen onClose={handleCloseSuggestions} onFieldsChanged={refetchFields} />
+      </Modal>
+
       {/* Login Modal (for protected actions) */}
-      <LoginModal
-        visible={showLoginModal}
-        onClose={closeLoginModal}
-        onSuccess={handleLoginSuccess}
-      />
+      {/* Pending auth intents are handled once the user is signed in */}
+      <LoginModal visible={showLoginModal} onClose={closeLoginModal} />
     </SafeAreaView>
   );
 }
@@ -161,12 +983,29 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  filterButtonContainer: {
+    position: 'absolute',
+    right: 16,
+    top: 16,
+  },
   mapContainer: {
     flex: 1,
   },
+  offlineBannerContainer: {
+    left: 16,
+    position: 'absolute',
+    right: 16,
+    top: 68,
+  },
   profileButtonContainer: {
     left: 16,
     position: 'absolute',
     top: 16,
   },
+  searchBarContainer: {
+    left: 68,
+    position: 'absolute',
+    right: 68,
+    top: 16,
+  },
 });
@@ -0,0 +1,409 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Image,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button, TextInput } from '@/components/ui';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import {
+  FieldWithImages,
+  REJECTION_REASONS,
+  SURFACE_TYPE_ICONS,
+  SURFACE_TYPE_LABELS,
+} from '@/features/fields';
+import { useModerationQueue } from '@/features/fields/hooks/useModerationQueue';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { Field } from '@/types';
+
+interface ModerationQueueScreenProps {
+  onClose: () => void;
+  // Called after a field was approved so the map can refresh
+  onFieldsChanged?: () => void;
+}
+
+export function ModerationQueueScreen({ onClose, onFieldsChanged }: ModerationQueueScreenProps) {
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const { queue, isLoading, pendingFieldId, refetch, approveField, rejectField } =
+    useModerationQueue();
+  const [rejectingField, setRejectingField] = useState<Field | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  const handleApprove = useCallback(
+    async (field: Field) => {
+      const result = await approveField(field.id);
+      if (result.success) {
+        onFieldsChanged?.();
+      } else {
+        Alert.alert('Could Not Approve Field', result.error || 'Please try again', [
+          { text: 'OK' },
+        ]);
+      }
+    },
+    [approveField, onFieldsChanged]
+  );
+
+  const handleOpenReject = useCallback((field: Field) => {
+    setRejectionReason('');
+    setRejectingField(field);
+  }, []);
+
+  const handleCloseReject = useCallback(() => {
+    setRejectingField(null);
+  }, []);
+
+  const handleConfirmReject = useCallback(async () => {
+    if (!rejectingField || !rejectionReason.trim()) {
+      return;
+    }
+
+    const field = rejectingField;
+    setRejectingField(null);
+
+    const result = await rejectField(field.id, rejectionReason);
+    if (!result.success) {
+      Alert.alert('Could Not Reject Field', result.error || 'Please try again', [{ text: 'OK' }]);
+    }
+  }, [rejectingField, rejectionReason, rejectField]);
+
+  const renderItem = useCallback(
+    ({ item }: { item: FieldWithImages }) => {
+      const { field, imageUrls, possibleDuplicateName } = item;
+      const isPending = pendingFieldId === field.id;
+
+      return (
+        <View style={themedStyles.card}>
+          {imageUrls.length > 0 ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.images}>
+              {imageUrls.map((url) => (
+                <Image key={url} source={{ uri: url }} style={themedStyles.image} />
+              ))}
+            </ScrollView>
+          ) : (
+            <Text style={themedStyles.meta}>No photos</Text>
+          )}
+
+          <Text style={themedStyles.fieldName}>{field.name}</Text>
+          <Text style={themedStyles.meta}>
+            {SURFACE_TYPE_ICONS[field.surface_type]} {SURFACE_TYPE_LABELS[field.surface_type]} ·
+            Submitted {new Date(field.created_at).toLocaleDateString()}
+          </Text>
+          <Text style={themedStyles.meta}>
+            📍 {field.coordinates.latitude.toFixed(5)}, {field.coordinates.longitude.toFixed(5)}
+          </Text>
+          {field.description && <Text style={themedStyles.body}>{field.description}</Text>}
+          {field.notes && <Text style={themedStyles.body}>📝 {field.notes}</Text>}
+          {possibleDuplicateName && (
+            <Text style={themedStyles.duplicateWarning}>
+              ⚠️ Close to &quot;{possibleDuplicateName}&quot;. The submitter says it&apos;s a
+              different field.
+            </Text>
+          )}
+
+          <View style={styles.actions}>
+            {isPending ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={themedStyles.rejectButton}
+                  onPress={() => handleOpenReject(field)}
+                >
+                  <Text style={themedStyles.rejectButtonText}>Reject</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={themedStyles.approveButton}
+                  onPress={() => handleApprove(field)}
+                >
+                  <Text style={themedStyles.approveButtonText}>Approve</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      );
+    },
+    [colors, themedStyles, pendingFieldId, handleApprove, handleOpenReject]
+  );
+
+  return (
+    <SafeAreaView style={themedStyles.container}>
+      {/* Header */}
+      <View style={themedStyles.header}>
+        <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
+          <Text style={themedStyles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={themedStyles.headerTitle}>Moderation Queue</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      {isLoading && queue.length === 0 ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={queue}
+          keyExtractor={(item) => item.field.id}
+          renderItem={renderItem}
+          contentContainerStyle={styles.listContent}
+          onRefresh={refetch}
+          refreshing={isLoading}
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Text style={styles.emptyIcon}>✅</Text>
+              <Text style={themedStyles.emptyText}>
+                All caught up! There are no fields waiting for review.
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      {/* Reject reason sheet */}
+      <Modal
+        visible={!!rejectingField}
+        animationType="fade"
+        transparent
+        onRequestClose={handleCloseReject}
+      >
+        <KeyboardAvoidingView
+          style={styles.overlay}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={themedStyles.sheet}>
+            <Text style={themedStyles.sheetTitle}>Reject &quot;{rejectingField?.name}&quot;</Text>
+            <Text style={themedStyles.meta}>The submitter will see this reason.</Text>
+
+            <View style={styles.reasons}>
+              {REJECTION_REASONS.map((reason) => {
+                const isSelected = rejectionReason === reason;
+                return (
+                  <TouchableOpacity
+                    key={reason}
+                    style={[themedStyles.reasonOption, isSelected && themedStyles.optionSelected]}
+                    onPress={() => setRejectionReason(reason)}
+                    activeOpacity={0.7}
+                  >
+                    <Text
+                      style={[
+                        themedStyles.reasonLabel,
+                        isSelected && themedStyles.reasonLabelSelected,
+                      ]}
+                    >
+                      {reason}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <TextInput
+              label="Reason"
+              placeholder="Pick a reason above or write your own"
+              value={rejectionReason}
+              onChangeText={setRejectionReason}
+              multiline
+              numberOfLines={2}
+              maxLength={300}
+            />
+
+            <Button
+              title="Reject Field"
+              onPress={handleConfirmReject}
+              disabled={!rejectionReason.trim()}
+            />
+            <Button title="Cancel" onPress={handleCloseReject} variant="ghost" />
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+// Static styles that don't depend on theme
+const styles = StyleSheet.create({
+  actions: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: spacing.md,
+  },
+  centered: {
+    alignItems: 'center',
+    flex: 1,
+    justifyContent: 'center',
+    padding: spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: spacing.md,
+  },
+  headerRight: {
+    width: 40,
+  },
+  images: {
+    marginBottom: spacing.sm,
+  },
+  listContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  overlay: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  reasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: spacing.md,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+// Dynamic styles that depend on theme colors
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    approveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: borderRadius.md,
+      marginLeft: spacing.sm,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    approveButtonText: {
+      color: colors.text.inverse,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    body: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.sm,
+      lineHeight: 20,
+      marginTop: spacing.sm,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.lg,
+      marginBottom: spacing.md,
+      padding: spacing.md,
+    },
+    closeButton: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      height: 40,
+      justifyContent: 'center',
+      width: 40,
+    },
+    closeButtonText: {
+      color: colors.text.secondary,
+      fontSize: 18,
+    },
+    container: {
+      backgroundColor: colors.background,
+      flex: 1,
+    },
+    duplicateWarning: {
+      color: colors.warning,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.sm,
+    },
+    emptyText: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.md,
+      lineHeight: 22,
+      textAlign: 'center',
+    },
+    fieldName: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+    },
+    header: {
+      alignItems: 'center',
+      borderBottomColor: colors.border,
+      borderBottomWidth: 1,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+    image: {
+      backgroundColor: colors.border,
+      borderRadius: borderRadius.md,
+      height: 120,
+      marginRight: spacing.sm,
+      width: 160,
+    },
+    meta: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.xs,
+    },
+    optionSelected: {
+      backgroundColor: colors.primaryLight + '20',
+      borderColor: colors.primary,
+    },
+    reasonLabel: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+    },
+    reasonLabelSelected: {
+      color: colors.primary,
+      fontWeight: typography.weights.semibold,
+    },
+    reasonOption: {
+      backgroundColor: colors.surface,
+      borderColor: 'transparent',
+      borderRadius: borderRadius.lg,
+      borderWidth: 2,
+      marginBottom: spacing.sm,
+      marginRight: spacing.sm,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    rejectButton: {
+      borderColor: colors.error,
+      borderRadius: borderRadius.md,
+      borderWidth: 1,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    rejectButtonText: {
+      color: colors.error,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    sheet: {
+      backgroundColor: colors.background,
+      borderTopLeftRadius: borderRadius.xl,
+      borderTopRightRadius: borderRadius.xl,
+      padding: spacing.lg,
+      paddingBottom: spacing.xl,
+    },
+    sheetTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
@@ -0,0 +1,333 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { useAuth } from '@/features/auth';
+import { FIELD_STATUS_LABELS, SURFACE_TYPE_ICONS, SURFACE_TYPE_LABELS } from '@/features/fields';
+import { useMyFields } from '@/features/fields/hooks/useMyFields';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { Field, FieldStatus } from '@/types';
+import { CreateFieldScreen } from './CreateFieldScreen';
+
+interface MyFieldsScreenProps {
+  onClose: () => void;
+  // Called after a field was edited or deleted so the map can refresh
+  onFieldsChanged?: () => void;
+}
+
+function getStatusColor(status: FieldStatus, colors: ThemeColors): string {
+  switch (status) {
+    case 'active':
+      return colors.success;
+    case 'pending':
+      return colors.warning;
+    case 'rejected':
+      return colors.error;
+    default:
+      return colors.text.muted;
+  }
+}
+
+export function MyFieldsScreen({ onClose, onFieldsChanged }: MyFieldsScreenProps) {
+  const { user } = useAuth();
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const { fields, isLoading, pendingFieldId, refetch, deleteField } = useMyFields(user?.id ?? null);
+  const [editingField, setEditingField] = useState<Field | null>(null);
+
+  const handleCloseEdit = useCallback(() => {
+    setEditingField(null);
+  }, []);
+
+  const handleFieldUpdated = useCallback(() => {
+    refetch();
+    onFieldsChanged?.();
+  }, [refetch, onFieldsChanged]);
+
+  const handleDelete = useCallback(
+    (field: Field) => {
+      Alert.alert(
+        'Delete Field',
+        `Are you sure you want to delete "${field.name}"? This also removes its photos and can't be undone.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: async () => {
+              const result = await deleteField(field.id);
+              if (result.success) {
+                onFieldsChanged?.();
+              } else {
+                Alert.alert('Could Not Delete Field', result.error || 'Please try again', [
+                  { text: 'OK' },
+                ]);
+              }
+            },
+          },
+        ]
+      );
+    },
+    [deleteField, onFieldsChanged]
+  );
+
+  const renderField = useCallback(
+    ({ item }: { item: Field }) => {
+      const statusColor = getStatusColor(item.status, colors);
+      const isPending = pendingFieldId === item.id;
+
+      return (
+        <View style={themedStyles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={themedStyles.fieldName} numberOfLines={1}>
+              {item.name}
+            </Text>
+            <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+              <Text style={[styles.statusText, { color: statusColor }]}>
+                {FIELD_STATUS_LABELS[item.status]}
+              </Text>
+            </View>
+          </View>
+
+          <Text style={themedStyles.meta}>
+            {SURFACE_TYPE_ICONS[item.surface_type]} {SURFACE_TYPE_LABELS[item.surface_type]} · Added{' '}
+            {new Date(item.created_at).toLocaleDateString()}
+          </Text>
+
+          {item.status === 'draft' && (
+            <Text style={themedStyles.draftNote}>
+              Only you can see this field. Sign in to send it for review.
+            </Text>
+          )}
+
+          {item.status === 'rejected' && item.rejection_reason && (
+            <Text style={themedStyles.rejectionReason}>
+              Reason: {item.rejection_reason}. Edit the field to send it back for review.
+            </Text>
+          )}
+
+          <View style={styles.actions}>
+            {isPending ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={themedStyles.editButton}
+                  onPress={() => setEditingField(item)}
+                >
+                  <Text style={themedStyles.editButtonText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={themedStyles.deleteButton}
+                  onPress={() => handleDelete(item)}
+                >
+                  <Text style={themedStyles.deleteButtonText}>Delete</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      );
+    },
+    [colors, themedStyles, pendingFieldId, handleDelete]
+  );
+
+  return (
+    <SafeAreaView style={themedStyles.container}>
+      {/* Header */}
+      <View style={themedStyles.header}>
+        <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
+          <Text style={themedStyles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={themedStyles.headerTitle}>My Fields</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      {isLoading && fields.length === 0 ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={fields}
+          keyExtractor={(item) => item.id}
+          renderItem={renderField}
+          contentContainerStyle={styles.listContent}
+          onRefresh={refetch}
+          refreshing={isLoading}
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Text style={styles.emptyIcon}>📍</Text>
+              <Text style={themedStyles.emptyText}>
+                You haven&apos;t added any fields yet. Tap &quot;Add Field&quot; on the map to share
+                one!
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      {/* Edit Field Modal */}
+      <Modal
+        visible={!!editingField}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseEdit}
+      >
+        {editingField && (
+          <CreateFieldScreen
+            field={editingField}
+            onClose={handleCloseEdit}
+            onSuccess={handleFieldUpdated}
+          />
+        )}
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+// Static styles that don't depend on theme
+const styles = StyleSheet.create({
+  actions: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: spacing.md,
+  },
+  cardHeader: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  centered: {
+    alignItems: 'center',
+    flex: 1,
+    justifyContent: 'center',
+    padding: spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: spacing.md,
+  },
+  headerRight: {
+    width: 40,
+  },
+  listContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  statusBadge: {
+    borderRadius: borderRadius.full,
+    marginLeft: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+  },
+  statusText: {
+    fontSize: typography.sizes.xs,
+    fontWeight: typography.weights.semibold,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+// Dynamic styles that depend on theme colors
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.lg,
+      marginBottom: spacing.md,
+      padding: spacing.md,
+    },
+    closeButton: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      height: 40,
+      justifyContent: 'center',
+      width: 40,
+    },
+    closeButtonText: {
+      color: colors.text.secondary,
+      fontSize: 18,
+    },
+    container: {
+      backgroundColor: colors.background,
+      flex: 1,
+    },
+    deleteButton: {
+      borderColor: colors.error,
+      borderRadius: borderRadius.md,
+      borderWidth: 1,
+      marginLeft: spacing.sm,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    deleteButtonText: {
+      color: colors.error,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    draftNote: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.sm,
+    },
+    editButton: {
+      backgroundColor: colors.primary,
+      borderRadius: borderRadius.md,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+    },
+    editButtonText: {
+      color: colors.text.inverse,
+      fontSize: typography.sizes.sm,
+      fontWeight: typography.weights.semibold,
+    },
+    emptyText: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.md,
+      lineHeight: 22,
+      textAlign: 'center',
+    },
+    fieldName: {
+      color: colors.text.primary,
+      flex: 1,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+    },
+    header: {
+      alignItems: 'center',
+      borderBottomColor: colors.border,
+      borderBottomWidth: 1,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+    meta: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.xs,
+    },
+    rejectionReason: {
+      color: colors.error,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.sm,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
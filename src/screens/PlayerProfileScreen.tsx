@@ -0,0 +1,268 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { spacing, borderRadius, typography, ThemeColors } from '@/constants';
+import { PlayerStats, PublicProfile, usePlayerProfile } from '@/features/auth';
+import { SURFACE_TYPE_ICONS, SURFACE_TYPE_LABELS } from '@/features/fields';
+import { useTheme, useThemedStyles } from '@/features/theme';
+import { Field } from '@/types';
+import { formatMonthYear } from '@/utils/date';
+
+interface PlayerProfileScreenProps {
+  userId: string;
+  onClose: () => void;
+  // Show one of the player's fields on the map
+  onSelectField: (field: Field) => void;
+}
+
+const STAT_LABELS: Record<keyof PlayerStats, string> = {
+  gamesPlayed: 'Games Played',
+  gamesOrganized: 'Games Organized',
+  fieldsContributed: 'Fields Added',
+  reviewsWritten: 'Reviews Written',
+};
+
+const STAT_ORDER = Object.keys(STAT_LABELS) as (keyof PlayerStats)[];
+
+export function PlayerProfileScreen({ userId, onClose, onSelectField }: PlayerProfileScreenProps) {
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const { profile, fields, isLoading, refetch } = usePlayerProfile(userId);
+
+  const renderHeader = (player: PublicProfile) => {
+    const name = player.displayName || player.username;
+
+    return (
+      <View>
+        <View style={styles.profileSection}>
+          {player.avatarUrl ? (
+            <Image source={{ uri: player.avatarUrl }} style={styles.avatar} />
+          ) : (
+            <View style={themedStyles.avatarPlaceholder}>
+              <Text style={themedStyles.avatarInitial}>{name[0].toUpperCase()}</Text>
+            </View>
+          )}
+          <Text style={themedStyles.displayName}>{name}</Text>
+          <Text style={themedStyles.meta}>
+            @{player.username} · Member since {formatMonthYear(new Date(player.createdAt))}
+          </Text>
+        </View>
+
+        <View style={styles.statsGrid}>
+          {STAT_ORDER.map((key) => (
+            <View key={key} style={themedStyles.statTile}>
+              <Text style={themedStyles.statValue}>{player.stats[key]}</Text>
+              <Text style={themedStyles.statLabel}>{STAT_LABELS[key]}</Text>
+            </View>
+          ))}
+        </View>
+
+        <Text style={themedStyles.sectionTitle}>Fields Added</Text>
+      </View>
+    );
+  };
+
+  const renderField = useCallback(
+    ({ item }: { item: Field }) => (
+      <TouchableOpacity
+        style={themedStyles.card}
+        onPress={() => onSelectField(item)}
+        activeOpacity={0.7}
+      >
+        <Text style={themedStyles.fieldName} numberOfLines={1}>
+          {item.name}
+        </Text>
+        <Text style={themedStyles.meta} numberOfLines={1}>
+          {SURFACE_TYPE_ICONS[item.surface_type]} {SURFACE_TYPE_LABELS[item.surface_type]}
+          {item.city && ` · ${item.city}`}
+          {item.average_rating !== null && ` · ★ ${item.average_rating.toFixed(1)}`}
+        </Text>
+      </TouchableOpacity>
+    ),
+    [themedStyles, onSelectField]
+  );
+
+  return (
+    <SafeAreaView style={themedStyles.container}>
+      {/* Header */}
+      <View style={themedStyles.header}>
+        <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
+          <Text style={themedStyles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={themedStyles.headerTitle}>Player</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      {isLoading && !profile ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : !profile ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyIcon}>👤</Text>
+          <Text style={themedStyles.emptyText}>
+            This player&apos;s profile isn&apos;t available.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={fields}
+          keyExtractor={(item) => item.id}
+          renderItem={renderField}
+          contentContainerStyle={styles.listContent}
+          onRefresh={refetch}
+          refreshing={isLoading}
+          ListHeaderComponent={renderHeader(profile)}
+          ListEmptyComponent={<Text style={themedStyles.emptyText}>No fields added yet.</Text>}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+// Static styles that don't depend on theme
+const styles = StyleSheet.create({
+  avatar: {
+    borderRadius: 40,
+    height: 80,
+    width: 80,
+  },
+  centered: {
+    alignItems: 'center',
+    flex: 1,
+    justifyContent: 'center',
+    padding: spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: spacing.md,
+  },
+  headerRight: {
+    width: 40,
+  },
+  listContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  profileSection: {
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+// Dynamic styles that depend on theme colors
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    avatarInitial: {
+      color: colors.primary,
+      fontSize: 32,
+      fontWeight: typography.weights.bold,
+    },
+    avatarPlaceholder: {
+      alignItems: 'center',
+      backgroundColor: colors.primary + '20',
+      borderRadius: 40,
+      height: 80,
+      justifyContent: 'center',
+      width: 80,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.lg,
+      marginBottom: spacing.md,
+      padding: spacing.md,
+    },
+    closeButton: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      height: 40,
+      justifyContent: 'center',
+      width: 40,
+    },
+    closeButtonText: {
+      color: colors.text.secondary,
+      fontSize: 18,
+    },
+    container: {
+      backgroundColor: colors.background,
+      flex: 1,
+    },
+    displayName: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.xl,
+      fontWeight: typography.weights.bold,
+      marginTop: spacing.md,
+    },
+    emptyText: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.md,
+      lineHeight: 22,
+      textAlign: 'center',
+    },
+    fieldName: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+    },
+    header: {
+      alignItems: 'center',
+      borderBottomColor: colors.border,
+      borderBottomWidth: 1,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+    meta: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.xs,
+    },
+    sectionTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+      marginBottom: spacing.sm,
+    },
+    statLabel: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      marginTop: spacing.xs,
+    },
+    statTile: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: borderRadius.lg,
+      marginBottom: spacing.sm,
+      padding: spacing.md,
+      width: '48%',
+    },
+    statValue: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.xl,
+      fontWeight: typography.weights.bold,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
@@ -0,0 +1,190 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button } from '@/components/ui';
+import { spacing, typography, ThemeColors } from '@/constants';
+import { useAuth, useDataExport } from '@/features/auth';
+import { useTheme, useThemedStyles } from '@/features/theme';
+
+interface SettingsScreenProps {
+  onClose: () => void;
+}
+
+export function SettingsScreen({ onClose }: SettingsScreenProps) {
+  const { deleteAccount, isLoading } = useAuth();
+  const { exportData, isExporting } = useDataExport();
+  const { colors, isDark } = useTheme();
+  const themedStyles = useThemedStyles(createThemedStyles, isDark);
+
+  const handleExport = useCallback(async () => {
+    const result = await exportData();
+    if (!result.success && result.error) {
+      Alert.alert('Could Not Export Data', result.error, [{ text: 'OK' }]);
+    }
+  }, [exportData]);
+
+  const handleDelete = useCallback(async () => {
+    const result = await deleteAccount();
+    if (result.success) {
+      Alert.alert('Account Deleted', 'Your account and personal data have been deleted.', [
+        { text: 'OK' },
+      ]);
+      onClose();
+    } else {
+      Alert.alert(
+        'Could Not Delete Account',
+        result.error || 'Something went wrong. Please try again.',
+        [{ text: 'OK' }]
+      );
+    }
+  }, [deleteAccount, onClose]);
+
+  const confirmDelete = useCallback(() => {
+    Alert.alert(
+      'Delete Account?',
+      'Your profile, reviews, favorites and photos will be deleted. Fields and games you added stay on the map without your name. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete Account', style: 'destructive', onPress: handleDelete },
+      ]
+    );
+  }, [handleDelete]);
+
+  return (
+    <SafeAreaView style={themedStyles.container}>
+      {/* Header */}
+      <View style={themedStyles.header}>
+        <TouchableOpacity onPress={onClose} style={themedStyles.closeButton}>
+          <Text style={themedStyles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+        <Text style={themedStyles.headerTitle}>Settings</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        {/* Data export */}
+        <View style={styles.section}>
+          <Text style={themedStyles.sectionTitle}>Your Data</Text>
+          <Text style={themedStyles.sectionDescription}>
+            Download a copy of your profile, the fields and photos you added, and your reviews as a
+            JSON file.
+          </Text>
+          <Button
+            title="Export My Data"
+            onPress={handleExport}
+            variant="outline"
+            loading={isExporting}
+            disabled={isLoading}
+          />
+        </View>
+
+        {/* Account deletion */}
+        <View style={styles.section}>
+          <Text style={themedStyles.sectionTitle}>Delete Account</Text>
+          <Text style={themedStyles.sectionDescription}>
+            Permanently delete your account and personal data. Fields and games you added stay
+            available to other players.
+          </Text>
+          <TouchableOpacity
+            style={[themedStyles.deleteButton, (isLoading || isExporting) && styles.disabled]}
+            onPress={confirmDelete}
+            disabled={isLoading || isExporting}
+          >
+            {isLoading ? (
+              <ActivityIndicator size="small" color={colors.error} />
+            ) : (
+              <Text style={themedStyles.deleteButtonText}>Delete Account</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// Static styles that don't depend on theme
+const styles = StyleSheet.create({
+  disabled: {
+    opacity: 0.5,
+  },
+  headerRight: {
+    width: 40,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.xl,
+  },
+});
+
+/* eslint-disable react-native/no-unused-styles */
+// Dynamic styles that depend on theme colors
+const createThemedStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    closeButton: {
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      height: 40,
+      justifyContent: 'center',
+      width: 40,
+    },
+    closeButtonText: {
+      color: colors.text.secondary,
+      fontSize: 18,
+    },
+    container: {
+      backgroundColor: colors.background,
+      flex: 1,
+    },
+    deleteButton: {
+      alignItems: 'center',
+      borderColor: colors.error,
+      borderRadius: 12,
+      borderWidth: 1,
+      justifyContent: 'center',
+      minHeight: 48,
+      paddingHorizontal: spacing.lg,
+    },
+    deleteButtonText: {
+      color: colors.error,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+    },
+    header: {
+      alignItems: 'center',
+      borderBottomColor: colors.border,
+      borderBottomWidth: 1,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.md,
+    },
+    headerTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.lg,
+      fontWeight: typography.weights.semibold,
+    },
+    sectionDescription: {
+      color: colors.text.secondary,
+      fontSize: typography.sizes.sm,
+      lineHeight: 20,
+      marginBottom: spacing.md,
+    },
+    sectionTitle: {
+      color: colors.text.primary,
+      fontSize: typography.sizes.md,
+      fontWeight: typography.weights.semibold,
+      marginBottom: spacing.xs,
+    },
+  });
+/* eslint-enable react-native/no-unused-styles */
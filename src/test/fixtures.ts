@@ -0,0 +1,43 @@
+/**
+ * Builders for the data used in unit tests
+ */
+
+import { Field, SurfaceType } from '@/types';
+
+/**
+ * Build an active field at the given coordinates; pass overrides for anything else
+ */
+export function makeField(
+  id: string,
+  latitude: number,
+  longitude: number,
+  surface_type: SurfaceType = 'natural_grass',
+  overrides: Partial<Field> = {}
+): Field {
+  return {
+    id,
+    name: `Field ${id}`,
+    description: null,
+    coordinates: { latitude, longitude },
+    address: null,
+    city: null,
+    country: null,
+    surface_type,
+    is_free: true,
+    has_lights: false,
+    has_goals: true,
+    has_changing_rooms: false,
+    has_parking: false,
+    player_capacity: null,
+    notes: null,
+    status: 'active',
+    rejection_reason: null,
+    possible_duplicate_of: null,
+    created_by: null,
+    average_rating: null,
+    review_count: 0,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
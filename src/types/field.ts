@@ -10,13 +10,31 @@ export type SurfaceType =
   | 'sand'
   | 'indoor';
 
-export type FieldStatus = 'pending' | 'active' | 'inactive' | 'rejected';
+export type FieldStatus = 'draft' | 'pending' | 'active' | 'inactive' | 'rejected';
+
+export type FieldReportReason =
+  | 'does_not_exist'
+  | 'wrong_location'
+  | 'wrong_amenities'
+  | 'inappropriate_photo'
+  | 'duplicate';
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export type SuggestionStatus = 'pending' | 'accepted' | 'rejected';
 
 export interface Coordinates {
   latitude: number;
   longitude: number;
 }
 
+export interface BoundingBox {
+  minLatitude: number;
+  minLongitude: number;
+  maxLatitude: number;
+  maxLongitude: number;
+}
+
 export interface Field {
   id: string;
   name: string;
@@ -32,8 +50,92 @@ export interface Field {
   has_changing_rooms: boolean;
   has_parking: boolean;
   player_capacity: number | null;
+  notes: string | null;
   status: FieldStatus;
+  rejection_reason: string | null;
+  possible_duplicate_of: string | null;
   created_by: string | null;
+  // Mean star rating of the field's reviews, null until it has one
+  average_rating: number | null;
+  review_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FieldReview {
+  id: string;
+  field_id: string;
+  user_id: string;
+  // 1-5 stars
+  rating: number;
+  surface_rating: number | null;
+  goals_rating: number | null;
+  comment: string | null;
+  author_name: string | null;
+  author_avatar_url: string | null;
   created_at: string;
   updated_at: string;
 }
+
+export interface FieldReport {
+  id: string;
+  field_id: string;
+  reporter_id: string;
+  reason: FieldReportReason;
+  details: string | null;
+  status: ReportStatus;
+  reporter_name: string | null;
+  created_at: string;
+}
+
+// Attributes of a field that other users can suggest changes to
+export type EditableFieldAttributes = Pick<
+  Field,
+  | 'name'
+  | 'description'
+  | 'address'
+  | 'surface_type'
+  | 'is_free'
+  | 'has_lights'
+  | 'has_goals'
+  | 'has_changing_rooms'
+  | 'has_parking'
+  | 'player_capacity'
+  | 'notes'
+>;
+
+export interface FieldEditSuggestion {
+  id: string;
+  field_id: string;
+  suggested_by: string;
+  suggester_name: string | null;
+  // Only the attributes that change
+  changes: Partial<EditableFieldAttributes>;
+  note: string | null;
+  status: SuggestionStatus;
+  // Values the accepted changes replaced
+  previous_values: Partial<EditableFieldAttributes> | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+// Columns of a field that are tracked in its history
+export type FieldHistoryValues = Partial<
+  EditableFieldAttributes &
+    Pick<Field, 'city' | 'country' | 'status' | 'rejection_reason'> & {
+      latitude: number;
+      longitude: number;
+    }
+>;
+
+export interface FieldHistoryEntry {
+  id: string;
+  field_id: string;
+  // Null for changes made by the system, e.g. hiding a heavily reported field
+  changed_by: string | null;
+  changed_by_name: string | null;
+  // Only the columns that changed
+  old_values: FieldHistoryValues;
+  new_values: FieldHistoryValues;
+  created_at: string;
+}
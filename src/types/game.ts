@@ -0,0 +1,27 @@
+// Game-related types
+
+export type GameStatus = 'scheduled' | 'cancelled' | 'completed';
+
+// A player on a game's roster
+export interface GamePlayer {
+  id: string;
+  // Display name, falling back to the username
+  name: string;
+}
+
+export interface Game {
+  id: string;
+  field_id: string;
+  organizer_id: string | null;
+  title: string;
+  description: string | null;
+  starts_at: string;
+  duration_minutes: number;
+  max_players: number;
+  status: GameStatus;
+  player_ids: string[];
+  // Roster in the order players joined; the organizer is added first
+  players: GamePlayer[];
+  created_at: string;
+  updated_at: string;
+}
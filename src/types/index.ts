@@ -1 +1,3 @@
 export * from './field';
+export * from './game';
+export * from './notification';
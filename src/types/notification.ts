@@ -0,0 +1,19 @@
+// Notification-related types
+
+export type NotificationType =
+  | 'field_approved'
+  | 'field_rejected'
+  | 'field_hidden'
+  | 'edit_suggestion_accepted'
+  | 'edit_suggestion_rejected';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  field_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
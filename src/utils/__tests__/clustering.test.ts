@@ -0,0 +1,187 @@
+import { makeField } from '@/test/fixtures';
+import {
+  clusterFields,
+  getClusterRegion,
+  getDominantSurface,
+  isInRegion,
+} from '@/utils/clustering';
+import { MapRegion } from '@/utils/geo';
+
+// 1 x 1 degree region with 0.1 degree cells when split into a 10 x 10 grid
+const region: MapRegion = { latitude: 10.5, longitude: 20.5, latitudeDelta: 1, longitudeDelta: 1 };
+const options = { threshold: 1, gridSize: 10 };
+
+describe('clusterFields', () => {
+  it('groups fields sharing a grid cell into one cluster at their centroid', () => {
+    const fields = [makeField('a', 10.21, 20.21), makeField('b', 10.23, 20.25)];
+
+    const { clusters, singles } = clusterFields(fields, region, options);
+
+    expect(singles).toEqual([]);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].key).toBe('102:202');
+    expect(clusters[0].fields.map((field) => field.id)).toEqual(['a', 'b']);
+    expect(clusters[0].coordinates.latitude).toBeCloseTo(10.22);
+    expect(clusters[0].coordinates.longitude).toBeCloseTo(20.23);
+  });
+
+  it('keeps fields in neighbouring cells apart', () => {
+    const fields = [makeField('a', 10.21, 20.29), makeField('b', 10.21, 20.31)];
+
+    const { clusters, singles } = clusterFields(fields, region, options);
+
+    expect(clusters).toEqual([]);
+    expect(singles.map((field) => field.id)).toEqual(['a', 'b']);
+  });
+
+  it('passes a field alone in its cell through as a single marker', () => {
+    const fields = [
+      makeField('a', 10.21, 20.21),
+      makeField('b', 10.22, 20.22),
+      makeField('c', 10.81, 20.81),
+    ];
+
+    const { clusters, singles } = clusterFields(fields, region, options);
+
+    expect(clusters).toHaveLength(1);
+    expect(singles).toEqual([fields[2]]);
+  });
+
+  it('returns every visible field unclustered up to the threshold', () => {
+    const fields = [makeField('a', 10.21, 20.21), makeField('b', 10.22, 20.22)];
+
+    const { clusters, singles } = clusterFields(fields, region, { threshold: 2, gridSize: 10 });
+
+    expect(clusters).toEqual([]);
+    expect(singles).toEqual(fields);
+  });
+
+  it('leaves out fields outside the region', () => {
+    const fields = [
+      makeField('a', 10.21, 20.21),
+      makeField('b', 10.22, 20.22),
+      makeField('c', 12, 20.22),
+    ];
+
+    const { clusters, singles } = clusterFields(fields, region, { threshold: 2, gridSize: 10 });
+
+    expect(clusters).toEqual([]);
+    expect(singles.map((field) => field.id)).toEqual(['a', 'b']);
+  });
+
+  it('keeps cell keys stable while panning at the same zoom', () => {
+    const fields = [makeField('a', 10.21, 20.21), makeField('b', 10.23, 20.25)];
+    const panned = { ...region, latitude: 10.45, longitude: 20.37 };
+
+    const before = clusterFields(fields, region, options);
+    const after = clusterFields(fields, panned, options);
+
+    expect(after.clusters.map((cluster) => cluster.key)).toEqual(
+      before.clusters.map((cluster) => cluster.key)
+    );
+  });
+
+  it('splits clusters into smaller cells when zooming in', () => {
+    const fields = [makeField('a', 10.21, 20.21), makeField('b', 10.24, 20.24)];
+    const zoomedIn = { latitude: 10.25, longitude: 20.25, latitudeDelta: 0.2, longitudeDelta: 0.2 };
+
+    expect(clusterFields(fields, region, options).clusters).toHaveLength(1);
+    expect(clusterFields(fields, zoomedIn, options).clusters).toEqual([]);
+  });
+
+  it('does not merge fields across the antimeridian', () => {
+    const edge: MapRegion = { latitude: 0, longitude: 179.8, latitudeDelta: 1, longitudeDelta: 1 };
+    const fields = [
+      makeField('a', 0.01, 179.91),
+      makeField('b', 0.02, 179.95),
+      makeField('c', 0.01, 179.99),
+      makeField('d', 0.01, -179.99),
+    ];
+
+    const { clusters, singles } = clusterFields(fields, edge, options);
+
+    expect(singles.map((field) => field.id)).toEqual(['d']);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].key).toBe('0:1799');
+    expect(clusters[0].fields.map((field) => field.id)).toEqual(['a', 'b', 'c']);
+    expect(clusters[0].coordinates.longitude).toBeCloseTo(179.95);
+  });
+});
+
+describe('isInRegion', () => {
+  it('includes points on the edge of the region', () => {
+    expect(isInRegion({ latitude: 11, longitude: 21 }, region)).toBe(true);
+    expect(isInRegion({ latitude: 10, longitude: 20 }, region)).toBe(true);
+    expect(isInRegion({ latitude: 11.01, longitude: 21 }, region)).toBe(false);
+  });
+
+  it('includes points across the antimeridian', () => {
+    const edge: MapRegion = { latitude: 0, longitude: 179.5, latitudeDelta: 1, longitudeDelta: 2 };
+
+    expect(isInRegion({ latitude: 0, longitude: 179.9 }, edge)).toBe(true);
+    expect(isInRegion({ latitude: 0, longitude: -179.6 }, edge)).toBe(true);
+    expect(isInRegion({ latitude: 0, longitude: -179.4 }, edge)).toBe(false);
+    expect(isInRegion({ latitude: 0, longitude: 178.4 }, edge)).toBe(false);
+  });
+
+  it('clamps regions reaching past the poles', () => {
+    const polar: MapRegion = { latitude: 89.5, longitude: 0, latitudeDelta: 4, longitudeDelta: 4 };
+
+    expect(isInRegion({ latitude: 90, longitude: 0 }, polar)).toBe(true);
+    expect(isInRegion({ latitude: 87.6, longitude: 0 }, polar)).toBe(true);
+  });
+});
+
+describe('getDominantSurface', () => {
+  it('picks the most common surface', () => {
+    const fields = [
+      makeField('a', 0, 0, 'asphalt'),
+      makeField('b', 0, 0, 'sand'),
+      makeField('c', 0, 0, 'sand'),
+    ];
+
+    expect(getDominantSurface(fields)).toBe('sand');
+  });
+
+  it('gives ties to the surface seen first', () => {
+    const fields = [makeField('a', 0, 0, 'indoor'), makeField('b', 0, 0, 'dirt')];
+
+    expect(getDominantSurface(fields)).toBe('indoor');
+  });
+});
+
+describe('getClusterRegion', () => {
+  it('fits the cluster with padding', () => {
+    const cluster = clusterFields(
+      [makeField('a', 10.21, 20.21), makeField('b', 10.25, 20.27)],
+      region,
+      options
+    ).clusters[0];
+
+    const target = getClusterRegion(cluster, region);
+
+    expect(target.latitude).toBeCloseTo(10.23);
+    expect(target.longitude).toBeCloseTo(20.24);
+    expect(target.latitudeDelta).toBeCloseTo(0.06);
+    expect(target.longitudeDelta).toBeCloseTo(0.09);
+  });
+
+  it('zooms in at least 2x and no closer than the minimum delta', () => {
+    const stacked = clusterFields(
+      [makeField('a', 10.21, 20.21), makeField('b', 10.21, 20.21)],
+      region,
+      options
+    ).clusters[0];
+    const wide = clusterFields(
+      [makeField('a', 10.2, 20.2), makeField('b', 10.29, 20.29)],
+      { latitude: 10.25, longitude: 20.25, latitudeDelta: 0.5, longitudeDelta: 0.5 },
+      { threshold: 1, gridSize: 1 }
+    ).clusters[0];
+
+    expect(getClusterRegion(stacked, region).latitudeDelta).toBeCloseTo(0.002);
+    expect(getClusterRegion(wide, region).latitudeDelta).toBeCloseTo(0.135);
+    expect(
+      getClusterRegion(wide, { ...region, latitudeDelta: 0.2, longitudeDelta: 0.2 }).latitudeDelta
+    ).toBeCloseTo(0.1);
+  });
+});
@@ -0,0 +1,45 @@
+import { DEFAULT_FIELD_FILTERS } from '@/features/fields/types';
+import { makeField } from '@/test/fixtures';
+import { matchesFieldFilters } from '@/utils/fieldAttributes';
+
+describe('matchesFieldFilters', () => {
+  const field = makeField('a', 0, 0, 'synthetic_turf', {
+    is_free: false,
+    has_lights: true,
+    player_capacity: 10,
+    average_rating: 4.2,
+  });
+
+  it('lets every field through without filters', () => {
+    expect(matchesFieldFilters(field, DEFAULT_FIELD_FILTERS)).toBe(true);
+  });
+
+  it('matches any of the selected surfaces', () => {
+    const filters = { ...DEFAULT_FIELD_FILTERS, surfaceTypes: ['synthetic_turf' as const] };
+
+    expect(matchesFieldFilters(field, filters)).toBe(true);
+    expect(
+      matchesFieldFilters(field, { ...DEFAULT_FIELD_FILTERS, surfaceTypes: ['asphalt', 'sand'] })
+    ).toBe(false);
+  });
+
+  it('requires the amenities that are switched on', () => {
+    expect(matchesFieldFilters(field, { ...DEFAULT_FIELD_FILTERS, hasLights: true })).toBe(true);
+    expect(matchesFieldFilters(field, { ...DEFAULT_FIELD_FILTERS, hasParking: true })).toBe(false);
+    expect(matchesFieldFilters(field, { ...DEFAULT_FIELD_FILTERS, onlyFree: true })).toBe(false);
+  });
+
+  it('treats the capacity and rating minimums as inclusive', () => {
+    expect(matchesFieldFilters(field, { ...DEFAULT_FIELD_FILTERS, minCapacity: 10 })).toBe(true);
+    expect(matchesFieldFilters(field, { ...DEFAULT_FIELD_FILTERS, minCapacity: 11 })).toBe(false);
+    expect(matchesFieldFilters(field, { ...DEFAULT_FIELD_FILTERS, minRating: 4.2 })).toBe(true);
+    expect(matchesFieldFilters(field, { ...DEFAULT_FIELD_FILTERS, minRating: 4.5 })).toBe(false);
+  });
+
+  it('leaves out fields without a capacity or rating when a minimum is set', () => {
+    const unknown = makeField('b', 0, 0);
+
+    expect(matchesFieldFilters(unknown, { ...DEFAULT_FIELD_FILTERS, minCapacity: 2 })).toBe(false);
+    expect(matchesFieldFilters(unknown, { ...DEFAULT_FIELD_FILTERS, minRating: 3 })).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { countTilesForBounds, getTilesForBounds, regionToBounds } from '@/utils/geo';
+
+describe('regionToBounds', () => {
+  it('converts a region to a single box', () => {
+    expect(
+      regionToBounds({ latitude: 10, longitude: 20, latitudeDelta: 2, longitudeDelta: 4 })
+    ).toEqual([{ minLatitude: 9, minLongitude: 18, maxLatitude: 11, maxLongitude: 22 }]);
+  });
+
+  it('splits a region crossing the antimeridian going east', () => {
+    expect(
+      regionToBounds({ latitude: 0, longitude: 179, latitudeDelta: 2, longitudeDelta: 4 })
+    ).toEqual([
+      { minLatitude: -1, minLongitude: 177, maxLatitude: 1, maxLongitude: 180 },
+      { minLatitude: -1, minLongitude: -180, maxLatitude: 1, maxLongitude: -179 },
+    ]);
+  });
+
+  it('splits a region crossing the antimeridian going west', () => {
+    expect(
+      regionToBounds({ latitude: 0, longitude: -179, latitudeDelta: 2, longitudeDelta: 4 })
+    ).toEqual([
+      { minLatitude: -1, minLongitude: 179, maxLatitude: 1, maxLongitude: 180 },
+      { minLatitude: -1, minLongitude: -180, maxLatitude: 1, maxLongitude: -177 },
+    ]);
+  });
+
+  it('keeps a region ending on the antimeridian in one box', () => {
+    expect(
+      regionToBounds({ latitude: 0, longitude: 178, latitudeDelta: 2, longitudeDelta: 4 })
+    ).toEqual([{ minLatitude: -1, minLongitude: 176, maxLatitude: 1, maxLongitude: 180 }]);
+  });
+
+  it('covers the whole world when zoomed out past it', () => {
+    expect(
+      regionToBounds({ latitude: 0, longitude: 40, latitudeDelta: 170, longitudeDelta: 400 })
+    ).toEqual([{ minLatitude: -85, minLongitude: -180, maxLatitude: 85, maxLongitude: 180 }]);
+  });
+
+  it('clamps latitudes at the poles', () => {
+    const [bounds] = regionToBounds({
+      latitude: 89,
+      longitude: 0,
+      latitudeDelta: 4,
+      longitudeDelta: 4,
+    });
+
+    expect(bounds.minLatitude).toBe(87);
+    expect(bounds.maxLatitude).toBe(90);
+  });
+});
+
+describe('getTilesForBounds', () => {
+  it('covers a box with tiles aligned to the tile size', () => {
+    const tiles = getTilesForBounds(
+      { minLatitude: 0.5, minLongitude: 1.5, maxLatitude: 1.5, maxLongitude: 2.5 },
+      1
+    );
+
+    expect(tiles.map((tile) => tile.key)).toEqual(['1:0:1', '1:0:2', '1:1:1', '1:1:2']);
+    expect(tiles[0].bounds).toEqual({
+      minLatitude: 0,
+      minLongitude: 1,
+      maxLatitude: 1,
+      maxLongitude: 2,
+    });
+    expect(
+      countTilesForBounds(
+        { minLatitude: 0.5, minLongitude: 1.5, maxLatitude: 1.5, maxLongitude: 2.5 },
+        1
+      )
+    ).toBe(4);
+  });
+
+  it('leaves out tiles past the antimeridian', () => {
+    const tiles = getTilesForBounds(
+      { minLatitude: 0.5, minLongitude: 178.5, maxLatitude: 0.8, maxLongitude: 180 },
+      1
+    );
+
+    expect(tiles.map((tile) => tile.key)).toEqual(['1:0:178', '1:0:179']);
+  });
+
+  it('counts the same tiles it builds at the edges of the map', () => {
+    const world = regionToBounds({
+      latitude: 0,
+      longitude: 0,
+      latitudeDelta: 180,
+      longitudeDelta: 360,
+    });
+    const edge = { minLatitude: 88.5, minLongitude: 178.5, maxLatitude: 90, maxLongitude: 180 };
+
+    expect(countTilesForBounds(edge, 1)).toBe(4);
+    expect(countTilesForBounds(edge, 1)).toBe(getTilesForBounds(edge, 1).length);
+    expect(world.reduce((count, bounds) => count + countTilesForBounds(bounds, 10), 0)).toBe(
+      18 * 36
+    );
+  });
+
+  it('gives tiles on each side of the antimeridian different keys', () => {
+    const keys = regionToBounds({
+      latitude: 0.5,
+      longitude: 180,
+      latitudeDelta: 0.2,
+      longitudeDelta: 1,
+    }).flatMap((bounds) => getTilesForBounds(bounds, 1).map((tile) => tile.key));
+
+    expect(keys).toEqual(['1:0:179', '1:0:-180']);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Grid-based marker clustering
+ *
+ * The visible region is divided into a grid of equally sized cells and every
+ * cell holding more than one field becomes a cluster. Cells are aligned to
+ * multiples of the cell size, so clusters stay put while panning at a fixed zoom.
+ */
+
+import { Coordinates, Field, SurfaceType } from '@/types';
+import { MapRegion, isInBounds, regionToBounds } from '@/utils/geo';
+
+/**
+ * Group of nearby fields shown as a single bubble
+ */
+export interface FieldCluster {
+  key: string;
+  coordinates: Coordinates;
+  fields: Field[];
+  dominantSurface: SurfaceType;
+}
+
+export interface ClusterResult {
+  clusters: FieldCluster[];
+  singles: Field[];
+}
+
+interface ClusterOptions {
+  // Cluster only when more fields than this are visible
+  threshold: number;
+  // Number of grid cells across the visible region
+  gridSize: number;
+}
+
+/**
+ * Check whether a point lies inside a map region
+ */
+export function isInRegion(coordinates: Coordinates, region: MapRegion): boolean {
+  return regionToBounds(region).some((bounds) => isInBounds(coordinates, bounds));
+}
+
+/**
+ * Get the most common surface type among a set of fields
+ * Ties go to the surface seen first
+ */
+export function getDominantSurface(fields: Field[]): SurfaceType {
+  const counts = new Map<SurfaceType, number>();
+  let dominant = fields[0].surface_type;
+
+  fields.forEach((field) => {
+    const count = (counts.get(field.surface_type) ?? 0) + 1;
+    counts.set(field.surface_type, count);
+    if (count > (counts.get(dominant) ?? 0)) {
+      dominant = field.surface_type;
+    }
+  });
+
+  return dominant;
+}
+
+/**
+ * Split the visible fields into clusters and individual markers
+ * Fields outside the region are left out entirely
+ */
+export function clusterFields(
+  fields: Field[],
+  region: MapRegion,
+  { threshold, gridSize }: ClusterOptions
+): ClusterResult {
+  const visible = fields.filter((field) => isInRegion(field.coordinates, region));
+
+  if (visible.length <= threshold) {
+    return { clusters: [], singles: visible };
+  }
+
+  const cellLatitude = region.latitudeDelta / gridSize;
+  const cellLongitude = region.longitudeDelta / gridSize;
+  const cells = new Map<string, Field[]>();
+
+  visible.forEach((field) => {
+    const row = Math.floor(field.coordinates.latitude / cellLatitude);
+    const col = Math.floor(field.coordinates.longitude / cellLongitude);
+    const key = `${row}:${col}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(field);
+    } else {
+      cells.set(key, [field]);
+    }
+  });
+
+  const clusters: FieldCluster[] = [];
+  const singles: Field[] = [];
+
+  cells.forEach((cellFields, key) => {
+    if (cellFields.length === 1) {
+      singles.push(cellFields[0]);
+      return;
+    }
+
+    // Place the bubble at the centroid of its fields
+    const latitude =
+      cellFields.reduce((sum, field) => sum + field.coordinates.latitude, 0) / cellFields.length;
+    const longitude =
+      cellFields.reduce((sum, field) => sum + field.coordinates.longitude, 0) / cellFields.length;
+
+    clusters.push({
+      key,
+      coordinates: { latitude, longitude },
+      fields: cellFields,
+      dominantSurface: getDominantSurface(cellFields),
+    });
+  });
+
+  return { clusters, singles };
+}
+
+/**
+ * Get the region to zoom to when a cluster is tapped
+ * Fits all of the cluster's fields with some padding, and always zooms in at least 2x
+ */
+export function getClusterRegion(cluster: FieldCluster, currentRegion: MapRegion): MapRegion {
+  const latitudes = cluster.fields.map((field) => field.coordinates.latitude);
+  const longitudes = cluster.fields.map((field) => field.coordinates.longitude);
+  const minLatitude = Math.min(...latitudes);
+  const maxLatitude = Math.max(...latitudes);
+  const minLongitude = Math.min(...longitudes);
+  const maxLongitude = Math.max(...longitudes);
+
+  const padding = 1.5;
+  const minDelta = 0.002;
+
+  return {
+    latitude: (minLatitude + maxLatitude) / 2,
+    longitude: (minLongitude + maxLongitude) / 2,
+    latitudeDelta: Math.min(
+      Math.max((maxLatitude - minLatitude) * padding, minDelta),
+      currentRegion.latitudeDelta / 2
+    ),
+    longitudeDelta: Math.min(
+      Math.max((maxLongitude - minLongitude) * padding, minDelta),
+      currentRegion.longitudeDelta / 2
+    ),
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Date formatting helpers for user-facing labels
+ */
+
+/**
+ * Check whether two dates fall on the same calendar day (local time)
+ */
+export function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+/**
+ * Format a day as "Today", "Tomorrow" or e.g. "Sat, Oct 24"
+ */
+export function formatDayLabel(date: Date): string {
+  const today = new Date();
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+
+  if (isSameDay(date, today)) return 'Today';
+  if (isSameDay(date, tomorrow)) return 'Tomorrow';
+
+  return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Format a time of day as HH:MM
+ */
+export function formatTime(date: Date): string {
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
+/**
+ * Format a month as e.g. "Oct 2026"
+ */
+export function formatMonthYear(date: Date): string {
+  return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+}
@@ -0,0 +1,99 @@
+/**
+ * Helpers for comparing and displaying the attributes of a field
+ */
+import { FIELD_STATUS_LABELS, FieldFilters, SURFACE_TYPE_LABELS } from '@/features/fields/types';
+import {
+  EditableFieldAttributes,
+  Field,
+  FieldHistoryValues,
+  FieldStatus,
+  SurfaceType,
+} from '@/types';
+
+type EditableFieldAttribute = keyof EditableFieldAttributes;
+
+/**
+ * Pick the attributes of a field that users can suggest changes to
+ * Pass a fully loaded field; fields loaded for the map don't include their notes
+ */
+export function getEditableAttributes(field: Field): EditableFieldAttributes {
+  return {
+    name: field.name,
+    description: field.description,
+    address: field.address,
+    surface_type: field.surface_type,
+    is_free: field.is_free,
+    has_lights: field.has_lights,
+    has_goals: field.has_goals,
+    has_changing_rooms: field.has_changing_rooms,
+    has_parking: field.has_parking,
+    player_capacity: field.player_capacity,
+    notes: field.notes,
+  };
+}
+
+/**
+ * Get the attributes whose values differ from the field's current ones
+ * Blank text counts as no value, so clearing a text attribute suggests null
+ */
+export function getChangedAttributes(
+  field: Field,
+  values: EditableFieldAttributes
+): Partial<EditableFieldAttributes> {
+  const current = getEditableAttributes(field);
+  const changes: Partial<EditableFieldAttributes> = {};
+
+  (Object.keys(values) as EditableFieldAttribute[]).forEach((key) => {
+    const raw = values[key];
+    const value = typeof raw === 'string' ? raw.trim() || null : raw;
+    if (value !== current[key] && !(key === 'name' && value === null)) {
+      Object.assign(changes, { [key]: value });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Check whether a field passes the map filters
+ * Used for changes that are fetched unfiltered; the database applies the same rules
+ */
+export function matchesFieldFilters(field: Field, filters: FieldFilters): boolean {
+  return (
+    (filters.surfaceTypes.length === 0 || filters.surfaceTypes.includes(field.surface_type)) &&
+    (!filters.onlyFree || field.is_free) &&
+    (!filters.hasLights || field.has_lights) &&
+    (!filters.hasGoals || field.has_goals) &&
+    (!filters.hasChangingRooms || field.has_changing_rooms) &&
+    (!filters.hasParking || field.has_parking) &&
+    (filters.minCapacity === null ||
+      (field.player_capacity !== null && field.player_capacity >= filters.minCapacity)) &&
+    (filters.minRating === null ||
+      (field.average_rating !== null && field.average_rating >= filters.minRating))
+  );
+}
+
+/**
+ * Format an attribute value for display, e.g. "Yes", "Synthetic Turf" or "—"
+ */
+export function formatAttributeValue(
+  key: keyof FieldHistoryValues,
+  value: FieldHistoryValues[keyof FieldHistoryValues]
+): string {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (key === 'surface_type') {
+    return SURFACE_TYPE_LABELS[value as SurfaceType];
+  }
+  if (key === 'status') {
+    return FIELD_STATUS_LABELS[value as FieldStatus];
+  }
+  if (key === 'latitude' || key === 'longitude') {
+    return (value as number).toFixed(5);
+  }
+  return String(value);
+}
@@ -0,0 +1,153 @@
+/**
+ * Geographic helpers for working with map regions
+ */
+
+import { BoundingBox, Coordinates } from '@/types';
+
+/**
+ * Visible map region, compatible with react-native-maps' Region
+ */
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+/**
+ * Square grid cell used to cache loaded map areas
+ */
+export interface MapTile {
+  key: string;
+  bounds: BoundingBox;
+}
+
+/**
+ * Convert a map region (center + deltas) to bounding boxes
+ * A region crossing the antimeridian is split into a box on each side of it
+ */
+export function regionToBounds(region: MapRegion): BoundingBox[] {
+  const minLatitude = Math.max(region.latitude - region.latitudeDelta / 2, -90);
+  const maxLatitude = Math.min(region.latitude + region.latitudeDelta / 2, 90);
+
+  if (region.longitudeDelta >= 360) {
+    return [{ minLatitude, minLongitude: -180, maxLatitude, maxLongitude: 180 }];
+  }
+
+  const west = wrapLongitude(region.longitude - region.longitudeDelta / 2);
+  const east = wrapLongitude(region.longitude + region.longitudeDelta / 2);
+
+  if (west <= east) {
+    return [{ minLatitude, minLongitude: west, maxLatitude, maxLongitude: east }];
+  }
+
+  return [
+    { minLatitude, minLongitude: west, maxLatitude, maxLongitude: 180 },
+    { minLatitude, minLongitude: -180, maxLatitude, maxLongitude: east },
+  ];
+}
+
+// Bring a longitude that ran past the antimeridian back into -180..180
+function wrapLongitude(longitude: number): number {
+  if (longitude > 180) {
+    return longitude - 360;
+  }
+  if (longitude < -180) {
+    return longitude + 360;
+  }
+  return longitude;
+}
+
+/**
+ * Check whether a point lies inside a bounding box
+ */
+export function isInBounds(coordinates: Coordinates, bounds: BoundingBox): boolean {
+  return (
+    coordinates.latitude >= bounds.minLatitude &&
+    coordinates.latitude <= bounds.maxLatitude &&
+    coordinates.longitude >= bounds.minLongitude &&
+    coordinates.longitude <= bounds.maxLongitude
+  );
+}
+
+// Rows and columns of the grid tiles covering a bounding box
+function getTileRange(bounds: BoundingBox, tileSize: number) {
+  let maxRow = Math.floor(bounds.maxLatitude / tileSize);
+  let maxCol = Math.floor(bounds.maxLongitude / tileSize);
+
+  // A box ending on the edge of the map doesn't need the tile past it
+  while (maxRow * tileSize >= 90) {
+    maxRow--;
+  }
+  while (maxCol * tileSize >= 180) {
+    maxCol--;
+  }
+
+  return {
+    minRow: Math.floor(bounds.minLatitude / tileSize),
+    maxRow,
+    minCol: Math.floor(bounds.minLongitude / tileSize),
+    maxCol,
+  };
+}
+
+/**
+ * Get the grid tiles covering a bounding box
+ * Tiles are aligned to multiples of tileSize so keys are stable between calls
+ */
+export function getTilesForBounds(bounds: BoundingBox, tileSize: number): MapTile[] {
+  const { minRow, maxRow, minCol, maxCol } = getTileRange(bounds, tileSize);
+
+  const tiles: MapTile[] = [];
+  for (let row = minRow; row <= maxRow; row++) {
+    for (let col = minCol; col <= maxCol; col++) {
+      tiles.push({
+        key: `${tileSize}:${row}:${col}`,
+        bounds: {
+          minLatitude: row * tileSize,
+          minLongitude: col * tileSize,
+          maxLatitude: (row + 1) * tileSize,
+          maxLongitude: (col + 1) * tileSize,
+        },
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Count the tiles covering a bounding box without building them
+ */
+export function countTilesForBounds(bounds: BoundingBox, tileSize: number): number {
+  const { minRow, maxRow, minCol, maxCol } = getTileRange(bounds, tileSize);
+  return Math.max(0, maxRow - minRow + 1) * Math.max(0, maxCol - minCol + 1);
+}
+
+/**
+ * Straight-line distance between two points in meters (haversine formula)
+ */
+export function getDistanceMeters(from: Coordinates, to: Coordinates): number {
+  const earthRadius = 6371000;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLongitude / 2) ** 2;
+
+  return 2 * earthRadius * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Format a distance for display, e.g. "350 m" or "4.2 km"
+ */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) {
+    return `${Math.round(meters / 10) * 10} m`;
+  }
+  return `${(meters / 1000).toFixed(meters < 10000 ? 1 : 0)} km`;
+}
@@ -126,7 +126,9 @@ function createLogger(tag: string) {
 // Pre-configured loggers for common modules
 export const appLogger = createLogger('App');
 export const fieldLogger = createLogger('Field');
+export const gameLogger = createLogger('Game');
 export const mapLogger = createLogger('Map');
+export const notificationLogger = createLogger('Notification');
 export const storageLogger = createLogger('Storage');
 
 /**
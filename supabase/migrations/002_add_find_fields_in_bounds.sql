@@ -0,0 +1,128 @@
+-- Migration: Viewport-based field loading
+-- Date: 2026-10-19
+-- Description: Adds a paginated bounding-box RPC used by the map to load only the fields
+-- inside the visible region, and returns updated_at from find_fields_within_radius
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- The return type changes, so the function has to be dropped before being recreated
+DROP FUNCTION IF EXISTS find_fields_within_radius(DOUBLE PRECISION, DOUBLE PRECISION, INTEGER);
+
+CREATE OR REPLACE FUNCTION find_fields_within_radius(
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  radius_meters INTEGER DEFAULT 5000
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  city TEXT,
+  country TEXT,
+  surface_type surface_type,
+  is_free BOOLEAN,
+  has_lights BOOLEAN,
+  has_goals BOOLEAN,
+  has_changing_rooms BOOLEAN,
+  has_parking BOOLEAN,
+  player_capacity INTEGER,
+  status field_status,
+  created_by UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance_meters DOUBLE PRECISION
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.description,
+    f.latitude,
+    f.longitude,
+    f.address,
+    f.city,
+    f.country,
+    f.surface_type,
+    f.is_free,
+    f.has_lights,
+    f.has_goals,
+    f.has_changing_rooms,
+    f.has_parking,
+    f.player_capacity,
+    f.status,
+    f.created_by,
+    f.created_at,
+    f.updated_at,
+    ST_Distance(f.location, ST_MakePoint(lng, lat)::geography) as distance_meters
+  FROM public.fields f
+  WHERE f.status = 'active'
+    AND ST_DWithin(f.location, ST_MakePoint(lng, lat)::geography, radius_meters)
+  ORDER BY distance_meters;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to find fields inside a bounding box, one page at a time
+-- Pages are keyed by field id: pass the last id of the previous page as after_id
+CREATE OR REPLACE FUNCTION find_fields_in_bounds(
+  min_lat DOUBLE PRECISION,
+  min_lng DOUBLE PRECISION,
+  max_lat DOUBLE PRECISION,
+  max_lng DOUBLE PRECISION,
+  page_size INTEGER DEFAULT 200,
+  after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  city TEXT,
+  country TEXT,
+  surface_type surface_type,
+  is_free BOOLEAN,
+  has_lights BOOLEAN,
+  has_goals BOOLEAN,
+  has_changing_rooms BOOLEAN,
+  has_parking BOOLEAN,
+  player_capacity INTEGER,
+  status field_status,
+  created_by UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.description,
+    f.latitude,
+    f.longitude,
+    f.address,
+    f.city,
+    f.country,
+    f.surface_type,
+    f.is_free,
+    f.has_lights,
+    f.has_goals,
+    f.has_changing_rooms,
+    f.has_parking,
+    f.player_capacity,
+    f.status,
+    f.created_by,
+    f.created_at,
+    f.updated_at
+  FROM public.fields f
+  WHERE f.status = 'active'
+    AND f.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+    AND (after_id IS NULL OR f.id > after_id)
+  ORDER BY f.id
+  LIMIT LEAST(GREATEST(page_size, 1), 1000);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
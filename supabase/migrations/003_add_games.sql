@@ -0,0 +1,131 @@
+-- Migration: Add pickup games
+-- Date: 2026-10-19
+-- Description: Adds the games and game_players tables, roster triggers and RLS policies
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+DO $$ BEGIN
+    CREATE TYPE game_status AS ENUM ('scheduled', 'cancelled', 'completed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Pickup games organized at a field
+CREATE TABLE IF NOT EXISTS public.games (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  organizer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+
+  -- Scheduling
+  starts_at TIMESTAMPTZ NOT NULL,
+  duration_minutes INTEGER DEFAULT 90 NOT NULL CHECK (duration_minutes > 0),
+  max_players INTEGER NOT NULL CHECK (max_players > 1),
+
+  status game_status DEFAULT 'scheduled' NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Players who joined a game (the organizer is added automatically)
+CREATE TABLE IF NOT EXISTS public.game_players (
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  joined_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (game_id, player_id)
+);
+
+-- Index for upcoming games at a field
+CREATE INDEX IF NOT EXISTS idx_games_field_starts ON public.games (field_id, starts_at);
+
+-- Index for games a player has joined
+CREATE INDEX IF NOT EXISTS idx_game_players_player_id ON public.game_players (player_id);
+
+-- Auto-update updated_at for games
+DROP TRIGGER IF EXISTS trigger_games_updated_at ON public.games;
+CREATE TRIGGER trigger_games_updated_at
+  BEFORE UPDATE ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add the organizer to the roster of a new game
+CREATE OR REPLACE FUNCTION add_organizer_to_game()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.organizer_id IS NOT NULL THEN
+    INSERT INTO public.game_players (game_id, player_id)
+    VALUES (NEW.id, NEW.organizer_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_add_organizer_to_game ON public.games;
+CREATE TRIGGER trigger_add_organizer_to_game
+  AFTER INSERT ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION add_organizer_to_game();
+
+-- Only allow joining scheduled games that still have room
+CREATE OR REPLACE FUNCTION enforce_game_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  game_record RECORD;
+  player_count INTEGER;
+BEGIN
+  SELECT max_players, status INTO game_record
+  FROM public.games
+  WHERE id = NEW.game_id
+  FOR UPDATE;
+
+  IF game_record.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This game is no longer open for players';
+  END IF;
+
+  SELECT COUNT(*) INTO player_count FROM public.game_players WHERE game_id = NEW.game_id;
+
+  IF player_count >= game_record.max_players THEN
+    RAISE EXCEPTION 'This game is already full';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_game_capacity ON public.game_players;
+CREATE TRIGGER trigger_enforce_game_capacity
+  BEFORE INSERT ON public.game_players
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_game_capacity();
+
+ALTER TABLE public.games ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.game_players ENABLE ROW LEVEL SECURITY;
+
+-- Games policies
+CREATE POLICY "Games are viewable by everyone"
+  ON public.games FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can organize games"
+  ON public.games FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated' AND organizer_id = auth.uid());
+
+CREATE POLICY "Organizers can update their own games"
+  ON public.games FOR UPDATE
+  USING (organizer_id = auth.uid());
+
+-- Game players policies
+CREATE POLICY "Game rosters are viewable by everyone"
+  ON public.game_players FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can join games"
+  ON public.game_players FOR INSERT
+  WITH CHECK (player_id = auth.uid());
+
+CREATE POLICY "Users can leave games"
+  ON public.game_players FOR DELETE
+  USING (player_id = auth.uid());
@@ -0,0 +1,37 @@
+-- Migration: Let owners manage their own fields
+-- Date: 2026-10-19
+-- Description: Owners can edit their fields in any status, delete them, and manage
+-- the photos attached to them (used by the "My Fields" screen)
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+DROP POLICY IF EXISTS "Users can update their own pending fields" ON public.fields;
+
+CREATE POLICY "Users can update their own fields"
+  ON public.fields FOR UPDATE
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can delete their own fields"
+  ON public.fields FOR DELETE
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Field owners can update images of their fields"
+  ON public.field_images FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.fields f
+      WHERE f.id = field_id
+      AND f.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Field owners can delete images of their fields"
+  ON public.field_images FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.fields f
+      WHERE f.id = field_id
+      AND f.created_by = auth.uid()
+    )
+  );
@@ -0,0 +1,187 @@
+-- Migration: Add field moderation
+-- Date: 2026-10-19
+-- Description: Adds the moderator role, review columns on fields, the moderation triggers,
+-- review notifications for submitters and the matching RLS policies
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+-- Promote a moderator with: UPDATE public.profiles SET role = 'moderator' WHERE username = '...';
+
+DO $$ BEGIN
+    CREATE TYPE user_role AS ENUM ('user', 'moderator');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS role user_role DEFAULT 'user' NOT NULL;
+
+ALTER TABLE public.fields
+ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+-- In-app notifications (e.g. the outcome of a field review)
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  field_id UUID REFERENCES public.fields(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Index for a user's unread notifications
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON public.notifications (user_id, created_at) WHERE read_at IS NULL;
+
+-- Function to check whether the current user is a moderator
+CREATE OR REPLACE FUNCTION is_moderator()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND role = 'moderator'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Roles can only be changed from the dashboard (service role), never by users themselves
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Profile roles cannot be changed by users';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_profile_role ON public.profiles;
+CREATE TRIGGER trigger_protect_profile_role
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_role();
+
+-- Only moderators can change a field's status; their decision is recorded on the field
+-- Owners editing a rejected field send it back to the moderation queue
+CREATE OR REPLACE FUNCTION enforce_field_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_moderator() THEN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      NEW.reviewed_by = auth.uid();
+      NEW.reviewed_at = NOW();
+      IF NEW.status <> 'rejected' THEN
+        NEW.rejection_reason = NULL;
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason
+    OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    RAISE EXCEPTION 'Only moderators can change the status of a field';
+  END IF;
+
+  IF OLD.status = 'rejected' THEN
+    NEW.status = 'pending';
+    NEW.rejection_reason = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_field_moderation ON public.fields;
+CREATE TRIGGER trigger_enforce_field_moderation
+  BEFORE UPDATE ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_field_moderation();
+
+-- Let the submitter know when their field has been approved or rejected
+CREATE OR REPLACE FUNCTION notify_field_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.created_by IS NULL OR NEW.status = OLD.status OR OLD.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'active' THEN
+    INSERT INTO public.notifications (user_id, type, title, body, field_id)
+    VALUES (
+      NEW.created_by,
+      'field_approved',
+      'Field approved',
+      format('"%s" has been approved and is now visible on the map.', NEW.name),
+      NEW.id
+    );
+  ELSIF NEW.status = 'rejected' THEN
+    INSERT INTO public.notifications (user_id, type, title, body, field_id)
+    VALUES (
+      NEW.created_by,
+      'field_rejected',
+      'Field not approved',
+      format(
+        '"%s" was not approved: %s',
+        NEW.name,
+        COALESCE(NEW.rejection_reason, 'no reason given')
+      ),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_field_review ON public.fields;
+CREATE TRIGGER trigger_notify_field_review
+  AFTER UPDATE OF status ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_field_review();
+
+-- RLS
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can insert their own profile" ON public.profiles;
+CREATE POLICY "Users can insert their own profile"
+  ON public.profiles FOR INSERT
+  WITH CHECK (auth.uid() = id AND role = 'user');
+
+DROP POLICY IF EXISTS "Active fields are viewable by everyone" ON public.fields;
+CREATE POLICY "Active fields are viewable by everyone"
+  ON public.fields FOR SELECT
+  USING (status = 'active' OR created_by = auth.uid() OR is_moderator());
+
+DROP POLICY IF EXISTS "Authenticated users can create fields" ON public.fields;
+CREATE POLICY "Authenticated users can create fields"
+  ON public.fields FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated' AND (status = 'pending' OR is_moderator()));
+
+CREATE POLICY "Moderators can review fields"
+  ON public.fields FOR UPDATE
+  USING (is_moderator());
+
+DROP POLICY IF EXISTS "Field images are viewable if field is visible" ON public.field_images;
+CREATE POLICY "Field images are viewable if field is visible"
+  ON public.field_images FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.fields f
+      WHERE f.id = field_id
+      AND (f.status = 'active' OR f.created_by = auth.uid() OR is_moderator())
+    )
+  );
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their own notifications as read"
+  ON public.notifications FOR UPDATE
+  USING (user_id = auth.uid());
@@ -0,0 +1,94 @@
+-- Migration: Add field text search
+-- Date: 2026-10-19
+-- Description: Adds a full-text search column and index on fields and the search_fields RPC
+-- used by the map search bar
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+ALTER TABLE public.fields
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  to_tsvector(
+    'simple',
+    coalesce(name, '') || ' ' || coalesce(description, '') || ' ' ||
+    coalesce(address, '') || ' ' || coalesce(city, '')
+  )
+) STORED;
+
+-- Full-text search index
+CREATE INDEX IF NOT EXISTS idx_fields_search ON public.fields USING GIN (search_vector);
+
+-- Function to search active fields by name, description, address and city
+-- Every word is matched as a prefix so results update while typing
+-- Results are ranked by relevance, then by distance when a location is given
+CREATE OR REPLACE FUNCTION search_fields(
+  search_text TEXT,
+  lat DOUBLE PRECISION DEFAULT NULL,
+  lng DOUBLE PRECISION DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  city TEXT,
+  country TEXT,
+  surface_type surface_type,
+  is_free BOOLEAN,
+  has_lights BOOLEAN,
+  has_goals BOOLEAN,
+  has_changing_rooms BOOLEAN,
+  has_parking BOOLEAN,
+  player_capacity INTEGER,
+  status field_status,
+  created_by UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance_meters DOUBLE PRECISION
+) AS $$
+DECLARE
+  cleaned_text TEXT;
+  search_query TSQUERY;
+BEGIN
+  -- Keep letters, digits and spaces only so the query always parses
+  cleaned_text := trim(regexp_replace(search_text, '[^[:alnum:][:space:]]', ' ', 'g'));
+  IF cleaned_text = '' THEN
+    RETURN;
+  END IF;
+
+  search_query := to_tsquery('simple', regexp_replace(cleaned_text, '\s+', ':* & ', 'g') || ':*');
+
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.description,
+    f.latitude,
+    f.longitude,
+    f.address,
+    f.city,
+    f.country,
+    f.surface_type,
+    f.is_free,
+    f.has_lights,
+    f.has_goals,
+    f.has_changing_rooms,
+    f.has_parking,
+    f.player_capacity,
+    f.status,
+    f.created_by,
+    f.created_at,
+    f.updated_at,
+    CASE
+      WHEN lat IS NULL OR lng IS NULL THEN NULL
+      ELSE ST_Distance(f.location, ST_MakePoint(lng, lat)::geography)
+    END AS distance_meters
+  FROM public.fields f
+  WHERE f.status = 'active'
+    AND f.search_vector @@ search_query
+  ORDER BY ts_rank(f.search_vector, search_query) DESC, distance_meters ASC NULLS LAST
+  LIMIT LEAST(GREATEST(result_limit, 1), 50);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
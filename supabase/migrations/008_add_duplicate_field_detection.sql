@@ -0,0 +1,93 @@
+-- Migration: Add duplicate field detection
+-- Date: 2026-10-19
+-- Description: Adds the find_duplicate_fields RPC (distance + name similarity) used before
+-- submitting a field, and a trigger that rejects duplicates that weren't confirmed as different
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Trigram similarity for comparing field names
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Existing field the submitter said this one is different from
+ALTER TABLE public.fields
+ADD COLUMN IF NOT EXISTS possible_duplicate_of UUID REFERENCES public.fields(id) ON DELETE SET NULL;
+
+-- Function to find existing fields that a new submission probably duplicates
+-- A field matches when it's within radius_meters and either very close (under 30m)
+-- or has a similar name (trigram similarity). Pending submissions count too.
+CREATE OR REPLACE FUNCTION find_duplicate_fields(
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  field_name TEXT,
+  radius_meters INTEGER DEFAULT 100,
+  min_similarity REAL DEFAULT 0.3
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  city TEXT,
+  status field_status,
+  distance_meters DOUBLE PRECISION,
+  name_similarity REAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.latitude,
+    f.longitude,
+    f.address,
+    f.city,
+    f.status,
+    ST_Distance(f.location, ST_MakePoint(lng, lat)::geography) AS distance_meters,
+    similarity(f.name, coalesce(field_name, '')) AS name_similarity
+  FROM public.fields f
+  WHERE f.status IN ('active', 'pending')
+    AND ST_DWithin(f.location, ST_MakePoint(lng, lat)::geography, radius_meters)
+    AND (
+      ST_DWithin(f.location, ST_MakePoint(lng, lat)::geography, 30)
+      OR similarity(f.name, coalesce(field_name, '')) >= min_similarity
+    )
+  ORDER BY name_similarity DESC, distance_meters ASC
+  LIMIT 5;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Reject new fields that duplicate an existing one, unless the submitter confirmed
+-- the field is different by naming the match in possible_duplicate_of (moderators see it)
+-- Inserts without a user (dashboard, scripts) are not checked
+CREATE OR REPLACE FUNCTION prevent_duplicate_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.possible_duplicate_of IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM find_duplicate_fields(NEW.latitude, NEW.longitude, NEW.name) d
+      WHERE d.id = NEW.possible_duplicate_of
+    ) THEN
+      RETURN NEW;
+    END IF;
+    NEW.possible_duplicate_of = NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM find_duplicate_fields(NEW.latitude, NEW.longitude, NEW.name)) THEN
+    RAISE EXCEPTION 'A similar field already exists at this location'
+      USING ERRCODE = 'DTP01';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_prevent_duplicate_fields ON public.fields;
+CREATE TRIGGER trigger_prevent_duplicate_fields
+  BEFORE INSERT ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_duplicate_fields();
@@ -0,0 +1,88 @@
+-- Migration: Add transactional field creation
+-- Date: 2026-10-19
+-- Description: Adds the create_field_with_images RPC that saves a field and its photo records
+-- in one transaction, and maintenance functions that find orphaned photos and photo-less fields
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Function to create a field together with its already uploaded photos
+-- Runs as the caller so the usual RLS policies and triggers (duplicate check) still apply.
+-- The first URL becomes the primary image; a field without photos is rejected.
+CREATE OR REPLACE FUNCTION create_field_with_images(
+  field_data JSONB,
+  image_urls TEXT[]
+)
+RETURNS SETOF public.fields AS $$
+DECLARE
+  new_field public.fields;
+BEGIN
+  IF coalesce(array_length(image_urls, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A field needs at least one photo'
+      USING ERRCODE = 'DTP02';
+  END IF;
+
+  INSERT INTO public.fields (
+    name, description, latitude, longitude, address, city, country,
+    surface_type, is_free, has_lights, has_goals, has_changing_rooms, has_parking,
+    player_capacity, notes, possible_duplicate_of, status, created_by
+  )
+  SELECT
+    r.name, r.description, r.latitude, r.longitude, r.address, r.city, r.country,
+    r.surface_type, r.is_free, r.has_lights, r.has_goals, r.has_changing_rooms, r.has_parking,
+    r.player_capacity, r.notes, r.possible_duplicate_of, 'pending', auth.uid()
+  FROM jsonb_populate_record(NULL::public.fields, field_data) r
+  RETURNING * INTO new_field;
+
+  INSERT INTO public.field_images (field_id, image_url, is_primary, uploaded_by)
+  SELECT new_field.id, u.url, u.position = 1, auth.uid()
+  FROM unnest(image_urls) WITH ORDINALITY AS u(url, position);
+
+  RETURN NEXT new_field;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Function to list storage objects in the field-images bucket that no field_images row uses
+-- Recent objects are skipped because queued uploads save their row after the file
+CREATE OR REPLACE FUNCTION find_orphaned_field_images(
+  min_age INTERVAL DEFAULT INTERVAL '7 days'
+)
+RETURNS TABLE (
+  name TEXT,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT o.name, o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = 'field-images'
+    AND o.created_at < NOW() - min_age
+    AND NOT EXISTS (
+      SELECT 1 FROM public.field_images fi
+      WHERE split_part(fi.image_url, '/field-images/', 2) = o.name
+    )
+  ORDER BY o.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to list fields that have no photos at all
+CREATE OR REPLACE FUNCTION find_fields_without_images()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  status field_status,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT f.id, f.name, f.status, f.created_at
+  FROM public.fields f
+  WHERE NOT EXISTS (SELECT 1 FROM public.field_images fi WHERE fi.field_id = f.id)
+  ORDER BY f.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Maintenance functions are only for the service role (scripts/purge-orphaned-images.mjs)
+REVOKE EXECUTE ON FUNCTION find_orphaned_field_images(INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION find_fields_without_images() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_orphaned_field_images(INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION find_fields_without_images() TO service_role;
@@ -0,0 +1,121 @@
+-- Migration: Add delta loading of map fields
+-- Date: 2026-10-19
+-- Description: find_fields_in_bounds accepts updated_since to only return changed fields, and
+-- find_hidden_field_ids_in_bounds lists fields taken off the map, so the app can refresh its
+-- offline cache without downloading every field again
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- The signature changes, so the old version has to be dropped before being recreated
+DROP FUNCTION IF EXISTS find_fields_in_bounds(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, UUID,
+  surface_type[], BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN, INTEGER
+);
+
+-- Index for refreshing cached fields (updated_since lookups)
+CREATE INDEX IF NOT EXISTS idx_fields_updated_at ON public.fields (updated_at);
+
+-- Function to find fields inside a bounding box, one page at a time
+-- Pages are keyed by field id: pass the last id of the previous page as after_id
+-- Optional filters narrow the results (NULL / FALSE means "any")
+-- Pass updated_since to only get fields changed after that time (for refreshing a cache)
+CREATE OR REPLACE FUNCTION find_fields_in_bounds(
+  min_lat DOUBLE PRECISION,
+  min_lng DOUBLE PRECISION,
+  max_lat DOUBLE PRECISION,
+  max_lng DOUBLE PRECISION,
+  page_size INTEGER DEFAULT 200,
+  after_id UUID DEFAULT NULL,
+  surface_types surface_type[] DEFAULT NULL,
+  only_free BOOLEAN DEFAULT FALSE,
+  require_lights BOOLEAN DEFAULT FALSE,
+  require_goals BOOLEAN DEFAULT FALSE,
+  require_changing_rooms BOOLEAN DEFAULT FALSE,
+  require_parking BOOLEAN DEFAULT FALSE,
+  min_capacity INTEGER DEFAULT NULL,
+  updated_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  city TEXT,
+  country TEXT,
+  surface_type surface_type,
+  is_free BOOLEAN,
+  has_lights BOOLEAN,
+  has_goals BOOLEAN,
+  has_changing_rooms BOOLEAN,
+  has_parking BOOLEAN,
+  player_capacity INTEGER,
+  status field_status,
+  created_by UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.description,
+    f.latitude,
+    f.longitude,
+    f.address,
+    f.city,
+    f.country,
+    f.surface_type,
+    f.is_free,
+    f.has_lights,
+    f.has_goals,
+    f.has_changing_rooms,
+    f.has_parking,
+    f.player_capacity,
+    f.status,
+    f.created_by,
+    f.created_at,
+    f.updated_at
+  FROM public.fields f
+  WHERE f.status = 'active'
+    AND f.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+    AND (after_id IS NULL OR f.id > after_id)
+    AND (surface_types IS NULL OR f.surface_type = ANY(surface_types))
+    AND (NOT only_free OR f.is_free)
+    AND (NOT require_lights OR f.has_lights)
+    AND (NOT require_goals OR f.has_goals)
+    AND (NOT require_changing_rooms OR f.has_changing_rooms)
+    AND (NOT require_parking OR f.has_parking)
+    AND (min_capacity IS NULL OR f.player_capacity >= min_capacity)
+    AND (updated_since IS NULL OR f.updated_at > updated_since)
+  ORDER BY f.id
+  LIMIT LEAST(GREATEST(page_size, 1), 1000);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to find fields inside a bounding box that were taken off the map
+-- (rejected, deactivated or sent back to moderation) after updated_since
+-- Only ids are returned so cached copies can be dropped without exposing hidden fields
+CREATE OR REPLACE FUNCTION find_hidden_field_ids_in_bounds(
+  min_lat DOUBLE PRECISION,
+  min_lng DOUBLE PRECISION,
+  max_lat DOUBLE PRECISION,
+  max_lng DOUBLE PRECISION,
+  updated_since TIMESTAMPTZ
+)
+RETURNS TABLE (
+  id UUID,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT f.id, f.updated_at
+  FROM public.fields f
+  WHERE f.status <> 'active'
+    AND f.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+    AND f.updated_at > updated_since
+  LIMIT 1000;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,223 @@
+-- Migration: Add field reviews
+-- Date: 2026-10-19
+-- Description: Adds the field_reviews table (one review per user per field) with RLS, keeps
+-- each field's average rating and review count up to date, and lets find_fields_in_bounds
+-- return and filter by rating
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Star ratings and written reviews of fields
+CREATE TABLE IF NOT EXISTS public.field_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  -- Overall rating plus optional sub-scores (1-5 stars)
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  surface_rating SMALLINT CHECK (surface_rating BETWEEN 1 AND 5),
+  goals_rating SMALLINT CHECK (goals_rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (char_length(comment) <= 1000),
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE (field_id, user_id)
+);
+
+-- Aggregated ratings, kept up to date by a trigger on field_reviews
+ALTER TABLE public.fields
+ADD COLUMN IF NOT EXISTS average_rating REAL,
+ADD COLUMN IF NOT EXISTS review_count INTEGER DEFAULT 0 NOT NULL;
+
+-- Index for the reviews of a field, newest first
+CREATE INDEX IF NOT EXISTS idx_field_reviews_field_created
+  ON public.field_reviews (field_id, created_at DESC);
+
+-- Auto-update updated_at for field reviews
+DROP TRIGGER IF EXISTS trigger_field_reviews_updated_at ON public.field_reviews;
+CREATE TRIGGER trigger_field_reviews_updated_at
+  BEFORE UPDATE ON public.field_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Recalculate a field's average rating and review count when its reviews change
+CREATE OR REPLACE FUNCTION update_field_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_field_id UUID := COALESCE(NEW.field_id, OLD.field_id);
+BEGIN
+  UPDATE public.fields f
+  SET
+    average_rating = stats.average_rating,
+    review_count = stats.review_count
+  FROM (
+    SELECT ROUND(AVG(r.rating)::numeric, 1)::real AS average_rating, COUNT(*)::int AS review_count
+    FROM public.field_reviews r
+    WHERE r.field_id = target_field_id
+  ) stats
+  WHERE f.id = target_field_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_update_field_rating ON public.field_reviews;
+CREATE TRIGGER trigger_update_field_rating
+  AFTER INSERT OR UPDATE OR DELETE ON public.field_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_field_rating();
+
+-- Only moderators can change a field's status; their decision is recorded on the field
+-- Owners editing a rejected field send it back to the moderation queue
+-- Updates made by other triggers (like rating aggregates) aren't edits and are let through
+CREATE OR REPLACE FUNCTION enforce_field_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_moderator() THEN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      NEW.reviewed_by = auth.uid();
+      NEW.reviewed_at = NOW();
+      IF NEW.status <> 'rejected' THEN
+        NEW.rejection_reason = NULL;
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason
+    OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    RAISE EXCEPTION 'Only moderators can change the status of a field';
+  END IF;
+
+  IF OLD.status = 'rejected' THEN
+    NEW.status = 'pending';
+    NEW.rejection_reason = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE public.field_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Field reviews policies
+CREATE POLICY "Reviews of active fields are viewable by everyone"
+  ON public.field_reviews FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.fields f WHERE f.id = field_id AND f.status = 'active')
+  );
+
+CREATE POLICY "Users can review active fields"
+  ON public.field_reviews FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.fields f WHERE f.id = field_id AND f.status = 'active')
+  );
+
+CREATE POLICY "Users can update their own reviews"
+  ON public.field_reviews FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reviews"
+  ON public.field_reviews FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- The return type changes, so the old version has to be dropped before being recreated
+DROP FUNCTION IF EXISTS find_fields_in_bounds(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, UUID,
+  surface_type[], BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN, INTEGER, TIMESTAMPTZ
+);
+
+-- Function to find fields inside a bounding box, one page at a time
+-- Pages are keyed by field id: pass the last id of the previous page as after_id
+-- Optional filters narrow the results (NULL / FALSE means "any")
+-- Pass updated_since to only get fields changed after that time (for refreshing a cache)
+-- min_rating keeps fields whose average review rating is at least that (unrated fields are left out)
+CREATE OR REPLACE FUNCTION find_fields_in_bounds(
+  min_lat DOUBLE PRECISION,
+  min_lng DOUBLE PRECISION,
+  max_lat DOUBLE PRECISION,
+  max_lng DOUBLE PRECISION,
+  page_size INTEGER DEFAULT 200,
+  after_id UUID DEFAULT NULL,
+  surface_types surface_type[] DEFAULT NULL,
+  only_free BOOLEAN DEFAULT FALSE,
+  require_lights BOOLEAN DEFAULT FALSE,
+  require_goals BOOLEAN DEFAULT FALSE,
+  require_changing_rooms BOOLEAN DEFAULT FALSE,
+  require_parking BOOLEAN DEFAULT FALSE,
+  min_capacity INTEGER DEFAULT NULL,
+  updated_since TIMESTAMPTZ DEFAULT NULL,
+  min_rating REAL DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  city TEXT,
+  country TEXT,
+  surface_type surface_type,
+  is_free BOOLEAN,
+  has_lights BOOLEAN,
+  has_goals BOOLEAN,
+  has_changing_rooms BOOLEAN,
+  has_parking BOOLEAN,
+  player_capacity INTEGER,
+  status field_status,
+  average_rating REAL,
+  review_count INTEGER,
+  created_by UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.description,
+    f.latitude,
+    f.longitude,
+    f.address,
+    f.city,
+    f.country,
+    f.surface_type,
+    f.is_free,
+    f.has_lights,
+    f.has_goals,
+    f.has_changing_rooms,
+    f.has_parking,
+    f.player_capacity,
+    f.status,
+    f.average_rating,
+    f.review_count,
+    f.created_by,
+    f.created_at,
+    f.updated_at
+  FROM public.fields f
+  WHERE f.status = 'active'
+    AND f.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+    AND (after_id IS NULL OR f.id > after_id)
+    AND (surface_types IS NULL OR f.surface_type = ANY(surface_types))
+    AND (NOT only_free OR f.is_free)
+    AND (NOT require_lights OR f.has_lights)
+    AND (NOT require_goals OR f.has_goals)
+    AND (NOT require_changing_rooms OR f.has_changing_rooms)
+    AND (NOT require_parking OR f.has_parking)
+    AND (min_capacity IS NULL OR f.player_capacity >= min_capacity)
+    AND (min_rating IS NULL OR f.average_rating >= min_rating)
+    AND (updated_since IS NULL OR f.updated_at > updated_since)
+  ORDER BY f.id
+  LIMIT LEAST(GREATEST(page_size, 1), 1000);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,31 @@
+-- Migration: Add favorite fields
+-- Date: 2026-10-19
+-- Description: Adds the favorite_fields table so users can bookmark the fields they play at,
+-- with RLS so each user only sees and changes their own favorites
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Fields a user bookmarked
+CREATE TABLE IF NOT EXISTS public.favorite_fields (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, field_id)
+);
+
+-- Index for cleaning up favorites when a field is deleted
+CREATE INDEX IF NOT EXISTS idx_favorite_fields_field_id ON public.favorite_fields (field_id);
+
+ALTER TABLE public.favorite_fields ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own favorites"
+  ON public.favorite_fields FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own favorites"
+  ON public.favorite_fields FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own favorites"
+  ON public.favorite_fields FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,170 @@
+-- Migration: Add field reports
+-- Date: 2026-10-19
+-- Description: Lets users report fields with wrong info, closures or abuse. Reports are
+-- rate-limited per user, enough independent reports take a field off the map, and
+-- moderators resolve or dismiss them
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+-- Change the thresholds by replacing field_report_threshold() / field_report_daily_limit()
+
+DO $$ BEGIN
+    CREATE TYPE field_report_reason AS ENUM (
+      'does_not_exist',
+      'wrong_location',
+      'wrong_amenities',
+      'inappropriate_photo',
+      'duplicate'
+    );
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE report_status AS ENUM ('open', 'resolved', 'dismissed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Reports of wrong or abusive field data
+CREATE TABLE IF NOT EXISTS public.field_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason field_report_reason NOT NULL,
+  details TEXT CHECK (char_length(details) <= 1000),
+  status report_status DEFAULT 'open' NOT NULL,
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- A user can only have one open report per field, so each report counts as independent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_field_reports_open_reporter
+  ON public.field_reports (field_id, reporter_id) WHERE status = 'open';
+
+-- Index for rate limiting a reporter's recent reports
+CREATE INDEX IF NOT EXISTS idx_field_reports_reporter_created
+  ON public.field_reports (reporter_id, created_at);
+
+-- Moderation settings for field reports; change them with CREATE OR REPLACE
+-- Independent reports (one per user) that take a field off the map until a moderator reviews it
+CREATE OR REPLACE FUNCTION field_report_threshold()
+RETURNS INTEGER AS $$
+  SELECT 3;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Reports a user can file per day
+CREATE OR REPLACE FUNCTION field_report_daily_limit()
+RETURNS INTEGER AS $$
+  SELECT 10;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Function for moderators to close a field's open reports
+-- deactivate keeps the field off the map; otherwise the reports are dismissed and a field
+-- hidden by them is put back
+CREATE OR REPLACE FUNCTION resolve_field_reports(target_field_id UUID, deactivate BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can resolve field reports';
+  END IF;
+
+  UPDATE public.field_reports
+  SET
+    status = CASE WHEN deactivate THEN 'resolved' ELSE 'dismissed' END::report_status,
+    resolved_by = auth.uid(),
+    resolved_at = NOW()
+  WHERE field_id = target_field_id AND status = 'open';
+
+  UPDATE public.fields
+  SET status = CASE WHEN deactivate THEN 'inactive' ELSE 'active' END::field_status
+  WHERE id = target_field_id
+    AND status IN ('active', 'inactive')
+    AND status <> CASE WHEN deactivate THEN 'inactive' ELSE 'active' END::field_status;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Limit how many reports a user can file per day
+CREATE OR REPLACE FUNCTION limit_field_reports()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.field_reports r
+    WHERE r.reporter_id = NEW.reporter_id
+      AND r.created_at > NOW() - INTERVAL '1 day'
+  ) >= field_report_daily_limit() THEN
+    RAISE EXCEPTION 'Too many reports, try again tomorrow'
+      USING ERRCODE = 'DTP03';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_limit_field_reports ON public.field_reports;
+CREATE TRIGGER trigger_limit_field_reports
+  BEFORE INSERT ON public.field_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION limit_field_reports();
+
+-- Take a field off the map once enough users reported it, and let the submitter know
+CREATE OR REPLACE FUNCTION deactivate_reported_field()
+RETURNS TRIGGER AS $$
+DECLARE
+  hidden_field public.fields%ROWTYPE;
+BEGIN
+  IF (
+    SELECT COUNT(DISTINCT r.reporter_id) FROM public.field_reports r
+    WHERE r.field_id = NEW.field_id AND r.status = 'open'
+  ) < field_report_threshold() THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.fields
+  SET status = 'inactive'
+  WHERE id = NEW.field_id AND status = 'active'
+  RETURNING * INTO hidden_field;
+
+  IF hidden_field.id IS NOT NULL AND hidden_field.created_by IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, type, title, body, field_id)
+    VALUES (
+      hidden_field.created_by,
+      'field_hidden',
+      'Field hidden',
+      format(
+        '"%s" was reported by several players and is hidden until a moderator reviews it.',
+        hidden_field.name
+      ),
+      hidden_field.id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_deactivate_reported_field ON public.field_reports;
+CREATE TRIGGER trigger_deactivate_reported_field
+  AFTER INSERT ON public.field_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION deactivate_reported_field();
+
+-- RLS
+ALTER TABLE public.field_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reports"
+  ON public.field_reports FOR SELECT
+  USING (reporter_id = auth.uid() OR is_moderator());
+
+CREATE POLICY "Users can report active fields"
+  ON public.field_reports FOR INSERT
+  WITH CHECK (
+    auth.uid() = reporter_id
+    AND status = 'open'
+    AND resolved_by IS NULL
+    AND EXISTS (SELECT 1 FROM public.fields f WHERE f.id = field_id AND f.status = 'active')
+  );
+
+CREATE POLICY "Moderators can resolve reports"
+  ON public.field_reports FOR UPDATE
+  USING (is_moderator());
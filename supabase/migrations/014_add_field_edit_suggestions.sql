@@ -0,0 +1,161 @@
+-- Migration: Add field edit suggestions
+-- Date: 2026-10-19
+-- Description: Lets any signed-in user propose changes to a field's attributes. The field's
+-- owner or a moderator accepts or rejects them; accepted changes are applied to the field
+-- and the suggestion keeps the values they replaced as an audit entry
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+DO $$ BEGIN
+    CREATE TYPE suggestion_status AS ENUM ('pending', 'accepted', 'rejected');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Proposed changes to a field's attributes
+CREATE TABLE IF NOT EXISTS public.field_edit_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  suggested_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Suggested values keyed by column name, only the attributes that change
+  changes JSONB NOT NULL CHECK (jsonb_typeof(changes) = 'object' AND changes <> '{}'::jsonb),
+  note TEXT CHECK (char_length(note) <= 500),
+  status suggestion_status DEFAULT 'pending' NOT NULL,
+  -- Values the accepted changes replaced
+  previous_values JSONB,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Index for the pending suggestions of a field
+CREATE INDEX IF NOT EXISTS idx_field_edit_suggestions_pending
+  ON public.field_edit_suggestions (field_id, created_at) WHERE status = 'pending';
+
+-- Index for a user's own suggestions
+CREATE INDEX IF NOT EXISTS idx_field_edit_suggestions_suggested_by
+  ON public.field_edit_suggestions (suggested_by);
+
+-- Function for a field's owner or a moderator to accept or reject an edit suggestion
+-- Owners can't accept their own suggestions; those wait for a moderator
+CREATE OR REPLACE FUNCTION review_field_edit_suggestion(suggestion_id UUID, accept BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  suggestion public.field_edit_suggestions%ROWTYPE;
+  target public.fields%ROWTYPE;
+  replaced JSONB;
+BEGIN
+  SELECT * INTO suggestion FROM public.field_edit_suggestions
+  WHERE id = suggestion_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF suggestion.id IS NULL THEN
+    RAISE EXCEPTION 'This suggestion has already been reviewed';
+  END IF;
+
+  SELECT * INTO target FROM public.fields WHERE id = suggestion.field_id FOR UPDATE;
+
+  IF NOT is_moderator()
+    AND (target.created_by IS DISTINCT FROM auth.uid() OR suggestion.suggested_by = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the field owner or a moderator can review this suggestion';
+  END IF;
+
+  IF accept THEN
+    SELECT jsonb_object_agg(key, to_jsonb(target) -> key) INTO replaced
+    FROM jsonb_object_keys(suggestion.changes) AS key;
+
+    UPDATE public.fields
+    SET
+      name = CASE WHEN suggestion.changes ? 'name'
+        THEN suggestion.changes ->> 'name' ELSE name END,
+      description = CASE WHEN suggestion.changes ? 'description'
+        THEN suggestion.changes ->> 'description' ELSE description END,
+      address = CASE WHEN suggestion.changes ? 'address'
+        THEN suggestion.changes ->> 'address' ELSE address END,
+      surface_type = CASE WHEN suggestion.changes ? 'surface_type'
+        THEN (suggestion.changes ->> 'surface_type')::surface_type ELSE surface_type END,
+      is_free = CASE WHEN suggestion.changes ? 'is_free'
+        THEN (suggestion.changes ->> 'is_free')::BOOLEAN ELSE is_free END,
+      has_lights = CASE WHEN suggestion.changes ? 'has_lights'
+        THEN (suggestion.changes ->> 'has_lights')::BOOLEAN ELSE has_lights END,
+      has_goals = CASE WHEN suggestion.changes ? 'has_goals'
+        THEN (suggestion.changes ->> 'has_goals')::BOOLEAN ELSE has_goals END,
+      has_changing_rooms = CASE WHEN suggestion.changes ? 'has_changing_rooms'
+        THEN (suggestion.changes ->> 'has_changing_rooms')::BOOLEAN ELSE has_changing_rooms END,
+      has_parking = CASE WHEN suggestion.changes ? 'has_parking'
+        THEN (suggestion.changes ->> 'has_parking')::BOOLEAN ELSE has_parking END,
+      player_capacity = CASE WHEN suggestion.changes ? 'player_capacity'
+        THEN (suggestion.changes ->> 'player_capacity')::INTEGER ELSE player_capacity END,
+      notes = CASE WHEN suggestion.changes ? 'notes'
+        THEN suggestion.changes ->> 'notes' ELSE notes END
+    WHERE id = target.id;
+  END IF;
+
+  UPDATE public.field_edit_suggestions
+  SET
+    status = CASE WHEN accept THEN 'accepted' ELSE 'rejected' END::suggestion_status,
+    previous_values = replaced,
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW()
+  WHERE id = suggestion.id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, field_id)
+  VALUES (
+    suggestion.suggested_by,
+    CASE WHEN accept THEN 'edit_suggestion_accepted' ELSE 'edit_suggestion_rejected' END,
+    CASE WHEN accept THEN 'Suggestion accepted' ELSE 'Suggestion not accepted' END,
+    CASE WHEN accept
+      THEN format('Your changes to "%s" are now live. Thanks for keeping it up to date!', target.name)
+      ELSE format('Your suggested changes to "%s" were not accepted.', target.name)
+    END,
+    target.id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only let suggestions change the attributes players can check on site
+CREATE OR REPLACE FUNCTION validate_field_edit_suggestion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(NEW.changes) AS key
+    WHERE key NOT IN (
+      'name', 'description', 'address', 'surface_type', 'is_free', 'has_lights', 'has_goals',
+      'has_changing_rooms', 'has_parking', 'player_capacity', 'notes'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Suggestions can only change the field''s details and amenities';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_validate_field_edit_suggestion ON public.field_edit_suggestions;
+CREATE TRIGGER trigger_validate_field_edit_suggestion
+  BEFORE INSERT ON public.field_edit_suggestions
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_field_edit_suggestion();
+
+-- RLS
+ALTER TABLE public.field_edit_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Suggestions are viewable by their author, the field owner and moderators"
+  ON public.field_edit_suggestions FOR SELECT
+  USING (
+    suggested_by = auth.uid()
+    OR is_moderator()
+    OR EXISTS (
+      SELECT 1 FROM public.fields f WHERE f.id = field_id AND f.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can suggest edits to active fields"
+  ON public.field_edit_suggestions FOR INSERT
+  WITH CHECK (
+    auth.uid() = suggested_by
+    AND status = 'pending'
+    AND previous_values IS NULL
+    AND reviewed_by IS NULL
+    AND EXISTS (SELECT 1 FROM public.fields f WHERE f.id = field_id AND f.status = 'active')
+  );
@@ -0,0 +1,120 @@
+-- Migration: Add field history
+-- Date: 2026-10-19
+-- Description: Records every change to a field's details and status together with the user
+-- who made it, and lets moderators revert a change
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Changes made to fields, newest last
+CREATE TABLE IF NOT EXISTS public.field_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  -- NULL for changes made by the system (triggers, dashboard, scripts)
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- Values of the changed columns before and after the change, keyed by column name
+  old_values JSONB NOT NULL,
+  new_values JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Index for a field's history, newest first
+CREATE INDEX IF NOT EXISTS idx_field_history_field_created
+  ON public.field_history (field_id, created_at DESC);
+
+-- Function for moderators to undo a change, e.g. to revert vandalism
+-- The changed columns are set back to their old values; the revert is recorded as a new change
+CREATE OR REPLACE FUNCTION revert_field_change(history_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  entry public.field_history%ROWTYPE;
+  restored public.fields%ROWTYPE;
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can revert field changes';
+  END IF;
+
+  SELECT * INTO entry FROM public.field_history WHERE id = history_id;
+  IF entry.id IS NULL THEN
+    RAISE EXCEPTION 'Change not found';
+  END IF;
+
+  SELECT * INTO restored FROM public.fields WHERE id = entry.field_id FOR UPDATE;
+  restored := jsonb_populate_record(restored, entry.old_values);
+
+  UPDATE public.fields
+  SET
+    name = restored.name,
+    description = restored.description,
+    latitude = restored.latitude,
+    longitude = restored.longitude,
+    address = restored.address,
+    city = restored.city,
+    country = restored.country,
+    surface_type = restored.surface_type,
+    is_free = restored.is_free,
+    has_lights = restored.has_lights,
+    has_goals = restored.has_goals,
+    has_changing_rooms = restored.has_changing_rooms,
+    has_parking = restored.has_parking,
+    player_capacity = restored.player_capacity,
+    notes = restored.notes,
+    status = restored.status,
+    rejection_reason = restored.rejection_reason
+  WHERE id = entry.field_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Record which details of a field changed, and who changed them
+-- Aggregates and bookkeeping columns (ratings, review info, updated_at) aren't tracked
+CREATE OR REPLACE FUNCTION record_field_history()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  changed_old JSONB;
+  changed_new JSONB;
+BEGIN
+  SELECT jsonb_object_agg(key, old_row -> key), jsonb_object_agg(key, new_row -> key)
+  INTO changed_old, changed_new
+  FROM unnest(ARRAY[
+    'name', 'description', 'latitude', 'longitude', 'address', 'city', 'country',
+    'surface_type', 'is_free', 'has_lights', 'has_goals', 'has_changing_rooms', 'has_parking',
+    'player_capacity', 'notes', 'status', 'rejection_reason'
+  ]) AS key
+  WHERE old_row -> key IS DISTINCT FROM new_row -> key;
+
+  IF changed_old IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.field_history (field_id, changed_by, old_values, new_values)
+  VALUES (
+    NEW.id,
+    -- Changes made by other triggers (e.g. hiding a reported field) belong to no user
+    CASE WHEN pg_trigger_depth() > 1 THEN NULL ELSE auth.uid() END,
+    changed_old,
+    changed_new
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_field_history ON public.fields;
+CREATE TRIGGER trigger_record_field_history
+  AFTER UPDATE ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION record_field_history();
+
+-- RLS
+ALTER TABLE public.field_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Field history is viewable if field is visible"
+  ON public.field_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.fields f
+      WHERE f.id = field_id
+      AND (f.status = 'active' OR f.created_by = auth.uid() OR is_moderator())
+    )
+  );
@@ -0,0 +1,51 @@
+-- Migration: Add profile editing
+-- Date: 2026-10-19
+-- Description: Enforces the username and display name rules of the Edit Profile screen and
+-- adds a public 'avatars' storage bucket where users upload their own profile photo
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Usernames: 3-30 lowercase letters, numbers or underscores
+-- NOT VALID so existing profiles are only checked once their username changes
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_username_format;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_username_format
+  CHECK (username ~ '^[a-z0-9_]{3,30}$') NOT VALID;
+
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_display_name_length;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_display_name_length
+  CHECK (display_name IS NULL OR char_length(display_name) BETWEEN 1 AND 50) NOT VALID;
+
+-- Public bucket for profile photos, stored as avatars/<user id>/<file name>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/jpeg', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage policies
+CREATE POLICY "Public read access for avatars"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload their own avatar"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'avatars'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can replace their own avatar"
+  ON storage.objects FOR UPDATE
+  USING (
+    bucket_id = 'avatars'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can delete their own avatar"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'avatars'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
@@ -0,0 +1,148 @@
+-- Migration: Add guest accounts
+-- Date: 2026-10-19
+-- Description: Guests get an anonymous Supabase session so they can favorite fields and
+-- save field submissions as drafts under their own user id. Drafts go to the moderation
+-- queue once the guest links a Google, Apple or email identity; everything else that
+-- other players see (reviews, reports, edit suggestions, games) still needs an account
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+-- Enable "Allow anonymous sign-ins" and "Allow manual linking" under
+-- Authentication > Sign In / Providers first
+--
+-- Run step 1 on its own: a new enum value can't be used in the transaction that adds it
+
+-- Step 1
+ALTER TYPE field_status ADD VALUE IF NOT EXISTS 'draft' BEFORE 'pending';
+
+-- Step 2
+
+-- Function to check whether the current user is signed in anonymously
+CREATE OR REPLACE FUNCTION is_guest()
+RETURNS BOOLEAN AS $$
+  SELECT coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false);
+$$ LANGUAGE sql STABLE;
+
+-- Guests can only save drafts; accounts submit fields for review as before
+DROP POLICY IF EXISTS "Authenticated users can create fields" ON public.fields;
+CREATE POLICY "Authenticated users can create fields"
+  ON public.fields FOR INSERT
+  WITH CHECK (
+    auth.role() = 'authenticated'
+    AND CASE
+      WHEN is_guest() THEN status = 'draft'
+      ELSE status = 'pending' OR is_moderator()
+    END
+  );
+
+CREATE OR REPLACE FUNCTION create_field_with_images(
+  field_data JSONB,
+  image_urls TEXT[]
+)
+RETURNS SETOF public.fields AS $$
+DECLARE
+  new_field public.fields;
+BEGIN
+  IF coalesce(array_length(image_urls, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A field needs at least one photo'
+      USING ERRCODE = 'DTP02';
+  END IF;
+
+  INSERT INTO public.fields (
+    name, description, latitude, longitude, address, city, country,
+    surface_type, is_free, has_lights, has_goals, has_changing_rooms, has_parking,
+    player_capacity, notes, possible_duplicate_of, status, created_by
+  )
+  SELECT
+    r.name, r.description, r.latitude, r.longitude, r.address, r.city, r.country,
+    r.surface_type, r.is_free, r.has_lights, r.has_goals, r.has_changing_rooms, r.has_parking,
+    r.player_capacity, r.notes, r.possible_duplicate_of,
+    CASE WHEN is_guest() THEN 'draft' ELSE 'pending' END::field_status, auth.uid()
+  FROM jsonb_populate_record(NULL::public.fields, field_data) r
+  RETURNING * INTO new_field;
+
+  INSERT INTO public.field_images (field_id, image_url, is_primary, uploaded_by)
+  SELECT new_field.id, u.url, u.position = 1, auth.uid()
+  FROM unnest(image_urls) WITH ORDINALITY AS u(url, position);
+
+  RETURN NEXT new_field;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Owners with an account may send their drafts for review; nothing else changes status
+CREATE OR REPLACE FUNCTION enforce_field_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_moderator() THEN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      NEW.reviewed_by = auth.uid();
+      NEW.reviewed_at = NOW();
+      IF NEW.status <> 'rejected' THEN
+        NEW.rejection_reason = NULL;
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'draft' AND NEW.status = 'pending' AND NOT is_guest() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason
+    OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    RAISE EXCEPTION 'Only moderators can change the status of a field';
+  END IF;
+
+  IF OLD.status = 'rejected' THEN
+    NEW.status = 'pending';
+    NEW.rejection_reason = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Guests can only add photos to their own drafts
+DROP POLICY IF EXISTS "Guests can only add photos to their drafts" ON public.field_images;
+CREATE POLICY "Guests can only add photos to their drafts"
+  ON public.field_images AS RESTRICTIVE FOR INSERT
+  WITH CHECK (
+    NOT is_guest()
+    OR EXISTS (
+      SELECT 1 FROM public.fields f
+      WHERE f.id = field_id
+      AND f.created_by = auth.uid()
+      AND f.status = 'draft'
+    )
+  );
+
+-- Contributions other players see need an account
+DROP POLICY IF EXISTS "Guests can't review fields" ON public.field_reviews;
+CREATE POLICY "Guests can't review fields"
+  ON public.field_reviews AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_guest());
+
+DROP POLICY IF EXISTS "Guests can't report fields" ON public.field_reports;
+CREATE POLICY "Guests can't report fields"
+  ON public.field_reports AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_guest());
+
+DROP POLICY IF EXISTS "Guests can't suggest edits" ON public.field_edit_suggestions;
+CREATE POLICY "Guests can't suggest edits"
+  ON public.field_edit_suggestions AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_guest());
+
+DROP POLICY IF EXISTS "Guests can't organize games" ON public.games;
+CREATE POLICY "Guests can't organize games"
+  ON public.games AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_guest());
+
+DROP POLICY IF EXISTS "Guests can't join games" ON public.game_players;
+CREATE POLICY "Guests can't join games"
+  ON public.game_players AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_guest());
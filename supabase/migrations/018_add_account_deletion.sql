@@ -0,0 +1,83 @@
+-- Migration: Add account deletion and data export
+-- Date: 2026-10-19
+-- Description: Lets users download their data as JSON and delete their account from the
+-- app. Deleting removes the profile and everything personal (reviews, favorites, reports,
+-- photos); fields and games they contributed stay, with created_by / organizer_id
+-- cleared by the ON DELETE SET NULL foreign keys
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+-- The app removes the user's photos from storage before calling delete_account(); any it
+-- couldn't remove are orphaned and cleaned up by scripts/purge-orphaned-images.mjs
+
+-- Function to collect everything stored about the current user
+CREATE OR REPLACE FUNCTION export_account_data()
+RETURNS JSONB AS $$
+DECLARE
+  uid UUID := auth.uid();
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in to export your data';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'exported_at', NOW(),
+    'email', (SELECT u.email FROM auth.users u WHERE u.id = uid),
+    'profile', (
+      SELECT to_jsonb(p) - 'role'
+      FROM public.profiles p
+      WHERE p.id = uid
+    ),
+    'fields', coalesce((
+      SELECT jsonb_agg(to_jsonb(f) - 'location' - 'search_vector' ORDER BY f.created_at)
+      FROM public.fields f
+      WHERE f.created_by = uid
+    ), '[]'::jsonb),
+    'images', coalesce((
+      SELECT jsonb_agg(to_jsonb(i) ORDER BY i.created_at)
+      FROM public.field_images i
+      WHERE i.uploaded_by = uid
+    ), '[]'::jsonb),
+    'reviews', coalesce((
+      SELECT jsonb_agg(to_jsonb(r) ORDER BY r.created_at)
+      FROM public.field_reviews r
+      WHERE r.user_id = uid
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to delete the current user's account
+-- Drafts and photos go with the account; deleting the auth user cascades to the profile,
+-- which removes reviews, favorites, reports and suggestions and anonymizes the rest
+CREATE OR REPLACE FUNCTION delete_account()
+RETURNS VOID AS $$
+DECLARE
+  uid UUID := auth.uid();
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in to delete your account';
+  END IF;
+
+  DELETE FROM public.fields WHERE created_by = uid AND status = 'draft';
+  DELETE FROM public.field_images WHERE uploaded_by = uid;
+
+  -- Fields that lost their primary photo fall back to their oldest remaining one
+  UPDATE public.field_images i
+  SET is_primary = TRUE
+  WHERE i.id IN (
+    SELECT DISTINCT ON (fi.field_id) fi.id
+    FROM public.field_images fi
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.field_images p WHERE p.field_id = fi.field_id AND p.is_primary
+    )
+    ORDER BY fi.field_id, fi.created_at
+  );
+
+  DELETE FROM auth.users WHERE id = uid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION export_account_data() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION delete_account() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION export_account_data() TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_account() TO authenticated;
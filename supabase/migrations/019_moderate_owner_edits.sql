@@ -0,0 +1,58 @@
+-- Migration: Moderate owner edits of approved fields
+-- Date: 2026-10-19
+-- Description: Owners can still edit their fields in any status, but changing the details
+-- of an approved field now sends it back to the moderation queue instead of going live
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Only moderators can change a field's status; their decision is recorded on the field
+-- Owners editing the details of an approved or rejected field send it back to the
+-- moderation queue, and owners with an account may send the drafts they saved as a guest
+-- Updates made by other triggers (like rating aggregates) aren't edits and are let through
+CREATE OR REPLACE FUNCTION enforce_field_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_moderator() THEN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      NEW.reviewed_by = auth.uid();
+      NEW.reviewed_at = NOW();
+      IF NEW.status <> 'rejected' THEN
+        NEW.rejection_reason = NULL;
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'draft' AND NEW.status = 'pending' AND NOT is_guest() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason
+    OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    RAISE EXCEPTION 'Only moderators can change the status of a field';
+  END IF;
+
+  IF OLD.status = 'rejected' THEN
+    NEW.status = 'pending';
+    NEW.rejection_reason = NULL;
+  ELSIF OLD.status = 'active' AND EXISTS (
+    SELECT 1
+    FROM unnest(ARRAY[
+      'name', 'description', 'latitude', 'longitude', 'address', 'city', 'country',
+      'surface_type', 'is_free', 'has_lights', 'has_goals', 'has_changing_rooms', 'has_parking',
+      'player_capacity', 'notes'
+    ]) AS key
+    WHERE to_jsonb(OLD) -> key IS DISTINCT FROM to_jsonb(NEW) -> key
+  ) THEN
+    NEW.status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,33 @@
+-- Migration: Protect field ratings
+-- Date: 2026-10-19
+-- Description: A field's average rating and review count can only be written by the
+-- review aggregate trigger, so owners can't forge the rating of their own fields
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- New fields start unrated, and only update_field_rating() may change the aggregates later
+-- Changes made by other triggers, the dashboard or scripts are let through
+CREATE OR REPLACE FUNCTION protect_field_ratings()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.average_rating = NULL;
+    NEW.review_count = 0;
+  ELSIF NEW.average_rating IS DISTINCT FROM OLD.average_rating
+    OR NEW.review_count IS DISTINCT FROM OLD.review_count THEN
+    RAISE EXCEPTION 'Field ratings are calculated from reviews and cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_field_ratings ON public.fields;
+CREATE TRIGGER trigger_protect_field_ratings
+  BEFORE INSERT OR UPDATE ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_field_ratings();
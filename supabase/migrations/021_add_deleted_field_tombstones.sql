@@ -0,0 +1,89 @@
+-- Migration: Report deleted fields to cached maps
+-- Date: 2026-10-19
+-- Description: Deleted fields leave a tombstone so find_hidden_field_ids_in_bounds can tell
+-- the app to drop them from its offline cache, and that function now returns its results
+-- one page at a time like find_fields_in_bounds
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Fields that were deleted, kept long enough for cached tiles to hear about it
+CREATE TABLE IF NOT EXISTS public.deleted_fields (
+  id UUID PRIMARY KEY,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  location GEOGRAPHY(POINT, 4326) GENERATED ALWAYS AS (
+    ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+  ) STORED,
+  deleted_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for tombstones in a bounding box and for pruning old ones
+CREATE INDEX IF NOT EXISTS idx_deleted_fields_location ON public.deleted_fields USING GIST (location);
+CREATE INDEX IF NOT EXISTS idx_deleted_fields_deleted_at ON public.deleted_fields (deleted_at);
+
+-- Only read through find_hidden_field_ids_in_bounds()
+ALTER TABLE public.deleted_fields ENABLE ROW LEVEL SECURITY;
+
+-- Leave a tombstone for every deleted field
+-- Cached tiles older than a day are reloaded in full, so week-old tombstones are pruned
+CREATE OR REPLACE FUNCTION record_deleted_field()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.deleted_fields WHERE deleted_at < NOW() - INTERVAL '7 days';
+
+  INSERT INTO public.deleted_fields (id, latitude, longitude)
+  VALUES (OLD.id, OLD.latitude, OLD.longitude)
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_deleted_field ON public.fields;
+CREATE TRIGGER trigger_record_deleted_field
+  AFTER DELETE ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION record_deleted_field();
+
+-- The signature changes, so the old version has to be dropped before being recreated
+DROP FUNCTION IF EXISTS find_hidden_field_ids_in_bounds(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ
+);
+
+-- Function to find fields inside a bounding box that were taken off the map
+-- (rejected, deactivated, sent back to moderation or deleted) after updated_since
+-- Only ids are returned so cached copies can be dropped without exposing hidden fields
+-- Pages are keyed by field id: pass the last id of the previous page as after_id
+CREATE OR REPLACE FUNCTION find_hidden_field_ids_in_bounds(
+  min_lat DOUBLE PRECISION,
+  min_lng DOUBLE PRECISION,
+  max_lat DOUBLE PRECISION,
+  max_lng DOUBLE PRECISION,
+  updated_since TIMESTAMPTZ,
+  page_size INTEGER DEFAULT 200,
+  after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT hidden.id, hidden.updated_at
+  FROM (
+    SELECT f.id, f.updated_at
+    FROM public.fields f
+    WHERE f.status <> 'active'
+      AND f.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+      AND f.updated_at > updated_since
+    UNION ALL
+    SELECT d.id, d.deleted_at
+    FROM public.deleted_fields d
+    WHERE d.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+      AND d.deleted_at > updated_since
+  ) hidden
+  WHERE after_id IS NULL OR hidden.id > after_id
+  ORDER BY hidden.id
+  LIMIT LEAST(GREATEST(page_size, 1), 1000);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
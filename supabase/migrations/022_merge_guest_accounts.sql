@@ -0,0 +1,119 @@
+-- Migration: Merge guest accounts into existing accounts
+-- Date: 2026-10-19
+-- Description: A guest who signs in to an account they already have keeps what they saved
+-- as a guest: their drafts (sent for review), photos and favorites move to the account and
+-- the guest account is deleted. Guests that were abandoned are cleaned up by
+-- scripts/purge-guest-accounts.mjs
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- One-time tokens a guest hands over to the account they sign in to, proving the guest
+-- account is theirs
+CREATE TABLE IF NOT EXISTS public.guest_merge_tokens (
+  token UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guest_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Only used through the functions below
+ALTER TABLE public.guest_merge_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Function for a guest to get a token before signing in to an existing account
+CREATE OR REPLACE FUNCTION create_guest_merge_token()
+RETURNS UUID AS $$
+DECLARE
+  new_token UUID;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_guest() THEN
+    RAISE EXCEPTION 'Only guests can merge their account';
+  END IF;
+
+  DELETE FROM public.guest_merge_tokens WHERE guest_id = auth.uid();
+
+  INSERT INTO public.guest_merge_tokens (guest_id)
+  VALUES (auth.uid())
+  RETURNING token INTO new_token;
+
+  RETURN new_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to move a guest's drafts, photos and favorites to the current account
+-- Drafts go to the moderation queue; the guest account is deleted afterwards
+-- Photo files stay in the guest's storage folder, where their URLs keep working
+CREATE OR REPLACE FUNCTION merge_guest_account(merge_token UUID)
+RETURNS VOID AS $$
+DECLARE
+  uid UUID := auth.uid();
+  guest UUID;
+BEGIN
+  IF uid IS NULL OR is_guest() THEN
+    RAISE EXCEPTION 'You need to be signed in to merge a guest account';
+  END IF;
+
+  DELETE FROM public.guest_merge_tokens t
+  WHERE t.token = merge_token AND t.created_at > NOW() - INTERVAL '1 hour'
+  RETURNING t.guest_id INTO guest;
+
+  -- A guest who linked an identity kept their own account, so there's nothing to move
+  IF guest IS NULL OR guest = uid
+    OR NOT EXISTS (SELECT 1 FROM auth.users u WHERE u.id = guest AND u.is_anonymous) THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.fields
+  SET
+    created_by = uid,
+    status = CASE WHEN status = 'draft' THEN 'pending'::field_status ELSE status END
+  WHERE created_by = guest;
+
+  UPDATE public.field_images SET uploaded_by = uid WHERE uploaded_by = guest;
+  UPDATE public.field_history SET changed_by = uid WHERE changed_by = guest;
+
+  INSERT INTO public.favorite_fields (user_id, field_id, created_at)
+  SELECT uid, fav.field_id, fav.created_at
+  FROM public.favorite_fields fav
+  WHERE fav.user_id = guest
+  ON CONFLICT (user_id, field_id) DO NOTHING;
+
+  -- Cascades to the guest's profile and remaining favorites
+  DELETE FROM auth.users WHERE id = guest;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to delete guest accounts nobody has used for min_age, along with their drafts
+-- Their photos become orphaned and are removed by scripts/purge-orphaned-images.mjs
+CREATE OR REPLACE FUNCTION purge_stale_guest_accounts(min_age INTERVAL DEFAULT '30 days')
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  CREATE TEMP TABLE stale_guests ON COMMIT DROP AS
+  SELECT u.id
+  FROM auth.users u
+  WHERE u.is_anonymous
+    AND u.created_at < NOW() - min_age
+    AND NOT EXISTS (
+      SELECT 1 FROM auth.sessions s
+      WHERE s.user_id = u.id
+        AND GREATEST(s.updated_at, s.refreshed_at AT TIME ZONE 'UTC') > NOW() - min_age
+    );
+
+  DELETE FROM public.fields
+  WHERE status = 'draft' AND created_by IN (SELECT id FROM stale_guests);
+
+  DELETE FROM auth.users WHERE id IN (SELECT id FROM stale_guests);
+  GET DIAGNOSTICS purged = ROW_COUNT;
+
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_guest_merge_token() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION merge_guest_account(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_guest_merge_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_guest_account(UUID) TO authenticated;
+
+-- Maintenance function for the service role only (scripts/purge-guest-accounts.mjs)
+REVOKE EXECUTE ON FUNCTION purge_stale_guest_accounts(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_stale_guest_accounts(INTERVAL) TO service_role;
@@ -0,0 +1,49 @@
+-- Migration: Validate edit suggestion values
+-- Date: 2026-10-19
+-- Description: Edit suggestions are checked for values the field can actually hold (a known
+-- surface, whole player capacity, yes/no amenities, a name), not just for allowed keys, so a
+-- bad suggestion is rejected when it's sent rather than when it's accepted
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Only let suggestions change the attributes players can check on site, to values the
+-- field can hold, so accepting a suggestion never fails
+CREATE OR REPLACE FUNCTION validate_field_edit_suggestion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(NEW.changes) AS key
+    WHERE key NOT IN (
+      'name', 'description', 'address', 'surface_type', 'is_free', 'has_lights', 'has_goals',
+      'has_changing_rooms', 'has_parking', 'player_capacity', 'notes'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Suggestions can only change the field''s details and amenities';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_each(NEW.changes) AS c(key, value)
+    WHERE CASE
+      WHEN c.key IN ('is_free', 'has_lights', 'has_goals', 'has_changing_rooms', 'has_parking')
+        THEN jsonb_typeof(c.value) <> 'boolean'
+      WHEN c.key = 'surface_type'
+        THEN jsonb_typeof(c.value) <> 'string'
+          OR NOT (c.value #>> '{}') = ANY(enum_range(NULL::surface_type)::TEXT[])
+      WHEN c.key = 'player_capacity'
+        THEN CASE jsonb_typeof(c.value)
+          WHEN 'null' THEN FALSE
+          WHEN 'number' THEN c.value::NUMERIC % 1 <> 0
+            OR c.value::NUMERIC NOT BETWEEN 1 AND 2147483647
+          ELSE TRUE
+        END
+      WHEN c.key = 'name'
+        THEN jsonb_typeof(c.value) <> 'string' OR btrim(c.value #>> '{}') = ''
+      ELSE jsonb_typeof(c.value) NOT IN ('string', 'null')
+    END
+  ) THEN
+    RAISE EXCEPTION 'Suggested values are not valid for this field';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
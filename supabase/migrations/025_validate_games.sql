@@ -0,0 +1,48 @@
+-- Migration: Validate new games and keep organizers on their rosters
+-- Date: 2026-10-19
+-- Description: Games can only be organized at approved fields and must start in the future,
+-- and organizers can no longer leave their own games
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Only allow games at approved fields that haven't started yet
+-- Checked again when a game is moved to another field or time
+CREATE OR REPLACE FUNCTION validate_game()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.fields f
+    WHERE f.id = NEW.field_id AND f.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Games can only be organized at approved fields';
+  END IF;
+
+  IF NEW.starts_at <= NOW() THEN
+    RAISE EXCEPTION 'The game must start in the future';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_validate_game ON public.games;
+CREATE TRIGGER trigger_validate_game
+  BEFORE INSERT OR UPDATE OF field_id, starts_at ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_game();
+
+-- Organizers stay on the roster of the games they run
+DROP POLICY IF EXISTS "Users can leave games" ON public.game_players;
+CREATE POLICY "Users can leave games"
+  ON public.game_players FOR DELETE
+  USING (
+    player_id = auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.games g
+      WHERE g.id = game_id AND g.organizer_id = auth.uid()
+    )
+  );
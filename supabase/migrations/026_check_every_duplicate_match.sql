@@ -0,0 +1,36 @@
+-- Migration: Check every possible duplicate of a new field
+-- Date: 2026-10-19
+-- Description: Confirming a new field is different from one nearby match no longer lets it
+-- through when other nearby fields match too; only the confirmed match is skipped
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Reject new fields that duplicate an existing one, unless the submitter confirmed
+-- the field is different by naming the match in possible_duplicate_of (moderators see it)
+-- Only one match can be confirmed, so any other match still rejects the field
+-- Inserts without a user (dashboard, scripts) are not checked
+CREATE OR REPLACE FUNCTION prevent_duplicate_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.possible_duplicate_of IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM find_duplicate_fields(NEW.latitude, NEW.longitude, NEW.name) d
+    WHERE d.id = NEW.possible_duplicate_of
+  ) THEN
+    NEW.possible_duplicate_of = NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM find_duplicate_fields(NEW.latitude, NEW.longitude, NEW.name) d
+    WHERE d.id IS DISTINCT FROM NEW.possible_duplicate_of
+  ) THEN
+    RAISE EXCEPTION 'A similar field already exists at this location'
+      USING ERRCODE = 'DTP01';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
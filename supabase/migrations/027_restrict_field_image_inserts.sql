@@ -0,0 +1,51 @@
+-- Migration: Restrict who can add photos to a field
+-- Date: 2026-10-19
+-- Description: Photos can only be added by the signed-in uploader, to approved fields or the
+-- uploader's own fields, and must be files they uploaded to the field-images bucket. Only
+-- the owner can make a photo primary, unless the field has no primary photo yet
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Function to check that a photo URL points at a file the current user uploaded to the
+-- project's field-images bucket (files live in a folder named after the uploader's ID)
+-- Projects served from a custom domain need their host in the pattern below
+CREATE OR REPLACE FUNCTION is_own_field_image_upload(url TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN url ~ '^https://[a-z0-9-]+\.supabase\.co/storage/v1/object/public/field-images/'
+    AND EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'field-images'
+        AND o.name = split_part(url, '/field-images/', 2)
+        AND (storage.foldername(o.name))[1] = auth.uid()::text
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION is_own_field_image_upload(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_own_field_image_upload(TEXT) TO authenticated;
+
+DROP POLICY IF EXISTS "Authenticated users can upload images" ON public.field_images;
+CREATE POLICY "Authenticated users can upload images"
+  ON public.field_images FOR INSERT
+  WITH CHECK (
+    auth.role() = 'authenticated'
+    AND uploaded_by = auth.uid()
+    AND is_own_field_image_upload(image_url)
+    AND EXISTS (
+      SELECT 1 FROM public.fields f
+      WHERE f.id = field_id
+      AND (f.status = 'active' OR f.created_by = auth.uid())
+    )
+    AND (
+      NOT is_primary
+      OR EXISTS (
+        SELECT 1 FROM public.fields f
+        WHERE f.id = field_id AND f.created_by = auth.uid()
+      )
+      OR NOT EXISTS (
+        SELECT 1 FROM public.field_images i
+        WHERE i.field_id = field_images.field_id AND i.is_primary
+      )
+    )
+  );
@@ -0,0 +1,82 @@
+-- Migration: Hide other players' pending fields from duplicate checks
+-- Date: 2026-10-19
+-- Description: find_duplicate_fields only shows the details of pending matches to their
+-- creator and to moderators; anyone else just learns that a match exists. The search radius
+-- is capped at 200m and the function is no longer available without signing in
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- The return type changes, so the old version has to be dropped before being recreated
+DROP FUNCTION IF EXISTS find_duplicate_fields(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, REAL
+);
+
+-- Function to find existing fields that a new submission probably duplicates
+-- A field matches when it's within radius_meters (at most 200m) and either very close
+-- (under 30m) or has a similar name (trigram similarity). Pending submissions count too,
+-- but only their creator and moderators see which field it is: for everyone else the
+-- match is returned with is_hidden set and no details
+CREATE OR REPLACE FUNCTION find_duplicate_fields(
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  field_name TEXT,
+  radius_meters INTEGER DEFAULT 100,
+  min_similarity REAL DEFAULT 0.3
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  city TEXT,
+  status field_status,
+  distance_meters DOUBLE PRECISION,
+  name_similarity REAL,
+  is_hidden BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    CASE WHEN m.is_hidden THEN NULL ELSE m.id END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.name END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.latitude END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.longitude END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.address END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.city END,
+    m.status,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.distance_meters END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.name_similarity END,
+    m.is_hidden
+  FROM (
+    SELECT
+      f.id,
+      f.name,
+      f.latitude,
+      f.longitude,
+      f.address,
+      f.city,
+      f.status,
+      ST_Distance(f.location, ST_MakePoint(lng, lat)::geography) AS distance_meters,
+      similarity(f.name, coalesce(field_name, '')) AS name_similarity,
+      f.status <> 'active' AND f.created_by IS DISTINCT FROM auth.uid() AND NOT is_moderator()
+        AS is_hidden
+    FROM public.fields f
+    WHERE f.status IN ('active', 'pending')
+      AND ST_DWithin(f.location, ST_MakePoint(lng, lat)::geography, LEAST(radius_meters, 200))
+      AND (
+        ST_DWithin(f.location, ST_MakePoint(lng, lat)::geography, 30)
+        OR similarity(f.name, coalesce(field_name, '')) >= min_similarity
+      )
+    ORDER BY name_similarity DESC, distance_meters ASC
+    LIMIT 5
+  ) m;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION find_duplicate_fields(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, REAL
+) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_duplicate_fields(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, REAL
+) TO authenticated;
@@ -0,0 +1,145 @@
+-- Migration: Keep fields live when owners accept edit suggestions
+-- Date: 2026-10-19
+-- Description: Accepting a suggestion no longer counts as an owner edit, so the field stays
+-- on the map instead of going back to the moderation queue, as the suggester is told
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Only moderators can change a field's status; their decision is recorded on the field
+-- Owners editing the details of an approved or rejected field send it back to the
+-- moderation queue, and owners with an account may send the drafts they saved as a guest
+-- Updates made by other triggers (like rating aggregates) aren't edits and are let through,
+-- and neither are suggestions the owner accepted, which were reviewed already
+CREATE OR REPLACE FUNCTION enforce_field_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_moderator() THEN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      NEW.reviewed_by = auth.uid();
+      NEW.reviewed_at = NOW();
+      IF NEW.status <> 'rejected' THEN
+        NEW.rejection_reason = NULL;
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'draft' AND NEW.status = 'pending' AND NOT is_guest() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason
+    OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    RAISE EXCEPTION 'Only moderators can change the status of a field';
+  END IF;
+
+  IF current_setting('app.applying_edit_suggestion', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'rejected' THEN
+    NEW.status = 'pending';
+    NEW.rejection_reason = NULL;
+  ELSIF OLD.status = 'active' AND EXISTS (
+    SELECT 1
+    FROM unnest(ARRAY[
+      'name', 'description', 'latitude', 'longitude', 'address', 'city', 'country',
+      'surface_type', 'is_free', 'has_lights', 'has_goals', 'has_changing_rooms', 'has_parking',
+      'player_capacity', 'notes'
+    ]) AS key
+    WHERE to_jsonb(OLD) -> key IS DISTINCT FROM to_jsonb(NEW) -> key
+  ) THEN
+    NEW.status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function for a field's owner or a moderator to accept or reject an edit suggestion
+-- Owners can't accept their own suggestions; those wait for a moderator
+CREATE OR REPLACE FUNCTION review_field_edit_suggestion(suggestion_id UUID, accept BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  suggestion public.field_edit_suggestions%ROWTYPE;
+  target public.fields%ROWTYPE;
+  replaced JSONB;
+BEGIN
+  SELECT * INTO suggestion FROM public.field_edit_suggestions
+  WHERE id = suggestion_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF suggestion.id IS NULL THEN
+    RAISE EXCEPTION 'This suggestion has already been reviewed';
+  END IF;
+
+  SELECT * INTO target FROM public.fields WHERE id = suggestion.field_id FOR UPDATE;
+
+  IF NOT is_moderator()
+    AND (target.created_by IS DISTINCT FROM auth.uid() OR suggestion.suggested_by = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the field owner or a moderator can review this suggestion';
+  END IF;
+
+  IF accept THEN
+    SELECT jsonb_object_agg(key, to_jsonb(target) -> key) INTO replaced
+    FROM jsonb_object_keys(suggestion.changes) AS key;
+
+    -- Accepting is the review, so the field stays live (see enforce_field_moderation)
+    PERFORM set_config('app.applying_edit_suggestion', 'on', true);
+
+    UPDATE public.fields
+    SET
+      name = CASE WHEN suggestion.changes ? 'name'
+        THEN suggestion.changes ->> 'name' ELSE name END,
+      description = CASE WHEN suggestion.changes ? 'description'
+        THEN suggestion.changes ->> 'description' ELSE description END,
+      address = CASE WHEN suggestion.changes ? 'address'
+        THEN suggestion.changes ->> 'address' ELSE address END,
+      surface_type = CASE WHEN suggestion.changes ? 'surface_type'
+        THEN (suggestion.changes ->> 'surface_type')::surface_type ELSE surface_type END,
+      is_free = CASE WHEN suggestion.changes ? 'is_free'
+        THEN (suggestion.changes ->> 'is_free')::BOOLEAN ELSE is_free END,
+      has_lights = CASE WHEN suggestion.changes ? 'has_lights'
+        THEN (suggestion.changes ->> 'has_lights')::BOOLEAN ELSE has_lights END,
+      has_goals = CASE WHEN suggestion.changes ? 'has_goals'
+        THEN (suggestion.changes ->> 'has_goals')::BOOLEAN ELSE has_goals END,
+      has_changing_rooms = CASE WHEN suggestion.changes ? 'has_changing_rooms'
+        THEN (suggestion.changes ->> 'has_changing_rooms')::BOOLEAN ELSE has_changing_rooms END,
+      has_parking = CASE WHEN suggestion.changes ? 'has_parking'
+        THEN (suggestion.changes ->> 'has_parking')::BOOLEAN ELSE has_parking END,
+      player_capacity = CASE WHEN suggestion.changes ? 'player_capacity'
+        THEN (suggestion.changes ->> 'player_capacity')::INTEGER ELSE player_capacity END,
+      notes = CASE WHEN suggestion.changes ? 'notes'
+        THEN suggestion.changes ->> 'notes' ELSE notes END
+    WHERE id = target.id;
+
+    PERFORM set_config('app.applying_edit_suggestion', 'off', true);
+  END IF;
+
+  UPDATE public.field_edit_suggestions
+  SET
+    status = CASE WHEN accept THEN 'accepted' ELSE 'rejected' END::suggestion_status,
+    previous_values = replaced,
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW()
+  WHERE id = suggestion.id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, field_id)
+  VALUES (
+    suggestion.suggested_by,
+    CASE WHEN accept THEN 'edit_suggestion_accepted' ELSE 'edit_suggestion_rejected' END,
+    CASE WHEN accept THEN 'Suggestion accepted' ELSE 'Suggestion not accepted' END,
+    CASE WHEN accept
+      THEN format('Your changes to "%s" are now live. Thanks for keeping it up to date!', target.name)
+      ELSE format('Your suggested changes to "%s" were not accepted.', target.name)
+    END,
+    target.id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
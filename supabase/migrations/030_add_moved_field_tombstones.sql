@@ -0,0 +1,97 @@
+-- Migration: Report moved fields to cached maps
+-- Date: 2026-10-19
+-- Description: Moving a field leaves a tombstone at its old location, so
+-- find_hidden_field_ids_in_bounds tells cached tiles there to drop it instead of showing it
+-- in its old place until the tile is reloaded in full
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Locations fields were moved away from, kept as long as deleted field tombstones
+CREATE TABLE IF NOT EXISTS public.moved_fields (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  location GEOGRAPHY(POINT, 4326) GENERATED ALWAYS AS (
+    ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+  ) STORED,
+  moved_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for tombstones in a bounding box and for pruning old ones
+CREATE INDEX IF NOT EXISTS idx_moved_fields_location ON public.moved_fields USING GIST (location);
+CREATE INDEX IF NOT EXISTS idx_moved_fields_moved_at ON public.moved_fields (moved_at);
+
+-- Only read through find_hidden_field_ids_in_bounds()
+ALTER TABLE public.moved_fields ENABLE ROW LEVEL SECURITY;
+
+-- Leave a tombstone at the old location of every moved field
+CREATE OR REPLACE FUNCTION record_moved_field()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.moved_fields WHERE moved_at < NOW() - INTERVAL '7 days';
+
+  INSERT INTO public.moved_fields (field_id, latitude, longitude)
+  VALUES (OLD.id, OLD.latitude, OLD.longitude);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_moved_field ON public.fields;
+CREATE TRIGGER trigger_record_moved_field
+  AFTER UPDATE OF latitude, longitude ON public.fields
+  FOR EACH ROW
+  WHEN (OLD.latitude IS DISTINCT FROM NEW.latitude OR OLD.longitude IS DISTINCT FROM NEW.longitude)
+  EXECUTE FUNCTION record_moved_field();
+
+-- Function to find fields inside a bounding box that were taken off the map
+-- (rejected, deactivated, sent back to moderation, deleted or moved elsewhere) after
+-- updated_since
+-- Only ids are returned so cached copies can be dropped without exposing hidden fields
+-- Pages are keyed by field id: pass the last id of the previous page as after_id
+CREATE OR REPLACE FUNCTION find_hidden_field_ids_in_bounds(
+  min_lat DOUBLE PRECISION,
+  min_lng DOUBLE PRECISION,
+  max_lat DOUBLE PRECISION,
+  max_lng DOUBLE PRECISION,
+  updated_since TIMESTAMPTZ,
+  page_size INTEGER DEFAULT 200,
+  after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT hidden.id, MAX(hidden.updated_at)
+  FROM (
+    SELECT f.id, f.updated_at
+    FROM public.fields f
+    WHERE f.status <> 'active'
+      AND f.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+      AND f.updated_at > updated_since
+    UNION ALL
+    SELECT d.id, d.deleted_at
+    FROM public.deleted_fields d
+    WHERE d.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+      AND d.deleted_at > updated_since
+    UNION ALL
+    -- Fields moved within the box are still in it
+    SELECT m.field_id, m.moved_at
+    FROM public.moved_fields m
+    WHERE m.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+      AND m.moved_at > updated_since
+      AND NOT EXISTS (
+        SELECT 1 FROM public.fields f
+        WHERE f.id = m.field_id
+          AND f.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+      )
+  ) hidden
+  WHERE after_id IS NULL OR hidden.id > after_id
+  GROUP BY hidden.id
+  ORDER BY hidden.id
+  LIMIT LEAST(GREATEST(page_size, 1), 1000);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
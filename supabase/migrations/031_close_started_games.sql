@@ -0,0 +1,42 @@
+-- Migration: Close started games and keep games with their organizers
+-- Date: 2026-10-19
+-- Description: Players can no longer join a game once it has started, and organizers can't
+-- hand a game over to someone else by changing its organizer
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Only allow joining scheduled games that haven't started and still have room
+CREATE OR REPLACE FUNCTION enforce_game_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  game_record RECORD;
+  player_count INTEGER;
+BEGIN
+  SELECT max_players, status, starts_at INTO game_record
+  FROM public.games
+  WHERE id = NEW.game_id
+  FOR UPDATE;
+
+  IF game_record.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This game is no longer open for players';
+  END IF;
+
+  IF game_record.starts_at <= NOW() THEN
+    RAISE EXCEPTION 'This game has already started';
+  END IF;
+
+  SELECT COUNT(*) INTO player_count FROM public.game_players WHERE game_id = NEW.game_id;
+
+  IF player_count >= game_record.max_players THEN
+    RAISE EXCEPTION 'This game is already full';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Organizers can update their own games" ON public.games;
+CREATE POLICY "Organizers can update their own games"
+  ON public.games FOR UPDATE
+  USING (organizer_id = auth.uid())
+  WITH CHECK (organizer_id = auth.uid());
@@ -0,0 +1,56 @@
+-- Migration: Delete all of a user's photos with their account
+-- Date: 2026-10-19
+-- Description: delete_account() removes every photo the user uploaded, including the last
+-- photos of fields nobody else has photographed, instead of keeping them without consent.
+-- Fields left without a photo simply show none
+--
+-- Run this in your Supabase Dashboard > SQL Editor
+
+-- Function to delete the current user's account
+-- Returns the URLs of the photos it removed so the app can delete the files from storage
+-- Drafts and every photo the user uploaded go with the account. Deleting the auth user
+-- cascades to the profile, which removes reviews, favorites, reports and suggestions and
+-- anonymizes the rest
+CREATE OR REPLACE FUNCTION delete_account()
+RETURNS SETOF TEXT AS $$
+DECLARE
+  uid UUID := auth.uid();
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in to delete your account';
+  END IF;
+
+  RETURN QUERY
+  SELECT i.image_url
+  FROM public.field_images i
+  JOIN public.fields f ON f.id = i.field_id
+  WHERE f.created_by = uid AND f.status = 'draft';
+
+  DELETE FROM public.fields WHERE created_by = uid AND status = 'draft';
+
+  RETURN QUERY
+  WITH removed AS (
+    DELETE FROM public.field_images i
+    WHERE i.uploaded_by = uid
+    RETURNING i.image_url
+  )
+  SELECT removed.image_url FROM removed;
+
+  -- Fields that lost their primary photo fall back to their oldest remaining one
+  UPDATE public.field_images i
+  SET is_primary = TRUE
+  WHERE i.id IN (
+    SELECT DISTINCT ON (fi.field_id) fi.id
+    FROM public.field_images fi
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.field_images p WHERE p.field_id = fi.field_id AND p.is_primary
+    )
+    ORDER BY fi.field_id, fi.created_at
+  );
+
+  DELETE FROM auth.users WHERE id = uid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION delete_account() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION delete_account() TO authenticated;
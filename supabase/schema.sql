@@ -6,6 +6,9 @@
 -- Enable PostGIS extension for geospatial queries (if not already enabled)
 CREATE EXTENSION IF NOT EXISTS postgis;
 
+-- Enable trigram similarity for duplicate field detection
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 -- =====================================================
 -- ENUMS
 -- =====================================================
@@ -31,12 +34,49 @@ CREATE TYPE surface_type AS ENUM (
 
 -- Field status enum (for moderation workflow)
 CREATE TYPE field_status AS ENUM (
+  'draft',      -- Saved by a guest, sent for review once they have an account
   'pending',    -- Newly created, awaiting moderation
   'active',     -- Approved and visible to all users
   'inactive',   -- Temporarily disabled
   'rejected'    -- Rejected by moderators
 );
 
+-- User role enum (moderators review submitted fields)
+CREATE TYPE user_role AS ENUM (
+  'user',
+  'moderator'
+);
+
+-- Reasons users can give when reporting a field
+CREATE TYPE field_report_reason AS ENUM (
+  'does_not_exist',
+  'wrong_location',
+  'wrong_amenities',
+  'inappropriate_photo',
+  'duplicate'
+);
+
+-- Report status enum
+CREATE TYPE report_status AS ENUM (
+  'open',       -- Waiting for a moderator
+  'resolved',   -- A moderator acted on it
+  'dismissed'   -- A moderator found nothing wrong
+);
+
+-- Edit suggestion status enum
+CREATE TYPE suggestion_status AS ENUM (
+  'pending',    -- Waiting for the field owner or a moderator
+  'accepted',   -- Applied to the field
+  'rejected'    -- Not applied
+);
+
+-- Game status enum
+CREATE TYPE game_status AS ENUM (
+  'scheduled',  -- Upcoming and open for players
+  'cancelled',  -- Cancelled by the organizer
+  'completed'   -- Already played
+);
+
 -- =====================================================
 -- TABLES
 -- =====================================================
@@ -44,10 +84,15 @@ CREATE TYPE field_status AS ENUM (
 -- User profiles (extends Supabase auth.users)
 CREATE TABLE IF NOT EXISTS public.profiles (
   id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
-  username TEXT UNIQUE NOT NULL,
-  display_name TEXT,
+  -- 3-30 lowercase letters, numbers or underscores
+  username TEXT UNIQUE NOT NULL
+    CONSTRAINT profiles_username_format CHECK (username ~ '^[a-z0-9_]{3,30}$'),
+  display_name TEXT
+    CONSTRAINT profiles_display_name_length
+    CHECK (display_name IS NULL OR char_length(display_name) BETWEEN 1 AND 50),
   avatar_url TEXT,
   appearance appearance_preference DEFAULT 'system' NOT NULL,
+  role user_role DEFAULT 'user' NOT NULL,
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
 );
@@ -84,6 +129,25 @@ CREATE TABLE IF NOT EXISTS public.fields (
   
   -- Moderation status
   status field_status DEFAULT 'pending' NOT NULL,
+  rejection_reason TEXT,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+
+  -- Existing field the submitter confirmed this one is different from
+  possible_duplicate_of UUID REFERENCES public.fields(id) ON DELETE SET NULL,
+
+  -- Aggregated ratings, kept up to date by a trigger on field_reviews
+  average_rating REAL,
+  review_count INTEGER DEFAULT 0 NOT NULL,
+
+  -- Full-text search over the descriptive columns
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector(
+      'simple',
+      coalesce(name, '') || ' ' || coalesce(description, '') || ' ' ||
+      coalesce(address, '') || ' ' || coalesce(city, '')
+    )
+  ) STORED,
   
   -- Audit fields
   created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
@@ -101,6 +165,143 @@ CREATE TABLE IF NOT EXISTS public.field_images (
   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
 );
 
+-- Star ratings and written reviews of fields
+CREATE TABLE IF NOT EXISTS public.field_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  -- Overall rating plus optional sub-scores (1-5 stars)
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  surface_rating SMALLINT CHECK (surface_rating BETWEEN 1 AND 5),
+  goals_rating SMALLINT CHECK (goals_rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (char_length(comment) <= 1000),
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE (field_id, user_id)
+);
+
+-- Fields a user bookmarked
+CREATE TABLE IF NOT EXISTS public.favorite_fields (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, field_id)
+);
+
+-- Reports of wrong or abusive field data
+CREATE TABLE IF NOT EXISTS public.field_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason field_report_reason NOT NULL,
+  details TEXT CHECK (char_length(details) <= 1000),
+  status report_status DEFAULT 'open' NOT NULL,
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Proposed changes to a field's attributes
+CREATE TABLE IF NOT EXISTS public.field_edit_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  suggested_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Suggested values keyed by column name, only the attributes that change
+  changes JSONB NOT NULL CHECK (jsonb_typeof(changes) = 'object' AND changes <> '{}'::jsonb),
+  note TEXT CHECK (char_length(note) <= 500),
+  status suggestion_status DEFAULT 'pending' NOT NULL,
+  -- Values the accepted changes replaced
+  previous_values JSONB,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Changes made to fields, newest last
+CREATE TABLE IF NOT EXISTS public.field_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  -- NULL for changes made by the system (triggers, dashboard, scripts)
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- Values of the changed columns before and after the change, keyed by column name
+  old_values JSONB NOT NULL,
+  new_values JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Fields that were deleted, kept long enough for cached tiles to hear about it
+CREATE TABLE IF NOT EXISTS public.deleted_fields (
+  id UUID PRIMARY KEY,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  location GEOGRAPHY(POINT, 4326) GENERATED ALWAYS AS (
+    ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+  ) STORED,
+  deleted_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Locations fields were moved away from, kept as long as deleted field tombstones
+CREATE TABLE IF NOT EXISTS public.moved_fields (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  location GEOGRAPHY(POINT, 4326) GENERATED ALWAYS AS (
+    ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+  ) STORED,
+  moved_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- One-time tokens a guest hands over to the account they sign in to, proving the guest
+-- account is theirs
+CREATE TABLE IF NOT EXISTS public.guest_merge_tokens (
+  token UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guest_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Pickup games organized at a field
+CREATE TABLE IF NOT EXISTS public.games (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  field_id UUID NOT NULL REFERENCES public.fields(id) ON DELETE CASCADE,
+  organizer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+
+  -- Scheduling
+  starts_at TIMESTAMPTZ NOT NULL,
+  duration_minutes INTEGER DEFAULT 90 NOT NULL CHECK (duration_minutes > 0),
+  max_players INTEGER NOT NULL CHECK (max_players > 1),
+
+  status game_status DEFAULT 'scheduled' NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Players who joined a game (the organizer is added automatically)
+CREATE TABLE IF NOT EXISTS public.game_players (
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  joined_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (game_id, player_id)
+);
+
+-- In-app notifications (e.g. the outcome of a field review)
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  field_id UUID REFERENCES public.fields(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
 -- =====================================================
 -- INDEXES FOR PERFORMANCE
 -- =====================================================
@@ -114,12 +315,62 @@ CREATE INDEX IF NOT EXISTS idx_fields_status ON public.fields (status);
 -- Composite index for common query patterns
 CREATE INDEX IF NOT EXISTS idx_fields_status_created ON public.fields (status, created_at DESC);
 
+-- Full-text search index
+CREATE INDEX IF NOT EXISTS idx_fields_search ON public.fields USING GIN (search_vector);
+
+-- Index for refreshing cached fields (updated_since lookups)
+CREATE INDEX IF NOT EXISTS idx_fields_updated_at ON public.fields (updated_at);
+
+-- Index for the reviews of a field, newest first
+CREATE INDEX IF NOT EXISTS idx_field_reviews_field_created
+  ON public.field_reviews (field_id, created_at DESC);
+
+-- Index for cleaning up favorites when a field is deleted
+CREATE INDEX IF NOT EXISTS idx_favorite_fields_field_id ON public.favorite_fields (field_id);
+
+-- A user can only have one open report per field, so each report counts as independent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_field_reports_open_reporter
+  ON public.field_reports (field_id, reporter_id) WHERE status = 'open';
+
+-- Index for rate limiting a reporter's recent reports
+CREATE INDEX IF NOT EXISTS idx_field_reports_reporter_created
+  ON public.field_reports (reporter_id, created_at);
+
+-- Index for the pending suggestions of a field
+CREATE INDEX IF NOT EXISTS idx_field_edit_suggestions_pending
+  ON public.field_edit_suggestions (field_id, created_at) WHERE status = 'pending';
+
+-- Index for a user's own suggestions
+CREATE INDEX IF NOT EXISTS idx_field_edit_suggestions_suggested_by
+  ON public.field_edit_suggestions (suggested_by);
+
+-- Index for a field's history, newest first
+CREATE INDEX IF NOT EXISTS idx_field_history_field_created
+  ON public.field_history (field_id, created_at DESC);
+
+-- Indexes for tombstones in a bounding box and for pruning old ones
+CREATE INDEX IF NOT EXISTS idx_deleted_fields_location ON public.deleted_fields USING GIST (location);
+CREATE INDEX IF NOT EXISTS idx_deleted_fields_deleted_at ON public.deleted_fields (deleted_at);
+
+-- Indexes for moved field tombstones in a bounding box and for pruning old ones
+CREATE INDEX IF NOT EXISTS idx_moved_fields_location ON public.moved_fields USING GIST (location);
+CREATE INDEX IF NOT EXISTS idx_moved_fields_moved_at ON public.moved_fields (moved_at);
+
 -- Index for field images by field
 CREATE INDEX IF NOT EXISTS idx_field_images_field_id ON public.field_images (field_id);
 
 -- Index for finding primary images quickly
 CREATE INDEX IF NOT EXISTS idx_field_images_primary ON public.field_images (field_id) WHERE is_primary = TRUE;
 
+-- Index for upcoming games at a field
+CREATE INDEX IF NOT EXISTS idx_games_field_starts ON public.games (field_id, starts_at);
+
+-- Index for games a player has joined
+CREATE INDEX IF NOT EXISTS idx_game_players_player_id ON public.game_players (player_id);
+
+-- Index for a user's unread notifications
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON public.notifications (user_id, created_at) WHERE read_at IS NULL;
+
 -- =====================================================
 -- FUNCTIONS
 -- =====================================================
@@ -149,6 +400,7 @@ RETURNS TABLE (
   status field_status,
   created_by UUID,
   created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
   distance_meters DOUBLE PRECISION
 ) AS $$
 BEGIN
@@ -172,6 +424,7 @@ BEGIN
     f.status,
     f.created_by,
     f.created_at,
+    f.updated_at,
     ST_Distance(f.location, ST_MakePoint(lng, lat)::geography) as distance_meters
   FROM public.fields f
   WHERE f.status = 'active'
@@ -180,85 +433,1381 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Function to automatically update updated_at timestamp
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
+-- Function to find fields inside a bounding box, one page at a time
+-- Pages are keyed by field id: pass the last id of the previous page as after_id
+-- Optional filters narrow the results (NULL / FALSE means "any")
+-- Pass updated_since to only get fields changed after that time (for refreshing a cache)
+-- min_rating keeps fields whose average review rating is at least that (unrated fields are left out)
+CREATE OR REPLACE FUNCTION find_fields_in_bounds(
+  min_lat DOUBLE PRECISION,
+  min_lng DOUBLE PRECISION,
+  max_lat DOUBLE PRECISION,
+  max_lng DOUBLE PRECISION,
+  page_size INTEGER DEFAULT 200,
+  after_id UUID DEFAULT NULL,
+  surface_types surface_type[] DEFAULT NULL,
+  only_free BOOLEAN DEFAULT FALSE,
+  require_lights BOOLEAN DEFAULT FALSE,
+  require_goals BOOLEAN DEFAULT FALSE,
+  require_changing_rooms BOOLEAN DEFAULT FALSE,
+  require_parking BOOLEAN DEFAULT FALSE,
+  min_capacity INTEGER DEFAULT NULL,
+  updated_since TIMESTAMPTZ DEFAULT NULL,
+  min_rating REAL DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  city TEXT,
+  country TEXT,
+  surface_type surface_type,
+  is_free BOOLEAN,
+  has_lights BOOLEAN,
+  has_goals BOOLEAN,
+  has_changing_rooms BOOLEAN,
+  has_parking BOOLEAN,
+  player_capacity INTEGER,
+  status field_status,
+  average_rating REAL,
+  review_count INTEGER,
+  created_by UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
 BEGIN
-  NEW.updated_at = NOW();
-  RETURN NEW;
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.description,
+    f.latitude,
+    f.longitude,
+    f.address,
+    f.city,
+    f.country,
+    f.surface_type,
+    f.is_free,
+    f.has_lights,
+    f.has_goals,
+    f.has_changing_rooms,
+    f.has_parking,
+    f.player_capacity,
+    f.status,
+    f.average_rating,
+    f.review_count,
+    f.created_by,
+    f.created_at,
+    f.updated_at
+  FROM public.fields f
+  WHERE f.status = 'active'
+    AND f.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+    AND (after_id IS NULL OR f.id > after_id)
+    AND (surface_types IS NULL OR f.surface_type = ANY(surface_types))
+    AND (NOT only_free OR f.is_free)
+    AND (NOT require_lights OR f.has_lights)
+    AND (NOT require_goals OR f.has_goals)
+    AND (NOT require_changing_rooms OR f.has_changing_rooms)
+    AND (NOT require_parking OR f.has_parking)
+    AND (min_capacity IS NULL OR f.player_capacity >= min_capacity)
+    AND (min_rating IS NULL OR f.average_rating >= min_rating)
+    AND (updated_since IS NULL OR f.updated_at > updated_since)
+  ORDER BY f.id
+  LIMIT LEAST(GREATEST(page_size, 1), 1000);
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
 
--- =====================================================
--- TRIGGERS
--- =====================================================
+-- Function to find fields inside a bounding box that were taken off the map
+-- (rejected, deactivated, sent back to moderation, deleted or moved elsewhere) after
+-- updated_since
+-- Only ids are returned so cached copies can be dropped without exposing hidden fields
+-- Pages are keyed by field id: pass the last id of the previous page as after_id
+CREATE OR REPLACE FUNCTION find_hidden_field_ids_in_bounds(
+  min_lat DOUBLE PRECISION,
+  min_lng DOUBLE PRECISION,
+  max_lat DOUBLE PRECISION,
+  max_lng DOUBLE PRECISION,
+  updated_since TIMESTAMPTZ,
+  page_size INTEGER DEFAULT 200,
+  after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT hidden.id, MAX(hidden.updated_at)
+  FROM (
+    SELECT f.id, f.updated_at
+    FROM public.fields f
+    WHERE f.status <> 'active'
+      AND f.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+      AND f.updated_at > updated_since
+    UNION ALL
+    SELECT d.id, d.deleted_at
+    FROM public.deleted_fields d
+    WHERE d.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+      AND d.deleted_at > updated_since
+    UNION ALL
+    -- Fields moved within the box are still in it
+    SELECT m.field_id, m.moved_at
+    FROM public.moved_fields m
+    WHERE m.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+      AND m.moved_at > updated_since
+      AND NOT EXISTS (
+        SELECT 1 FROM public.fields f
+        WHERE f.id = m.field_id
+          AND f.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+      )
+  ) hidden
+  WHERE after_id IS NULL OR hidden.id > after_id
+  GROUP BY hidden.id
+  ORDER BY hidden.id
+  LIMIT LEAST(GREATEST(page_size, 1), 1000);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
 
--- Auto-update updated_at for profiles
-DROP TRIGGER IF EXISTS trigger_profiles_updated_at ON public.profiles;
-CREATE TRIGGER trigger_profiles_updated_at
-  BEFORE UPDATE ON public.profiles
-  FOR EACH ROW
-  EXECUTE FUNCTION update_updated_at_column();
+-- Function to search active fields by name, description, address and city
+-- Every word is matched as a prefix so results update while typing
+-- Results are ranked by relevance, then by distance when a location is given
+CREATE OR REPLACE FUNCTION search_fields(
+  search_text TEXT,
+  lat DOUBLE PRECISION DEFAULT NULL,
+  lng DOUBLE PRECISION DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  city TEXT,
+  country TEXT,
+  surface_type surface_type,
+  is_free BOOLEAN,
+  has_lights BOOLEAN,
+  has_goals BOOLEAN,
+  has_changing_rooms BOOLEAN,
+  has_parking BOOLEAN,
+  player_capacity INTEGER,
+  status field_status,
+  created_by UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance_meters DOUBLE PRECISION
+) AS $$
+DECLARE
+  cleaned_text TEXT;
+  search_query TSQUERY;
+BEGIN
+  -- Keep letters, digits and spaces only so the query always parses
+  cleaned_text := trim(regexp_replace(search_text, '[^[:alnum:][:space:]]', ' ', 'g'));
+  IF cleaned_text = '' THEN
+    RETURN;
+  END IF;
 
--- Auto-update updated_at for fields
-DROP TRIGGER IF EXISTS trigger_fields_updated_at ON public.fields;
-CREATE TRIGGER trigger_fields_updated_at
-  BEFORE UPDATE ON public.fields
-  FOR EACH ROW
-  EXECUTE FUNCTION update_updated_at_column();
+  search_query := to_tsquery('simple', regexp_replace(cleaned_text, '\s+', ':* & ', 'g') || ':*');
 
--- Ensure only one primary image per field
-CREATE OR REPLACE FUNCTION ensure_single_primary_image()
-RETURNS TRIGGER AS $$
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.description,
+    f.latitude,
+    f.longitude,
+    f.address,
+    f.city,
+    f.country,
+    f.surface_type,
+    f.is_free,
+    f.has_lights,
+    f.has_goals,
+    f.has_changing_rooms,
+    f.has_parking,
+    f.player_capacity,
+    f.status,
+    f.created_by,
+    f.created_at,
+    f.updated_at,
+    CASE
+      WHEN lat IS NULL OR lng IS NULL THEN NULL
+      ELSE ST_Distance(f.location, ST_MakePoint(lng, lat)::geography)
+    END AS distance_meters
+  FROM public.fields f
+  WHERE f.status = 'active'
+    AND f.search_vector @@ search_query
+  ORDER BY ts_rank(f.search_vector, search_query) DESC, distance_meters ASC NULLS LAST
+  LIMIT LEAST(GREATEST(result_limit, 1), 50);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to find existing fields that a new submission probably duplicates
+-- A field matches when it's within radius_meters (at most 200m) and either very close
+-- (under 30m) or has a similar name (trigram similarity). Pending submissions count too,
+-- but only their creator and moderators see which field it is: for everyone else the
+-- match is returned with is_hidden set and no details
+CREATE OR REPLACE FUNCTION find_duplicate_fields(
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  field_name TEXT,
+  radius_meters INTEGER DEFAULT 100,
+  min_similarity REAL DEFAULT 0.3
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  city TEXT,
+  status field_status,
+  distance_meters DOUBLE PRECISION,
+  name_similarity REAL,
+  is_hidden BOOLEAN
+) AS $$
 BEGIN
-  IF NEW.is_primary = TRUE THEN
-    UPDATE public.field_images
-    SET is_primary = FALSE
-    WHERE field_id = NEW.field_id AND id != NEW.id AND is_primary = TRUE;
-  END IF;
-  RETURN NEW;
+  RETURN QUERY
+  SELECT
+    CASE WHEN m.is_hidden THEN NULL ELSE m.id END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.name END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.latitude END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.longitude END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.address END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.city END,
+    m.status,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.distance_meters END,
+    CASE WHEN m.is_hidden THEN NULL ELSE m.name_similarity END,
+    m.is_hidden
+  FROM (
+    SELECT
+      f.id,
+      f.name,
+      f.latitude,
+      f.longitude,
+      f.address,
+      f.city,
+      f.status,
+      ST_Distance(f.location, ST_MakePoint(lng, lat)::geography) AS distance_meters,
+      similarity(f.name, coalesce(field_name, '')) AS name_similarity,
+      f.status <> 'active' AND f.created_by IS DISTINCT FROM auth.uid() AND NOT is_moderator()
+        AS is_hidden
+    FROM public.fields f
+    WHERE f.status IN ('active', 'pending')
+      AND ST_DWithin(f.location, ST_MakePoint(lng, lat)::geography, LEAST(radius_meters, 200))
+      AND (
+        ST_DWithin(f.location, ST_MakePoint(lng, lat)::geography, 30)
+        OR similarity(f.name, coalesce(field_name, '')) >= min_similarity
+      )
+    ORDER BY name_similarity DESC, distance_meters ASC
+    LIMIT 5
+  ) m;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
 
-DROP TRIGGER IF EXISTS trigger_single_primary_image ON public.field_images;
-CREATE TRIGGER trigger_single_primary_image
-  BEFORE INSERT OR UPDATE ON public.field_images
-  FOR EACH ROW
-  EXECUTE FUNCTION ensure_single_primary_image();
+REVOKE EXECUTE ON FUNCTION find_duplicate_fields(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, REAL
+) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_duplicate_fields(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, REAL
+) TO authenticated;
 
--- =====================================================
--- ROW LEVEL SECURITY (RLS)
--- =====================================================
+REVOKE EXECUTE ON FUNCTION find_duplicate_fields(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, REAL
+) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_duplicate_fields(
+  DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, REAL
+) TO authenticated;
 
-ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
-ALTER TABLE public.fields ENABLE ROW LEVEL SECURITY;
-ALTER TABLE public.field_images ENABLE ROW LEVEL SECURITY;
+-- Function to create a field together with its already uploaded photos
+-- Runs as the caller so the usual RLS policies and triggers (duplicate check) still apply.
+-- The first URL becomes the primary image; a field without photos is rejected.
+-- Guests' fields are saved as drafts.
+CREATE OR REPLACE FUNCTION create_field_with_images(
+  field_data JSONB,
+  image_urls TEXT[]
+)
+RETURNS SETOF public.fields AS $$
+DECLARE
+  new_field public.fields;
+BEGIN
+  IF coalesce(array_length(image_urls, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A field needs at least one photo'
+      USING ERRCODE = 'DTP02';
+  END IF;
 
--- Profiles policies
-CREATE POLICY "Public profiles are viewable by everyone"
-  ON public.profiles FOR SELECT
-  USING (true);
+  INSERT INTO public.fields (
+    name, description, latitude, longitude, address, city, country,
+    surface_type, is_free, has_lights, has_goals, has_changing_rooms, has_parking,
+    player_capacity, notes, possible_duplicate_of, status, created_by
+  )
+  SELECT
+    r.name, r.description, r.latitude, r.longitude, r.address, r.city, r.country,
+    r.surface_type, r.is_free, r.has_lights, r.has_goals, r.has_changing_rooms, r.has_parking,
+    r.player_capacity, r.notes, r.possible_duplicate_of,
+    CASE WHEN is_guest() THEN 'draft' ELSE 'pending' END::field_status, auth.uid()
+  FROM jsonb_populate_record(NULL::public.fields, field_data) r
+  RETURNING * INTO new_field;
 
-CREATE POLICY "Users can insert their own profile"
-  ON public.profiles FOR INSERT
-  WITH CHECK (auth.uid() = id);
+  INSERT INTO public.field_images (field_id, image_url, is_primary, uploaded_by)
+  SELECT new_field.id, u.url, u.position = 1, auth.uid()
+  FROM unnest(image_urls) WITH ORDINALITY AS u(url, position);
 
-CREATE POLICY "Users can update their own profile"
-  ON public.profiles FOR UPDATE
-  USING (auth.uid() = id);
+  RETURN NEXT new_field;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
 
--- Fields policies
+-- Function to check that a photo URL points at a file the current user uploaded to the
+-- project's field-images bucket (files live in a folder named after the uploader's ID)
+-- Projects served from a custom domain need their host in the pattern below
+CREATE OR REPLACE FUNCTION is_own_field_image_upload(url TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN url ~ '^https://[a-z0-9-]+\.supabase\.co/storage/v1/object/public/field-images/'
+    AND EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'field-images'
+        AND o.name = split_part(url, '/field-images/', 2)
+        AND (storage.foldername(o.name))[1] = auth.uid()::text
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION is_own_field_image_upload(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_own_field_image_upload(TEXT) TO authenticated;
+
+-- Function to list storage objects in the field-images bucket that no field_images row uses
+-- Recent objects are skipped because queued uploads save their row after the file
+CREATE OR REPLACE FUNCTION find_orphaned_field_images(
+  min_age INTERVAL DEFAULT INTERVAL '7 days'
+)
+RETURNS TABLE (
+  name TEXT,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT o.name, o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = 'field-images'
+    AND o.created_at < NOW() - min_age
+    AND NOT EXISTS (
+      SELECT 1 FROM public.field_images fi
+      WHERE split_part(fi.image_url, '/field-images/', 2) = o.name
+    )
+  ORDER BY o.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to list fields that have no photos at all
+CREATE OR REPLACE FUNCTION find_fields_without_images()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  status field_status,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT f.id, f.name, f.status, f.created_at
+  FROM public.fields f
+  WHERE NOT EXISTS (SELECT 1 FROM public.field_images fi WHERE fi.field_id = f.id)
+  ORDER BY f.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Maintenance functions are only for the service role (scripts/purge-orphaned-images.mjs)
+REVOKE EXECUTE ON FUNCTION find_orphaned_field_images(INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION find_fields_without_images() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_orphaned_field_images(INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION find_fields_without_images() TO service_role;
+
+-- Function to collect everything stored about the current user
+CREATE OR REPLACE FUNCTION export_account_data()
+RETURNS JSONB AS $$
+DECLARE
+  uid UUID := auth.uid();
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in to export your data';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'exported_at', NOW(),
+    'email', (SELECT u.email FROM auth.users u WHERE u.id = uid),
+    'profile', (
+      SELECT to_jsonb(p) - 'role'
+      FROM public.profiles p
+      WHERE p.id = uid
+    ),
+    'fields', coalesce((
+      SELECT jsonb_agg(to_jsonb(f) - 'location' - 'search_vector' ORDER BY f.created_at)
+      FROM public.fields f
+      WHERE f.created_by = uid
+    ), '[]'::jsonb),
+    'images', coalesce((
+      SELECT jsonb_agg(to_jsonb(i) ORDER BY i.created_at)
+      FROM public.field_images i
+      WHERE i.uploaded_by = uid
+    ), '[]'::jsonb),
+    'reviews', coalesce((
+      SELECT jsonb_agg(to_jsonb(r) ORDER BY r.created_at)
+      FROM public.field_reviews r
+      WHERE r.user_id = uid
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to delete the current user's account
+-- Returns the URLs of the photos it removed so the app can delete the files from storage
+-- Drafts and every photo the user uploaded go with the account. Deleting the auth user
+-- cascades to the profile, which removes reviews, favorites, reports and suggestions and
+-- anonymizes the rest
+CREATE OR REPLACE FUNCTION delete_account()
+RETURNS SETOF TEXT AS $$
+DECLARE
+  uid UUID := auth.uid();
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in to delete your account';
+  END IF;
+
+  RETURN QUERY
+  SELECT i.image_url
+  FROM public.field_images i
+  JOIN public.fields f ON f.id = i.field_id
+  WHERE f.created_by = uid AND f.status = 'draft';
+
+  DELETE FROM public.fields WHERE created_by = uid AND status = 'draft';
+
+  RETURN QUERY
+  WITH removed AS (
+    DELETE FROM public.field_images i
+    WHERE i.uploaded_by = uid
+    RETURNING i.image_url
+  )
+  SELECT removed.image_url FROM removed;
+
+  -- Fields that lost their primary photo fall back to their oldest remaining one
+  UPDATE public.field_images i
+  SET is_primary = TRUE
+  WHERE i.id IN (
+    SELECT DISTINCT ON (fi.field_id) fi.id
+    FROM public.field_images fi
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.field_images p WHERE p.field_id = fi.field_id AND p.is_primary
+    )
+    ORDER BY fi.field_id, fi.created_at
+  );
+
+  DELETE FROM auth.users WHERE id = uid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION export_account_data() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION delete_account() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION export_account_data() TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_account() TO authenticated;
+
+-- Function for a guest to get a token before signing in to an existing account
+CREATE OR REPLACE FUNCTION create_guest_merge_token()
+RETURNS UUID AS $$
+DECLARE
+  new_token UUID;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_guest() THEN
+    RAISE EXCEPTION 'Only guests can merge their account';
+  END IF;
+
+  DELETE FROM public.guest_merge_tokens WHERE guest_id = auth.uid();
+
+  INSERT INTO public.guest_merge_tokens (guest_id)
+  VALUES (auth.uid())
+  RETURNING token INTO new_token;
+
+  RETURN new_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to move a guest's drafts, photos and favorites to the current account
+-- Drafts go to the moderation queue; the guest account is deleted afterwards
+-- Photo files stay in the guest's storage folder, where their URLs keep working
+CREATE OR REPLACE FUNCTION merge_guest_account(merge_token UUID)
+RETURNS VOID AS $$
+DECLARE
+  uid UUID := auth.uid();
+  guest UUID;
+BEGIN
+  IF uid IS NULL OR is_guest() THEN
+    RAISE EXCEPTION 'You need to be signed in to merge a guest account';
+  END IF;
+
+  DELETE FROM public.guest_merge_tokens t
+  WHERE t.token = merge_token AND t.created_at > NOW() - INTERVAL '1 hour'
+  RETURNING t.guest_id INTO guest;
+
+  -- A guest who linked an identity kept their own account, so there's nothing to move
+  IF guest IS NULL OR guest = uid
+    OR NOT EXISTS (SELECT 1 FROM auth.users u WHERE u.id = guest AND u.is_anonymous) THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.fields
+  SET
+    created_by = uid,
+    status = CASE WHEN status = 'draft' THEN 'pending'::field_status ELSE status END
+  WHERE created_by = guest;
+
+  UPDATE public.field_images SET uploaded_by = uid WHERE uploaded_by = guest;
+  UPDATE public.field_history SET changed_by = uid WHERE changed_by = guest;
+
+  INSERT INTO public.favorite_fields (user_id, field_id, created_at)
+  SELECT uid, fav.field_id, fav.created_at
+  FROM public.favorite_fields fav
+  WHERE fav.user_id = guest
+  ON CONFLICT (user_id, field_id) DO NOTHING;
+
+  -- Cascades to the guest's profile and remaining favorites
+  DELETE FROM auth.users WHERE id = guest;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to delete guest accounts nobody has used for min_age, along with their drafts
+-- Their photos become orphaned and are removed by scripts/purge-orphaned-images.mjs
+CREATE OR REPLACE FUNCTION purge_stale_guest_accounts(min_age INTERVAL DEFAULT '30 days')
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  CREATE TEMP TABLE stale_guests ON COMMIT DROP AS
+  SELECT u.id
+  FROM auth.users u
+  WHERE u.is_anonymous
+    AND u.created_at < NOW() - min_age
+    AND NOT EXISTS (
+      SELECT 1 FROM auth.sessions s
+      WHERE s.user_id = u.id
+        AND GREATEST(s.updated_at, s.refreshed_at AT TIME ZONE 'UTC') > NOW() - min_age
+    );
+
+  DELETE FROM public.fields
+  WHERE status = 'draft' AND created_by IN (SELECT id FROM stale_guests);
+
+  DELETE FROM auth.users WHERE id IN (SELECT id FROM stale_guests);
+  GET DIAGNOSTICS purged = ROW_COUNT;
+
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_guest_merge_token() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION merge_guest_account(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_guest_merge_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_guest_account(UUID) TO authenticated;
+
+-- Maintenance function for the service role only (scripts/purge-guest-accounts.mjs)
+REVOKE EXECUTE ON FUNCTION purge_stale_guest_accounts(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_stale_guest_accounts(INTERVAL) TO service_role;
+
+-- Function to check whether the current user is a moderator
+CREATE OR REPLACE FUNCTION is_moderator()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND role = 'moderator'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Function to check whether the current user is signed in anonymously (a guest)
+CREATE OR REPLACE FUNCTION is_guest()
+RETURNS BOOLEAN AS $$
+  SELECT coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false);
+$$ LANGUAGE sql STABLE;
+
+-- Moderation settings for field reports; change them with CREATE OR REPLACE
+-- Independent reports (one per user) that take a field off the map until a moderator reviews it
+CREATE OR REPLACE FUNCTION field_report_threshold()
+RETURNS INTEGER AS $$
+  SELECT 3;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Reports a user can file per day
+CREATE OR REPLACE FUNCTION field_report_daily_limit()
+RETURNS INTEGER AS $$
+  SELECT 10;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Function for moderators to close a field's open reports
+-- deactivate keeps the field off the map; otherwise the reports are dismissed and a field
+-- hidden by them is put back
+CREATE OR REPLACE FUNCTION resolve_field_reports(target_field_id UUID, deactivate BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can resolve field reports';
+  END IF;
+
+  UPDATE public.field_reports
+  SET
+    status = CASE WHEN deactivate THEN 'resolved' ELSE 'dismissed' END::report_status,
+    resolved_by = auth.uid(),
+    resolved_at = NOW()
+  WHERE field_id = target_field_id AND status = 'open';
+
+  UPDATE public.fields
+  SET status = CASE WHEN deactivate THEN 'inactive' ELSE 'active' END::field_status
+  WHERE id = target_field_id
+    AND status IN ('active', 'inactive')
+    AND status <> CASE WHEN deactivate THEN 'inactive' ELSE 'active' END::field_status;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Function for a field's owner or a moderator to accept or reject an edit suggestion
+-- Owners can't accept their own suggestions; those wait for a moderator
+CREATE OR REPLACE FUNCTION review_field_edit_suggestion(suggestion_id UUID, accept BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  suggestion public.field_edit_suggestions%ROWTYPE;
+  target public.fields%ROWTYPE;
+  replaced JSONB;
+BEGIN
+  SELECT * INTO suggestion FROM public.field_edit_suggestions
+  WHERE id = suggestion_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF suggestion.id IS NULL THEN
+    RAISE EXCEPTION 'This suggestion has already been reviewed';
+  END IF;
+
+  SELECT * INTO target FROM public.fields WHERE id = suggestion.field_id FOR UPDATE;
+
+  IF NOT is_moderator()
+    AND (target.created_by IS DISTINCT FROM auth.uid() OR suggestion.suggested_by = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the field owner or a moderator can review this suggestion';
+  END IF;
+
+  IF accept THEN
+    SELECT jsonb_object_agg(key, to_jsonb(target) -> key) INTO replaced
+    FROM jsonb_object_keys(suggestion.changes) AS key;
+
+    -- Accepting is the review, so the field stays live (see enforce_field_moderation)
+    PERFORM set_config('app.applying_edit_suggestion', 'on', true);
+
+    UPDATE public.fields
+    SET
+      name = CASE WHEN suggestion.changes ? 'name'
+        THEN suggestion.changes ->> 'name' ELSE name END,
+      description = CASE WHEN suggestion.changes ? 'description'
+        THEN suggestion.changes ->> 'description' ELSE description END,
+      address = CASE WHEN suggestion.changes ? 'address'
+        THEN suggestion.changes ->> 'address' ELSE address END,
+      surface_type = CASE WHEN suggestion.changes ? 'surface_type'
+        THEN (suggestion.changes ->> 'surface_type')::surface_type ELSE surface_type END,
+      is_free = CASE WHEN suggestion.changes ? 'is_free'
+        THEN (suggestion.changes ->> 'is_free')::BOOLEAN ELSE is_free END,
+      has_lights = CASE WHEN suggestion.changes ? 'has_lights'
+        THEN (suggestion.changes ->> 'has_lights')::BOOLEAN ELSE has_lights END,
+      has_goals = CASE WHEN suggestion.changes ? 'has_goals'
+        THEN (suggestion.changes ->> 'has_goals')::BOOLEAN ELSE has_goals END,
+      has_changing_rooms = CASE WHEN suggestion.changes ? 'has_changing_rooms'
+        THEN (suggestion.changes ->> 'has_changing_rooms')::BOOLEAN ELSE has_changing_rooms END,
+      has_parking = CASE WHEN suggestion.changes ? 'has_parking'
+        THEN (suggestion.changes ->> 'has_parking')::BOOLEAN ELSE has_parking END,
+      player_capacity = CASE WHEN suggestion.changes ? 'player_capacity'
+        THEN (suggestion.changes ->> 'player_capacity')::INTEGER ELSE player_capacity END,
+      notes = CASE WHEN suggestion.changes ? 'notes'
+        THEN suggestion.changes ->> 'notes' ELSE notes END
+    WHERE id = target.id;
+
+    PERFORM set_config('app.applying_edit_suggestion', 'off', true);
+  END IF;
+
+  UPDATE public.field_edit_suggestions
+  SET
+    status = CASE WHEN accept THEN 'accepted' ELSE 'rejected' END::suggestion_status,
+    previous_values = replaced,
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW()
+  WHERE id = suggestion.id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, field_id)
+  VALUES (
+    suggestion.suggested_by,
+    CASE WHEN accept THEN 'edit_suggestion_accepted' ELSE 'edit_suggestion_rejected' END,
+    CASE WHEN accept THEN 'Suggestion accepted' ELSE 'Suggestion not accepted' END,
+    CASE WHEN accept
+      THEN format('Your changes to "%s" are now live. Thanks for keeping it up to date!', target.name)
+      ELSE format('Your suggested changes to "%s" were not accepted.', target.name)
+    END,
+    target.id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for moderators to undo a change, e.g. to revert vandalism
+-- The changed columns are set back to their old values; the revert is recorded as a new change
+CREATE OR REPLACE FUNCTION revert_field_change(history_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  entry public.field_history%ROWTYPE;
+  restored public.fields%ROWTYPE;
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can revert field changes';
+  END IF;
+
+  SELECT * INTO entry FROM public.field_history WHERE id = history_id;
+  IF entry.id IS NULL THEN
+    RAISE EXCEPTION 'Change not found';
+  END IF;
+
+  SELECT * INTO restored FROM public.fields WHERE id = entry.field_id FOR UPDATE;
+  restored := jsonb_populate_record(restored, entry.old_values);
+
+  UPDATE public.fields
+  SET
+    name = restored.name,
+    description = restored.description,
+    latitude = restored.latitude,
+    longitude = restored.longitude,
+    address = restored.address,
+    city = restored.city,
+    country = restored.country,
+    surface_type = restored.surface_type,
+    is_free = restored.is_free,
+    has_lights = restored.has_lights,
+    has_goals = restored.has_goals,
+    has_changing_rooms = restored.has_changing_rooms,
+    has_parking = restored.has_parking,
+    player_capacity = restored.player_capacity,
+    notes = restored.notes,
+    status = restored.status,
+    rejection_reason = restored.rejection_reason
+  WHERE id = entry.field_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Function to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+-- Auto-update updated_at for profiles
+DROP TRIGGER IF EXISTS trigger_profiles_updated_at ON public.profiles;
+CREATE TRIGGER trigger_profiles_updated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Auto-update updated_at for fields
+DROP TRIGGER IF EXISTS trigger_fields_updated_at ON public.fields;
+CREATE TRIGGER trigger_fields_updated_at
+  BEFORE UPDATE ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Ensure only one primary image per field
+CREATE OR REPLACE FUNCTION ensure_single_primary_image()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_primary = TRUE THEN
+    UPDATE public.field_images
+    SET is_primary = FALSE
+    WHERE field_id = NEW.field_id AND id != NEW.id AND is_primary = TRUE;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_single_primary_image ON public.field_images;
+CREATE TRIGGER trigger_single_primary_image
+  BEFORE INSERT OR UPDATE ON public.field_images
+  FOR EACH ROW
+  EXECUTE FUNCTION ensure_single_primary_image();
+
+-- Auto-update updated_at for field reviews
+DROP TRIGGER IF EXISTS trigger_field_reviews_updated_at ON public.field_reviews;
+CREATE TRIGGER trigger_field_reviews_updated_at
+  BEFORE UPDATE ON public.field_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Recalculate a field's average rating and review count when its reviews change
+CREATE OR REPLACE FUNCTION update_field_rating()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_field_id UUID := COALESCE(NEW.field_id, OLD.field_id);
+BEGIN
+  UPDATE public.fields f
+  SET
+    average_rating = stats.average_rating,
+    review_count = stats.review_count
+  FROM (
+    SELECT ROUND(AVG(r.rating)::numeric, 1)::real AS average_rating, COUNT(*)::int AS review_count
+    FROM public.field_reviews r
+    WHERE r.field_id = target_field_id
+  ) stats
+  WHERE f.id = target_field_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_update_field_rating ON public.field_reviews;
+CREATE TRIGGER trigger_update_field_rating
+  AFTER INSERT OR UPDATE OR DELETE ON public.field_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_field_rating();
+
+-- New fields start unrated, and only update_field_rating() may change the aggregates later
+-- Changes made by other triggers, the dashboard or scripts are let through
+CREATE OR REPLACE FUNCTION protect_field_ratings()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.average_rating = NULL;
+    NEW.review_count = 0;
+  ELSIF NEW.average_rating IS DISTINCT FROM OLD.average_rating
+    OR NEW.review_count IS DISTINCT FROM OLD.review_count THEN
+    RAISE EXCEPTION 'Field ratings are calculated from reviews and cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_field_ratings ON public.fields;
+CREATE TRIGGER trigger_protect_field_ratings
+  BEFORE INSERT OR UPDATE ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_field_ratings();
+
+-- Auto-update updated_at for games
+DROP TRIGGER IF EXISTS trigger_games_updated_at ON public.games;
+CREATE TRIGGER trigger_games_updated_at
+  BEFORE UPDATE ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add the organizer to the roster of a new game
+CREATE OR REPLACE FUNCTION add_organizer_to_game()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.organizer_id IS NOT NULL THEN
+    INSERT INTO public.game_players (game_id, player_id)
+    VALUES (NEW.id, NEW.organizer_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_add_organizer_to_game ON public.games;
+CREATE TRIGGER trigger_add_organizer_to_game
+  AFTER INSERT ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION add_organizer_to_game();
+
+-- Only allow joining scheduled games that haven't started and still have room
+CREATE OR REPLACE FUNCTION enforce_game_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  game_record RECORD;
+  player_count INTEGER;
+BEGIN
+  SELECT max_players, status, starts_at INTO game_record
+  FROM public.games
+  WHERE id = NEW.game_id
+  FOR UPDATE;
+
+  IF game_record.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This game is no longer open for players';
+  END IF;
+
+  IF game_record.starts_at <= NOW() THEN
+    RAISE EXCEPTION 'This game has already started';
+  END IF;
+
+  SELECT COUNT(*) INTO player_count FROM public.game_players WHERE game_id = NEW.game_id;
+
+  IF player_count >= game_record.max_players THEN
+    RAISE EXCEPTION 'This game is already full';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_game_capacity ON public.game_players;
+CREATE TRIGGER trigger_enforce_game_capacity
+  BEFORE INSERT ON public.game_players
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_game_capacity();
+
+-- Only allow games at approved fields that haven't started yet
+-- Checked again when a game is moved to another field or time
+CREATE OR REPLACE FUNCTION validate_game()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.fields f
+    WHERE f.id = NEW.field_id AND f.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Games can only be organized at approved fields';
+  END IF;
+
+  IF NEW.starts_at <= NOW() THEN
+    RAISE EXCEPTION 'The game must start in the future';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_validate_game ON public.games;
+CREATE TRIGGER trigger_validate_game
+  BEFORE INSERT OR UPDATE OF field_id, starts_at ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_game();
+
+-- Roles can only be changed from the dashboard (service role), never by users themselves
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Profile roles cannot be changed by users';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_profile_role ON public.profiles;
+CREATE TRIGGER trigger_protect_profile_role
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_role();
+
+-- Only moderators can change a field's status; their decision is recorded on the field
+-- Owners editing the details of an approved or rejected field send it back to the
+-- moderation queue, and owners with an account may send the drafts they saved as a guest
+-- Updates made by other triggers (like rating aggregates) aren't edits and are let through,
+-- and neither are suggestions the owner accepted, which were reviewed already
+CREATE OR REPLACE FUNCTION enforce_field_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_moderator() THEN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      NEW.reviewed_by = auth.uid();
+      NEW.reviewed_at = NOW();
+      IF NEW.status <> 'rejected' THEN
+        NEW.rejection_reason = NULL;
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'draft' AND NEW.status = 'pending' AND NOT is_guest() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason
+    OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    RAISE EXCEPTION 'Only moderators can change the status of a field';
+  END IF;
+
+  IF current_setting('app.applying_edit_suggestion', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'rejected' THEN
+    NEW.status = 'pending';
+    NEW.rejection_reason = NULL;
+  ELSIF OLD.status = 'active' AND EXISTS (
+    SELECT 1
+    FROM unnest(ARRAY[
+      'name', 'description', 'latitude', 'longitude', 'address', 'city', 'country',
+      'surface_type', 'is_free', 'has_lights', 'has_goals', 'has_changing_rooms', 'has_parking',
+      'player_capacity', 'notes'
+    ]) AS key
+    WHERE to_jsonb(OLD) -> key IS DISTINCT FROM to_jsonb(NEW) -> key
+  ) THEN
+    NEW.status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_field_moderation ON public.fields;
+CREATE TRIGGER trigger_enforce_field_moderation
+  BEFORE UPDATE ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_field_moderation();
+
+-- Reject new fields that duplicate an existing one, unless the submitter confirmed
+-- the field is different by naming the match in possible_duplicate_of (moderators see it)
+-- Only one match can be confirmed, so any other match still rejects the field
+-- Inserts without a user (dashboard, scripts) are not checked
+CREATE OR REPLACE FUNCTION prevent_duplicate_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.possible_duplicate_of IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM find_duplicate_fields(NEW.latitude, NEW.longitude, NEW.name) d
+    WHERE d.id = NEW.possible_duplicate_of
+  ) THEN
+    NEW.possible_duplicate_of = NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM find_duplicate_fields(NEW.latitude, NEW.longitude, NEW.name) d
+    WHERE d.id IS DISTINCT FROM NEW.possible_duplicate_of
+  ) THEN
+    RAISE EXCEPTION 'A similar field already exists at this location'
+      USING ERRCODE = 'DTP01';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_prevent_duplicate_fields ON public.fields;
+CREATE TRIGGER trigger_prevent_duplicate_fields
+  BEFORE INSERT ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_duplicate_fields();
+
+-- Let the submitter know when their field has been approved or rejected
+CREATE OR REPLACE FUNCTION notify_field_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.created_by IS NULL OR NEW.status = OLD.status OR OLD.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'active' THEN
+    INSERT INTO public.notifications (user_id, type, title, body, field_id)
+    VALUES (
+      NEW.created_by,
+      'field_approved',
+      'Field approved',
+      format('"%s" has been approved and is now visible on the map.', NEW.name),
+      NEW.id
+    );
+  ELSIF NEW.status = 'rejected' THEN
+    INSERT INTO public.notifications (user_id, type, title, body, field_id)
+    VALUES (
+      NEW.created_by,
+      'field_rejected',
+      'Field not approved',
+      format(
+        '"%s" was not approved: %s',
+        NEW.name,
+        COALESCE(NEW.rejection_reason, 'no reason given')
+      ),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_field_review ON public.fields;
+CREATE TRIGGER trigger_notify_field_review
+  AFTER UPDATE OF status ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_field_review();
+
+-- Limit how many reports a user can file per day
+CREATE OR REPLACE FUNCTION limit_field_reports()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.field_reports r
+    WHERE r.reporter_id = NEW.reporter_id
+      AND r.created_at > NOW() - INTERVAL '1 day'
+  ) >= field_report_daily_limit() THEN
+    RAISE EXCEPTION 'Too many reports, try again tomorrow'
+      USING ERRCODE = 'DTP03';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_limit_field_reports ON public.field_reports;
+CREATE TRIGGER trigger_limit_field_reports
+  BEFORE INSERT ON public.field_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION limit_field_reports();
+
+-- Take a field off the map once enough users reported it, and let the submitter know
+CREATE OR REPLACE FUNCTION deactivate_reported_field()
+RETURNS TRIGGER AS $$
+DECLARE
+  hidden_field public.fields%ROWTYPE;
+BEGIN
+  IF (
+    SELECT COUNT(DISTINCT r.reporter_id) FROM public.field_reports r
+    WHERE r.field_id = NEW.field_id AND r.status = 'open'
+  ) < field_report_threshold() THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.fields
+  SET status = 'inactive'
+  WHERE id = NEW.field_id AND status = 'active'
+  RETURNING * INTO hidden_field;
+
+  IF hidden_field.id IS NOT NULL AND hidden_field.created_by IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, type, title, body, field_id)
+    VALUES (
+      hidden_field.created_by,
+      'field_hidden',
+      'Field hidden',
+      format(
+        '"%s" was reported by several players and is hidden until a moderator reviews it.',
+        hidden_field.name
+      ),
+      hidden_field.id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_deactivate_reported_field ON public.field_reports;
+CREATE TRIGGER trigger_deactivate_reported_field
+  AFTER INSERT ON public.field_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION deactivate_reported_field();
+
+-- Only let suggestions change the attributes players can check on site, to values the
+-- field can hold, so accepting a suggestion never fails
+CREATE OR REPLACE FUNCTION validate_field_edit_suggestion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(NEW.changes) AS key
+    WHERE key NOT IN (
+      'name', 'description', 'address', 'surface_type', 'is_free', 'has_lights', 'has_goals',
+      'has_changing_rooms', 'has_parking', 'player_capacity', 'notes'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Suggestions can only change the field''s details and amenities';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_each(NEW.changes) AS c(key, value)
+    WHERE CASE
+      WHEN c.key IN ('is_free', 'has_lights', 'has_goals', 'has_changing_rooms', 'has_parking')
+        THEN jsonb_typeof(c.value) <> 'boolean'
+      WHEN c.key = 'surface_type'
+        THEN jsonb_typeof(c.value) <> 'string'
+          OR NOT (c.value #>> '{}') = ANY(enum_range(NULL::surface_type)::TEXT[])
+      WHEN c.key = 'player_capacity'
+        THEN CASE jsonb_typeof(c.value)
+          WHEN 'null' THEN FALSE
+          WHEN 'number' THEN c.value::NUMERIC % 1 <> 0
+            OR c.value::NUMERIC NOT BETWEEN 1 AND 2147483647
+          ELSE TRUE
+        END
+      WHEN c.key = 'name'
+        THEN jsonb_typeof(c.value) <> 'string' OR btrim(c.value #>> '{}') = ''
+      ELSE jsonb_typeof(c.value) NOT IN ('string', 'null')
+    END
+  ) THEN
+    RAISE EXCEPTION 'Suggested values are not valid for this field';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_validate_field_edit_suggestion ON public.field_edit_suggestions;
+CREATE TRIGGER trigger_validate_field_edit_suggestion
+  BEFORE INSERT ON public.field_edit_suggestions
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_field_edit_suggestion();
+
+-- Record which details of a field changed, and who changed them
+-- Aggregates and bookkeeping columns (ratings, review info, updated_at) aren't tracked
+CREATE OR REPLACE FUNCTION record_field_history()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  changed_old JSONB;
+  changed_new JSONB;
+BEGIN
+  SELECT jsonb_object_agg(key, old_row -> key), jsonb_object_agg(key, new_row -> key)
+  INTO changed_old, changed_new
+  FROM unnest(ARRAY[
+    'name', 'description', 'latitude', 'longitude', 'address', 'city', 'country',
+    'surface_type', 'is_free', 'has_lights', 'has_goals', 'has_changing_rooms', 'has_parking',
+    'player_capacity', 'notes', 'status', 'rejection_reason'
+  ]) AS key
+  WHERE old_row -> key IS DISTINCT FROM new_row -> key;
+
+  IF changed_old IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.field_history (field_id, changed_by, old_values, new_values)
+  VALUES (
+    NEW.id,
+    -- Changes made by other triggers (e.g. hiding a reported field) belong to no user
+    CASE WHEN pg_trigger_depth() > 1 THEN NULL ELSE auth.uid() END,
+    changed_old,
+    changed_new
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_field_history ON public.fields;
+CREATE TRIGGER trigger_record_field_history
+  AFTER UPDATE ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION record_field_history();
+
+-- Leave a tombstone for every deleted field
+-- Cached tiles older than a day are reloaded in full, so week-old tombstones are pruned
+CREATE OR REPLACE FUNCTION record_deleted_field()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.deleted_fields WHERE deleted_at < NOW() - INTERVAL '7 days';
+
+  INSERT INTO public.deleted_fields (id, latitude, longitude)
+  VALUES (OLD.id, OLD.latitude, OLD.longitude)
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_deleted_field ON public.fields;
+CREATE TRIGGER trigger_record_deleted_field
+  AFTER DELETE ON public.fields
+  FOR EACH ROW
+  EXECUTE FUNCTION record_deleted_field();
+
+-- Leave a tombstone at the old location of every moved field
+CREATE OR REPLACE FUNCTION record_moved_field()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.moved_fields WHERE moved_at < NOW() - INTERVAL '7 days';
+
+  INSERT INTO public.moved_fields (field_id, latitude, longitude)
+  VALUES (OLD.id, OLD.latitude, OLD.longitude);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_moved_field ON public.fields;
+CREATE TRIGGER trigger_record_moved_field
+  AFTER UPDATE OF latitude, longitude ON public.fields
+  FOR EACH ROW
+  WHEN (OLD.latitude IS DISTINCT FROM NEW.latitude OR OLD.longitude IS DISTINCT FROM NEW.longitude)
+  EXECUTE FUNCTION record_moved_field();
+
+-- =====================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =====================================================
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fields ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.field_images ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.field_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.favorite_fields ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.field_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.field_edit_suggestions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.field_history ENABLE ROW LEVEL SECURITY;
+-- deleted_fields has no policies: it's only read through find_hidden_field_ids_in_bounds()
+ALTER TABLE public.deleted_fields ENABLE ROW LEVEL SECURITY;
+-- moved_fields has no policies either
+ALTER TABLE public.moved_fields ENABLE ROW LEVEL SECURITY;
+-- guest_merge_tokens has no policies: it's only used through merge_guest_account()
+ALTER TABLE public.guest_merge_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.games ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.game_players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Profiles policies
+CREATE POLICY "Public profiles are viewable by everyone"
+  ON public.profiles FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can insert their own profile"
+  ON public.profiles FOR INSERT
+  WITH CHECK (auth.uid() = id AND role = 'user');
+
+CREATE POLICY "Users can update their own profile"
+  ON public.profiles FOR UPDATE
+  USING (auth.uid() = id);
+
+-- Fields policies
 CREATE POLICY "Active fields are viewable by everyone"
   ON public.fields FOR SELECT
-  USING (status = 'active' OR created_by = auth.uid());
+  USING (status = 'active' OR created_by = auth.uid() OR is_moderator());
 
 CREATE POLICY "Authenticated users can create fields"
   ON public.fields FOR INSERT
-  WITH CHECK (auth.role() = 'authenticated');
+  WITH CHECK (
+    auth.role() = 'authenticated'
+    AND CASE
+      WHEN is_guest() THEN status = 'draft'
+      ELSE status = 'pending' OR is_moderator()
+    END
+  );
 
-CREATE POLICY "Users can update their own pending fields"
+CREATE POLICY "Users can update their own fields"
   ON public.fields FOR UPDATE
-  USING (created_by = auth.uid() AND status = 'pending');
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can delete their own fields"
+  ON public.fields FOR DELETE
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Moderators can review fields"
+  ON public.fields FOR UPDATE
+  USING (is_moderator());
 
 -- Field images policies
 CREATE POLICY "Field images are viewable if field is visible"
@@ -267,18 +1816,220 @@ CREATE POLICY "Field images are viewable if field is visible"
     EXISTS (
       SELECT 1 FROM public.fields f
       WHERE f.id = field_id
-      AND (f.status = 'active' OR f.created_by = auth.uid())
+      AND (f.status = 'active' OR f.created_by = auth.uid() OR is_moderator())
     )
   );
 
+-- Photos go to approved fields or the uploader's own; only owners pick the main photo
 CREATE POLICY "Authenticated users can upload images"
   ON public.field_images FOR INSERT
-  WITH CHECK (auth.role() = 'authenticated');
+  WITH CHECK (
+    auth.role() = 'authenticated'
+    AND uploaded_by = auth.uid()
+    AND is_own_field_image_upload(image_url)
+    AND EXISTS (
+      SELECT 1 FROM public.fields f
+      WHERE f.id = field_id
+      AND (f.status = 'active' OR f.created_by = auth.uid())
+    )
+    AND (
+      NOT is_primary
+      OR EXISTS (
+        SELECT 1 FROM public.fields f
+        WHERE f.id = field_id AND f.created_by = auth.uid()
+      )
+      OR NOT EXISTS (
+        SELECT 1 FROM public.field_images i
+        WHERE i.field_id = field_images.field_id AND i.is_primary
+      )
+    )
+  );
+
+CREATE POLICY "Guests can only add photos to their drafts"
+  ON public.field_images AS RESTRICTIVE FOR INSERT
+  WITH CHECK (
+    NOT is_guest()
+    OR EXISTS (
+      SELECT 1 FROM public.fields f
+      WHERE f.id = field_id
+      AND f.created_by = auth.uid()
+      AND f.status = 'draft'
+    )
+  );
 
 CREATE POLICY "Users can delete their own uploaded images"
   ON public.field_images FOR DELETE
   USING (uploaded_by = auth.uid());
 
+CREATE POLICY "Field owners can update images of their fields"
+  ON public.field_images FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.fields f
+      WHERE f.id = field_id
+      AND f.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Field owners can delete images of their fields"
+  ON public.field_images FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.fields f
+      WHERE f.id = field_id
+      AND f.created_by = auth.uid()
+    )
+  );
+
+-- Field reviews policies
+CREATE POLICY "Reviews of active fields are viewable by everyone"
+  ON public.field_reviews FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.fields f WHERE f.id = field_id AND f.status = 'active')
+  );
+
+CREATE POLICY "Users can review active fields"
+  ON public.field_reviews FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.fields f WHERE f.id = field_id AND f.status = 'active')
+  );
+
+CREATE POLICY "Guests can't review fields"
+  ON public.field_reviews AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_guest());
+
+CREATE POLICY "Users can update their own reviews"
+  ON public.field_reviews FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reviews"
+  ON public.field_reviews FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Favorite fields policies
+CREATE POLICY "Users can view their own favorites"
+  ON public.favorite_fields FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own favorites"
+  ON public.favorite_fields FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own favorites"
+  ON public.favorite_fields FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Field reports policies
+CREATE POLICY "Users can view their own reports"
+  ON public.field_reports FOR SELECT
+  USING (reporter_id = auth.uid() OR is_moderator());
+
+CREATE POLICY "Users can report active fields"
+  ON public.field_reports FOR INSERT
+  WITH CHECK (
+    auth.uid() = reporter_id
+    AND status = 'open'
+    AND resolved_by IS NULL
+    AND EXISTS (SELECT 1 FROM public.fields f WHERE f.id = field_id AND f.status = 'active')
+  );
+
+CREATE POLICY "Guests can't report fields"
+  ON public.field_reports AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_guest());
+
+CREATE POLICY "Moderators can resolve reports"
+  ON public.field_reports FOR UPDATE
+  USING (is_moderator());
+
+-- Field edit suggestions policies
+CREATE POLICY "Suggestions are viewable by their author, the field owner and moderators"
+  ON public.field_edit_suggestions FOR SELECT
+  USING (
+    suggested_by = auth.uid()
+    OR is_moderator()
+    OR EXISTS (
+      SELECT 1 FROM public.fields f WHERE f.id = field_id AND f.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can suggest edits to active fields"
+  ON public.field_edit_suggestions FOR INSERT
+  WITH CHECK (
+    auth.uid() = suggested_by
+    AND status = 'pending'
+    AND previous_values IS NULL
+    AND reviewed_by IS NULL
+    AND EXISTS (SELECT 1 FROM public.fields f WHERE f.id = field_id AND f.status = 'active')
+  );
+
+CREATE POLICY "Guests can't suggest edits"
+  ON public.field_edit_suggestions AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_guest());
+
+-- Field history policies
+CREATE POLICY "Field history is viewable if field is visible"
+  ON public.field_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.fields f
+      WHERE f.id = field_id
+      AND (f.status = 'active' OR f.created_by = auth.uid() OR is_moderator())
+    )
+  );
+
+-- Games policies
+CREATE POLICY "Games are viewable by everyone"
+  ON public.games FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can organize games"
+  ON public.games FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated' AND organizer_id = auth.uid());
+
+CREATE POLICY "Guests can't organize games"
+  ON public.games AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_guest());
+
+CREATE POLICY "Organizers can update their own games"
+  ON public.games FOR UPDATE
+  USING (organizer_id = auth.uid())
+  WITH CHECK (organizer_id = auth.uid());
+
+-- Game players policies
+CREATE POLICY "Game rosters are viewable by everyone"
+  ON public.game_players FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can join games"
+  ON public.game_players FOR INSERT
+  WITH CHECK (player_id = auth.uid());
+
+CREATE POLICY "Guests can't join games"
+  ON public.game_players AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT is_guest());
+
+-- Organizers stay on the roster of the games they run
+CREATE POLICY "Users can leave games"
+  ON public.game_players FOR DELETE
+  USING (
+    player_id = auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.games g
+      WHERE g.id = game_id AND g.organizer_id = auth.uid()
+    )
+  );
+
+-- Notifications policies (rows are created by triggers only)
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their own notifications as read"
+  ON public.notifications FOR UPDATE
+  USING (user_id = auth.uid());
+
 -- =====================================================
 -- STORAGE BUCKET SETUP
 -- =====================================================
@@ -307,3 +2058,31 @@ CREATE POLICY "Users can delete their own uploaded images"
 --   bucket_id = 'field-images'
 --   AND auth.uid()::text = (storage.foldername(name))[1]
 -- );
+
+-- 3. Create a bucket called 'avatars' (public, 2MB limit, image/jpeg and image/webp only)
+-- 4. Set the following policies (profile photos live in a folder named after the user's ID):
+
+-- CREATE POLICY "Public read access for avatars"
+-- ON storage.objects FOR SELECT
+-- USING (bucket_id = 'avatars');
+
+-- CREATE POLICY "Users can upload their own avatar"
+-- ON storage.objects FOR INSERT
+-- WITH CHECK (
+--   bucket_id = 'avatars'
+--   AND auth.uid()::text = (storage.foldername(name))[1]
+-- );
+
+-- CREATE POLICY "Users can replace their own avatar"
+-- ON storage.objects FOR UPDATE
+-- USING (
+--   bucket_id = 'avatars'
+--   AND auth.uid()::text = (storage.foldername(name))[1]
+-- );
+
+-- CREATE POLICY "Users can delete their own avatar"
+-- ON storage.objects FOR DELETE
+-- USING (
+--   bucket_id = 'avatars'
+--   AND auth.uid()::text = (storage.foldername(name))[1]
+-- );